@@ -8,6 +8,15 @@ import { Login } from './pages/Login';
 import { Register } from './pages/Register';
 import Admin from './pages/Admin';
 import { Reports } from './pages/Reports';
+import { Catalog } from './pages/Catalog';
+import { DeliveryReceipts } from './pages/DeliveryReceipts';
+import { PurchaseOrders } from './pages/PurchaseOrders';
+import { RecurringBillings } from './pages/RecurringBillings';
+import { EmailTemplates } from './pages/EmailTemplates';
+import { PaymentReminderPolicies } from './pages/PaymentReminderPolicies';
+import { CompanySettings } from './pages/CompanySettings';
+import { BillingImport } from './pages/BillingImport';
+import { Sessions } from './pages/Sessions';
 
 // Protected route wrapper
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -37,8 +46,17 @@ export function App() {
           <Route path="/create" element={<ProtectedRoute><CreateBilling /></ProtectedRoute>} />
           <Route path="/reports" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
           <Route path="/drafts" element={<ProtectedRoute><Drafts /></ProtectedRoute>} />
+          <Route path="/catalog" element={<ProtectedRoute><Catalog /></ProtectedRoute>} />
+          <Route path="/delivery-receipts" element={<ProtectedRoute><DeliveryReceipts /></ProtectedRoute>} />
+          <Route path="/purchase-orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
+          <Route path="/recurring-billings" element={<ProtectedRoute><RecurringBillings /></ProtectedRoute>} />
           <Route path="/preview/:id" element={<ProtectedRoute><BillingPreview /></ProtectedRoute>} />
+          <Route path="/sessions" element={<ProtectedRoute><Sessions /></ProtectedRoute>} />
           <Route path="/admin" element={<ProtectedRoute><Admin /></ProtectedRoute>} />
+          <Route path="/admin/email-templates" element={<ProtectedRoute><EmailTemplates /></ProtectedRoute>} />
+          <Route path="/admin/payment-reminders" element={<ProtectedRoute><PaymentReminderPolicies /></ProtectedRoute>} />
+          <Route path="/admin/company-settings" element={<ProtectedRoute><CompanySettings /></ProtectedRoute>} />
+          <Route path="/admin/import-billings" element={<ProtectedRoute><BillingImport /></ProtectedRoute>} />
         </Routes>
       </Router>
     </AuthProvider>
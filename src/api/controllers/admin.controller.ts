@@ -5,7 +5,13 @@
 
 import { Response } from 'express';
 import { UserModel, UserRole } from '../models/User.model.js';
+import { BillingModel } from '../models/Billing.model.js';
 import { AuthRequest } from '../middleware/auth.middleware.js';
+import { SequenceService } from '../services/sequence.service.js';
+import { EmailOutboxWorker } from '../services/email.outbox.worker.js';
+import { PaymentReminderService } from '../services/payment.reminder.service.js';
+import { PaymentReminderScheduler } from '../services/payment.reminder.scheduler.js';
+import { SessionService } from '../services/session.service.js';
 
 /**
  * Get all users (admin only)
@@ -117,6 +123,8 @@ export const deleteUser = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
+    await SessionService.revokeAllForUser(String(userId), 'user-deleted');
+
     res.status(200).json({
       success: true,
       message: 'User deleted successfully'
@@ -130,3 +138,218 @@ export const deleteUser = async (req: AuthRequest, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * Sign a user out everywhere by ending all of their sessions (admin only)
+ * Takes effect on each device's next request.
+ */
+export const forceLogoutUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await UserModel.findById(userId).select('_id').lean();
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    const revoked = await SessionService.revokeAllForUser(String(userId), 'admin');
+
+    res.status(200).json({
+      success: true,
+      message: `Ended ${revoked} session(s)`,
+      data: { revoked }
+    });
+  } catch (error: any) {
+    console.error('Error forcing logout:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to log out user',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the highest billing sequence already used in a period
+ * Billings may exist that were numbered before the counter was introduced
+ */
+const getHighestIssuedBillingSequence = async (period: string): Promise<number> => {
+  const prefix = `${SequenceService.BILLING_PREFIX}-${period}-`;
+  const billings = await BillingModel.find({ billingNumber: { $regex: `^${prefix}` } })
+    .select('billingNumber')
+    .lean();
+
+  return billings.reduce((highest, billing) => {
+    const parsed = SequenceService.parseNumber(billing.billingNumber);
+    return parsed ? Math.max(highest, parsed.sequence) : highest;
+  }, 0);
+};
+
+/**
+ * Get the billing number sequence for a month (admin only)
+ * Query: period (YYYYMM, defaults to the current month)
+ */
+export const getBillingSequence = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const period = typeof req.query.period === 'string' ? req.query.period : SequenceService.getPeriod();
+
+    if (!/^\d{6}$/.test(period)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid period. Use YYYYMM format (e.g., 202601)'
+      });
+      return;
+    }
+
+    const [state, highestIssued] = await Promise.all([
+      SequenceService.getState(SequenceService.BILLING_PREFIX, period),
+      getHighestIssuedBillingSequence(period)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...state,
+        highestIssued
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching billing sequence:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch billing sequence',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Reseed the billing number sequence for a month (admin only)
+ * Body: { period?: string, sequence: number }
+ */
+export const reseedBillingSequence = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { period = SequenceService.getPeriod(), sequence } = req.body;
+
+    if (typeof period !== 'string' || !/^\d{6}$/.test(period)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid period. Use YYYYMM format (e.g., 202601)'
+      });
+      return;
+    }
+
+    if (!Number.isInteger(sequence) || sequence < 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Sequence must be a non-negative whole number'
+      });
+      return;
+    }
+
+    // Never allow the counter to go back over numbers that are already in use
+    const highestIssued = await getHighestIssuedBillingSequence(period);
+    if (sequence < highestIssued) {
+      res.status(409).json({
+        success: false,
+        message: `Sequence cannot be lower than the highest issued billing number (${SequenceService.formatNumber(SequenceService.BILLING_PREFIX, period, highestIssued)})`
+      });
+      return;
+    }
+
+    const state = await SequenceService.reseed(SequenceService.BILLING_PREFIX, period, sequence);
+
+    console.log(`Billing sequence ${period} reseeded to ${sequence} by ${req.user?.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Billing sequence updated successfully',
+      data: {
+        ...state,
+        highestIssued
+      }
+    });
+  } catch (error: any) {
+    console.error('Error reseeding billing sequence:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update billing sequence',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Attempt every due email in the outbox now
+ * Also the entry point for an external cron where the API runs serverless.
+ */
+export const processEmailOutbox = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sent = await EmailOutboxWorker.processDue();
+
+    res.status(200).json({
+      success: true,
+      message: `${sent} email(s) sent`,
+      data: { sent }
+    });
+  } catch (error: any) {
+    console.error('Error processing email outbox:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process email outbox',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the company-wide reminder policy and the clients that override it
+ */
+export const getPaymentReminderSettings = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const clients = await PaymentReminderService.findClientPolicies();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        companyPolicy: PaymentReminderService.getCompanyPolicy(),
+        clients
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching payment reminder settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payment reminder settings',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Send every payment reminder that has come due now
+ * Also the entry point for an external cron where the API runs serverless.
+ */
+export const runPaymentReminders = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sent = await PaymentReminderScheduler.runDue();
+
+    res.status(200).json({
+      success: true,
+      message: `${sent} reminder(s) sent`,
+      data: { sent }
+    });
+  } catch (error: any) {
+    console.error('Error running payment reminders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run payment reminders',
+      error: error.message
+    });
+  }
+};
@@ -6,13 +6,299 @@
 import { Response } from 'express';
 import mongoose from 'mongoose';
 import { BillingModel } from '../models/Billing.model.js';
+import { CreditMemoModel } from '../models/CreditMemo.model.js';
 import { AuthRequest } from '../middleware/auth.middleware.js';
 import { UserRole } from '../models/User.model.js';
+import { PURCHASE_ORDER_STATUSES } from '../models/PurchaseOrder.model.js';
+import { PurchaseOrderService } from '../services/purchase.order.service.js';
+import { EXPORT_CONTENT_TYPES } from '../services/billing.export.service.js';
+import { XlsxWriter } from '../services/spreadsheet.writer.js';
+
+/**
+ * Compute billing analytics and statistics
+ * Non-admin users only see the billings they created.
+ * @param user - Authenticated user
+ * @param dateFrom - Start of the billing date range (optional)
+ * @param dateTo - End of the billing date range (optional)
+ */
+async function buildBillingAnalytics(user: NonNullable<AuthRequest['user']>, dateFrom: unknown, dateTo: unknown) {
+  // Build base filter (voided billings are kept for audit but never counted)
+  const baseFilter: any = { status: { $ne: 'Void' } };
+
+  // Credit memos issued in the period are subtracted from the billing figures
+  const creditMemoFilter: any = {};
+
+  // Non-admin users can only see their own billings
+  // IMPORTANT: Use ObjectId for aggregation pipelines (aggregation doesn't auto-convert strings)
+  if (user.role !== UserRole.ADMIN) {
+    baseFilter.createdBy = new mongoose.Types.ObjectId(user.userId);
+  }
+
+  // Apply date range filter if provided
+  if (dateFrom || dateTo) {
+    baseFilter.billingDate = {};
+    creditMemoFilter.memoDate = {};
+    if (dateFrom && typeof dateFrom === 'string') {
+      baseFilter.billingDate.$gte = new Date(dateFrom);
+      creditMemoFilter.memoDate.$gte = new Date(dateFrom);
+    }
+    if (dateTo && typeof dateTo === 'string') {
+      baseFilter.billingDate.$lte = new Date(dateTo);
+      creditMemoFilter.memoDate.$lte = new Date(dateTo);
+    }
+  }
+
+  // Credit memos belong to whoever owns the original billing
+  const creditMemoPipeline: any[] = [{ $match: creditMemoFilter }];
+  if (baseFilter.createdBy) {
+    creditMemoPipeline.push(
+      { $lookup: { from: 'billings', localField: 'billingId', foreignField: '_id', as: 'billing' } },
+      { $match: { 'billing.createdBy': baseFilter.createdBy } }
+    );
+  }
+
+  // Get total billings count
+  const totalBillings = await BillingModel.countDocuments(baseFilter);
+
+  // Get total revenue (sum of all grandTotals) with net sales, output VAT and
+  // withholding reported separately. Billings created before VAT support have
+  // no breakdown; their grand total is counted as net sales.
+  const revenueResult = await BillingModel.aggregate([
+    { $match: baseFilter },
+    {
+      $group: {
+        _id: null,
+        totalRevenue: { $sum: '$grandTotal' },
+        totalSubtotal: { $sum: '$subtotal' },
+        totalDiscount: { $sum: '$discount' },
+        netSales: { $sum: { $ifNull: ['$taxBreakdown.netSales', '$grandTotal'] } },
+        outputVat: { $sum: { $ifNull: ['$taxBreakdown.vatAmount', 0] } },
+        withholdingTax: { $sum: { $ifNull: ['$taxBreakdown.withholdingTax', 0] } }
+      }
+    }
+  ]);
+
+  console.log('Analytics - Base Filter:', JSON.stringify(baseFilter));
+  console.log('Analytics - Revenue Result:', JSON.stringify(revenueResult));
+
+  const revenue = revenueResult[0] || {
+    totalRevenue: 0,
+    totalSubtotal: 0,
+    totalDiscount: 0,
+    netSales: 0,
+    outputVat: 0,
+    withholdingTax: 0
+  };
+
+  // Credit memo totals overall, per month and per client
+  const [creditResult] = await CreditMemoModel.aggregate([
+    ...creditMemoPipeline,
+    {
+      $group: {
+        _id: null,
+        amount: { $sum: '$amount' },
+        netSales: { $sum: '$netSales' },
+        vatAmount: { $sum: '$vatAmount' },
+        withholdingTax: { $sum: '$withholdingTax' },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+  const credits = creditResult || { amount: 0, netSales: 0, vatAmount: 0, withholdingTax: 0, count: 0 };
+
+  const monthlyCredits = await CreditMemoModel.aggregate([
+    ...creditMemoPipeline,
+    {
+      $group: {
+        _id: { year: { $year: '$memoDate' }, month: { $month: '$memoDate' } },
+        amount: { $sum: '$amount' },
+        netSales: { $sum: '$netSales' },
+        vatAmount: { $sum: '$vatAmount' }
+      }
+    }
+  ]);
+  const creditsByMonth = new Map(monthlyCredits.map(item => [`${item._id.year}-${item._id.month}`, item]));
+
+  const clientCredits = await CreditMemoModel.aggregate([
+    ...creditMemoPipeline,
+    { $group: { _id: { $ifNull: ['$clientId', '$companyName'] }, amount: { $sum: '$amount' } } }
+  ]);
+  const creditsByClient = new Map(clientCredits.map(item => [String(item._id), item.amount as number]));
+
+  // Get status breakdown
+  const statusBreakdown = await BillingModel.aggregate([
+    { $match: baseFilter },
+    {
+      $group: {
+        _id: '$status',
+        count: { $sum: 1 },
+        revenue: { $sum: '$grandTotal' }
+      }
+    }
+  ]);
+
+  // Get email status breakdown
+  const emailStatusBreakdown = await BillingModel.aggregate([
+    { $match: baseFilter },
+    {
+      $group: {
+        _id: '$emailStatus',
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  // Get top clients by revenue
+  // Linked billings are grouped by client record so spelling variants of the
+  // same company are counted together; unlinked billings fall back to the name.
+  const topClients = await BillingModel.aggregate([
+    { $match: baseFilter },
+    {
+      $group: {
+        _id: { $ifNull: ['$clientId', '$companyName'] },
+        clientId: { $first: '$clientId' },
+        companyName: { $first: '$companyName' },
+        totalRevenue: { $sum: '$grandTotal' },
+        billingCount: { $sum: 1 }
+      }
+    },
+    { $sort: { totalRevenue: -1 } },
+    { $limit: 10 },
+    {
+      $lookup: {
+        from: 'clients',
+        localField: 'clientId',
+        foreignField: '_id',
+        as: 'client'
+      }
+    }
+  ]);
+
+  // Get monthly revenue trend (last 12 months)
+  const monthlyRevenue = await BillingModel.aggregate([
+    { $match: baseFilter },
+    {
+      $group: {
+        _id: {
+          year: { $year: '$billingDate' },
+          month: { $month: '$billingDate' }
+        },
+        revenue: { $sum: '$grandTotal' },
+        netSales: { $sum: { $ifNull: ['$taxBreakdown.netSales', '$grandTotal'] } },
+        outputVat: { $sum: { $ifNull: ['$taxBreakdown.vatAmount', 0] } },
+        count: { $sum: 1 }
+      }
+    },
+    { $sort: { '_id.year': -1, '_id.month': -1 } },
+    { $limit: 12 }
+  ]);
+
+  // Get recent billings (last 10)
+  const recentBillings = await BillingModel.find(baseFilter)
+    .sort({ createdAt: -1 })
+    .limit(10)
+    .select('billingNumber companyName grandTotal status emailStatus billingDate')
+    .lean();
+
+  const netRevenue = Number((revenue.totalRevenue - credits.amount).toFixed(2));
+
+  // Calculate average billing amount
+  const averageBillingAmount = totalBillings > 0 
+    ? netRevenue / totalBillings 
+    : 0;
+
+  return {
+    summary: {
+      totalBillings,
+      totalRevenue: netRevenue,
+      totalSubtotal: revenue.totalSubtotal,
+      totalDiscount: revenue.totalDiscount,
+      totalCredits: Number(credits.amount.toFixed(2)),
+      creditMemoCount: credits.count,
+      netSales: Number((revenue.netSales - credits.netSales).toFixed(2)),
+      outputVat: Number((revenue.outputVat - credits.vatAmount).toFixed(2)),
+      withholdingTax: Number((revenue.withholdingTax - credits.withholdingTax).toFixed(2)),
+      averageBillingAmount
+    },
+    statusBreakdown: statusBreakdown.map(item => ({
+      status: item._id,
+      count: item.count,
+      revenue: item.revenue
+    })),
+    emailStatusBreakdown: emailStatusBreakdown.map(item => ({
+      status: item._id,
+      count: item.count
+    })),
+    topClients: topClients.map(item => ({
+      clientId: item.clientId || null,
+      companyName: item.client[0]?.companyName || item.companyName,
+      totalRevenue: Number((item.totalRevenue - (creditsByClient.get(String(item._id)) || 0)).toFixed(2)),
+      billingCount: item.billingCount
+    })).sort((a, b) => b.totalRevenue - a.totalRevenue),
+    monthlyRevenue: monthlyRevenue.map(item => {
+      const monthCredits = creditsByMonth.get(`${item._id.year}-${item._id.month}`);
+      return {
+        year: item._id.year,
+        month: item._id.month,
+        revenue: Number((item.revenue - (monthCredits?.amount || 0)).toFixed(2)),
+        netSales: Number((item.netSales - (monthCredits?.netSales || 0)).toFixed(2)),
+        outputVat: Number((item.outputVat - (monthCredits?.vatAmount || 0)).toFixed(2)),
+        count: item.count
+      };
+    }).reverse(),
+    recentBillings
+  };
+}
 
 /**
  * Get billing analytics and statistics
  */
 export const getBillingAnalytics = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    // Ensure user is authenticated
+    if (!req.user?.userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const data = await buildBillingAnalytics(req.user, req.query.dateFrom, req.query.dateTo);
+
+    // Disable caching for real-time data
+    res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+    res.set('Pragma', 'no-cache');
+    res.set('Expires', '0');
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error: any) {
+    console.error('Error fetching analytics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch analytics',
+      error: error.message
+    });
+  }
+};
+
+type BillingAnalytics = Awaited<ReturnType<typeof buildBillingAnalytics>>;
+
+interface SummaryRow {
+  metric: string;
+  amount?: number;
+  count?: number;
+}
+
+/**
+ * Export billing analytics as an XLSX workbook
+ * One sheet per section of the Reports page: summary, monthly revenue,
+ * top clients, status breakdowns and recent billings.
+ */
+export const exportBillingAnalytics = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     // Ensure user is authenticated
     if (!req.user?.userId) {
@@ -24,117 +310,238 @@ export const getBillingAnalytics = async (req: AuthRequest, res: Response): Prom
     }
 
     const { dateFrom, dateTo } = req.query;
+    const analytics: BillingAnalytics = await buildBillingAnalytics(req.user, dateFrom, dateTo);
+    const { summary } = analytics;
+
+    const period = dateFrom || dateTo ? `${dateFrom || 'start'} to ${dateTo || 'today'}` : 'All dates';
+    const summaryRows: SummaryRow[] = [
+      { metric: `Period: ${period}` },
+      { metric: 'Billings', count: summary.totalBillings },
+      { metric: 'Revenue (net of credits)', amount: summary.totalRevenue },
+      { metric: 'Subtotal', amount: summary.totalSubtotal },
+      { metric: 'Discounts', amount: summary.totalDiscount },
+      { metric: 'Credit memos', amount: summary.totalCredits, count: summary.creditMemoCount },
+      { metric: 'Net sales', amount: summary.netSales },
+      { metric: 'Output VAT', amount: summary.outputVat },
+      { metric: 'Withholding tax', amount: summary.withholdingTax },
+      { metric: 'Average billing', amount: summary.averageBillingAmount }
+    ];
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES.xlsx);
+    res.setHeader('Content-Disposition', `attachment; filename="billing-report-${new Date().toISOString().slice(0, 10)}.xlsx"`);
+    res.setHeader('Cache-Control', 'no-store');
 
-    // Build base filter
-    const baseFilter: any = {};
+    const workbook = new XlsxWriter(res);
+    await workbook.addSheet('Summary', [
+      { header: 'Metric', value: (row: SummaryRow) => row.metric, width: 32 },
+      { header: 'Amount', value: (row: SummaryRow) => row.amount, format: 'money', width: 16 },
+      { header: 'Count', value: (row: SummaryRow) => row.count, format: 'number' }
+    ], summaryRows);
+    await workbook.addSheet('Monthly Revenue', [
+      { header: 'Month', value: row => `${row.year}-${String(row.month).padStart(2, '0')}` },
+      { header: 'Billings', value: row => row.count, format: 'number' },
+      { header: 'Revenue', value: row => row.revenue, format: 'money', width: 16 },
+      { header: 'Net Sales', value: row => row.netSales, format: 'money', width: 16 },
+      { header: 'Output VAT', value: row => row.outputVat, format: 'money', width: 16 }
+    ], analytics.monthlyRevenue);
+    await workbook.addSheet('Top Clients', [
+      { header: 'Company', value: row => row.companyName, width: 32 },
+      { header: 'Billings', value: row => row.billingCount, format: 'number' },
+      { header: 'Revenue', value: row => row.totalRevenue, format: 'money', width: 16 }
+    ], analytics.topClients);
+    await workbook.addSheet('Status', [
+      { header: 'Status', value: row => row.status },
+      { header: 'Billings', value: row => row.count, format: 'number' },
+      { header: 'Revenue', value: row => row.revenue, format: 'money', width: 16 }
+    ], analytics.statusBreakdown);
+    await workbook.addSheet('Email Status', [
+      { header: 'Email Status', value: row => row.status, width: 14 },
+      { header: 'Billings', value: row => row.count, format: 'number' }
+    ], analytics.emailStatusBreakdown);
+    await workbook.addSheet('Recent Billings', [
+      { header: 'Billing Number', value: row => row.billingNumber, width: 18 },
+      { header: 'Billing Date', value: row => row.billingDate, format: 'date', width: 12 },
+      { header: 'Company', value: row => row.companyName, width: 32 },
+      { header: 'Grand Total', value: row => row.grandTotal, format: 'money', width: 16 },
+      { header: 'Status', value: row => row.status },
+      { header: 'Email Status', value: row => row.emailStatus, width: 14 }
+    ], analytics.recentBillings);
+    await workbook.finish();
+  } catch (error: any) {
+    console.error('Error exporting analytics:', error);
+
+    // Once the workbook has started the status can no longer change
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export analytics',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get accounts-receivable aging
+ * Buckets each client's outstanding balances by days past the due date
+ */
+export const getAgingReport = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    // Ensure user is authenticated
+    if (!req.user?.userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    // Age balances as of today unless another date is given
+    const asOf = typeof req.query.asOf === 'string' ? new Date(req.query.asOf) : new Date();
+    if (isNaN(asOf.getTime())) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid asOf format. Use ISO date string (e.g., 2026-01-31)'
+      });
+      return;
+    }
+    asOf.setHours(23, 59, 59, 999);
+
+    const baseFilter: any = {
+      billingDate: { $lte: asOf },
+      status: { $ne: 'Void' }
+    };
 
     // Non-admin users can only see their own billings
-    // IMPORTANT: Use ObjectId for aggregation pipelines (aggregation doesn't auto-convert strings)
     if (req.user.role !== UserRole.ADMIN) {
       baseFilter.createdBy = new mongoose.Types.ObjectId(req.user.userId);
     }
 
-    // Apply date range filter if provided
-    if (dateFrom || dateTo) {
-      baseFilter.billingDate = {};
-      if (dateFrom && typeof dateFrom === 'string') {
-        baseFilter.billingDate.$gte = new Date(dateFrom);
+    // Billings created before payments and terms were tracked have no
+    // balanceDue or dueDate; treat them as fully unpaid and due on the billing date.
+    const balance = { $ifNull: ['$balanceDue', '$grandTotal'] };
+    const daysOverdue = {
+      $floor: {
+        $divide: [{ $subtract: [asOf, { $ifNull: ['$dueDate', '$billingDate'] }] }, 1000 * 60 * 60 * 24]
       }
-      if (dateTo && typeof dateTo === 'string') {
-        baseFilter.billingDate.$lte = new Date(dateTo);
+    };
+    const bucket = (min: number | null, max: number | null) => ({
+      $sum: {
+        $cond: [
+          {
+            $and: [
+              min === null ? true : { $gte: ['$daysOverdue', min] },
+              max === null ? true : { $lte: ['$daysOverdue', max] }
+            ]
+          },
+          '$balance',
+          0
+        ]
       }
-    }
-
-    // Get total billings count
-    const totalBillings = await BillingModel.countDocuments(baseFilter);
+    });
 
-    // Get total revenue (sum of all grandTotals)
-    const revenueResult = await BillingModel.aggregate([
+    const aging = await BillingModel.aggregate([
       { $match: baseFilter },
+      { $addFields: { balance, daysOverdue } },
+      { $match: { balance: { $gt: 0 } } },
       {
         $group: {
-          _id: null,
-          totalRevenue: { $sum: '$grandTotal' },
-          totalSubtotal: { $sum: '$subtotal' },
-          totalDiscount: { $sum: '$discount' }
+          _id: { $ifNull: ['$clientId', '$companyName'] },
+          clientId: { $first: '$clientId' },
+          companyName: { $first: '$companyName' },
+          current: bucket(null, 0),
+          days1To30: bucket(1, 30),
+          days31To60: bucket(31, 60),
+          days61To90: bucket(61, 90),
+          over90: bucket(91, null),
+          total: { $sum: '$balance' },
+          billingCount: { $sum: 1 }
+        }
+      },
+      { $sort: { total: -1 } },
+      {
+        $lookup: {
+          from: 'clients',
+          localField: 'clientId',
+          foreignField: '_id',
+          as: 'client'
         }
       }
     ]);
 
-    console.log('Analytics - Base Filter:', JSON.stringify(baseFilter));
-    console.log('Analytics - Revenue Result:', JSON.stringify(revenueResult));
+    const clients = aging.map(item => ({
+      clientId: item.clientId || null,
+      companyName: item.client[0]?.companyName || item.companyName,
+      current: item.current,
+      days1To30: item.days1To30,
+      days31To60: item.days31To60,
+      days61To90: item.days61To90,
+      over90: item.over90,
+      total: item.total,
+      billingCount: item.billingCount
+    }));
 
-    const revenue = revenueResult[0] || {
-      totalRevenue: 0,
-      totalSubtotal: 0,
-      totalDiscount: 0
-    };
+    const totals = clients.reduce((sum, client) => ({
+      current: sum.current + client.current,
+      days1To30: sum.days1To30 + client.days1To30,
+      days31To60: sum.days31To60 + client.days31To60,
+      days61To90: sum.days61To90 + client.days61To90,
+      over90: sum.over90 + client.over90,
+      total: sum.total + client.total
+    }), { current: 0, days1To30: 0, days31To60: 0, days61To90: 0, over90: 0, total: 0 });
 
-    // Get status breakdown
-    const statusBreakdown = await BillingModel.aggregate([
-      { $match: baseFilter },
-      {
-        $group: {
-          _id: '$status',
-          count: { $sum: 1 },
-          revenue: { $sum: '$grandTotal' }
-        }
-      }
-    ]);
+    // Disable caching for real-time data
+    res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+    res.set('Pragma', 'no-cache');
+    res.set('Expires', '0');
 
-    // Get email status breakdown
-    const emailStatusBreakdown = await BillingModel.aggregate([
-      { $match: baseFilter },
-      {
-        $group: {
-          _id: '$emailStatus',
-          count: { $sum: 1 }
-        }
+    res.status(200).json({
+      success: true,
+      data: {
+        asOf,
+        totals,
+        clients
       }
-    ]);
+    });
+  } catch (error: any) {
+    console.error('Error fetching aging report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch aging report',
+      error: error.message
+    });
+  }
+};
 
-    // Get top clients by revenue
-    const topClients = await BillingModel.aggregate([
-      { $match: baseFilter },
-      {
-        $group: {
-          _id: '$companyName',
-          totalRevenue: { $sum: '$grandTotal' },
-          billingCount: { $sum: 1 }
-        }
-      },
-      { $sort: { totalRevenue: -1 } },
-      { $limit: 10 }
-    ]);
+/**
+ * Get purchase order fulfillment
+ * Ordered, billed and remaining quantities per PO and line. Purchase orders
+ * are shared client records, so every user sees the same figures.
+ */
+export const getPoFulfillmentReport = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    const { clientId, status } = req.query;
 
-    // Get monthly revenue trend (last 12 months)
-    const monthlyRevenue = await BillingModel.aggregate([
-      { $match: baseFilter },
-      {
-        $group: {
-          _id: {
-            year: { $year: '$billingDate' },
-            month: { $month: '$billingDate' }
-          },
-          revenue: { $sum: '$grandTotal' },
-          count: { $sum: 1 }
-        }
-      },
-      { $sort: { '_id.year': -1, '_id.month': -1 } },
-      { $limit: 12 }
-    ]);
+    if (typeof clientId === 'string' && /^[0-9a-fA-F]{24}$/.test(clientId)) {
+      filter.clientId = clientId;
+    }
+    if (typeof status === 'string' && (PURCHASE_ORDER_STATUSES as readonly string[]).includes(status)) {
+      filter.status = status;
+    }
 
-    // Get recent billings (last 10)
-    const recentBillings = await BillingModel.find(baseFilter)
-      .sort({ createdAt: -1 })
-      .limit(10)
-      .select('billingNumber companyName grandTotal status emailStatus billingDate')
-      .lean();
+    const purchaseOrders = await PurchaseOrderService.withFulfillment(await PurchaseOrderService.findAll(filter));
 
-    // Calculate average billing amount
-    const averageBillingAmount = totalBillings > 0 
-      ? revenue.totalRevenue / totalBillings 
-      : 0;
+    const totals = purchaseOrders.reduce((sum, po) => ({
+      orderedQuantity: sum.orderedQuantity + po.orderedQuantity,
+      billedQuantity: sum.billedQuantity + po.billedQuantity,
+      orderedAmount: sum.orderedAmount + po.orderedAmount,
+      billedAmount: sum.billedAmount + po.billedAmount,
+      fullyBilled: sum.fullyBilled + (po.remainingQuantity <= 0 ? 1 : 0),
+      overBilled: sum.overBilled + (po.lines.some(line => line.remainingQuantity < 0) ? 1 : 0)
+    }), { orderedQuantity: 0, billedQuantity: 0, orderedAmount: 0, billedAmount: 0, fullyBilled: 0, overBilled: 0 });
 
     // Disable caching for real-time data
     res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
@@ -144,41 +551,19 @@ export const getBillingAnalytics = async (req: AuthRequest, res: Response): Prom
     res.status(200).json({
       success: true,
       data: {
-        summary: {
-          totalBillings,
-          totalRevenue: revenue.totalRevenue,
-          totalSubtotal: revenue.totalSubtotal,
-          totalDiscount: revenue.totalDiscount,
-          averageBillingAmount
+        totals: {
+          ...totals,
+          purchaseOrderCount: purchaseOrders.length,
+          remainingQuantity: totals.orderedQuantity - totals.billedQuantity
         },
-        statusBreakdown: statusBreakdown.map(item => ({
-          status: item._id,
-          count: item.count,
-          revenue: item.revenue
-        })),
-        emailStatusBreakdown: emailStatusBreakdown.map(item => ({
-          status: item._id,
-          count: item.count
-        })),
-        topClients: topClients.map(item => ({
-          companyName: item._id,
-          totalRevenue: item.totalRevenue,
-          billingCount: item.billingCount
-        })),
-        monthlyRevenue: monthlyRevenue.map(item => ({
-          year: item._id.year,
-          month: item._id.month,
-          revenue: item.revenue,
-          count: item.count
-        })).reverse(),
-        recentBillings
+        purchaseOrders
       }
     });
   } catch (error: any) {
-    console.error('Error fetching analytics:', error);
+    console.error('Error fetching PO fulfillment report:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to fetch analytics',
+      message: 'Failed to fetch PO fulfillment report',
       error: error.message
     });
   }
@@ -1,27 +1,47 @@
 /**
  * Authentication Controller
  * Handles user registration, login, and authentication
+ * Signing in starts a session: the app gets a short-lived access token and a
+ * refresh token that is exchanged for new tokens until the session ends.
  */
 
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
 import { UserModel, UserRole } from '../models/User.model.js';
 import { AuthRequest } from '../middleware/auth.middleware.js';
+import { SessionService } from '../services/session.service.js';
+import { securityConfig } from '../../config/index.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
-const JWT_EXPIRES_IN = '7d';
 
 /**
- * Generate JWT token
+ * Generate an access token for a session
  */
-const generateToken = (userId: string, email: string, role: UserRole): string => {
+const generateToken = (userId: string, email: string, role: UserRole, sessionId: string): string => {
   return jwt.sign(
-    { userId, email, role },
+    { userId, email, role, sessionId },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn: securityConfig.accessTokenExpiresIn as SignOptions['expiresIn'] }
   );
 };
 
+/**
+ * Start a session for a user who has just signed in
+ * @returns The access and refresh tokens to send back
+ */
+const startSession = async (req: Request, user: { _id?: unknown; email: string; role: UserRole }) => {
+  const userId = String(user._id);
+  const { session, refreshToken } = await SessionService.create(userId, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  });
+
+  return {
+    token: generateToken(userId, user.email, user.role, String(session._id)),
+    refreshToken
+  };
+};
+
 /**
  * Register new user
  */
@@ -58,14 +78,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id!.toString(), user.email, user.role);
+    const tokens = await startSession(req, user);
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
-        token,
+        ...tokens,
         user: {
           id: user._id,
           email: user.email,
@@ -120,14 +139,13 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate token
-    const token = generateToken(user._id!.toString(), user.email, user.role);
+    const tokens = await startSession(req, user);
 
     res.status(200).json({
       success: true,
       message: 'Login successful',
       data: {
-        token,
+        ...tokens,
         user: {
           id: user._id,
           email: user.email,
@@ -189,3 +207,139 @@ export const getProfile = async (req: AuthRequest, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * The refresh token sent is used up; keep the new one.
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body ?? {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+      return;
+    }
+
+    const rotated = await SessionService.rotate(refreshToken);
+    const user = rotated ? await UserModel.findById(rotated.session.userId).select('-password') : null;
+
+    if (!rotated || !user) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please sign in again'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        token: generateToken(user._id!.toString(), user.email, user.role, String(rotated.session._id)),
+        refreshToken: rotated.refreshToken,
+        user: {
+          id: user._id,
+          email: user.email,
+          name: user.name,
+          role: user.role
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error('Error refreshing session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh session',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Sign out: end the session of a refresh token
+ * Works without a valid access token, so an expired sign-in can still be ended.
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body ?? {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+      return;
+    }
+
+    await SessionService.revokeByRefreshToken(refreshToken, 'logout');
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error: any) {
+    console.error('Error logging out:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to log out',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the sessions the current user is signed in with
+ */
+export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await SessionService.findActiveByUser(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session,
+        current: String(session._id) === req.user!.sessionId
+      })),
+      count: sessions.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch sessions',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * End one of the current user's sessions (signs that device out)
+ */
+export const revokeSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await SessionService.revoke(String(req.params.sessionId), 'revoked', req.user!.userId);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error: any) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke session',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,306 @@
+/**
+ * Billing Bulk Controller
+ * Handles HTTP requests that act on several selected billings at once.
+ * Each billing goes through the same checks as its single-billing route, and
+ * the response reports the outcome for every billing.
+ */
+
+import { Response } from 'express';
+import { Billing } from '../../types/billing.types.js';
+import { BillingService } from '../services/billing.service.js';
+import { PdfGenerationService } from '../services/pdf.generation.service.js';
+import { PdfStorageService } from '../services/pdf.storage.service.js';
+import { EmailOutboxWorker } from '../services/email.outbox.worker.js';
+import { AuditService } from '../services/audit.service.js';
+import { ZipWriter } from '../services/zip.writer.js';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { canAccess } from '../middleware/authorize.middleware.js';
+import { BillingActionResult, queueBillingEmail, voidBillingRecord } from './billing.controller.js';
+import { recordBillingPayment } from './payment.controller.js';
+
+/** Most billings one bulk request may select */
+const MAX_BULK_BILLINGS = 100;
+
+/**
+ * Outcome of a bulk action for one selected billing
+ */
+export interface BulkBillingResult {
+  /** ID or billing number as selected */
+  id: string;
+  billingNumber?: string;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Read the selected billing IDs or numbers from the request body
+ * @returns The distinct IDs, or an error message
+ */
+function parseBulkIds(body: any): { ids: string[] } | { error: string } {
+  const ids = body?.ids;
+
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' || id.trim() === '')) {
+    return { error: 'ids must be a non-empty list of billing IDs or numbers' };
+  }
+
+  const distinct = [...new Set(ids.map((id: string) => id.trim()))];
+  if (distinct.length > MAX_BULK_BILLINGS) {
+    return { error: `At most ${MAX_BULK_BILLINGS} billings can be selected at once` };
+  }
+
+  return { ids: distinct };
+}
+
+/**
+ * Load the selected billings the user may act on
+ * Billings that are missing or owned by someone else are reported as not
+ * found, the same as on the single-billing routes.
+ */
+async function loadBulkBillings(
+  ids: string[],
+  user: AuthRequest['user']
+): Promise<{ billings: { id: string; billing: Billing }[]; failures: BulkBillingResult[] }> {
+  const billings: { id: string; billing: Billing }[] = [];
+  const failures: BulkBillingResult[] = [];
+
+  for (const id of ids) {
+    const billing = await BillingService.findByIdOrNumber(id);
+    if (billing && canAccess(user, billing.createdBy)) {
+      billings.push({ id, billing });
+    } else {
+      failures.push({ id, success: false, message: 'Billing not found' });
+    }
+  }
+
+  return { billings, failures };
+}
+
+/**
+ * Run an action on every selected billing and respond with each outcome
+ * One billing failing does not stop the others.
+ * @param verb - Past tense of the action for the summary message (e.g. 'voided')
+ */
+async function runBulkAction(
+  req: AuthRequest,
+  res: Response,
+  verb: string,
+  action: (billing: Billing) => Promise<BillingActionResult>
+): Promise<Response> {
+  const parsed = parseBulkIds(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: [parsed.error]
+    });
+  }
+
+  const { billings, failures } = await loadBulkBillings(parsed.ids, req.user);
+  const outcomes = new Map<string, BulkBillingResult>(failures.map(failure => [failure.id, failure]));
+
+  for (const { id, billing } of billings) {
+    try {
+      const result = await action(billing);
+      outcomes.set(id, {
+        id,
+        billingNumber: billing.billingNumber,
+        success: result.body.success,
+        message: result.body.errors?.join('; ') || [result.body.message, ...(result.body.warnings ?? [])].join('. ')
+      });
+    } catch (error) {
+      console.error(`Error in bulk action for billing ${billing.billingNumber}:`, error);
+      outcomes.set(id, {
+        id,
+        billingNumber: billing.billingNumber,
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Report in the order the billings were selected
+  const results = parsed.ids.map(id => outcomes.get(id)!);
+  const succeeded = results.filter(result => result.success).length;
+
+  return res.status(200).json({
+    success: succeeded === results.length,
+    message: `${succeeded} of ${results.length} billing(s) ${verb}`,
+    data: {
+      results,
+      succeeded,
+      failed: results.length - succeeded
+    }
+  });
+}
+
+/**
+ * Queue the invoice email of each selected billing to its client email
+ * POST /api/billings/bulk/email
+ */
+export async function bulkEmailBillings(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    const response = await runBulkAction(req, res, 'queued for email', billing => {
+      if (!billing.clientEmail) {
+        return Promise.resolve({
+          status: 400,
+          body: { success: false, message: 'Billing has no client email' }
+        });
+      }
+      return queueBillingEmail(billing, billing.clientEmail, req.user?.userId);
+    });
+
+    EmailOutboxWorker.trigger();
+    return response;
+  } catch (error) {
+    console.error('Error in bulkEmailBillings:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while queueing emails',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Void each selected billing with the same reason
+ * POST /api/billings/bulk/void
+ */
+export async function bulkVoidBillings(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A reason is required to void a billing'
+      });
+    }
+
+    return await runBulkAction(req, res, 'voided', billing => voidBillingRecord(billing, reason, req.user!.userId));
+  } catch (error) {
+    console.error('Error in bulkVoidBillings:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while voiding billings',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Record a payment for the balance due of each selected billing
+ * POST /api/billings/bulk/mark-paid
+ */
+export async function bulkMarkBillingsPaid(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    const { paymentDate, method, referenceNumber, notes } = req.body ?? {};
+
+    return await runBulkAction(req, res, 'marked as paid', billing => {
+      const balanceDue = billing.balanceDue ?? billing.grandTotal;
+      if (billing.status !== 'Void' && balanceDue <= 0) {
+        return Promise.resolve({
+          status: 409,
+          body: { success: false, message: 'Billing is already paid' }
+        });
+      }
+      return recordBillingPayment(
+        billing,
+        { paymentDate: paymentDate ?? new Date().toISOString(), amount: balanceDue, method, referenceNumber, notes },
+        req.user?.userId
+      );
+    });
+  } catch (error) {
+    console.error('Error in bulkMarkBillingsPaid:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while recording payments',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Download the PDFs of the selected billings as one ZIP
+ * PDFs missing from storage are regenerated, as on the single download.
+ * Billings that cannot be included are listed in errors.txt inside the ZIP
+ * and counted in the X-Bulk-Failed header.
+ * POST /api/billings/bulk/download
+ */
+export async function bulkDownloadBillingPdfs(req: AuthRequest, res: Response): Promise<Response | void> {
+  try {
+    const parsed = parseBulkIds(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: [parsed.error]
+      });
+    }
+
+    const { billings, failures } = await loadBulkBillings(parsed.ids, req.user);
+
+    // Make sure every PDF is in storage before the response starts
+    const included: Billing[] = [];
+    for (const { id, billing } of billings) {
+      try {
+        if (!billing.pdfStorageKey) {
+          failures.push({ id, billingNumber: billing.billingNumber, success: false, message: 'PDF has not been generated for this billing yet' });
+          continue;
+        }
+        if (!(await PdfStorageService.exists(billing.pdfStorageKey))) {
+          // Invoices are always stored under their billing number, so the key is unchanged
+          await PdfGenerationService.generateInvoice(billing);
+        }
+        included.push(billing);
+      } catch (error) {
+        console.error(`Error preparing PDF for billing ${billing.billingNumber}:`, error);
+        failures.push({ id, billingNumber: billing.billingNumber, success: false, message: 'PDF could not be found in storage' });
+      }
+    }
+
+    if (included.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'None of the selected billings have a PDF to download',
+        data: { results: failures }
+      });
+    }
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="billings-${stamp}.zip"`);
+    res.setHeader('X-Bulk-Failed', String(failures.length));
+
+    try {
+      const zip = new ZipWriter(res);
+      for (const billing of included) {
+        const pdfStream = await PdfStorageService.openReadStream(billing.pdfStorageKey!);
+        if (!pdfStream) {
+          throw new Error(`PDF for billing ${billing.billingNumber} disappeared from storage`);
+        }
+        await zip.addEntry(`${billing.billingNumber}.pdf`, pdfStream);
+        await AuditService.record(billing, 'download', req.user?.userId);
+      }
+      if (failures.length > 0) {
+        await zip.addEntry('errors.txt', failures.map(failure =>
+          `${failure.billingNumber || failure.id}: ${failure.message}`
+        ).join('\r\n') + '\r\n');
+      }
+      await zip.finish();
+    } catch (streamError) {
+      // Headers are already sent; cut the download short so it is not mistaken for a complete file
+      console.error('Error streaming billing PDFs:', streamError);
+      res.destroy(streamError instanceof Error ? streamError : undefined);
+    }
+  } catch (error) {
+    console.error('Error in bulkDownloadBillingPdfs:', error);
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while downloading PDFs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
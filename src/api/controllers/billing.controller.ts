@@ -3,14 +3,17 @@
  * Handles HTTP requests for billing operations
  */
 
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { 
   Billing, 
   CreateBillingDTO, 
+  UpdateBillingDTO,
   BillingItem,
   calculateLineTotal,
   calculateSubtotal,
-  calculateGrandTotal 
+  calculateGrandTotal,
+  calculateTaxBreakdown,
+  calculateDueDate
 } from '../../types/billing.types';
 import { 
   validateCompanyName,
@@ -19,101 +22,373 @@ import {
   validateAttentionPerson,
   validateBillingDate,
   validateBillingItems,
-  validateDiscount
+  validateDiscount,
+  validatePaymentTerms,
+  validateTaxSettings,
+  validateVatType
 } from '../../lib/validation';
-import { generateBillingNumber } from '../../lib/utils';
 import { BillingService } from '../services/billing.service';
+import { SequenceService } from '../services/sequence.service.js';
+import { ClientService } from '../services/client.service.js';
+import { CatalogService } from '../services/catalog.service.js';
+import { PaymentService } from '../services/payment.service.js';
 import { PdfGenerationService } from '../services/pdf.generation.service';
-import { EmailService } from '../services/email.service';
+import { PdfStorageService } from '../services/pdf.storage.service.js';
+import { EmailOutboxService } from '../services/email.outbox.service.js';
+import { EmailOutboxWorker } from '../services/email.outbox.worker.js';
+import { AuditService } from '../services/audit.service.js';
+import { PaymentReminderService } from '../services/payment.reminder.service.js';
+import { DeliveryReceiptService } from '../services/delivery.receipt.service.js';
+import { PurchaseOrderService } from '../services/purchase.order.service.js';
+import { BillingImportService } from '../services/billing.import.service.js';
+import { BillingExportService, BillingExportFormat, BILLING_EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from '../services/billing.export.service.js';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { ResourceRequest, canAccess } from '../middleware/authorize.middleware.js';
 import { UserRole } from '../models/User.model.js';
+import { DeliveryReceipt } from '../models/DeliveryReceipt.model.js';
 
 /**
- * Create a new billing record
- * POST /api/billings
+ * Fields a client may change through PUT /api/billings/:id
+ * Everything else is either derived (totals, due date, balances) or owned by
+ * its own workflow (numbering, PDF, email, payments, voiding).
  */
-export async function createBilling(req: AuthRequest, res: Response): Promise<Response> {
-  try {
-    const billingData: CreateBillingDTO = req.body;
+const UPDATABLE_FIELDS = [
+  'billingDate',
+  'deliveryReceiptNumber',
+  'clientId',
+  'companyName',
+  'address',
+  'contactNumber',
+  'attentionPerson',
+  'clientEmail',
+  'items',
+  'discount',
+  'vatMode',
+  'withholdingRate',
+  'paymentTerms',
+  'customTermDays'
+];
 
-    // Ensure user is authenticated
-    if (!req.user?.userId) {
-      return res.status(401).json({
-        success: false,
-        message: 'Authentication required'
-      });
-    }
+/**
+ * Validate the client, date, terms, tax and item fields of a billing
+ * Shared by create and update so both enforce the same rules.
+ * @returns Validation error messages (empty when valid)
+ */
+async function validateBillingData(billingData: CreateBillingDTO): Promise<string[]> {
+  const validationErrors: string[] = [];
 
-    // Validate required fields
-    const validationErrors: string[] = [];
+  // Validate company name
+  const companyNameValidation = validateCompanyName(billingData.companyName);
+  if (!companyNameValidation.isValid) {
+    validationErrors.push(companyNameValidation.error!);
+  }
 
-    // Validate company name
-    const companyNameValidation = validateCompanyName(billingData.companyName);
-    if (!companyNameValidation.isValid) {
-      validationErrors.push(companyNameValidation.error!);
-    }
+  // Validate address
+  const addressValidation = validateAddress(billingData.address);
+  if (!addressValidation.isValid) {
+    validationErrors.push(addressValidation.error!);
+  }
 
-    // Validate address
-    const addressValidation = validateAddress(billingData.address);
-    if (!addressValidation.isValid) {
-      validationErrors.push(addressValidation.error!);
-    }
+  // Validate contact number
+  const contactValidation = validateContactNumber(billingData.contactNumber);
+  if (!contactValidation.isValid) {
+    validationErrors.push(contactValidation.error!);
+  }
 
-    // Validate contact number
-    const contactValidation = validateContactNumber(billingData.contactNumber);
-    if (!contactValidation.isValid) {
-      validationErrors.push(contactValidation.error!);
-    }
+  // Validate attention person
+  const attentionValidation = validateAttentionPerson(billingData.attentionPerson);
+  if (!attentionValidation.isValid) {
+    validationErrors.push(attentionValidation.error!);
+  }
 
-    // Validate attention person
-    const attentionValidation = validateAttentionPerson(billingData.attentionPerson);
-    if (!attentionValidation.isValid) {
-      validationErrors.push(attentionValidation.error!);
-    }
+  // Validate billing date
+  const dateValidation = validateBillingDate(billingData.billingDate);
+  if (!dateValidation.isValid) {
+    validationErrors.push(dateValidation.error!);
+  }
 
-    // Validate billing date
-    const dateValidation = validateBillingDate(billingData.billingDate);
-    if (!dateValidation.isValid) {
-      validationErrors.push(dateValidation.error!);
+  // Validate payment terms (defaults to COD)
+  const paymentTerms = billingData.paymentTerms || 'COD';
+  const termsValidation = validatePaymentTerms(paymentTerms, billingData.customTermDays);
+  if (!termsValidation.isValid) {
+    validationErrors.push(termsValidation.error!);
+  }
+
+  // Validate VAT mode and withholding (defaults to no VAT, no withholding)
+  const vatMode = billingData.vatMode || 'None';
+  const withholdingRate = billingData.withholdingRate ?? 0;
+  const taxValidation = validateTaxSettings(vatMode, withholdingRate);
+  if (!taxValidation.isValid) {
+    validationErrors.push(taxValidation.error!);
+  }
+
+  // Validate items
+  if (!billingData.items || !Array.isArray(billingData.items)) {
+    validationErrors.push('Items must be an array');
+  } else {
+    const itemsValidation = validateBillingItems(billingData.items);
+    if (!itemsValidation.isValid) {
+      validationErrors.push(itemsValidation.error!);
     }
 
-    // Validate items
-    if (!billingData.items || !Array.isArray(billingData.items)) {
-      validationErrors.push('Items must be an array');
-    } else {
-      const itemsValidation = validateBillingItems(billingData.items);
-      if (!itemsValidation.isValid) {
-        validationErrors.push(itemsValidation.error!);
+    // Validate each item
+    billingData.items.forEach((item, index) => {
+      if (!item.description || item.description.trim() === '') {
+        validationErrors.push(`Item ${index + 1}: Description is required`);
+      }
+      if (!item.quantity || item.quantity <= 0) {
+        validationErrors.push(`Item ${index + 1}: Quantity must be greater than 0`);
+      }
+      if (item.unitPrice === undefined || item.unitPrice < 0) {
+        validationErrors.push(`Item ${index + 1}: Unit price cannot be negative`);
+      }
+      const vatTypeValidation = validateVatType(item.vatType);
+      if (!vatTypeValidation.isValid) {
+        validationErrors.push(`Item ${index + 1}: ${vatTypeValidation.error}`);
       }
+    });
 
-      // Validate each item
+    // Catalog references must point at existing catalog items
+    const catalogItemIds = billingData.items
+      .map(item => item.catalogItemId)
+      .filter((catalogItemId): catalogItemId is string => !!catalogItemId);
+    if (catalogItemIds.length > 0) {
+      const invalidId = catalogItemIds.find(catalogItemId => !/^[0-9a-fA-F]{24}$/.test(catalogItemId));
+      const found = invalidId ? [] : await CatalogService.findByIds(catalogItemIds);
+      const foundIds = new Set(found.map(catalogItem => catalogItem._id!.toString()));
       billingData.items.forEach((item, index) => {
-        if (!item.description || item.description.trim() === '') {
-          validationErrors.push(`Item ${index + 1}: Description is required`);
-        }
-        if (!item.quantity || item.quantity <= 0) {
-          validationErrors.push(`Item ${index + 1}: Quantity must be greater than 0`);
-        }
-        if (item.unitPrice === undefined || item.unitPrice < 0) {
-          validationErrors.push(`Item ${index + 1}: Unit price cannot be negative`);
+        if (item.catalogItemId && !foundIds.has(item.catalogItemId)) {
+          validationErrors.push(`Item ${index + 1}: Catalog item not found`);
         }
       });
     }
+  }
+
+  return validationErrors;
+}
+
+/**
+ * Load the delivery receipts a billing is being created from
+ * Every receipt must exist, belong to the user (or the user is an admin),
+ * still be open, and all receipts must be for the same client.
+ * @returns Receipts in delivery order, or validation error messages
+ */
+async function loadDeliveryReceipts(
+  ids: unknown,
+  user: AuthRequest['user']
+): Promise<{ receipts: DeliveryReceipt[]; errors: string[] }> {
+  if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !/^[0-9a-fA-F]{24}$/.test(id))) {
+    return { receipts: [], errors: ['Delivery receipt IDs must be a list of valid IDs'] };
+  }
+
+  const uniqueIds = [...new Set(ids as string[])];
+  const receipts = (await DeliveryReceiptService.findByIds(uniqueIds))
+    .filter(receipt => canAccess(user, receipt.createdBy));
+  const errors: string[] = [];
+
+  if (receipts.length !== uniqueIds.length) {
+    errors.push('One or more delivery receipts were not found');
+  }
+
+  receipts
+    .filter(receipt => receipt.status !== 'Open')
+    .forEach(receipt => errors.push(`Delivery receipt ${receipt.drNumber} has already been billed on ${receipt.billingNumber}`));
+
+  // Receipts linked to a client record are matched by ID, others by company name
+  const clientKeys = new Set(receipts.map(receipt =>
+    receipt.clientId ? String(receipt.clientId) : receipt.companyName.trim().toLowerCase()
+  ));
+  if (clientKeys.size > 1) {
+    errors.push('All delivery receipts on a billing must be for the same client');
+  }
+
+  return { receipts, errors };
+}
+
+/**
+ * Fill in a billing from its delivery receipts
+ * Client details come from the first receipt and lines are carried over at
+ * the delivered quantity; anything the request supplies itself is kept.
+ */
+function carryOverDeliveryReceipts(billingData: CreateBillingDTO, receipts: DeliveryReceipt[]): CreateBillingDTO {
+  const [first] = receipts;
+
+  const items: BillingItem[] = billingData.items?.length
+    ? billingData.items
+    : receipts.flatMap(receipt => receipt.items
+      .filter(item => item.deliveredQuantity > 0)
+      .map(item => ({
+        id: `${receipt.drNumber}-${item.id}`,
+        quantity: item.deliveredQuantity,
+        description: item.description,
+        unitPrice: item.unitPrice,
+        lineTotal: calculateLineTotal(item.deliveredQuantity, item.unitPrice),
+        catalogItemId: item.catalogItemId ? String(item.catalogItemId) : undefined,
+        deliveryReceiptNumber: receipt.drNumber
+      })));
+
+  return {
+    ...billingData,
+    deliveryReceiptNumber: billingData.deliveryReceiptNumber || receipts.map(receipt => receipt.drNumber).join(', '),
+    clientId: billingData.clientId || (first.clientId ? String(first.clientId) : undefined),
+    companyName: billingData.companyName || first.companyName,
+    address: billingData.address || first.address,
+    contactNumber: billingData.contactNumber || first.contactNumber || '',
+    attentionPerson: billingData.attentionPerson || first.attentionPerson || '',
+    items
+  };
+}
+
+/**
+ * Outcome of the billing create pipeline: the HTTP status and JSON body
+ */
+export interface CreateBillingResult {
+  status: number;
+  body: {
+    success: boolean;
+    message: string;
+    data?: Billing;
+    errors?: string[];
+    warnings?: string[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Outcome of an action on one billing: the HTTP status and JSON body
+ * Lets the same action back both its own route and the bulk routes.
+ */
+export interface BillingActionResult {
+  status: number;
+  body: {
+    success: boolean;
+    message: string;
+    data?: unknown;
+    errors?: string[];
+    warnings?: string[];
+  };
+}
+
+/**
+ * Rebuild the stored PDF of a billing that has just been saved
+ * Drafts become 'Generated' once they have a PDF.
+ * @returns The billing with its PDF key, and a warning if the PDF could not be rebuilt
+ */
+async function regenerateBillingPdf(billing: Billing, actorId?: string): Promise<{ billing: Billing; warning?: string }> {
+  try {
+    const pdfKey = await PdfGenerationService.generateInvoice(billing);
+
+    const pdfUpdates: Partial<Billing> = {};
+    if (billing.pdfStorageKey !== pdfKey) {
+      pdfUpdates.pdfStorageKey = pdfKey;
+    }
+    if (billing.status === 'Draft') {
+      pdfUpdates.status = 'Generated';
+    }
+    if (Object.keys(pdfUpdates).length === 0) {
+      return { billing };
+    }
+
+    const updatedBilling = await BillingService.update(String(billing._id), pdfUpdates, { actorId });
+    if (!updatedBilling) {
+      return { billing, warning: 'PDF was regenerated but could not be saved on the billing' };
+    }
+    return { billing: updatedBilling };
+  } catch (pdfError) {
+    console.error(`Error regenerating PDF for billing ${billing.billingNumber}:`, pdfError);
+    const errorMessage = pdfError instanceof Error ? pdfError.message : 'Unknown PDF error';
+    return { billing, warning: `PDF regeneration failed: ${errorMessage}. The stored PDF may still show the previous content` };
+  }
+}
+
+/**
+ * Create a billing and run its PDF and email pipeline
+ * Shared by POST /api/billings, delivery receipt consolidation and the
+ * recurring billing scheduler so every billing is validated and numbered the
+ * same way.
+ * @param input - Billing data (plus an optional recipientEmail override)
+ * @param user - User the billing is created for
+ * @param options - sendEmail: false skips the email step
+ */
+export async function createBillingRecord(
+  input: CreateBillingDTO & { recipientEmail?: string },
+  user: NonNullable<AuthRequest['user']>,
+  options: { sendEmail?: boolean } = {}
+): Promise<CreateBillingResult> {
+  const sendEmail = options.sendEmail !== false;
+
+  try {
+    let billingData: CreateBillingDTO = input;
+
+    // Billing delivery receipts: carry their client and lines over
+    let deliveryReceiptIds: string[] = [];
+    if (billingData.deliveryReceiptIds !== undefined) {
+      const { receipts, errors } = await loadDeliveryReceipts(billingData.deliveryReceiptIds, user);
+      if (errors.length > 0 || receipts.length === 0) {
+        return {
+          status: 400,
+          body: {
+            success: false,
+            message: 'Validation failed',
+            errors: errors.length > 0 ? errors : ['At least one delivery receipt is required']
+          }
+        };
+      }
+      const receiptClientId = receipts[0].clientId ? String(receipts[0].clientId) : undefined;
+      if (billingData.clientId && receiptClientId && billingData.clientId !== receiptClientId) {
+        return {
+          status: 400,
+          body: {
+            success: false,
+            message: 'Validation failed',
+            errors: ['Delivery receipts belong to a different client']
+          }
+        };
+      }
+      billingData = carryOverDeliveryReceipts(billingData, receipts);
+      deliveryReceiptIds = receipts.map(receipt => String(receipt._id));
+
+      // Lines may only reference the receipts being billed
+      const drNumbers = new Set(receipts.map(receipt => receipt.drNumber));
+      const strayLines = (billingData.items || [])
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.deliveryReceiptNumber && !drNumbers.has(item.deliveryReceiptNumber));
+      if (strayLines.length > 0) {
+        return {
+          status: 400,
+          body: {
+            success: false,
+            message: 'Validation failed',
+            errors: strayLines.map(({ item, index }) => `Item ${index + 1}: Delivery receipt ${item.deliveryReceiptNumber} is not on this billing`)
+          }
+        };
+      }
+    }
+
+    // Validate required fields
+    const validationErrors = await validateBillingData(billingData);
+    const paymentTerms = billingData.paymentTerms || 'COD';
+    const vatMode = billingData.vatMode || 'None';
+    const withholdingRate = billingData.withholdingRate ?? 0;
 
     // If there are validation errors, return 400 Bad Request
     if (validationErrors.length > 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validationErrors
-      });
+      return {
+        status: 400,
+        body: {
+          success: false,
+          message: 'Validation failed',
+          errors: validationErrors
+        }
+      };
     }
 
     // Calculate line totals for each item
     const itemsWithLineTotals: BillingItem[] = billingData.items.map(item => ({
       ...item,
       id: item.id || Math.random().toString(36).substr(2, 9),
-      lineTotal: calculateLineTotal(item.quantity, item.unitPrice)
+      lineTotal: calculateLineTotal(item.quantity, item.unitPrice),
+      vatType: item.vatType || 'Vatable'
     }));
 
     // Calculate financial totals
@@ -123,23 +398,75 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
     // Validate discount
     const discountValidation = validateDiscount(discount, subtotal);
     if (!discountValidation.isValid) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: [discountValidation.error!]
-      });
+      return {
+        status: 400,
+        body: {
+          success: false,
+          message: 'Validation failed',
+          errors: [discountValidation.error!]
+        }
+      };
+    }
+
+    const taxBreakdown = calculateTaxBreakdown(itemsWithLineTotals, discount, vatMode, withholdingRate);
+    const grandTotal = calculateGrandTotal(taxBreakdown);
+
+    // Link the billing to its client master record. An explicit clientId must
+    // exist; otherwise fall back to matching the typed company name.
+    let clientId: string | undefined;
+    if (billingData.clientId) {
+      const client = await ClientService.findById(billingData.clientId);
+      if (!client) {
+        return {
+          status: 400,
+          body: {
+            success: false,
+            message: 'Validation failed',
+            errors: ['Selected client does not exist']
+          }
+        };
+      }
+      clientId = client._id!.toString();
+    } else {
+      const client = await ClientService.findByCompanyName(billingData.companyName);
+      clientId = client?._id?.toString();
+    }
+
+    // Lines billed against a client PO may not exceed what remains on it
+    const poCheck = await PurchaseOrderService.checkBillingItems(itemsWithLineTotals, clientId);
+    if (poCheck.errors.length > 0) {
+      return {
+        status: 400,
+        body: {
+          success: false,
+          message: 'Validation failed',
+          errors: poCheck.errors
+        }
+      };
     }
 
-    const grandTotal = calculateGrandTotal(subtotal, discount);
+    // Issue the next billing number from the persistent counter
+    const billingNumber = await SequenceService.next(SequenceService.BILLING_PREFIX);
 
-    // Generate unique billing number
-    const billingNumber = generateBillingNumber();
+    // Claim the delivery receipts so a concurrent request cannot bill them too
+    if (deliveryReceiptIds.length > 0 && !await DeliveryReceiptService.claimForBilling(deliveryReceiptIds, billingNumber)) {
+      await SequenceService.release(billingNumber);
+      return {
+        status: 409,
+        body: {
+          success: false,
+          message: 'One or more delivery receipts have already been billed'
+        }
+      };
+    }
 
     // Create billing document
     const newBilling: Omit<Billing, '_id'> = {
       billingNumber,
       billingDate: new Date(billingData.billingDate),
       deliveryReceiptNumber: billingData.deliveryReceiptNumber,
+      deliveryReceiptIds: deliveryReceiptIds.length > 0 ? deliveryReceiptIds : undefined,
+      clientId,
       companyName: billingData.companyName.trim(),
       address: billingData.address.trim(),
       contactNumber: billingData.contactNumber.trim(),
@@ -148,44 +475,71 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
       items: itemsWithLineTotals,
       subtotal,
       discount,
+      vatMode,
+      withholdingRate,
+      taxBreakdown,
       grandTotal,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? billingData.customTermDays : undefined,
+      dueDate: calculateDueDate(billingData.billingDate, paymentTerms, billingData.customTermDays),
       status: 'Draft',
+      amountPaid: 0,
+      balanceDue: grandTotal,
+      paymentStatus: 'Unpaid',
       emailStatus: 'Not Sent',
-      createdBy: req.user!.userId,
+      createdBy: user.userId,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
-    // Save to database
-    const savedBilling = await BillingService.create(newBilling);
+    // Save to database and link the delivery receipts; if either fails, remove the
+    // billing and hand the number and delivery receipts back
+    let savedBilling: Billing | undefined;
+    try {
+      savedBilling = await BillingService.create(newBilling, { actorId: user.userId });
+      if (deliveryReceiptIds.length > 0) {
+        await DeliveryReceiptService.linkBilling(billingNumber, String(savedBilling._id));
+      }
+    } catch (createError) {
+      // A billing that cannot be removed keeps its number and receipts
+      if (savedBilling && !await BillingService.delete(String(savedBilling._id))) {
+        console.error(`Billing ${billingNumber} was saved but its delivery receipts could not be linked`);
+        throw createError;
+      }
+      if (deliveryReceiptIds.length > 0) {
+        await DeliveryReceiptService.releaseFromBilling(billingNumber);
+      }
+      await SequenceService.release(billingNumber);
+      throw createError;
+    }
 
     // Track the final billing state
     let finalBilling = savedBilling;
     let pdfGenerated = false;
-    let emailSent = false;
+    let emailJobId: string | undefined;
     const pipelineErrors: string[] = [];
 
     // Step 1: Generate PDF invoice
     try {
       console.log(`[Pipeline] Generating PDF for billing ${savedBilling.billingNumber}...`);
-      const pdfPath = await PdfGenerationService.generateInvoice(savedBilling);
+      const pdfKey = await PdfGenerationService.generateInvoice(savedBilling);
       
-      // Update billing with PDF path and change status to 'Generated'
+      // Update billing with the PDF's storage key and change status to 'Generated'
       const updatedBilling = await BillingService.update(savedBilling._id!, {
-        generatedFilePath: pdfPath,
+        pdfStorageKey: pdfKey,
         status: 'Generated'
-      });
+      }, { actorId: user.userId });
 
       if (updatedBilling) {
         finalBilling = updatedBilling;
         pdfGenerated = true;
-        console.log(`[Pipeline] ✅ PDF generated successfully: ${pdfPath}`);
+        console.log(`[Pipeline] ✅ PDF generated successfully: ${pdfKey}`);
       } else {
         // Manually update the object if service doesn't return updated billing
-        finalBilling.generatedFilePath = pdfPath;
+        finalBilling.pdfStorageKey = pdfKey;
         finalBilling.status = 'Generated';
         pdfGenerated = true;
-        console.log(`[Pipeline] ✅ PDF generated successfully: ${pdfPath}`);
+        console.log(`[Pipeline] ✅ PDF generated successfully: ${pdfKey}`);
       }
     } catch (pdfError) {
       const errorMessage = pdfError instanceof Error ? pdfError.message : 'Unknown PDF error';
@@ -194,46 +548,24 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
       // Continue to next step - PDF failure shouldn't stop the process
     }
 
-    // Step 2: Send email (only if PDF was generated and recipient email provided)
-    if (pdfGenerated && (billingData.clientEmail || req.body.recipientEmail)) {
-      const recipientEmail = billingData.clientEmail || req.body.recipientEmail;
+    // Step 2: Queue email (only if PDF was generated and recipient email provided)
+    if (sendEmail && pdfGenerated && (billingData.clientEmail || input.recipientEmail)) {
+      const recipientEmail = (billingData.clientEmail || input.recipientEmail)!;
       
       try {
-        console.log(`[Pipeline] Sending email to ${recipientEmail}...`);
-        await EmailService.sendBillingInvoice(finalBilling, recipientEmail);
-        
-        // The EmailService automatically updates the billing status
-        // Fetch the updated billing to get the latest state
-        const emailedBilling = await BillingService.findById(finalBilling._id!);
-        if (emailedBilling) {
-          finalBilling = emailedBilling;
-          emailSent = true;
-          console.log(`[Pipeline] ✅ Email sent successfully to ${recipientEmail}`);
-        } else {
-          // Manually update for response if fetch fails
-          finalBilling.emailStatus = 'Sent';
-          finalBilling.emailSentTo = recipientEmail;
-          finalBilling.emailSentAt = new Date();
-          finalBilling.status = 'Emailed';
-          emailSent = true;
-          console.log(`[Pipeline] ✅ Email sent successfully to ${recipientEmail}`);
-        }
+        const job = await EmailOutboxService.enqueueBillingInvoice(finalBilling, recipientEmail, user.userId);
+        emailJobId = String(job._id);
+        finalBilling.emailStatus = 'Pending';
+        EmailOutboxWorker.trigger();
+        console.log(`[Pipeline] ✅ Email to ${recipientEmail} queued (job ${emailJobId})`);
       } catch (emailError) {
         const errorMessage = emailError instanceof Error ? emailError.message : 'Unknown email error';
-        pipelineErrors.push(`Email sending failed: ${errorMessage}`);
-        console.error('[Pipeline] ❌ Email sending failed:', emailError);
-        
-        // Update email status to failed (this won't throw)
-        try {
-          await BillingService.update(finalBilling._id!, {
-            emailStatus: 'Failed'
-          });
-          finalBilling.emailStatus = 'Failed';
-        } catch (updateError) {
-          console.error('[Pipeline] Failed to update email status to Failed:', updateError);
-        }
+        pipelineErrors.push(`Email could not be queued: ${errorMessage}`);
+        console.error('[Pipeline] ❌ Email could not be queued:', emailError);
       }
-    } else if (pdfGenerated && !billingData.clientEmail && !req.body.recipientEmail) {
+    } else if (!sendEmail) {
+      console.log('[Pipeline] ℹ️ Email skipped - sending disabled for this billing');
+    } else if (pdfGenerated && !billingData.clientEmail && !input.recipientEmail) {
       console.log('[Pipeline] ℹ️ Email skipped - no recipient email provided');
     } else {
       console.log('[Pipeline] ℹ️ Email skipped - PDF generation failed');
@@ -246,8 +578,8 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
     if (pdfGenerated) {
       pipeline.push('PDF generated');
     }
-    if (emailSent) {
-      pipeline.push('Email sent');
+    if (emailJobId) {
+      pipeline.push('Email queued');
     }
     
     if (pipeline.length > 0) {
@@ -260,17 +592,22 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
     }
 
     // Return success response with final billing state
-    return res.status(201).json({
-      success: true,
-      message,
-      data: finalBilling,
-      pipeline: {
-        billing: 'Created',
-        pdf: pdfGenerated ? 'Generated' : 'Failed',
-        email: emailSent ? 'Sent' : (billingData.clientEmail ? 'Failed' : 'Skipped')
-      },
-      ...(pipelineErrors.length > 0 && { warnings: pipelineErrors })
-    });
+    const warnings = [...poCheck.warnings, ...pipelineErrors];
+    return {
+      status: 201,
+      body: {
+        success: true,
+        message,
+        data: finalBilling,
+        pipeline: {
+          billing: 'Created',
+          pdf: pdfGenerated ? 'Generated' : 'Failed',
+          email: emailJobId ? 'Queued' : (sendEmail && billingData.clientEmail ? 'Failed' : 'Skipped'),
+          ...(emailJobId && { emailJobId })
+        },
+        ...(warnings.length > 0 && { warnings })
+      }
+    };
 
   } catch (error) {
     console.error('Error creating billing:', error);
@@ -279,47 +616,120 @@ export async function createBilling(req: AuthRequest, res: Response): Promise<Re
     if (error instanceof Error) {
       // Duplicate billing number error
       if (error.message.includes('duplicate') || error.message.includes('E11000')) {
-        return res.status(409).json({
-          success: false,
-          message: 'A billing with this number already exists',
-          error: error.message
-        });
+        return {
+          status: 409,
+          body: {
+            success: false,
+            message: 'A billing with this number already exists',
+            error: error.message
+          }
+        };
       }
     }
 
     // Generic server error
-    return res.status(500).json({
+    return {
+      status: 500,
+      body: {
+        success: false,
+        message: 'An error occurred while creating the billing',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+/**
+ * Create a new billing record
+ * POST /api/billings
+ */
+export async function createBilling(req: AuthRequest, res: Response): Promise<Response> {
+  // Ensure user is authenticated
+  if (!req.user?.userId) {
+    return res.status(401).json({
       success: false,
-      message: 'An error occurred while creating the billing',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      message: 'Authentication required'
     });
   }
+
+  const result = await createBillingRecord(req.body, req.user);
+  return res.status(result.status).json(result.body);
 }
 
 /**
- * Get a billing by ID
- * GET /api/billings/:id
+ * Consolidate a client's unbilled deliveries into one billing
+ * Every open delivery receipt for the client delivered within the date range
+ * is billed through the regular create pipeline, one line per delivered item.
+ * POST /api/billings/consolidate
  */
-export async function getBillingById(req: Request, res: Response): Promise<Response> {
+export async function consolidateDeliveryReceipts(req: AuthRequest, res: Response): Promise<Response> {
   try {
-    const { id } = req.params;
-    const billingId = Array.isArray(id) ? id[0] : id;
+    const { clientId, from, to, ...billingFields } = req.body ?? {};
+    const validationErrors: string[] = [];
 
-    // Try to find by billing number first (e.g., SEW-202601-001)
-    let billing = await BillingService.findByBillingNumber(billingId);
-    
-    // If not found and looks like a MongoDB ID, try finding by _id
-    if (!billing && billingId.match(/^[0-9a-fA-F]{24}$/)) {
-      billing = await BillingService.findById(billingId);
+    if (typeof clientId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(clientId)) {
+      validationErrors.push('A client is required');
+    }
+
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+    if (!from || isNaN(fromDate.getTime()) || !to || isNaN(toDate.getTime())) {
+      validationErrors.push('A valid date range (from, to) is required');
+    } else if (fromDate > toDate) {
+      validationErrors.push('The start of the date range must be on or before the end');
+    }
+
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
     }
 
-    if (!billing) {
+    const receipts = await DeliveryReceiptService.findUnbilled(
+      clientId,
+      fromDate,
+      toDate,
+      req.user!.role === UserRole.ADMIN ? undefined : req.user!.userId
+    );
+
+    if (receipts.length === 0) {
       return res.status(404).json({
         success: false,
-        message: 'Billing not found'
+        message: 'No unbilled delivery receipts for this client in the date range'
       });
     }
 
+    // Bill at the end of the period unless a billing date is given
+    req.body = {
+      ...billingFields,
+      billingDate: billingFields.billingDate || to,
+      clientId,
+      deliveryReceiptIds: receipts.map(receipt => String(receipt._id)),
+      items: undefined
+    };
+
+    return createBilling(req, res);
+  } catch (error) {
+    console.error('Error consolidating delivery receipts:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while consolidating delivery receipts',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Get a billing by ID
+ * GET /api/billings/:id
+ */
+export async function getBillingById(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    // Loaded and access-checked by authorizeBilling
+    const billing = req.resource!;
+
     return res.status(200).json({
       success: true,
       data: billing
@@ -335,6 +745,121 @@ export async function getBillingById(req: Request, res: Response): Promise<Respo
   }
 }
 
+/**
+ * Build billing query filters from the query string
+ * Shared by the billing list and the export so both return the same billings.
+ * Non-admin users are limited to the billings they created.
+ * @param query - Request query string
+ * @param user - Authenticated user
+ * @returns The filters, or a message describing the invalid parameter
+ */
+function parseBillingFilters(
+  query: AuthRequest['query'],
+  user: NonNullable<AuthRequest['user']>
+): { filters: any; error?: undefined } | { error: string; filters?: undefined } {
+  const { status, emailStatus, companyName, billingNumber, search, dateFrom, dateTo } = query;
+
+  // Build filters object
+  const filters: any = {};
+  
+  // Non-admin users can only see their own billings
+  if (user.role !== UserRole.ADMIN) {
+    filters.createdBy = user.userId;
+  }
+  
+  // Filter by billing status
+  if (status && typeof status === 'string') {
+    const validStatuses = ['Draft', 'Generated', 'Emailed', 'Void'];
+    if (validStatuses.includes(status)) {
+      filters.status = status;
+    } else {
+      return { error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` };
+    }
+  }
+  
+  // Filter by email status
+  if (emailStatus && typeof emailStatus === 'string') {
+    const validEmailStatuses = ['Not Sent', 'Sent', 'Failed', 'Pending'];
+    if (validEmailStatuses.includes(emailStatus)) {
+      filters.emailStatus = emailStatus;
+    } else {
+      return { error: `Invalid email status. Must be one of: ${validEmailStatuses.join(', ')}` };
+    }
+  }
+  
+  // Filter by company name (case-insensitive partial match)
+  if (companyName && typeof companyName === 'string') {
+    filters.companyName = new RegExp(companyName, 'i');
+  }
+  
+  // Filter by billing number (partial match)
+  if (billingNumber && typeof billingNumber === 'string') {
+    filters.billingNumber = new RegExp(billingNumber, 'i');
+  }
+
+  // Search billing number, company, DR number and item descriptions
+  // The text index finds whole words anywhere, including item descriptions;
+  // the patterns catch partly typed numbers and names. Every clause is indexed,
+  // as MongoDB requires when $text is inside $or.
+  if (search && typeof search === 'string' && search.trim()) {
+    const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    filters.$or = [
+      { $text: { $search: search.trim() } },
+      { billingNumber: pattern },
+      { companyName: pattern },
+      { deliveryReceiptNumber: pattern }
+    ];
+  }
+  
+  // Filter by date range
+  if (dateFrom || dateTo) {
+    filters.billingDate = {};
+    
+    if (dateFrom && typeof dateFrom === 'string') {
+      const fromDate = new Date(dateFrom);
+      if (isNaN(fromDate.getTime())) {
+        return { error: 'Invalid dateFrom format. Use ISO date string (e.g., 2026-01-01)' };
+      }
+      filters.billingDate.$gte = fromDate;
+    }
+    
+    if (dateTo && typeof dateTo === 'string') {
+      const toDate = new Date(dateTo);
+      if (isNaN(toDate.getTime())) {
+        return { error: 'Invalid dateTo format. Use ISO date string (e.g., 2026-01-31)' };
+      }
+      // Set to end of day for inclusive range
+      toDate.setHours(23, 59, 59, 999);
+      filters.billingDate.$lte = toDate;
+    }
+  }
+
+  return { filters };
+}
+
+/**
+ * Fields GET /api/billings can sort by
+ */
+const SORTABLE_FIELDS = ['billingNumber', 'companyName', 'billingDate', 'dueDate', 'grandTotal', 'balanceDue', 'status', 'createdAt'];
+
+/**
+ * Parse the sort query parameter: a field name, prefixed with '-' for descending
+ * @returns Mongo sort (newest first by default), or an error message
+ */
+function parseBillingSort(sort: unknown): { sort: Record<string, 1 | -1>; error?: undefined } | { error: string; sort?: undefined } {
+  if (sort === undefined || sort === '') {
+    return { sort: { createdAt: -1 } };
+  }
+
+  const value = typeof sort === 'string' ? sort : '';
+  const field = value.replace(/^-/, '');
+  if (!SORTABLE_FIELDS.includes(field)) {
+    return { error: `Invalid sort. Must be one of: ${SORTABLE_FIELDS.join(', ')} (prefix with - for descending)` };
+  }
+
+  return { sort: { [field]: value.startsWith('-') ? -1 : 1 } };
+}
+
 /**
  * Get all billings with optional filters
  * GET /api/billings
@@ -344,12 +869,14 @@ export async function getBillingById(req: Request, res: Response): Promise<Respo
  * - emailStatus: Filter by email status (Not Sent, Sent, Failed, Pending)
  * - companyName: Filter by company name (partial match, case-insensitive)
  * - billingNumber: Filter by billing number (partial match)
+ * - search: Search billing number, company, DR number and item descriptions
  * - dateFrom: Filter by date range start (ISO date string)
  * - dateTo: Filter by date range end (ISO date string)
+ * - sort: Field to sort by, '-' prefix for descending (default: -createdAt)
  * - page: Page number for pagination (default: 1)
  * - limit: Number of items per page (default: 10)
  * 
- * Returns: Array of billing records sorted by creation date (newest first)
+ * Returns: Array of billing records, newest first unless sorted otherwise
  */
 export async function getAllBillings(req: AuthRequest, res: Response): Promise<Response> {
   try {
@@ -361,88 +888,22 @@ export async function getAllBillings(req: AuthRequest, res: Response): Promise<R
       });
     }
 
-    const { 
-      status, 
-      emailStatus, 
-      companyName, 
-      billingNumber,
-      dateFrom, 
-      dateTo, 
-      page = '1', 
-      limit = '10' 
-    } = req.query;
-
-    // Build filters object
-    const filters: any = {};
-    
-    // Non-admin users can only see their own billings
-    if (req.user.role !== UserRole.ADMIN) {
-      filters.createdBy = req.user.userId;
-    }
-    
-    // Filter by billing status
-    if (status && typeof status === 'string') {
-      const validStatuses = ['Draft', 'Generated', 'Emailed'];
-      if (validStatuses.includes(status)) {
-        filters.status = status;
-      } else {
-        return res.status(400).json({
-          success: false,
-          message: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
-        });
-      }
-    }
-    
-    // Filter by email status
-    if (emailStatus && typeof emailStatus === 'string') {
-      const validEmailStatuses = ['Not Sent', 'Sent', 'Failed', 'Pending'];
-      if (validEmailStatuses.includes(emailStatus)) {
-        filters.emailStatus = emailStatus;
-      } else {
-        return res.status(400).json({
-          success: false,
-          message: `Invalid email status. Must be one of: ${validEmailStatuses.join(', ')}`
-        });
-      }
-    }
-    
-    // Filter by company name (case-insensitive partial match)
-    if (companyName && typeof companyName === 'string') {
-      filters.companyName = new RegExp(companyName, 'i');
-    }
-    
-    // Filter by billing number (partial match)
-    if (billingNumber && typeof billingNumber === 'string') {
-      filters.billingNumber = new RegExp(billingNumber, 'i');
+    const { status, emailStatus, companyName, billingNumber, search, dateFrom, dateTo, sort, page = '1', limit = '10' } = req.query;
+
+    const { filters, error: filterError } = parseBillingFilters(req.query, req.user);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
     }
-    
-    // Filter by date range
-    if (dateFrom || dateTo) {
-      filters.billingDate = {};
-      
-      if (dateFrom && typeof dateFrom === 'string') {
-        const fromDate = new Date(dateFrom);
-        if (isNaN(fromDate.getTime())) {
-          return res.status(400).json({
-            success: false,
-            message: 'Invalid dateFrom format. Use ISO date string (e.g., 2026-01-01)'
-          });
-        }
-        filters.billingDate.$gte = fromDate;
-      }
-      
-      if (dateTo && typeof dateTo === 'string') {
-        const toDate = new Date(dateTo);
-        if (isNaN(toDate.getTime())) {
-          return res.status(400).json({
-            success: false,
-            message: 'Invalid dateTo format. Use ISO date string (e.g., 2026-01-31)'
-          });
-        }
-        // Set to end of day for inclusive range
-        toDate.setHours(23, 59, 59, 999);
-        filters.billingDate.$lte = toDate;
-      }
+
+    const { sort: sortOrder, error: sortError } = parseBillingSort(sort);
+    if (sortError) {
+      return res.status(400).json({
+        success: false,
+        message: sortError
+      });
     }
 
     // Parse pagination parameters
@@ -464,8 +925,7 @@ export async function getAllBillings(req: AuthRequest, res: Response): Promise<R
       });
     }
 
-    // Fetch billings from database (sorted by createdAt DESC - newest first)
-    const billings = await BillingService.findAll(filters, pageNum, limitNum);
+    const billings = await BillingService.findAll(filters, pageNum, limitNum, sortOrder);
     const total = await BillingService.count(filters);
 
     return res.status(200).json({
@@ -485,8 +945,10 @@ export async function getAllBillings(req: AuthRequest, res: Response): Promise<R
         emailStatus: emailStatus || null,
         companyName: companyName || null,
         billingNumber: billingNumber || null,
+        search: search || null,
         dateFrom: dateFrom || null,
-        dateTo: dateTo || null
+        dateTo: dateTo || null,
+        sort: sort || '-createdAt'
       }
     });
 
@@ -501,156 +963,498 @@ export async function getAllBillings(req: AuthRequest, res: Response): Promise<R
 }
 
 /**
- * Update a billing
- * PUT /api/billings/:id
+ * Export billings to CSV or XLSX
+ * GET /api/billings/export
+ *
+ * Query Parameters:
+ * - format: csv or xlsx (default: csv)
+ * - items: 'true' to include one row per line item
+ * - status, emailStatus, companyName, billingNumber, search, dateFrom, dateTo: as for GET /api/billings
+ *
+ * Streams every matching billing (no pagination), newest first.
  */
-export async function updateBilling(req: Request, res: Response): Promise<Response> {
+export async function exportBillings(req: AuthRequest, res: Response): Promise<Response | void> {
   try {
-    const { id } = req.params;
-    const updates = req.body;
-
-    // Ensure id is a string
-    const billingId = Array.isArray(id) ? id[0] : id;
-
-    // Validate if billing exists
-    const existingBilling = await BillingService.findById(billingId);
-    if (!existingBilling) {
-      return res.status(404).json({
+    // Ensure user is authenticated
+    if (!req.user?.userId) {
+      return res.status(401).json({
         success: false,
-        message: 'Billing not found'
+        message: 'Authentication required'
       });
     }
 
-    // Add updated timestamp
-    updates.updatedAt = new Date();
+    const format = (req.query.format ?? 'csv') as BillingExportFormat;
+    if (!BILLING_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid format. Must be one of: ${BILLING_EXPORT_FORMATS.join(', ')}`
+      });
+    }
 
-    const updatedBilling = await BillingService.update(billingId, updates);
+    const { filters, error: filterError } = parseBillingFilters(req.query, req.user);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
+    }
 
-    return res.status(200).json({
-      success: true,
-      message: 'Billing updated successfully',
-      data: updatedBilling
-    });
+    const includeItems = req.query.items === 'true';
+    const filename = `billings${includeItems && format === 'csv' ? '-items' : ''}-${new Date().toISOString().slice(0, 10)}.${format}`;
 
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    await BillingExportService.write(res, filters, format, includeItems);
   } catch (error) {
-    console.error('Error updating billing:', error);
+    console.error('Error exporting billings:', error);
+
+    // Once rows have been sent the status can no longer change; cut the download short instead
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
     return res.status(500).json({
       success: false,
-      message: 'An error occurred while updating the billing',
+      message: 'An error occurred while exporting billings',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 }
 
 /**
- * Delete a billing
- * DELETE /api/billings/:id
+ * Import historical billings from CSV
+ * The request body is the CSV file, one row per line item.
+ * POST /api/billings/import?dryRun=true
+ *
+ * With dryRun=true nothing is saved; the response previews the billings and
+ * lists row errors. Otherwise the billings are inserted only if every row is valid.
  */
-export async function deleteBilling(req: Request, res: Response): Promise<Response> {
+export async function importBillings(req: AuthRequest, res: Response): Promise<Response> {
   try {
-    const { id } = req.params;
-    const billingId = Array.isArray(id) ? id[0] : id;
-
-    const billing = await BillingService.findById(billingId);
-    if (!billing) {
-      return res.status(404).json({
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({
         success: false,
-        message: 'Billing not found'
+        message: 'CSV file is required (send it as the request body with Content-Type text/csv)'
       });
     }
 
-    await BillingService.delete(billingId);
+    const dryRun = req.query.dryRun === 'true';
+    const result = await BillingImportService.import(req.body, req.user!.userId, dryRun);
 
-    return res.status(200).json({
+    if (result.errors.length > 0) {
+      return res.status(dryRun ? 200 : 400).json({
+        success: dryRun,
+        message: `${result.errors.length} row error(s) found${dryRun ? '' : '; nothing was imported'}`,
+        data: result
+      });
+    }
+
+    return res.status(dryRun ? 200 : 201).json({
       success: true,
-      message: 'Billing deleted successfully'
+      message: dryRun
+        ? `${result.billings.length} billing(s) ready to import`
+        : `Imported ${result.importedCount} billing(s)`,
+      data: result
     });
-
   } catch (error) {
-    console.error('Error deleting billing:', error);
+    console.error('Error importing billings:', error);
     return res.status(500).json({
       success: false,
-      message: 'An error occurred while deleting the billing',
+      message: 'An error occurred while importing billings',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 }
 
 /**
- * Send billing invoice via email
- * POST /api/billings/:id/send-email
+ * Update a billing
+ * Only UPDATABLE_FIELDS are accepted. The merged billing is validated like a new
+ * one, totals and the due date are recomputed, and the PDF is regenerated.
+ * Emailed billings can only be changed by creating a revision ({ revise: true }),
+ * which bumps the revision number and resets the email status.
+ * PUT /api/billings/:id
  */
-export async function sendBillingEmail(req: Request, res: Response): Promise<Response> {
+export async function updateBilling(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
   try {
-    const { id } = req.params;
-    const { recipientEmail } = req.body;
-    const billingId = Array.isArray(id) ? id[0] : id;
+    const { revise, ...updates } = req.body as UpdateBillingDTO;
+
+    // Loaded and access-checked by authorizeBilling
+    const existingBilling = req.resource!;
+    const billingId = String(existingBilling._id);
 
-    // Validate recipient email
-    if (!recipientEmail || typeof recipientEmail !== 'string') {
+    if (existingBilling.status === 'Void') {
+      return res.status(409).json({
+        success: false,
+        message: 'Voided billings cannot be edited'
+      });
+    }
+
+    const rejectedFields = Object.keys(updates).filter(field => !UPDATABLE_FIELDS.includes(field));
+    if (rejectedFields.length > 0) {
       return res.status(400).json({
         success: false,
-        message: 'Recipient email is required'
+        message: 'Validation failed',
+        errors: [`These fields cannot be updated: ${rejectedFields.join(', ')}`]
       });
     }
 
-    // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(recipientEmail)) {
+    // The client already has this version; changing it silently would leave them with a stale copy
+    const isEmailed = existingBilling.status === 'Emailed' || existingBilling.emailStatus === 'Sent';
+    if (isEmailed && revise !== true) {
+      return res.status(409).json({
+        success: false,
+        message: 'This billing has already been emailed. Create a revision to edit it.'
+      });
+    }
+
+    // Validate the billing as it will look after the update
+    const billingData: CreateBillingDTO = {
+      billingDate: updates.billingDate ?? new Date(existingBilling.billingDate).toISOString(),
+      deliveryReceiptNumber: updates.deliveryReceiptNumber ?? existingBilling.deliveryReceiptNumber,
+      clientId: updates.clientId,
+      companyName: updates.companyName ?? existingBilling.companyName,
+      address: updates.address ?? existingBilling.address,
+      contactNumber: updates.contactNumber ?? existingBilling.contactNumber,
+      attentionPerson: updates.attentionPerson ?? existingBilling.attentionPerson,
+      clientEmail: updates.clientEmail ?? existingBilling.clientEmail,
+      items: updates.items ?? existingBilling.items,
+      discount: updates.discount ?? existingBilling.discount,
+      vatMode: updates.vatMode ?? existingBilling.vatMode ?? 'None',
+      withholdingRate: updates.withholdingRate ?? existingBilling.withholdingRate ?? 0,
+      paymentTerms: updates.paymentTerms ?? existingBilling.paymentTerms ?? 'COD',
+      customTermDays: updates.customTermDays ?? existingBilling.customTermDays
+    };
+
+    const validationErrors = await validateBillingData(billingData);
+    if (validationErrors.length > 0) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid email address format'
+        message: 'Validation failed',
+        errors: validationErrors
       });
     }
 
-    // Get billing
-    const billing = await BillingService.findById(billingId);
-    if (!billing) {
-      return res.status(404).json({
+    // Totals and the tax breakdown are always derived from the items
+    const items: BillingItem[] = billingData.items.map(item => ({
+      ...item,
+      id: item.id || Math.random().toString(36).substr(2, 9),
+      lineTotal: calculateLineTotal(item.quantity, item.unitPrice),
+      vatType: item.vatType || 'Vatable'
+    }));
+    const subtotal = calculateSubtotal(items);
+    const discount = billingData.discount || 0;
+
+    const discountValidation = validateDiscount(discount, subtotal);
+    if (!discountValidation.isValid) {
+      return res.status(400).json({
         success: false,
-        message: 'Billing not found'
+        message: 'Validation failed',
+        errors: [discountValidation.error!]
       });
     }
 
-    // Check if PDF exists
-    if (!billing.generatedFilePath) {
+    const vatMode = billingData.vatMode!;
+    const withholdingRate = billingData.withholdingRate!;
+    const paymentTerms = billingData.paymentTerms!;
+    const taxBreakdown = calculateTaxBreakdown(items, discount, vatMode, withholdingRate);
+    const grandTotal = calculateGrandTotal(taxBreakdown);
+
+    const settled = (existingBilling.amountPaid ?? 0) + (existingBilling.amountCredited ?? 0);
+    if (grandTotal < settled) {
       return res.status(400).json({
         success: false,
-        message: 'Billing PDF has not been generated yet. Please generate the PDF first.'
+        message: 'Validation failed',
+        errors: [`Grand total cannot be less than the ${settled.toFixed(2)} already paid and credited`]
       });
     }
 
-    // Send email
-    try {
-      await EmailService.sendBillingInvoice(billing, recipientEmail);
+    // An explicit clientId must exist; a renamed company is re-matched by name
+    let clientId = existingBilling.clientId;
+    if (updates.clientId) {
+      const client = await ClientService.findById(updates.clientId);
+      if (!client) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: ['Selected client does not exist']
+        });
+      }
+      clientId = client._id!.toString();
+    } else if (updates.companyName !== undefined && updates.companyName.trim() !== existingBilling.companyName) {
+      const client = await ClientService.findByCompanyName(updates.companyName);
+      clientId = client?._id?.toString();
+    }
+
+    // This billing's current lines are not counted against its own POs
+    const poCheck = await PurchaseOrderService.checkBillingItems(items, clientId ? String(clientId) : undefined, billingId);
+    if (poCheck.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: poCheck.errors
+      });
+    }
 
+    const contentUpdates: Partial<Billing> = {
+      billingDate: new Date(billingData.billingDate),
+      deliveryReceiptNumber: billingData.deliveryReceiptNumber,
+      clientId,
+      companyName: billingData.companyName.trim(),
+      address: billingData.address.trim(),
+      contactNumber: billingData.contactNumber.trim(),
+      attentionPerson: billingData.attentionPerson.trim(),
+      clientEmail: billingData.clientEmail?.trim(),
+      items,
+      subtotal,
+      discount,
+      vatMode,
+      withholdingRate,
+      taxBreakdown,
+      grandTotal,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? billingData.customTermDays : undefined,
+      dueDate: calculateDueDate(billingData.billingDate, paymentTerms, billingData.customTermDays)
+    };
+
+    // Nothing to save, regenerate or revise
+    if (AuditService.diff(existingBilling, contentUpdates).length === 0) {
       return res.status(200).json({
         success: true,
-        message: `Invoice sent successfully to ${recipientEmail}`,
-        data: {
-          billingNumber: billing.billingNumber,
-          emailSentTo: recipientEmail,
-          emailSentAt: new Date(),
-          emailStatus: 'Sent'
-        }
+        message: 'No changes to save',
+        data: existingBilling
       });
+    }
 
-    } catch (emailError) {
-      // Email sending failed
-      console.error('Email sending failed:', emailError);
-      
+    const billingUpdates: Partial<Billing> = { ...contentUpdates, updatedAt: new Date() };
+    if (isEmailed) {
+      billingUpdates.revision = (existingBilling.revision ?? 0) + 1;
+      billingUpdates.status = 'Generated';
+      billingUpdates.emailStatus = 'Not Sent';
+    }
+
+    const savedBilling = await BillingService.update(billingId, billingUpdates, { actorId: req.user?.userId });
+    if (!savedBilling) {
       return res.status(500).json({
         success: false,
-        message: 'Failed to send email. Please check email configuration.',
-        error: emailError instanceof Error ? emailError.message : 'Unknown email error',
-        details: {
-          billingNumber: billing.billingNumber,
-          recipientEmail,
-          emailStatus: 'Failed'
-        }
+        message: 'Failed to update billing'
       });
     }
 
+    // The grand total may have changed
+    const syncedBilling = await PaymentService.refreshBalance(billingId) ?? savedBilling;
+
+    // Replace the stored PDF only now that the new content is saved
+    const { billing: updatedBilling, warning: pdfWarning } = await regenerateBillingPdf(syncedBilling, req.user?.userId);
+
+    const warnings = [...poCheck.warnings, ...(pdfWarning ? [pdfWarning] : [])];
+    return res.status(200).json({
+      success: true,
+      message: isEmailed ? `Revision ${billingUpdates.revision} created successfully` : 'Billing updated successfully',
+      data: updatedBilling,
+      ...(warnings.length > 0 && { warnings })
+    });
+
+  } catch (error) {
+    console.error('Error updating billing:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while updating the billing',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Void a billing
+ * The record and its number are kept for audit; the PDF is regenerated with a VOID stamp.
+ * Billings with payments or credit memos cannot be voided.
+ * Shared by POST /api/billings/:id/void and bulk voiding.
+ * @param billing - Billing to void
+ * @param reason - Why the billing is void (required)
+ * @param actorId - User voiding the billing
+ */
+export async function voidBillingRecord(billing: Billing, reason: string, actorId: string): Promise<BillingActionResult> {
+  if (!reason) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        message: 'A reason is required to void a billing'
+      }
+    };
+  }
+
+  if (billing.status === 'Void') {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        message: 'Billing is already void'
+      }
+    };
+  }
+
+  if ((billing.amountPaid ?? 0) > 0 || (billing.amountCredited ?? 0) > 0) {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        message: 'Billings with payments or credit memos cannot be voided; issue a credit memo instead'
+      }
+    };
+  }
+
+  const voidUpdates: Partial<Billing> = {
+    status: 'Void',
+    voidReason: reason,
+    voidedBy: actorId,
+    voidedAt: new Date(),
+    balanceDue: 0,
+    updatedAt: new Date()
+  };
+
+  const savedBilling = await BillingService.update(String(billing._id), voidUpdates, {
+    actorId,
+    action: 'void'
+  });
+
+  if (!savedBilling) {
+    return {
+      status: 500,
+      body: {
+        success: false,
+        message: 'Failed to void billing'
+      }
+    };
+  }
+
+  // Stamp the stored PDF only once the void is saved
+  const { billing: voidedBilling, warning: pdfWarning } = await regenerateBillingPdf(savedBilling, actorId);
+
+  // Voided deliveries still need to be billed
+  if (billing.deliveryReceiptIds?.length) {
+    await DeliveryReceiptService.releaseFromBilling(billing.billingNumber);
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      message: 'Billing voided successfully',
+      data: voidedBilling,
+      ...(pdfWarning && { warnings: [pdfWarning] })
+    }
+  };
+}
+
+/**
+ * Void a billing
+ * POST /api/billings/:id/void
+ */
+export async function voidBilling(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    const result = await voidBillingRecord(req.resource!, reason, req.user!.userId);
+    return res.status(result.status).json(result.body);
+
+  } catch (error) {
+    console.error('Error voiding billing:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while voiding the billing',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Queue the billing invoice for email delivery
+ * Shared by POST /api/billings/:id/send-email and bulk emailing. The caller
+ * triggers the outbox worker once its emails are queued.
+ * @param billing - Billing to send
+ * @param recipientEmail - Address to send the invoice to
+ * @param actorId - User sending the email
+ */
+export async function queueBillingEmail(billing: Billing, recipientEmail: unknown, actorId?: string): Promise<BillingActionResult> {
+  // Validate recipient email
+  if (!recipientEmail || typeof recipientEmail !== 'string') {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        message: 'Recipient email is required'
+      }
+    };
+  }
+
+  // Basic email validation
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!emailRegex.test(recipientEmail)) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        message: 'Invalid email address format'
+      }
+    };
+  }
+
+  if (billing.status === 'Void') {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        message: 'Voided billings cannot be emailed'
+      }
+    };
+  }
+
+  // Check if PDF exists
+  if (!billing.pdfStorageKey) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        message: 'Billing PDF has not been generated yet. Please generate the PDF first.'
+      }
+    };
+  }
+
+  // Queue the email; the outbox worker delivers it and retries on failure
+  const job = await EmailOutboxService.enqueueBillingInvoice(billing, recipientEmail, actorId);
+
+  return {
+    status: 202,
+    body: {
+      success: true,
+      message: `Invoice queued for delivery to ${recipientEmail}`,
+      data: {
+        jobId: job._id,
+        billingNumber: billing.billingNumber,
+        recipientEmail,
+        emailStatus: 'Pending'
+      }
+    }
+  };
+}
+
+/**
+ * Queue the billing invoice for email delivery
+ * Returns as soon as the email is queued; poll the job for delivery status.
+ * POST /api/billings/:id/send-email
+ */
+export async function sendBillingEmail(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const result = await queueBillingEmail(req.resource!, req.body?.recipientEmail, req.user?.userId);
+    if (result.body.success) {
+      EmailOutboxWorker.trigger();
+    }
+
+    return res.status(result.status).json(result.body);
+
   } catch (error) {
     console.error('Error in sendBillingEmail:', error);
     return res.status(500).json({
@@ -662,32 +1466,67 @@ export async function sendBillingEmail(req: Request, res: Response): Promise<Res
 }
 
 /**
- * Download PDF for a billing
- * GET /api/billings/:id/download-pdf
+ * Get the email jobs of a billing
+ * GET /api/billings/:id/email-jobs
  */
-export async function downloadBillingPdf(req: Request, res: Response): Promise<void> {
+export async function getBillingEmailJobs(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
   try {
-    const { id } = req.params;
-    const billingId = Array.isArray(id) ? id[0] : id;
+    const jobs = await EmailOutboxService.findByBilling(String(req.resource!._id));
 
-    // Try to find by billing number first
-    let billing = await BillingService.findByBillingNumber(billingId);
-    
-    // If not found and looks like a MongoDB ID, try finding by _id
-    if (!billing && billingId.match(/^[0-9a-fA-F]{24}$/)) {
-      billing = await BillingService.findById(billingId);
-    }
+    return res.status(200).json({
+      success: true,
+      data: jobs,
+      count: jobs.length
+    });
+  } catch (error) {
+    console.error('Error fetching email jobs:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch email jobs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
 
-    if (!billing) {
-      res.status(404).json({
+/**
+ * Get the delivery status of one email job of a billing
+ * GET /api/billings/:id/email-jobs/:jobId
+ */
+export async function getBillingEmailJob(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const job = await EmailOutboxService.findById(String(req.params.jobId));
+
+    if (!job || String(job.billingId) !== String(req.resource!._id)) {
+      return res.status(404).json({
         success: false,
-        message: 'Billing not found'
+        message: 'Email job not found'
       });
-      return;
     }
 
+    return res.status(200).json({
+      success: true,
+      data: job
+    });
+  } catch (error) {
+    console.error('Error fetching email job:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch email job',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Download PDF for a billing
+ * GET /api/billings/:id/download-pdf
+ */
+export async function downloadBillingPdf(req: ResourceRequest<Billing>, res: Response): Promise<void> {
+  try {
+    const billing = req.resource!;
+
     // Check if PDF was generated
-    if (!billing.generatedFilePath) {
+    if (!billing.pdfStorageKey) {
       res.status(404).json({
         success: false,
         message: 'PDF has not been generated for this billing yet'
@@ -695,14 +1534,18 @@ export async function downloadBillingPdf(req: Request, res: Response): Promise<v
       return;
     }
 
-    // Import fs and path dynamically
-    const fs = await import('fs');
-
-    // Check if file exists
-    if (!fs.existsSync(billing.generatedFilePath)) {
+    // Regenerate from the billing if the stored PDF has been lost (e.g. a local
+    // file on a host whose disk is wiped on deploy)
+    let pdfStream = await PdfStorageService.openReadStream(billing.pdfStorageKey);
+    if (!pdfStream) {
+      // Invoices are always stored under their billing number, so the key is unchanged
+      const pdfKey = await PdfGenerationService.generateInvoice(billing);
+      pdfStream = await PdfStorageService.openReadStream(pdfKey);
+    }
+    if (!pdfStream) {
       res.status(404).json({
         success: false,
-        message: 'PDF file not found on server'
+        message: 'PDF could not be found in storage'
       });
       return;
     }
@@ -712,9 +1555,24 @@ export async function downloadBillingPdf(req: Request, res: Response): Promise<v
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
-    // Stream the file
-    const fileStream = fs.createReadStream(billing.generatedFilePath);
-    fileStream.pipe(res);
+    await AuditService.record(billing, 'download', req.user?.userId);
+
+    // Stream the PDF from storage; a GridFS file replaced by a regeneration mid-download errors here
+    pdfStream.on('error', (streamError) => {
+      console.error('Error streaming PDF:', streamError);
+      if (res.headersSent) {
+        res.destroy(streamError);
+        return;
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({
+        success: false,
+        message: 'The PDF could not be read from storage. Please try again',
+        error: streamError.message
+      });
+    });
+    pdfStream.pipe(res);
 
   } catch (error) {
     console.error('Error downloading PDF:', error);
@@ -725,3 +1583,89 @@ export async function downloadBillingPdf(req: Request, res: Response): Promise<v
     });
   }
 }
+
+/**
+ * Get the audit trail of a billing
+ * GET /api/billings/:id/history
+ */
+export async function getBillingHistory(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const history = await AuditService.findByBilling(String(req.resource!._id));
+
+    return res.status(200).json({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    console.error('Error fetching billing history:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while fetching the billing history',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Get the payment reminder state and log of a billing
+ * GET /api/billings/:id/reminders
+ */
+export async function getBillingReminders(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const status = await PaymentReminderService.getStatus(req.resource!);
+
+    return res.status(200).json({
+      success: true,
+      data: status
+    });
+
+  } catch (error) {
+    console.error('Error fetching billing reminders:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while fetching the billing reminders',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Pause or resume payment reminders for a billing
+ * PUT /api/billings/:id/reminders
+ */
+export async function updateBillingReminders(req: ResourceRequest<Billing>, res: Response): Promise<Response> {
+  try {
+    const { paused } = req.body ?? {};
+
+    if (typeof paused !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'paused must be true or false'
+      });
+    }
+
+    const updatedBilling = await PaymentReminderService.setPaused(req.resource!, paused, req.user!.userId);
+
+    if (!updatedBilling) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update billing reminders'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: paused ? 'Payment reminders paused' : 'Payment reminders resumed',
+      data: await PaymentReminderService.getStatus(updatedBilling)
+    });
+
+  } catch (error) {
+    console.error('Error updating billing reminders:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while updating the billing reminders',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
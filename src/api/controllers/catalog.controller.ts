@@ -0,0 +1,247 @@
+/**
+ * Catalog Controller
+ * Handles HTTP requests for the product and service price list
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { CatalogService } from '../services/catalog.service.js';
+import { BillingModel } from '../models/Billing.model.js';
+import { validateRequired, validateItemUnitPrice } from '../../lib/validation.js';
+
+/**
+ * Validate catalog item fields shared by create and update
+ * @param data - Request body
+ * @param partial - Only validate fields that are present
+ * @returns List of validation error messages
+ */
+const validateCatalogItemData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || data.code !== undefined) {
+    const result = validateRequired(data.code, 'Code');
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (!partial || data.description !== undefined) {
+    const result = validateRequired(data.description, 'Description');
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (data.unit !== undefined) {
+    const result = validateRequired(data.unit, 'Unit');
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (!partial || data.defaultPrice !== undefined) {
+    if (typeof data.defaultPrice !== 'number' || isNaN(data.defaultPrice)) {
+      errors.push('Default price must be a number');
+    } else {
+      const result = validateItemUnitPrice(data.defaultPrice);
+      if (!result.isValid) errors.push(result.error!);
+    }
+  }
+
+  if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+    errors.push('isActive must be true or false');
+  }
+
+  return errors;
+};
+
+/**
+ * Pick the editable catalog item fields from a request body
+ */
+const pickCatalogItemFields = (data: any) => {
+  const fields: Record<string, any> = {};
+  ['code', 'description', 'unit'].forEach(key => {
+    if (typeof data[key] === 'string') {
+      fields[key] = data[key].trim();
+    }
+  });
+  if (data.defaultPrice !== undefined) fields.defaultPrice = data.defaultPrice;
+  if (data.isActive !== undefined) fields.isActive = data.isActive;
+  return fields;
+};
+
+/**
+ * Get catalog items
+ * GET /api/catalog?search=&includeInactive=true
+ */
+export const getCatalogItems = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search : '';
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const items = await CatalogService.findAll(search, !includeInactive);
+
+    res.status(200).json({
+      success: true,
+      data: items,
+      count: items.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching catalog items:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch catalog items',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a single catalog item
+ * GET /api/catalog/:id
+ */
+export const getCatalogItemById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const item = await CatalogService.findById(req.params.id as string);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Catalog item not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: item
+    });
+  } catch (error: any) {
+    console.error('Error fetching catalog item:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch catalog item',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a catalog item (admin only)
+ * POST /api/catalog
+ */
+export const createCatalogItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationErrors = validateCatalogItemData(req.body);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
+      return;
+    }
+
+    const fields = pickCatalogItemFields(req.body);
+
+    const item = await CatalogService.create({
+      code: fields.code,
+      description: fields.description,
+      unit: fields.unit || 'pc',
+      defaultPrice: fields.defaultPrice,
+      isActive: fields.isActive ?? true,
+      createdBy: req.user?.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Catalog item created successfully',
+      data: item
+    });
+  } catch (error: any) {
+    console.error('Error creating catalog item:', error);
+    res.status(error.message?.includes('already exists') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to create catalog item',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update a catalog item (admin only)
+ * Existing billings keep the description and price they were created with
+ * PUT /api/catalog/:id
+ */
+export const updateCatalogItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationErrors = validateCatalogItemData(req.body, true);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
+      return;
+    }
+
+    const item = await CatalogService.update(req.params.id as string, pickCatalogItemFields(req.body));
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Catalog item not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Catalog item updated successfully',
+      data: item
+    });
+  } catch (error: any) {
+    console.error('Error updating catalog item:', error);
+    res.status(error.message?.includes('already exists') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to update catalog item',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete a catalog item (admin only)
+ * Items used on billings must be deactivated instead
+ * DELETE /api/catalog/:id
+ */
+export const deleteCatalogItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const itemId = req.params.id as string;
+
+    const usageCount = await BillingModel.countDocuments({ 'items.catalogItemId': itemId });
+    if (usageCount > 0) {
+      res.status(409).json({
+        success: false,
+        message: `Catalog item is used on ${usageCount} billing(s). Deactivate it instead.`
+      });
+      return;
+    }
+
+    const item = await CatalogService.delete(itemId);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Catalog item not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Catalog item deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting catalog item:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete catalog item',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,494 @@
+/**
+ * Client Controller
+ * Handles HTTP requests for client master records
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { ClientService } from '../services/client.service.js';
+import { StatementService } from '../services/statement.service.js';
+import { PdfGenerationService } from '../services/pdf.generation.service.js';
+import { EmailService } from '../services/email.service.js';
+import { PaymentReminderService } from '../services/payment.reminder.service.js';
+import { BillingModel } from '../models/Billing.model.js';
+import { UserRole } from '../models/User.model.js';
+import {
+  validateCompanyName,
+  validateAddress,
+  validateContactNumber,
+  validateAttentionPerson
+} from '../../lib/validation.js';
+
+/**
+ * Validate client fields shared by create and update
+ * @param data - Request body
+ * @param partial - Only validate fields that are present
+ * @returns List of validation error messages
+ */
+const validateClientData = (data: any, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || data.companyName !== undefined) {
+    const result = validateCompanyName(data.companyName);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (!partial || data.address !== undefined) {
+    const result = validateAddress(data.address);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (!partial || data.contactNumber !== undefined) {
+    const result = validateContactNumber(data.contactNumber);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (!partial || data.attentionPerson !== undefined) {
+    const result = validateAttentionPerson(data.attentionPerson);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (data.clientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.clientEmail)) {
+    errors.push('Invalid email address format');
+  }
+
+  return errors;
+};
+
+/**
+ * Parse the optional from/to statement period
+ * The end date is inclusive of the whole day
+ */
+const parseStatementPeriod = (from: unknown, to: unknown): { from?: Date; to?: Date; error?: string } => {
+  const period: { from?: Date; to?: Date } = {};
+
+  if (typeof from === 'string' && from) {
+    period.from = new Date(from);
+    if (isNaN(period.from.getTime())) return { error: 'Invalid from date' };
+  }
+
+  if (typeof to === 'string' && to) {
+    period.to = new Date(to);
+    if (isNaN(period.to.getTime())) return { error: 'Invalid to date' };
+    period.to.setHours(23, 59, 59, 999);
+  }
+
+  if (period.from && period.to && period.from > period.to) {
+    return { error: 'From date must be before to date' };
+  }
+
+  return period;
+};
+
+/**
+ * Pick the editable client fields from a request body
+ */
+const pickClientFields = (data: any) => {
+  const fields: Record<string, string> = {};
+  ['companyName', 'address', 'contactNumber', 'attentionPerson', 'clientEmail', 'notes'].forEach(key => {
+    if (typeof data[key] === 'string') {
+      fields[key] = data[key].trim();
+    }
+  });
+  return fields;
+};
+
+/**
+ * Get clients, optionally filtered by a search term
+ * GET /api/clients?search=acme&limit=10
+ */
+export const getAllClients = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search : '';
+    const limit = parseInt((req.query.limit as string) || '50', 10);
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid limit. Must be between 1 and 200'
+      });
+      return;
+    }
+
+    const clients = await ClientService.search(search, limit);
+
+    res.status(200).json({
+      success: true,
+      data: clients,
+      count: clients.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching clients:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch clients',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a single client
+ * GET /api/clients/:id
+ */
+export const getClientById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const client = await ClientService.findById(req.params.id as string);
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: client
+    });
+  } catch (error: any) {
+    console.error('Error fetching client:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch client',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a client
+ * POST /api/clients
+ */
+export const createClient = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationErrors = validateClientData(req.body);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
+      return;
+    }
+
+    const fields = pickClientFields(req.body);
+
+    // Reject near-duplicates such as "ACME Corp." vs "Acme Corp"
+    const existingClient = await ClientService.findByCompanyName(fields.companyName);
+    if (existingClient) {
+      res.status(409).json({
+        success: false,
+        message: `Client "${existingClient.companyName}" already exists`,
+        data: existingClient
+      });
+      return;
+    }
+
+    const client = await ClientService.create({
+      companyName: fields.companyName,
+      address: fields.address,
+      contactNumber: fields.contactNumber || '',
+      attentionPerson: fields.attentionPerson,
+      clientEmail: fields.clientEmail || undefined,
+      notes: fields.notes || undefined,
+      createdBy: req.user?.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Client created successfully',
+      data: client
+    });
+  } catch (error: any) {
+    console.error('Error creating client:', error);
+    res.status(error.message?.includes('already exists') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to create client',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update a client
+ * PUT /api/clients/:id
+ */
+export const updateClient = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationErrors = validateClientData(req.body, true);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
+      return;
+    }
+
+    const client = await ClientService.update(req.params.id as string, pickClientFields(req.body));
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Client updated successfully',
+      data: client
+    });
+  } catch (error: any) {
+    console.error('Error updating client:', error);
+    res.status(error.message?.includes('already exists') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to update client',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the reminder policy that applies to a client
+ * GET /api/clients/:id/reminder-policy
+ */
+export const getClientReminderPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const client = await ClientService.findById(req.params.id as string);
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...(await PaymentReminderService.resolvePolicy(String(client._id))),
+        companyPolicy: PaymentReminderService.getCompanyPolicy()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching client reminder policy:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch client reminder policy',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Set a client's own reminder policy, or clear it with null to use the
+ * company-wide one (admin only)
+ * PUT /api/clients/:id/reminder-policy
+ */
+export const updateClientReminderPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const input = req.body?.reminderPolicy;
+    let reminderPolicy = null;
+
+    if (input !== null) {
+      const { policy, errors } = PaymentReminderService.validatePolicy(input);
+      if (!policy) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors
+        });
+        return;
+      }
+      reminderPolicy = policy;
+    }
+
+    const client = await ClientService.update(req.params.id as string, { reminderPolicy });
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: reminderPolicy ? 'Reminder policy saved' : 'Client now uses the company reminder policy',
+      data: {
+        ...(await PaymentReminderService.resolvePolicy(String(client._id))),
+        companyPolicy: PaymentReminderService.getCompanyPolicy()
+      }
+    });
+  } catch (error: any) {
+    console.error('Error updating client reminder policy:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update client reminder policy',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete a client (admin only)
+ * Clients that are referenced by billings cannot be deleted
+ * DELETE /api/clients/:id
+ */
+export const deleteClient = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const clientId = req.params.id as string;
+
+    const linkedBillings = await BillingModel.countDocuments({ clientId });
+    if (linkedBillings > 0) {
+      res.status(409).json({
+        success: false,
+        message: `Client is linked to ${linkedBillings} billing(s) and cannot be deleted`
+      });
+      return;
+    }
+
+    const client = await ClientService.delete(clientId);
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Client deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting client:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete client',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Download a client's Statement of Account PDF
+ * Lists open billings with payments and a running balance
+ * Non-admin users only see billings they created
+ * GET /api/clients/:id/statement?from&to
+ */
+export const getClientStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const period = parseStatementPeriod(req.query.from, req.query.to);
+    if (period.error) {
+      res.status(400).json({
+        success: false,
+        message: period.error
+      });
+      return;
+    }
+
+    const client = await ClientService.findById(req.params.id as string);
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    const createdBy = req.user?.role !== UserRole.ADMIN ? req.user?.userId : undefined;
+    const statement = await StatementService.build(client, period.from, period.to, createdBy);
+    const pdf = await PdfGenerationService.generateStatement(statement);
+
+    const filename = `SOA-${client.companyName.replace(/[^a-zA-Z0-9-]+/g, '_')}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error('Error generating statement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate statement',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Email a client's Statement of Account
+ * POST /api/clients/:id/statement/send-email
+ */
+export const sendClientStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { recipientEmail, from, to } = req.body || {};
+
+    const period = parseStatementPeriod(from, to);
+    if (period.error) {
+      res.status(400).json({
+        success: false,
+        message: period.error
+      });
+      return;
+    }
+
+    const client = await ClientService.findById(req.params.id as string);
+
+    if (!client) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found'
+      });
+      return;
+    }
+
+    const recipient = (typeof recipientEmail === 'string' && recipientEmail.trim()) || client.clientEmail;
+
+    if (!recipient) {
+      res.status(400).json({
+        success: false,
+        message: 'Recipient email is required (client has no email on file)'
+      });
+      return;
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid email address format'
+      });
+      return;
+    }
+
+    const createdBy = req.user?.role !== UserRole.ADMIN ? req.user?.userId : undefined;
+    const statement = await StatementService.build(client, period.from, period.to, createdBy);
+    const pdf = await PdfGenerationService.generateStatement(statement);
+
+    await EmailService.sendStatement(statement, pdf, recipient);
+
+    res.status(200).json({
+      success: true,
+      message: 'Statement of account sent successfully',
+      data: {
+        recipientEmail: recipient,
+        billingCount: statement.lines.length,
+        balance: statement.totals.balance
+      }
+    });
+  } catch (error: any) {
+    console.error('Error sending statement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send statement',
+      error: error.message
+    });
+  }
+};
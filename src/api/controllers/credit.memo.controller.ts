@@ -0,0 +1,189 @@
+/**
+ * Credit Memo Controller
+ * Handles HTTP requests for credit memos issued against a billing
+ */
+
+import { Response } from 'express';
+import { ResourceRequest } from '../middleware/authorize.middleware.js';
+import { Billing } from '../../types/billing.types.js';
+import { BillingService } from '../services/billing.service.js';
+import { CreditMemoService } from '../services/credit.memo.service.js';
+import { PdfGenerationService } from '../services/pdf.generation.service.js';
+import { PdfStorageService } from '../services/pdf.storage.service.js';
+
+/**
+ * Get the credit memos issued against a billing
+ * GET /api/billings/:id/credit-memos
+ */
+export const getBillingCreditMemos = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const billing = req.resource!;
+
+    const creditMemos = await CreditMemoService.findByBilling(String(billing._id));
+
+    res.status(200).json({
+      success: true,
+      data: creditMemos
+    });
+  } catch (error: any) {
+    console.error('Error fetching credit memos:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch credit memos',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Issue a credit memo against a billing
+ * POST /api/billings/:id/credit-memos
+ */
+export const createCreditMemo = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const billing = req.resource!;
+
+    if (billing.status === 'Void') {
+      res.status(409).json({
+        success: false,
+        message: 'Credit memos cannot be issued against a voided billing'
+      });
+      return;
+    }
+
+    const { memoDate, reason, amount } = req.body;
+    const balanceDue = billing.balanceDue ?? billing.grandTotal;
+    const errors: string[] = [];
+
+    if (!memoDate || isNaN(new Date(memoDate).getTime())) {
+      errors.push('A valid credit memo date is required');
+    }
+
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      errors.push('Reason is required');
+    } else if (reason.trim().length > 500) {
+      errors.push('Reason must be 500 characters or less');
+    }
+
+    if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+      errors.push('Amount must be greater than 0');
+    } else if (Number(amount.toFixed(2)) > balanceDue) {
+      errors.push(`Amount cannot exceed the balance due of ${balanceDue.toFixed(2)}`);
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    // The balance above was read when the billing was loaded; it is checked again as the credit is recorded
+    const createdMemo = await CreditMemoService.create(
+      billing,
+      {
+        memoDate: new Date(memoDate),
+        reason: reason.trim(),
+        amount: Number(amount.toFixed(2))
+      },
+      req.user!.userId
+    );
+
+    if (!createdMemo) {
+      const currentBilling = await BillingService.findById(String(billing._id));
+      res.status(409).json({
+        success: false,
+        message: currentBilling?.status === 'Void'
+          ? 'Credit memos cannot be issued against a voided billing'
+          : `Amount cannot exceed the balance due of ${(currentBilling?.balanceDue ?? 0).toFixed(2)}`
+      });
+      return;
+    }
+
+    let creditMemo = createdMemo;
+
+    try {
+      const pdfKey = await PdfGenerationService.generateCreditMemo(creditMemo, billing);
+      creditMemo = await CreditMemoService.setPdfKey(String(creditMemo._id), pdfKey) || creditMemo;
+    } catch (pdfError) {
+      console.error('Error generating credit memo PDF:', pdfError);
+    }
+
+    const updatedBilling = await BillingService.findById(String(billing._id));
+
+    res.status(201).json({
+      success: true,
+      message: 'Credit memo issued successfully',
+      data: {
+        creditMemo,
+        billing: updatedBilling
+      }
+    });
+  } catch (error: any) {
+    console.error('Error issuing credit memo:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue credit memo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Download the PDF of a credit memo
+ * GET /api/billings/:id/credit-memos/:memoId/download-pdf
+ */
+export const downloadCreditMemoPdf = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const billing = req.resource!;
+    let creditMemo = await CreditMemoService.findById(req.params.memoId as string);
+
+    if (!creditMemo || String(creditMemo.billingId) !== String(billing._id)) {
+      res.status(404).json({
+        success: false,
+        message: 'Credit memo not found'
+      });
+      return;
+    }
+
+    // Regenerate if the PDF was never stored or has been removed
+    let pdfStream = creditMemo.pdfStorageKey ? await PdfStorageService.openReadStream(creditMemo.pdfStorageKey) : null;
+    if (!pdfStream) {
+      const pdfKey = await PdfGenerationService.generateCreditMemo(creditMemo, billing);
+      creditMemo = await CreditMemoService.setPdfKey(String(creditMemo._id), pdfKey) || { ...creditMemo, pdfStorageKey: pdfKey };
+      pdfStream = await PdfStorageService.openReadStream(pdfKey);
+    }
+    if (!pdfStream) {
+      throw new Error('Credit memo PDF could not be read back from storage');
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${creditMemo.creditMemoNumber}.pdf"`);
+
+    // A GridFS file replaced by a regeneration mid-download errors here
+    pdfStream.on('error', (streamError) => {
+      console.error('Error streaming credit memo PDF:', streamError);
+      if (res.headersSent) {
+        res.destroy(streamError);
+        return;
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({
+        success: false,
+        message: 'Credit memo PDF could not be read from storage. Please try again',
+        error: streamError.message
+      });
+    });
+    pdfStream.pipe(res);
+  } catch (error: any) {
+    console.error('Error downloading credit memo PDF:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download credit memo PDF',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,368 @@
+/**
+ * Delivery Receipt Controller
+ * Handles HTTP requests for delivery receipts issued when goods ship
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { ResourceRequest } from '../middleware/authorize.middleware.js';
+import { UserRole } from '../models/User.model.js';
+import { DeliveryReceipt, DeliveryReceiptItem, DELIVERY_RECEIPT_STATUSES } from '../models/DeliveryReceipt.model.js';
+import { DeliveryReceiptService } from '../services/delivery.receipt.service.js';
+import { ClientService } from '../services/client.service.js';
+import { PdfGenerationService } from '../services/pdf.generation.service.js';
+import { PdfStorageService } from '../services/pdf.storage.service.js';
+import {
+  validateCompanyName,
+  validateAddress,
+  validateContactNumber,
+  validateAttentionPerson,
+  validateItemDescription,
+  validateItemQuantity,
+  validateItemUnitPrice
+} from '../../lib/validation.js';
+
+/**
+ * Validate and normalize delivery receipt fields shared by create and update
+ * Delivered quantity defaults to the ordered quantity (a complete delivery).
+ * @param data - Request body
+ * @returns Validation errors, or the normalized receipt fields
+ */
+const parseDeliveryReceiptData = (data: any): { errors: string[]; fields: Partial<DeliveryReceipt> } => {
+  const errors: string[] = [];
+
+  if (!data.deliveryDate || isNaN(new Date(data.deliveryDate).getTime())) {
+    errors.push('A valid delivery date is required');
+  }
+
+  const companyResult = validateCompanyName(data.companyName);
+  if (!companyResult.isValid) errors.push(companyResult.error!);
+
+  const addressResult = validateAddress(data.address);
+  if (!addressResult.isValid) errors.push(addressResult.error!);
+
+  if (data.contactNumber) {
+    const result = validateContactNumber(data.contactNumber);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  if (data.attentionPerson) {
+    const result = validateAttentionPerson(data.attentionPerson);
+    if (!result.isValid) errors.push(result.error!);
+  }
+
+  const items: DeliveryReceiptItem[] = [];
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.push('At least one item is required');
+  } else {
+    data.items.forEach((item: any, index: number) => {
+      const line = `Item ${index + 1}`;
+      const quantity = Number(item.quantity);
+      const deliveredQuantity = item.deliveredQuantity === undefined || item.deliveredQuantity === ''
+        ? quantity
+        : Number(item.deliveredQuantity);
+      const unitPrice = item.unitPrice === undefined ? 0 : Number(item.unitPrice);
+
+      const descriptionResult = validateItemDescription(item.description);
+      if (!descriptionResult.isValid) errors.push(`${line}: ${descriptionResult.error}`);
+
+      const quantityResult = validateItemQuantity(quantity);
+      if (isNaN(quantity) || !quantityResult.isValid) {
+        errors.push(`${line}: ${quantityResult.error || 'Quantity must be a number'}`);
+      }
+
+      if (isNaN(deliveredQuantity) || !Number.isInteger(deliveredQuantity) || deliveredQuantity < 0) {
+        errors.push(`${line}: Delivered quantity must be a whole number of 0 or more`);
+      } else if (deliveredQuantity > quantity) {
+        errors.push(`${line}: Delivered quantity cannot exceed the ordered quantity`);
+      }
+
+      const priceResult = validateItemUnitPrice(unitPrice);
+      if (isNaN(unitPrice) || !priceResult.isValid) {
+        errors.push(`${line}: ${priceResult.error || 'Unit price must be a number'}`);
+      }
+
+      items.push({
+        id: item.id || String(index + 1),
+        description: typeof item.description === 'string' ? item.description.trim() : '',
+        unit: typeof item.unit === 'string' && item.unit.trim() ? item.unit.trim() : 'pc',
+        quantity,
+        deliveredQuantity,
+        unitPrice,
+        catalogItemId: item.catalogItemId || undefined
+      });
+    });
+  }
+
+  if (data.receivedBy !== undefined && typeof data.receivedBy !== 'string') {
+    errors.push('Received by must be a name');
+  }
+
+  return {
+    errors,
+    fields: {
+      deliveryDate: new Date(data.deliveryDate),
+      companyName: data.companyName?.trim(),
+      address: data.address?.trim(),
+      contactNumber: data.contactNumber?.trim() || undefined,
+      attentionPerson: data.attentionPerson?.trim() || undefined,
+      items,
+      receivedBy: data.receivedBy?.trim() || undefined,
+      notes: typeof data.notes === 'string' ? data.notes.trim() || undefined : undefined
+    }
+  };
+};
+
+/**
+ * Resolve the client master record for a delivery receipt
+ * An explicit clientId must exist; otherwise the company name is matched.
+ * @returns Client ID, undefined if unmatched, or null if the explicit ID is invalid
+ */
+const resolveClientId = async (clientId: unknown, companyName: string): Promise<string | undefined | null> => {
+  if (clientId) {
+    const client = await ClientService.findById(String(clientId));
+    return client ? client._id!.toString() : null;
+  }
+  const client = await ClientService.findByCompanyName(companyName);
+  return client?._id?.toString();
+};
+
+/**
+ * Generate the PDF of a delivery receipt and record its storage key
+ * PDF failures are logged; the receipt itself is already saved.
+ */
+const generatePdf = async (receipt: DeliveryReceipt): Promise<DeliveryReceipt> => {
+  try {
+    const pdfKey = await PdfGenerationService.generateDeliveryReceipt(receipt);
+    return await DeliveryReceiptService.setPdfKey(String(receipt._id), pdfKey) || receipt;
+  } catch (pdfError) {
+    console.error('Error generating delivery receipt PDF:', pdfError);
+    return receipt;
+  }
+};
+
+/**
+ * Get delivery receipts
+ * Non-admins only see receipts they created.
+ * GET /api/delivery-receipts?status=Open&clientId=&search=
+ */
+export const getDeliveryReceipts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+
+    if (req.user!.role !== UserRole.ADMIN) {
+      filter.createdBy = req.user!.userId;
+    }
+
+    const { status, clientId, search } = req.query;
+
+    if (typeof status === 'string' && status) {
+      if (!(DELIVERY_RECEIPT_STATUSES as readonly string[]).includes(status)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${DELIVERY_RECEIPT_STATUSES.join(', ')}`
+        });
+        return;
+      }
+      filter.status = status;
+    }
+
+    if (typeof clientId === 'string' && /^[0-9a-fA-F]{24}$/.test(clientId)) {
+      filter.clientId = clientId;
+    }
+
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ drNumber: pattern }, { companyName: pattern }];
+    }
+
+    const receipts = await DeliveryReceiptService.findAll(filter);
+
+    res.status(200).json({
+      success: true,
+      data: receipts,
+      count: receipts.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching delivery receipts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch delivery receipts',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a single delivery receipt
+ * GET /api/delivery-receipts/:id
+ */
+export const getDeliveryReceiptById = async (req: ResourceRequest<DeliveryReceipt>, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: req.resource!
+  });
+};
+
+/**
+ * Issue a delivery receipt
+ * POST /api/delivery-receipts
+ */
+export const createDeliveryReceipt = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { errors, fields } = parseDeliveryReceiptData(req.body);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const clientId = await resolveClientId(req.body.clientId, fields.companyName!);
+    if (clientId === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: ['Client not found']
+      });
+      return;
+    }
+
+    const receipt = await DeliveryReceiptService.create({
+      ...fields as Pick<DeliveryReceipt, 'deliveryDate' | 'companyName' | 'address' | 'items'>,
+      clientId,
+      createdBy: req.user!.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Delivery receipt created successfully',
+      data: await generatePdf(receipt)
+    });
+  } catch (error: any) {
+    console.error('Error creating delivery receipt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create delivery receipt',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update an open delivery receipt and regenerate its PDF
+ * PUT /api/delivery-receipts/:id
+ */
+export const updateDeliveryReceipt = async (req: ResourceRequest<DeliveryReceipt>, res: Response): Promise<void> => {
+  try {
+    const existing = req.resource!;
+
+    if (existing.status !== 'Open') {
+      res.status(409).json({
+        success: false,
+        message: `Delivery receipt has already been billed on ${existing.billingNumber} and can no longer be changed`
+      });
+      return;
+    }
+
+    const { errors, fields } = parseDeliveryReceiptData({ ...existing, ...req.body });
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    // Re-link only when the client or company changes
+    let clientId = existing.clientId;
+    if (req.body.clientId !== undefined || fields.companyName !== existing.companyName) {
+      const resolved = await resolveClientId(req.body.clientId, fields.companyName!);
+      if (resolved === null) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: ['Client not found']
+        });
+        return;
+      }
+      clientId = resolved;
+    }
+
+    const updated = await DeliveryReceiptService.update(String(existing._id), { ...fields, clientId });
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'Delivery receipt has already been billed and can no longer be changed'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Delivery receipt updated successfully',
+      data: await generatePdf(updated)
+    });
+  } catch (error: any) {
+    console.error('Error updating delivery receipt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update delivery receipt',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Download the PDF of a delivery receipt
+ * GET /api/delivery-receipts/:id/download-pdf
+ */
+export const downloadDeliveryReceiptPdf = async (req: ResourceRequest<DeliveryReceipt>, res: Response): Promise<void> => {
+  try {
+    let receipt = req.resource!;
+
+    // Regenerate if the PDF was never stored or has been removed
+    let pdfStream = receipt.pdfStorageKey ? await PdfStorageService.openReadStream(receipt.pdfStorageKey) : null;
+    if (!pdfStream) {
+      const pdfKey = await PdfGenerationService.generateDeliveryReceipt(receipt);
+      receipt = await DeliveryReceiptService.setPdfKey(String(receipt._id), pdfKey) || { ...receipt, pdfStorageKey: pdfKey };
+      pdfStream = await PdfStorageService.openReadStream(pdfKey);
+    }
+    if (!pdfStream) {
+      throw new Error('Delivery receipt PDF could not be read back from storage');
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${receipt.drNumber}.pdf"`);
+
+    // A GridFS file replaced by a regeneration mid-download errors here
+    pdfStream.on('error', (streamError) => {
+      console.error('Error streaming delivery receipt PDF:', streamError);
+      if (res.headersSent) {
+        res.destroy(streamError);
+        return;
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({
+        success: false,
+        message: 'Delivery receipt PDF could not be read from storage. Please try again',
+        error: streamError.message
+      });
+    });
+    pdfStream.pipe(res);
+  } catch (error: any) {
+    console.error('Error downloading delivery receipt PDF:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download delivery receipt PDF',
+      error: error.message
+    });
+  }
+};
@@ -4,8 +4,9 @@
  */
 
 import { Response } from 'express';
-import { DraftBillingModel } from '../models/Draft.model.js';
+import { DraftBilling, DraftBillingModel } from '../models/Draft.model.js';
 import { AuthRequest } from '../middleware/auth.middleware.js';
+import { ResourceRequest, canAccess } from '../middleware/authorize.middleware.js';
 import { UserRole } from '../models/User.model.js';
 
 /**
@@ -26,23 +27,15 @@ export const saveDraft = async (req: AuthRequest, res: Response): Promise<void>
     
     // If draft has an ID, update existing; otherwise create new
     if (draftData._id) {
-      // Verify ownership for non-admin users
-      if (req.user.role !== UserRole.ADMIN) {
-        const existingDraft = await DraftBillingModel.findById(draftData._id);
-        if (existingDraft && existingDraft.createdBy?.toString() !== req.user.userId) {
-          res.status(403).json({
-            success: false,
-            message: 'You do not have permission to edit this draft'
-          });
-          return;
-        }
-      }
-
-      const updatedDraft = await DraftBillingModel.findByIdAndUpdate(
-        draftData._id,
-        { ...draftData, savedAt: new Date() },
-        { new: true, runValidators: true }
-      );
+      // Someone else's draft is reported as missing, same as authorizeDraft
+      const existingDraft = await DraftBillingModel.findById(draftData._id).lean();
+      const updatedDraft = existingDraft && canAccess(req.user, existingDraft.createdBy)
+        ? await DraftBillingModel.findByIdAndUpdate(
+          draftData._id,
+          { ...draftData, createdBy: existingDraft.createdBy, savedAt: new Date() },
+          { new: true, runValidators: true }
+        )
+        : null;
       
       if (!updatedDraft) {
         res.status(404).json({
@@ -125,37 +118,10 @@ export const getAllDrafts = async (req: AuthRequest, res: Response): Promise<voi
 /**
  * Get a single draft by ID
  */
-export const getDraftById = async (req: AuthRequest, res: Response): Promise<void> => {
+export const getDraftById = async (req: ResourceRequest<DraftBilling>, res: Response): Promise<void> => {
   try {
-    // Ensure user is authenticated
-    if (!req.user?.userId) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required'
-      });
-      return;
-    }
-
-    const { id } = req.params;
-    
-    const draft = await DraftBillingModel.findById(id).lean();
-    
-    if (!draft) {
-      res.status(404).json({
-        success: false,
-        message: 'Draft not found'
-      });
-      return;
-    }
-
-    // Verify ownership for non-admin users
-    if (req.user.role !== UserRole.ADMIN && draft.createdBy?.toString() !== req.user.userId) {
-      res.status(403).json({
-        success: false,
-        message: 'You do not have permission to access this draft'
-      });
-      return;
-    }
+    // Loaded and access-checked by authorizeDraft
+    const draft = req.resource!;
     
     res.status(200).json({
       success: true,
@@ -174,39 +140,10 @@ export const getDraftById = async (req: AuthRequest, res: Response): Promise<voi
 /**
  * Delete a draft
  */
-export const deleteDraft = async (req: AuthRequest, res: Response): Promise<void> => {
+export const deleteDraft = async (req: ResourceRequest<DraftBilling>, res: Response): Promise<void> => {
   try {
-    // Ensure user is authenticated
-    if (!req.user?.userId) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required'
-      });
-      return;
-    }
-
-    const { id } = req.params;
-    
-    const draft = await DraftBillingModel.findById(id);
-    
-    if (!draft) {
-      res.status(404).json({
-        success: false,
-        message: 'Draft not found'
-      });
-      return;
-    }
-
-    // Verify ownership for non-admin users
-    if (req.user.role !== UserRole.ADMIN && draft.createdBy?.toString() !== req.user.userId) {
-      res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete this draft'
-      });
-      return;
-    }
-    
-    await DraftBillingModel.findByIdAndDelete(id);
+    // Loaded and access-checked by authorizeDraft
+    await DraftBillingModel.findByIdAndDelete(req.resource!._id);
     
     res.status(200).json({
       success: true,
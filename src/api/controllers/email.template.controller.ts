@@ -0,0 +1,264 @@
+/**
+ * Email Template Controller
+ * Handles HTTP requests for editing and previewing email templates (admin only)
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { EMAIL_TEMPLATE_TYPES, EmailTemplateType } from '../models/EmailTemplate.model.js';
+import { EmailTemplateService, RenderedEmail } from '../services/email.template.service.js';
+import { DEFAULT_EMAIL_TEMPLATES, EMAIL_TEMPLATE_PLACEHOLDERS } from '../services/email.template.defaults.js';
+import { BillingService } from '../services/billing.service.js';
+import { ClientService } from '../services/client.service.js';
+import { StatementService } from '../services/statement.service.js';
+import { CompanySettingsService } from '../services/company.settings.service.js';
+
+/**
+ * Read the template type from the route
+ * @returns The type, or null if it is not one of EMAIL_TEMPLATE_TYPES
+ */
+const parseTemplateType = (req: AuthRequest): EmailTemplateType | null => {
+  const type = String(req.params.type);
+  return (EMAIL_TEMPLATE_TYPES as readonly string[]).includes(type) ? type as EmailTemplateType : null;
+};
+
+/**
+ * Read the optional client ID from the query string or body
+ * @returns The client ID, null for the company-wide template, or undefined if malformed
+ */
+const parseClientId = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value) ? value : undefined;
+};
+
+/**
+ * Get all stored templates with the defaults and placeholders of each type
+ * GET /api/email-templates?clientId=
+ */
+export const getEmailTemplates = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const clientId = parseClientId(req.query.clientId);
+    const filter = typeof req.query.clientId === 'string' && clientId ? { clientId: { $in: [clientId, null] } } : {};
+    const templates = await EmailTemplateService.findAll(filter);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        templates,
+        defaults: DEFAULT_EMAIL_TEMPLATES,
+        placeholders: EMAIL_TEMPLATE_PLACEHOLDERS
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching email templates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch email templates',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the template that applies to a type and client
+ * GET /api/email-templates/:type?clientId=
+ */
+export const getEmailTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const type = parseTemplateType(req);
+    const clientId = parseClientId(req.query.clientId);
+
+    if (!type || clientId === undefined) {
+      res.status(400).json({
+        success: false,
+        message: !type ? `Template type must be one of: ${EMAIL_TEMPLATE_TYPES.join(', ')}` : 'Invalid client ID'
+      });
+      return;
+    }
+
+    const template = await EmailTemplateService.resolve(type, clientId);
+
+    res.status(200).json({
+      success: true,
+      data: template
+    });
+  } catch (error: any) {
+    console.error('Error fetching email template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch email template',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Save the company-wide template of a type, or a client's override with clientId
+ * PUT /api/email-templates/:type
+ */
+export const saveEmailTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const type = parseTemplateType(req);
+    const clientId = parseClientId(req.body.clientId);
+    const { subject, body } = req.body;
+    const errors: string[] = [];
+
+    if (!type) {
+      errors.push(`Template type must be one of: ${EMAIL_TEMPLATE_TYPES.join(', ')}`);
+    }
+    if (clientId === undefined) {
+      errors.push('Invalid client ID');
+    } else if (clientId && !(await ClientService.findById(clientId))) {
+      errors.push('Client not found');
+    }
+    if (typeof subject !== 'string' || subject.trim() === '') {
+      errors.push('Subject is required');
+    }
+    if (typeof body !== 'string' || body.trim() === '') {
+      errors.push('Body is required');
+    }
+    if (errors.length === 0) {
+      errors.push(...EmailTemplateService.validate(type!, subject, body));
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const template = await EmailTemplateService.save(type!, clientId!, { subject: subject.trim(), body }, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email template saved successfully',
+      data: template
+    });
+  } catch (error: any) {
+    console.error('Error saving email template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save email template',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete a stored template so the company-wide or built-in one applies again
+ * DELETE /api/email-templates/:type?clientId=
+ */
+export const deleteEmailTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const type = parseTemplateType(req);
+    const clientId = parseClientId(req.query.clientId);
+
+    if (!type || clientId === undefined) {
+      res.status(400).json({
+        success: false,
+        message: !type ? `Template type must be one of: ${EMAIL_TEMPLATE_TYPES.join(', ')}` : 'Invalid client ID'
+      });
+      return;
+    }
+
+    const deletedTemplate = await EmailTemplateService.delete(type, clientId);
+
+    if (!deletedTemplate) {
+      res.status(404).json({
+        success: false,
+        message: 'Email template not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: clientId ? 'Client template deleted; the company template applies again' : 'Email template reset to the default'
+    });
+  } catch (error: any) {
+    console.error('Error deleting email template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete email template',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Render a template against a real billing (or, for statements, a client)
+ * Pass subject and body to preview unsaved changes; otherwise the template
+ * that applies to the billing's client is used.
+ * POST /api/email-templates/:type/preview
+ */
+export const previewEmailTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const type = parseTemplateType(req);
+    const { billingId, subject, body } = req.body;
+
+    if (!type) {
+      res.status(400).json({
+        success: false,
+        message: `Template type must be one of: ${EMAIL_TEMPLATE_TYPES.join(', ')}`
+      });
+      return;
+    }
+
+    const billing = typeof billingId === 'string' && billingId.trim()
+      ? await BillingService.findByIdOrNumber(billingId.trim())
+      : null;
+    const clientId = parseClientId(req.body.clientId) || (billing?.clientId ? String(billing.clientId) : null);
+
+    if (type !== 'Statement' && !billing) {
+      res.status(404).json({
+        success: false,
+        message: 'Billing not found'
+      });
+      return;
+    }
+
+    const template: RenderedEmail = typeof subject === 'string' && typeof body === 'string'
+      ? { subject, body }
+      : await EmailTemplateService.resolve(type, clientId);
+
+    let values;
+    if (type === 'Statement') {
+      const client = clientId ? await ClientService.findById(clientId) : null;
+      if (!client) {
+        res.status(404).json({
+          success: false,
+          message: 'Client not found'
+        });
+        return;
+      }
+      values = EmailTemplateService.getStatementValues(await StatementService.build(client));
+    } else {
+      values = EmailTemplateService.getBillingValues(billing!);
+    }
+
+    // The browser cannot resolve the inline attachment, so previews embed the logo
+    const company = await CompanySettingsService.get();
+    values = {
+      ...EmailTemplateService.getCompanyValues(company, await CompanySettingsService.getLogoDataUri(company)),
+      ...values
+    };
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...EmailTemplateService.renderEmail(template, values),
+        errors: EmailTemplateService.validate(type, template.subject, template.body)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error previewing email template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to preview email template',
+      error: error.message
+    });
+  }
+};
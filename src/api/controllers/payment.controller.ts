@@ -0,0 +1,199 @@
+/**
+ * Payment Controller
+ * Handles HTTP requests for payments recorded against a billing
+ */
+
+import { Response } from 'express';
+import { ResourceRequest } from '../middleware/authorize.middleware.js';
+import { Billing } from '../../types/billing.types.js';
+import { BillingService } from '../services/billing.service.js';
+import { PaymentService } from '../services/payment.service.js';
+import { PAYMENT_METHODS, PaymentMethod } from '../models/Payment.model.js';
+import { BillingActionResult } from './billing.controller.js';
+
+/**
+ * Payment totals returned alongside the ledger
+ */
+const buildSummary = (billing: Billing) => ({
+  grandTotal: billing.grandTotal,
+  amountPaid: billing.amountPaid ?? 0,
+  amountCredited: billing.amountCredited ?? 0,
+  balanceDue: billing.balanceDue ?? billing.grandTotal,
+  paymentStatus: billing.paymentStatus ?? 'Unpaid'
+});
+
+/**
+ * Get the payment history of a billing
+ * GET /api/billings/:id/payments
+ */
+export const getBillingPayments = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const billing = req.resource!;
+
+    const payments = await PaymentService.findByBilling(String(billing._id));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        payments,
+        summary: buildSummary(billing)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching payments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payments',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Record a payment against a billing
+ * Shared by POST /api/billings/:id/payments and bulk mark-as-paid.
+ * @param billing - Billing the payment is for
+ * @param input - Payment date, amount, method, reference number and notes
+ * @param actorId - User recording the payment
+ */
+export const recordBillingPayment = async (
+  billing: Billing,
+  input: { paymentDate?: unknown; amount?: unknown; method?: unknown; referenceNumber?: unknown; notes?: unknown },
+  actorId?: string
+): Promise<BillingActionResult> => {
+  if (billing.status === 'Void') {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        message: 'Payments cannot be recorded on a voided billing'
+      }
+    };
+  }
+
+  const { paymentDate, amount, method, referenceNumber, notes } = input;
+  const balanceDue = billing.balanceDue ?? billing.grandTotal;
+  const errors: string[] = [];
+
+  if (!paymentDate || isNaN(new Date(paymentDate as string).getTime())) {
+    errors.push('A valid payment date is required');
+  }
+
+  if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+    errors.push('Amount must be greater than 0');
+  } else if (Number(amount.toFixed(2)) > balanceDue) {
+    errors.push(`Amount cannot exceed the balance due of ${balanceDue.toFixed(2)}`);
+  }
+
+  if (!PAYMENT_METHODS.includes(method as PaymentMethod)) {
+    errors.push(`Method must be one of: ${PAYMENT_METHODS.join(', ')}`);
+  }
+
+  if (referenceNumber !== undefined && typeof referenceNumber !== 'string') {
+    errors.push('Reference number must be text');
+  }
+
+  if (errors.length > 0) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        message: 'Validation failed',
+        errors
+      }
+    };
+  }
+
+  // The balance above was read when the billing was loaded; the reservation
+  // re-checks it in the same write that records the amount
+  const payment = await PaymentService.create({
+    billingId: String(billing._id),
+    paymentDate: new Date(paymentDate as string),
+    amount: Number((amount as number).toFixed(2)),
+    method: method as PaymentMethod,
+    referenceNumber: (referenceNumber as string | undefined)?.trim() || undefined,
+    notes: typeof notes === 'string' ? notes.trim() || undefined : undefined,
+    recordedBy: actorId
+  });
+
+  const updatedBilling = await BillingService.findById(String(billing._id));
+
+  if (!payment) {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        message: updatedBilling?.status === 'Void'
+          ? 'Payments cannot be recorded on a voided billing'
+          : `Amount cannot exceed the balance due of ${(updatedBilling?.balanceDue ?? 0).toFixed(2)}`
+      }
+    };
+  }
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      message: 'Payment recorded successfully',
+      data: {
+        payment,
+        summary: buildSummary(updatedBilling || billing)
+      }
+    }
+  };
+};
+
+/**
+ * Record a payment against a billing
+ * POST /api/billings/:id/payments
+ */
+export const recordPayment = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const result = await recordBillingPayment(req.resource!, req.body ?? {}, req.user?.userId);
+    res.status(result.status).json(result.body);
+  } catch (error: any) {
+    console.error('Error recording payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record payment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Remove a payment recorded by mistake
+ * DELETE /api/billings/:id/payments/:paymentId
+ */
+export const deletePayment = async (req: ResourceRequest<Billing>, res: Response): Promise<void> => {
+  try {
+    const billing = req.resource!;
+    const payment = await PaymentService.findById(req.params.paymentId as string);
+
+    if (!payment || String(payment.billingId) !== String(billing._id)) {
+      res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+      return;
+    }
+
+    await PaymentService.delete(String(payment._id), req.user?.userId);
+    const updatedBilling = await BillingService.findById(String(billing._id));
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment deleted successfully',
+      data: {
+        summary: buildSummary(updatedBilling || billing)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error deleting payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete payment',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,335 @@
+/**
+ * Purchase Order Controller
+ * Handles HTTP requests for client purchase orders
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PURCHASE_ORDER_STATUSES,
+  OVERBILLING_POLICIES
+} from '../models/PurchaseOrder.model.js';
+import { PurchaseOrderService } from '../services/purchase.order.service.js';
+import { ClientService } from '../services/client.service.js';
+import { BillingModel } from '../models/Billing.model.js';
+import {
+  validateRequired,
+  validateItemDescription,
+  validateItemQuantity,
+  validateItemUnitPrice
+} from '../../lib/validation.js';
+
+/**
+ * Validate and normalize purchase order fields shared by create and update
+ * @param data - Request body merged over the current PO on update
+ * @returns Validation errors, or the normalized PO fields
+ */
+const parsePurchaseOrderData = (data: any): { errors: string[]; fields: Partial<PurchaseOrder> } => {
+  const errors: string[] = [];
+
+  const poNumberResult = validateRequired(data.poNumber, 'PO number');
+  if (!poNumberResult.isValid) errors.push(poNumberResult.error!);
+
+  if (!data.clientId || !/^[0-9a-fA-F]{24}$/.test(String(data.clientId))) {
+    errors.push('A client is required');
+  }
+
+  if (!data.poDate || isNaN(new Date(data.poDate).getTime())) {
+    errors.push('A valid PO date is required');
+  }
+
+  if (data.overbillingPolicy !== undefined && !(OVERBILLING_POLICIES as readonly string[]).includes(data.overbillingPolicy)) {
+    errors.push(`Over-billing policy must be one of: ${OVERBILLING_POLICIES.join(', ')}`);
+  }
+
+  if (data.status !== undefined && !(PURCHASE_ORDER_STATUSES as readonly string[]).includes(data.status)) {
+    errors.push(`Status must be one of: ${PURCHASE_ORDER_STATUSES.join(', ')}`);
+  }
+
+  const lines: PurchaseOrderLine[] = [];
+  if (!Array.isArray(data.lines) || data.lines.length === 0) {
+    errors.push('At least one line is required');
+  } else {
+    data.lines.forEach((poLine: any, index: number) => {
+      const line = `Line ${index + 1}`;
+      const orderedQuantity = Number(poLine.orderedQuantity);
+      const unitPrice = Number(poLine.unitPrice);
+
+      const styleResult = validateRequired(poLine.style, 'Style');
+      if (!styleResult.isValid) errors.push(`${line}: ${styleResult.error}`);
+
+      const descriptionResult = validateItemDescription(poLine.description);
+      if (!descriptionResult.isValid) errors.push(`${line}: ${descriptionResult.error}`);
+
+      const quantityResult = validateItemQuantity(orderedQuantity);
+      if (isNaN(orderedQuantity) || !quantityResult.isValid) {
+        errors.push(`${line}: ${quantityResult.error || 'Quantity must be a number'}`);
+      }
+
+      const priceResult = validateItemUnitPrice(unitPrice);
+      if (isNaN(unitPrice) || !priceResult.isValid) {
+        errors.push(`${line}: ${priceResult.error || 'Unit price must be a number'}`);
+      }
+
+      lines.push({
+        id: poLine.id || String(index + 1),
+        style: typeof poLine.style === 'string' ? poLine.style.trim() : '',
+        description: typeof poLine.description === 'string' ? poLine.description.trim() : '',
+        orderedQuantity,
+        unitPrice,
+        catalogItemId: poLine.catalogItemId || undefined
+      });
+    });
+
+    if (new Set(lines.map(poLine => poLine.id)).size !== lines.length) {
+      errors.push('Line IDs must be unique');
+    }
+  }
+
+  return {
+    errors,
+    fields: {
+      poNumber: typeof data.poNumber === 'string' ? data.poNumber.trim() : data.poNumber,
+      clientId: data.clientId ? String(data.clientId) : undefined,
+      poDate: new Date(data.poDate),
+      lines,
+      overbillingPolicy: data.overbillingPolicy || 'Block',
+      status: data.status || 'Open',
+      notes: typeof data.notes === 'string' ? data.notes.trim() || undefined : undefined
+    }
+  };
+};
+
+/**
+ * Get purchase orders with billed and remaining quantities
+ * GET /api/purchase-orders?clientId=&status=Open&search=
+ */
+export const getPurchaseOrders = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    const { clientId, status, search } = req.query;
+
+    if (typeof clientId === 'string' && /^[0-9a-fA-F]{24}$/.test(clientId)) {
+      filter.clientId = clientId;
+    }
+
+    if (typeof status === 'string' && (PURCHASE_ORDER_STATUSES as readonly string[]).includes(status)) {
+      filter.status = status;
+    }
+
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ poNumber: pattern }, { companyName: pattern }];
+    }
+
+    const purchaseOrders = await PurchaseOrderService.withFulfillment(await PurchaseOrderService.findAll(filter));
+
+    res.status(200).json({
+      success: true,
+      data: purchaseOrders,
+      count: purchaseOrders.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching purchase orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch purchase orders',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a single purchase order with billed and remaining quantities
+ * GET /api/purchase-orders/:id
+ */
+export const getPurchaseOrderById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const po = await PurchaseOrderService.findById(req.params.id as string);
+
+    if (!po) {
+      res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+      return;
+    }
+
+    const [purchaseOrder] = await PurchaseOrderService.withFulfillment([po]);
+
+    res.status(200).json({
+      success: true,
+      data: purchaseOrder
+    });
+  } catch (error: any) {
+    console.error('Error fetching purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch purchase order',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a purchase order
+ * POST /api/purchase-orders
+ */
+export const createPurchaseOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { errors, fields } = parsePurchaseOrderData(req.body);
+    const client = errors.length === 0 ? await ClientService.findById(String(fields.clientId)) : null;
+    if (errors.length === 0 && !client) {
+      errors.push('Client not found');
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const po = await PurchaseOrderService.create({
+      ...fields as Pick<PurchaseOrder, 'poNumber' | 'clientId' | 'poDate' | 'lines' | 'overbillingPolicy' | 'status' | 'notes'>,
+      companyName: client!.companyName,
+      createdBy: req.user!.userId
+    });
+
+    const [purchaseOrder] = await PurchaseOrderService.withFulfillment([po]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Purchase order created successfully',
+      data: purchaseOrder
+    });
+  } catch (error: any) {
+    console.error('Error creating purchase order:', error);
+    res.status(error.message?.includes('already has') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to create purchase order',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update a purchase order
+ * Billed lines cannot be removed or reduced below what has been billed, and
+ * the client cannot change once anything has been billed.
+ * PUT /api/purchase-orders/:id
+ */
+export const updatePurchaseOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const existing = await PurchaseOrderService.findById(req.params.id as string);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+      return;
+    }
+
+    const { errors, fields } = parsePurchaseOrderData({ ...existing, ...req.body });
+
+    const [current] = await PurchaseOrderService.withFulfillment([existing]);
+    const hasBillings = current.billedQuantity > 0;
+
+    if (hasBillings && String(fields.clientId) !== String(existing.clientId)) {
+      errors.push('The client cannot be changed once the purchase order has been billed');
+    }
+
+    current.lines
+      .filter(poLine => poLine.billedQuantity > 0)
+      .forEach(poLine => {
+        const updatedLine = fields.lines?.find(line => line.id === poLine.id);
+        if (!updatedLine) {
+          errors.push(`${poLine.style} has been billed and cannot be removed`);
+        } else if (updatedLine.orderedQuantity < poLine.billedQuantity) {
+          errors.push(`${poLine.style}: ordered quantity cannot be less than the ${poLine.billedQuantity} already billed`);
+        }
+      });
+
+    let companyName = existing.companyName;
+    if (errors.length === 0 && String(fields.clientId) !== String(existing.clientId)) {
+      const client = await ClientService.findById(String(fields.clientId));
+      if (!client) {
+        errors.push('Client not found');
+      } else {
+        companyName = client.companyName;
+      }
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const po = await PurchaseOrderService.update(String(existing._id), { ...fields, companyName });
+    const [purchaseOrder] = await PurchaseOrderService.withFulfillment([po!]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: purchaseOrder
+    });
+  } catch (error: any) {
+    console.error('Error updating purchase order:', error);
+    res.status(error.message?.includes('already has') ? 409 : 500).json({
+      success: false,
+      message: 'Failed to update purchase order',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete a purchase order (admin only)
+ * Purchase orders with billings must be closed instead
+ * DELETE /api/purchase-orders/:id
+ */
+export const deletePurchaseOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const poId = req.params.id as string;
+
+    const usageCount = await BillingModel.countDocuments({ 'items.purchaseOrderId': poId });
+    if (usageCount > 0) {
+      res.status(409).json({
+        success: false,
+        message: `Purchase order is referenced by ${usageCount} billing(s). Close it instead.`
+      });
+      return;
+    }
+
+    const po = await PurchaseOrderService.delete(poId);
+
+    if (!po) {
+      res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Purchase order deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete purchase order',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,364 @@
+/**
+ * Recurring Billing Controller
+ * Handles HTTP requests for recurring billing schedules
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { ResourceRequest } from '../middleware/authorize.middleware.js';
+import { UserRole } from '../models/User.model.js';
+import {
+  RecurringBilling,
+  RecurringBillingItem,
+  RECURRING_FREQUENCIES
+} from '../models/RecurringBilling.model.js';
+import { RecurringBillingService } from '../services/recurring.billing.service.js';
+import { RecurringBillingScheduler } from '../services/recurring.billing.scheduler.js';
+import { ClientService } from '../services/client.service.js';
+import { calculateSubtotal, calculateLineTotal } from '../../types/billing.types.js';
+import {
+  validateRequired,
+  validateItemDescription,
+  validateItemQuantity,
+  validateItemUnitPrice,
+  validateDiscount,
+  validatePaymentTerms,
+  validateTaxSettings,
+  validateVatType
+} from '../../lib/validation.js';
+
+/**
+ * Validate and normalize schedule fields shared by create and update
+ * @param data - Request body merged over the current schedule on update
+ * @returns Validation errors, or the normalized schedule fields
+ */
+const parseRecurringBillingData = (data: any): { errors: string[]; fields: Partial<RecurringBilling> } => {
+  const errors: string[] = [];
+
+  const nameResult = validateRequired(data.name, 'Name');
+  if (!nameResult.isValid) errors.push(nameResult.error!);
+
+  if (!data.clientId || !/^[0-9a-fA-F]{24}$/.test(String(data.clientId))) {
+    errors.push('A client is required');
+  }
+
+  if (!(RECURRING_FREQUENCIES as readonly string[]).includes(data.frequency)) {
+    errors.push(`Frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}`);
+  }
+
+  const startDate = new Date(data.startDate);
+  const endDate = data.endDate ? new Date(data.endDate) : undefined;
+  if (!data.startDate || isNaN(startDate.getTime())) {
+    errors.push('A valid start date is required');
+  }
+  if (endDate && isNaN(endDate.getTime())) {
+    errors.push('End date is not a valid date');
+  } else if (endDate && endDate < startDate) {
+    errors.push('End date must be on or after the start date');
+  }
+
+  const items: RecurringBillingItem[] = [];
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.push('At least one item is required');
+  } else {
+    data.items.forEach((item: any, index: number) => {
+      const line = `Item ${index + 1}`;
+      const quantity = Number(item.quantity);
+      const unitPrice = Number(item.unitPrice);
+
+      const descriptionResult = validateItemDescription(item.description);
+      if (!descriptionResult.isValid) errors.push(`${line}: ${descriptionResult.error}`);
+
+      const quantityResult = validateItemQuantity(quantity);
+      if (isNaN(quantity) || !quantityResult.isValid) {
+        errors.push(`${line}: ${quantityResult.error || 'Quantity must be a number'}`);
+      }
+
+      const priceResult = validateItemUnitPrice(unitPrice);
+      if (isNaN(unitPrice) || !priceResult.isValid) {
+        errors.push(`${line}: ${priceResult.error || 'Unit price must be a number'}`);
+      }
+
+      const vatTypeResult = validateVatType(item.vatType);
+      if (!vatTypeResult.isValid) errors.push(`${line}: ${vatTypeResult.error}`);
+
+      items.push({
+        id: item.id || Math.random().toString(36).substr(2, 9),
+        description: typeof item.description === 'string' ? item.description.trim() : '',
+        quantity,
+        unitPrice,
+        catalogItemId: item.catalogItemId || undefined,
+        vatType: item.vatType || 'Vatable'
+      });
+    });
+  }
+
+  const discount = Number(data.discount ?? 0);
+  const subtotal = calculateSubtotal(items.map(item => ({ ...item, lineTotal: calculateLineTotal(item.quantity, item.unitPrice) })));
+  const discountResult = validateDiscount(discount, subtotal);
+  if (isNaN(discount) || !discountResult.isValid) {
+    errors.push(discountResult.error || 'Discount must be a number');
+  }
+
+  const paymentTerms = data.paymentTerms || 'COD';
+  const termsResult = validatePaymentTerms(paymentTerms, data.customTermDays);
+  if (!termsResult.isValid) errors.push(termsResult.error!);
+
+  const vatMode = data.vatMode || 'None';
+  const withholdingRate = data.withholdingRate ?? 0;
+  const taxResult = validateTaxSettings(vatMode, withholdingRate);
+  if (!taxResult.isValid) errors.push(taxResult.error!);
+
+  return {
+    errors,
+    fields: {
+      name: typeof data.name === 'string' ? data.name.trim() : data.name,
+      clientId: data.clientId ? String(data.clientId) : undefined,
+      items,
+      discount,
+      vatMode,
+      withholdingRate,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? data.customTermDays : undefined,
+      frequency: data.frequency,
+      startDate,
+      endDate,
+      autoSend: data.autoSend === true,
+      isActive: data.isActive !== false
+    }
+  };
+};
+
+/**
+ * Get recurring billings
+ * Non-admin users only see their own schedules
+ * GET /api/recurring-billings?clientId=&active=true
+ */
+export const getRecurringBillings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    const { clientId, active } = req.query;
+
+    if (req.user!.role !== UserRole.ADMIN) {
+      filter.createdBy = req.user!.userId;
+    }
+    if (typeof clientId === 'string' && /^[0-9a-fA-F]{24}$/.test(clientId)) {
+      filter.clientId = clientId;
+    }
+    if (active === 'true' || active === 'false') {
+      filter.isActive = active === 'true';
+    }
+
+    const schedules = await RecurringBillingService.findAll(filter);
+
+    res.status(200).json({
+      success: true,
+      data: schedules,
+      count: schedules.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching recurring billings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recurring billings',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get a recurring billing with its most recent runs
+ * GET /api/recurring-billings/:id
+ */
+export const getRecurringBillingById = async (req: ResourceRequest<RecurringBilling>, res: Response): Promise<void> => {
+  try {
+    const schedule = req.resource!;
+    const runs = await RecurringBillingService.findRuns(String(schedule._id));
+
+    res.status(200).json({
+      success: true,
+      data: { ...schedule, runs }
+    });
+  } catch (error: any) {
+    console.error('Error fetching recurring billing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recurring billing',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Create a recurring billing
+ * POST /api/recurring-billings
+ */
+export const createRecurringBilling = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { errors, fields } = parseRecurringBillingData(req.body);
+    const client = errors.length === 0 ? await ClientService.findById(String(fields.clientId)) : null;
+    if (errors.length === 0 && !client) {
+      errors.push('Client not found');
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const schedule = await RecurringBillingService.create({
+      ...fields as Omit<RecurringBilling, '_id' | 'companyName' | 'createdBy' | 'occurrence' | 'nextRunDate'>,
+      companyName: client!.companyName,
+      createdBy: req.user!.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Recurring billing created successfully',
+      data: schedule
+    });
+  } catch (error: any) {
+    console.error('Error creating recurring billing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create recurring billing',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update a recurring billing, or pause/resume it with { isActive }
+ * Changing the start date or frequency restarts the schedule from the first
+ * period on or after today once it has billed; periods already billed are
+ * never billed twice.
+ * PUT /api/recurring-billings/:id
+ */
+export const updateRecurringBilling = async (req: ResourceRequest<RecurringBilling>, res: Response): Promise<void> => {
+  try {
+    const existing = req.resource!;
+    const { errors, fields } = parseRecurringBillingData({ ...existing, ...req.body });
+
+    let companyName = existing.companyName;
+    if (errors.length === 0 && String(fields.clientId) !== String(existing.clientId)) {
+      const client = await ClientService.findById(String(fields.clientId));
+      if (!client) {
+        errors.push('Client not found');
+      } else {
+        companyName = client.companyName;
+      }
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const updates: Partial<RecurringBilling> = { ...fields, companyName };
+
+    const scheduleChanged = fields.frequency !== existing.frequency ||
+      fields.startDate!.getTime() !== new Date(existing.startDate).getTime();
+    if (scheduleChanged) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const occurrence = existing.occurrence > 0
+        ? RecurringBillingService.getFirstOccurrenceFrom(fields.startDate!, fields.frequency!, today)
+        : 0;
+      updates.occurrence = occurrence;
+      updates.nextRunDate = RecurringBillingService.getRunDate(fields.startDate!, fields.frequency!, occurrence);
+    }
+
+    const schedule = await RecurringBillingService.update(String(existing._id), updates);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recurring billing updated successfully',
+      data: schedule
+    });
+  } catch (error: any) {
+    console.error('Error updating recurring billing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update recurring billing',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete a recurring billing and its run history
+ * Billings it already created are kept
+ * DELETE /api/recurring-billings/:id
+ */
+export const deleteRecurringBilling = async (req: ResourceRequest<RecurringBilling>, res: Response): Promise<void> => {
+  try {
+    await RecurringBillingService.delete(String(req.resource!._id));
+
+    res.status(200).json({
+      success: true,
+      message: 'Recurring billing deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting recurring billing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete recurring billing',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the run history of a recurring billing
+ * GET /api/recurring-billings/:id/runs
+ */
+export const getRecurringBillingRuns = async (req: ResourceRequest<RecurringBilling>, res: Response): Promise<void> => {
+  try {
+    const runs = await RecurringBillingService.findRuns(String(req.resource!._id), 200);
+
+    res.status(200).json({
+      success: true,
+      data: runs,
+      count: runs.length
+    });
+  } catch (error: any) {
+    console.error('Error fetching recurring billing runs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recurring billing runs',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Bill every due period now instead of waiting for the next scheduler pass
+ * Also the entry point for an external cron where the API runs serverless.
+ * POST /api/recurring-billings/run-due
+ */
+export const runDueRecurringBillings = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const created = await RecurringBillingScheduler.runDue();
+
+    res.status(200).json({
+      success: true,
+      message: `${created} billing(s) created`,
+      data: { created }
+    });
+  } catch (error: any) {
+    console.error('Error running recurring billings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run recurring billings',
+      error: error.message
+    });
+  }
+};
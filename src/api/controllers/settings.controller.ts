@@ -0,0 +1,189 @@
+/**
+ * Settings Controller
+ * Handles HTTP requests for the company profile printed on PDFs and emails
+ */
+
+import fs from 'fs';
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware.js';
+import { CompanySettings } from '../models/CompanySettings.model.js';
+import { CompanySettingsService, COMPANY_SETTINGS_FIELDS, LOGO_MIME_TYPES } from '../services/company.settings.service.js';
+
+/**
+ * Settings as returned to the frontend; the logo file path stays on the server
+ */
+const toResponse = (settings: CompanySettings) => {
+  const hasLogo = !!CompanySettingsService.getLogoPath(settings);
+  return { ...settings, logoPath: undefined, hasLogo };
+};
+
+/**
+ * Get the company profile
+ * GET /api/settings/company
+ */
+export const getCompanySettings = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await CompanySettingsService.get();
+
+    res.status(200).json({
+      success: true,
+      data: toResponse(settings)
+    });
+  } catch (error: any) {
+    console.error('Error fetching company settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch company settings',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update the company profile
+ * PUT /api/settings/company
+ */
+export const updateCompanySettings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const body = req.body ?? {};
+    const errors = CompanySettingsService.validate(body);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+      return;
+    }
+
+    const updates = Object.fromEntries(
+      COMPANY_SETTINGS_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    );
+    const settings = await CompanySettingsService.update(updates, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Company settings saved',
+      data: toResponse(settings)
+    });
+  } catch (error: any) {
+    console.error('Error updating company settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update company settings',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get the company logo image
+ * GET /api/settings/company/logo
+ */
+export const getCompanyLogo = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await CompanySettingsService.get();
+    const logoPath = CompanySettingsService.getLogoPath(settings);
+
+    if (!logoPath) {
+      res.status(404).json({
+        success: false,
+        message: 'No company logo uploaded'
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', settings.logoMimeType || 'image/png');
+    res.setHeader('Cache-Control', 'no-cache');
+
+    // The logo may be replaced or removed between the check above and the read
+    const logoStream = fs.createReadStream(logoPath);
+    logoStream.on('error', (streamError) => {
+      console.error('Error streaming company logo:', streamError);
+      if (res.headersSent) {
+        res.destroy(streamError);
+        return;
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Cache-Control');
+      res.status(500).json({
+        success: false,
+        message: 'Company logo could not be read. Please try again',
+        error: streamError.message
+      });
+    });
+    logoStream.pipe(res);
+  } catch (error: any) {
+    console.error('Error fetching company logo:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch company logo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Upload or replace the company logo
+ * The request body is the raw PNG or JPEG file.
+ * PUT /api/settings/company/logo
+ */
+export const uploadCompanyLogo = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const mimeType = String(req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+    if (!LOGO_MIME_TYPES[mimeType]) {
+      res.status(400).json({
+        success: false,
+        message: 'Logo must be a PNG or JPEG image'
+      });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Logo file is required'
+      });
+      return;
+    }
+
+    const settings = await CompanySettingsService.saveLogo(req.body, mimeType, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Company logo uploaded',
+      data: toResponse(settings)
+    });
+  } catch (error: any) {
+    console.error('Error uploading company logo:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload company logo',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Remove the company logo
+ * DELETE /api/settings/company/logo
+ */
+export const deleteCompanyLogo = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await CompanySettingsService.deleteLogo(req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Company logo removed',
+      data: toResponse(settings)
+    });
+  } catch (error: any) {
+    console.error('Error removing company logo:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove company logo',
+      error: error.message
+    });
+  }
+};
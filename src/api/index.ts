@@ -19,9 +19,19 @@ import draftRoutes from './routes/draft.routes.js';
 import authRoutes from './routes/auth.routes.js';
 import adminRoutes from './routes/admin.routes.js';
 import analyticsRoutes from './routes/analytics.routes.js';
+import clientRoutes from './routes/client.routes.js';
+import catalogRoutes from './routes/catalog.routes.js';
+import deliveryReceiptRoutes from './routes/delivery.receipt.routes.js';
+import emailTemplateRoutes from './routes/email.template.routes.js';
+import purchaseOrderRoutes from './routes/purchase.order.routes.js';
+import recurringBillingRoutes from './routes/recurring.billing.routes.js';
+import settingsRoutes from './routes/settings.routes.js';
 import emailTestRoutes from './routes/email.test.routes.js';
-import { serverConfig } from '../config/index.js';
+import { serverConfig, schedulerConfig } from '../config/index.js';
 import { connectDatabase } from './config/database.js';
+import { RecurringBillingScheduler } from './services/recurring.billing.scheduler.js';
+import { EmailOutboxWorker } from './services/email.outbox.worker.js';
+import { PaymentReminderScheduler } from './services/payment.reminder.scheduler.js';
 
 /**
  * Create and configure Express application
@@ -32,7 +42,9 @@ export function createApp(): Application {
   // Middleware
   app.use(cors({
     origin: serverConfig.corsOrigin,
-    credentials: true
+    credentials: true,
+    // Let the app read the count of billings left out of a bulk PDF download
+    exposedHeaders: ['X-Bulk-Failed']
   })); // Enable CORS with configuration
   app.use(express.json()); // Parse JSON request bodies
   app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
@@ -59,7 +71,14 @@ export function createApp(): Application {
   app.use('/api/admin', adminRoutes);
   app.use('/api/analytics', analyticsRoutes);
   app.use('/api/billings', billingRoutes);
+  app.use('/api/clients', clientRoutes);
+  app.use('/api/catalog', catalogRoutes);
+  app.use('/api/delivery-receipts', deliveryReceiptRoutes);
   app.use('/api/drafts', draftRoutes);
+  app.use('/api/email-templates', emailTemplateRoutes);
+  app.use('/api/purchase-orders', purchaseOrderRoutes);
+  app.use('/api/recurring-billings', recurringBillingRoutes);
+  app.use('/api/settings', settingsRoutes);
   app.use('/api', emailTestRoutes); // Email test routes
 
   // 404 handler
@@ -103,6 +122,13 @@ export async function startServer(port?: number): Promise<void> {
       console.log(`📍 Health check: http://localhost:${serverPort}/health`);
       console.log(`📍 API endpoint: http://localhost:${serverPort}/api/billings`);
     });
+
+    // Background jobs run in this process; serverless deployments trigger them over HTTP instead
+    if (schedulerConfig.enabled) {
+      RecurringBillingScheduler.start(schedulerConfig.recurringBillingIntervalMs);
+      EmailOutboxWorker.start(schedulerConfig.emailOutboxIntervalMs);
+      PaymentReminderScheduler.start(schedulerConfig.paymentReminderIntervalMs);
+    }
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -1,11 +1,14 @@
 /**
  * Authentication Middleware
- * Verifies JWT tokens and protects routes
+ * Verifies JWT access tokens and protects routes
+ * Access tokens are short-lived and name the session they were issued for;
+ * a token whose session has been revoked is refused even before it expires.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserRole } from '../models/User.model.js';
+import { SessionService } from '../services/session.service.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
 
@@ -14,9 +17,26 @@ export interface AuthRequest extends Request {
     userId: string;
     email: string;
     role: UserRole;
+    /** Session the access token was issued for */
+    sessionId?: string;
   };
 }
 
+type AccessTokenPayload = NonNullable<AuthRequest['user']>;
+
+/**
+ * Decode an access token
+ * @returns The token's user, or null if it is invalid or expired
+ */
+const decodeAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const { userId, email, role, sessionId } = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+    return { userId, email, role, sessionId };
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Verify JWT token and attach user to request
  */
@@ -37,18 +57,33 @@ export const authenticateToken = async (
       return;
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      userId: string;
-      email: string;
-      role: UserRole;
-    };
+    // 401 tells the app to get a new access token with its refresh token
+    const decoded = decodeAccessToken(token);
+    if (!decoded) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired token'
+      });
+      return;
+    }
+
+    // Tokens issued before sessions existed carry no session and are refused
+    if (!decoded.sessionId || !(await SessionService.isActive(decoded.sessionId))) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please sign in again'
+      });
+      return;
+    }
 
     req.user = decoded;
     next();
   } catch (error: any) {
-    res.status(403).json({
+    console.error('Error authenticating request:', error);
+    res.status(500).json({
       success: false,
-      message: 'Invalid or expired token'
+      message: 'Failed to authenticate request',
+      error: error.message
     });
   }
 };
@@ -84,12 +119,10 @@ export const optionalAuth = async (
     const token = authHeader && authHeader.split(' ')[1];
 
     if (token) {
-      const decoded = jwt.verify(token, JWT_SECRET) as {
-        userId: string;
-        email: string;
-        role: UserRole;
-      };
-      req.user = decoded;
+      const decoded = decodeAccessToken(token);
+      if (decoded?.sessionId && await SessionService.isActive(decoded.sessionId)) {
+        req.user = decoded;
+      }
     }
     next();
   } catch (error) {
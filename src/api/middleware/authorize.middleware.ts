@@ -0,0 +1,123 @@
+/**
+ * Authorization Middleware
+ * Loads the resource named in the route and checks that the user may act on it
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware.js';
+import { UserRole } from '../models/User.model.js';
+import { Billing } from '../../types/billing.types.js';
+import { BillingService } from '../services/billing.service.js';
+import { DraftBilling, DraftBillingModel } from '../models/Draft.model.js';
+import { DeliveryReceipt } from '../models/DeliveryReceipt.model.js';
+import { DeliveryReceiptService } from '../services/delivery.receipt.service.js';
+import { RecurringBilling } from '../models/RecurringBilling.model.js';
+import { RecurringBillingService } from '../services/recurring.billing.service.js';
+
+/**
+ * Request carrying the resource loaded by authorizeResource
+ */
+export interface ResourceRequest<T> extends AuthRequest {
+  resource?: T;
+}
+
+interface AuthorizeOptions<T> {
+  /** Resource name used in the not-found message (e.g. 'Billing') */
+  name: string;
+  /** Load the resource from the route parameter */
+  load: (id: string) => Promise<T | null>;
+  /** User who owns the resource */
+  ownerOf: (resource: T) => unknown;
+  /** Route parameter holding the identifier (defaults to 'id') */
+  param?: string;
+}
+
+/**
+ * Whether a user may access a resource owned by ownerId
+ * Admins can access everything; other users only what they created.
+ */
+export const canAccess = (user: AuthRequest['user'], ownerId: unknown): boolean => {
+  if (!user) return false;
+  if (user.role === UserRole.ADMIN) return true;
+  return ownerId !== undefined && ownerId !== null && String(ownerId) === user.userId;
+};
+
+/**
+ * Load a resource and verify ownership before the route handler runs
+ * Missing resources and resources owned by someone else both return the same
+ * 404, so users cannot probe for IDs or billing numbers that exist.
+ * The loaded resource is attached to req.resource.
+ */
+export const authorizeResource = <T>(options: AuthorizeOptions<T>) => async (
+  req: ResourceRequest<T>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user?.userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const value = req.params[options.param || 'id'];
+    const id = Array.isArray(value) ? value[0] : value;
+    const resource = id ? await options.load(id) : null;
+
+    if (!resource || !canAccess(req.user, options.ownerOf(resource))) {
+      res.status(404).json({
+        success: false,
+        message: `${options.name} not found`
+      });
+      return;
+    }
+
+    req.resource = resource;
+    next();
+  } catch (error: any) {
+    console.error(`Error authorizing ${options.name.toLowerCase()}:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to load ${options.name.toLowerCase()}`,
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Load a billing by billing number or ID (:id) for its creator or an admin
+ */
+export const authorizeBilling = authorizeResource<Billing>({
+  name: 'Billing',
+  load: id => BillingService.findByIdOrNumber(id),
+  ownerOf: billing => billing.createdBy
+});
+
+/**
+ * Load a draft by ID (:id) for its creator or an admin
+ */
+export const authorizeDraft = authorizeResource<DraftBilling>({
+  name: 'Draft',
+  load: async id => /^[0-9a-fA-F]{24}$/.test(id) ? DraftBillingModel.findById(id).lean<DraftBilling>() : null,
+  ownerOf: draft => draft.createdBy
+});
+
+/**
+ * Load a delivery receipt by DR number or ID (:id) for its creator or an admin
+ */
+export const authorizeDeliveryReceipt = authorizeResource<DeliveryReceipt>({
+  name: 'Delivery receipt',
+  load: id => DeliveryReceiptService.findByIdOrNumber(id),
+  ownerOf: receipt => receipt.createdBy
+});
+
+/**
+ * Load a recurring billing by ID (:id) for its creator or an admin
+ */
+export const authorizeRecurringBilling = authorizeResource<RecurringBilling>({
+  name: 'Recurring billing',
+  load: id => RecurringBillingService.findById(id),
+  ownerOf: schedule => schedule.createdBy
+});
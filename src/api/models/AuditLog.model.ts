@@ -0,0 +1,95 @@
+/**
+ * Mongoose Model for the Billing Audit Log
+ *
+ * Each document records one action taken on a billing: who did it, when,
+ * and the before/after value of every field that changed.
+ * Entries are append-only.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Audited actions
+ */
+export const AUDIT_ACTIONS = [
+  'create', 'update', 'email', 'download', 'void', 'reminder', 'import', 'payment', 'payment-delete', 'credit-memo'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+/**
+ * A single field change
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Audit Log Interface
+ */
+export interface AuditLog {
+  _id?: string;
+  billingId: mongoose.Types.ObjectId | string;
+  /** Snapshot of the billing number at the time of the action */
+  billingNumber: string;
+  action: AuditAction;
+  /** User who performed the action; empty for system actions */
+  actor?: mongoose.Types.ObjectId | string;
+  timestamp: Date;
+  changes: AuditChange[];
+}
+
+/**
+ * Audit Change Schema (embedded)
+ */
+const auditChangeSchema = new Schema<AuditChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed
+}, { _id: false });
+
+/**
+ * Audit Log Schema
+ */
+const auditLogSchema = new Schema<AuditLog>({
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing',
+    required: true
+  },
+  billingNumber: {
+    type: String,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  changes: {
+    type: [auditChangeSchema],
+    default: []
+  }
+}, {
+  collection: 'audit_logs'
+});
+
+auditLogSchema.index({ billingId: 1, timestamp: -1 });
+
+/**
+ * Audit Log Model
+ */
+export const AuditLogModel: Model<AuditLog> = mongoose.model<AuditLog>('AuditLog', auditLogSchema);
@@ -5,7 +5,23 @@
  */
 
 import mongoose, { Schema, Model } from 'mongoose';
-import { Billing, BillingItem, BillingStatus, EmailStatus } from '../../types/billing.types.js';
+import {
+  Billing,
+  BillingItem,
+  BillingReminder,
+  BillingStatus,
+  EmailStatus,
+  PaymentStatus,
+  PAYMENT_TERMS,
+  VAT_MODES,
+  VAT_TYPES,
+  WITHHOLDING_RATES,
+  TaxBreakdown,
+  calculatePaymentStatus,
+  calculateDueDate,
+  calculateTaxBreakdown,
+  calculateGrandTotal
+} from '../../types/billing.types.js';
 
 /**
  * Billing Item Schema
@@ -34,9 +50,57 @@ const billingItemSchema = new Schema<BillingItem>({
     type: Number,
     required: true,
     min: 0
+  },
+  catalogItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CatalogItem',
+    default: undefined
+  },
+  vatType: {
+    type: String,
+    enum: VAT_TYPES,
+    default: 'Vatable'
+  },
+  deliveryReceiptNumber: {
+    type: String,
+    trim: true,
+    default: undefined
+  },
+  purchaseOrderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PurchaseOrder',
+    default: undefined
+  },
+  purchaseOrderLineId: {
+    type: String,
+    default: undefined
   }
 }, { _id: false });
 
+/**
+ * Tax Breakdown Schema
+ */
+const taxBreakdownSchema = new Schema<TaxBreakdown>({
+  vatableSales: { type: Number, default: 0 },
+  vatExemptSales: { type: Number, default: 0 },
+  zeroRatedSales: { type: Number, default: 0 },
+  netSales: { type: Number, default: 0 },
+  vatAmount: { type: Number, default: 0 },
+  totalSales: { type: Number, default: 0 },
+  withholdingTax: { type: Number, default: 0 }
+}, { _id: false });
+
+/**
+ * Payment Reminder Schema
+ */
+const billingReminderSchema = new Schema<BillingReminder>({
+  offsetDays: { type: Number, required: true },
+  recipientEmail: { type: String, trim: true, lowercase: true, required: true },
+  status: { type: String, enum: ['Sent', 'Failed'], required: true },
+  error: { type: String, default: undefined },
+  sentAt: { type: Date, required: true }
+}, { _id: false });
+
 /**
  * Billing Document Schema
  */
@@ -58,6 +122,16 @@ const billingSchema = new Schema<Billing>({
     trim: true,
     default: undefined
   },
+  deliveryReceiptIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'DeliveryReceipt' }],
+    default: undefined
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    index: true,
+    default: undefined
+  },
   companyName: {
     type: String,
     required: true,
@@ -106,18 +180,71 @@ const billingSchema = new Schema<Billing>({
     default: 0,
     min: 0
   },
+  vatMode: {
+    type: String,
+    enum: VAT_MODES,
+    default: 'None'
+  },
+  withholdingRate: {
+    type: Number,
+    enum: WITHHOLDING_RATES,
+    default: 0
+  },
+  taxBreakdown: {
+    type: taxBreakdownSchema,
+    default: undefined
+  },
   grandTotal: {
     type: Number,
     required: true,
     min: 0
   },
+  paymentTerms: {
+    type: String,
+    enum: PAYMENT_TERMS,
+    default: 'COD'
+  },
+  customTermDays: {
+    type: Number,
+    min: 1,
+    default: undefined
+  },
+  dueDate: {
+    type: Date,
+    index: true
+  },
   status: {
     type: String,
-    enum: ['Draft', 'Generated', 'Emailed'] as BillingStatus[],
+    enum: ['Draft', 'Generated', 'Emailed', 'Void'] as BillingStatus[],
     default: 'Generated',
     index: true
   },
-  generatedFilePath: {
+  amountPaid: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  amountCredited: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  balanceDue: {
+    type: Number,
+    default: 0
+  },
+  paymentStatus: {
+    type: String,
+    enum: ['Unpaid', 'Partially Paid', 'Paid'] as PaymentStatus[],
+    default: 'Unpaid',
+    index: true
+  },
+  revision: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  pdfStorageKey: {
     type: String,
     default: undefined
   },
@@ -137,6 +264,37 @@ const billingSchema = new Schema<Billing>({
     type: Date,
     default: undefined
   },
+  reminders: {
+    type: [billingReminderSchema],
+    default: []
+  },
+  remindersPaused: {
+    type: Boolean,
+    default: false
+  },
+  remindersPausedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: undefined
+  },
+  remindersPausedAt: {
+    type: Date,
+    default: undefined
+  },
+  voidReason: {
+    type: String,
+    trim: true,
+    default: undefined
+  },
+  voidedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: undefined
+  },
+  voidedAt: {
+    type: Date,
+    default: undefined
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -154,6 +312,15 @@ const billingSchema = new Schema<Billing>({
 billingSchema.index({ billingDate: -1 }); // Sort by date descending
 billingSchema.index({ companyName: 1, billingDate: -1 }); // Search by company and date
 billingSchema.index({ status: 1, billingDate: -1 }); // Filter by status and date
+billingSchema.index({ 'items.purchaseOrderId': 1 }, { sparse: true }); // PO fulfillment
+billingSchema.index({ deliveryReceiptNumber: 1 }, { sparse: true }); // Search by DR number
+billingSchema.index({
+  billingNumber: 'text',
+  companyName: 'text',
+  deliveryReceiptNumber: 'text',
+  'items.description': 'text',
+  'items.deliveryReceiptNumber': 'text'
+}, { name: 'billing_search' }); // Dashboard search
 
 /**
  * Pre-save middleware to calculate totals
@@ -162,8 +329,20 @@ billingSchema.pre('save', function(next) {
   // Calculate subtotal from items
   this.subtotal = this.items.reduce((sum, item) => sum + item.lineTotal, 0);
   
-  // Calculate grand total
-  this.grandTotal = Math.max(0, this.subtotal - this.discount);
+  // Calculate the VAT/withholding breakdown and grand total
+  this.taxBreakdown = calculateTaxBreakdown(this.items, this.discount, this.vatMode || 'None', this.withholdingRate || 0);
+  this.grandTotal = calculateGrandTotal(this.taxBreakdown);
+  
+  // Derive the due date from the billing date and payment terms
+  this.dueDate = calculateDueDate(this.billingDate, this.paymentTerms || 'COD', this.customTermDays);
+  
+  // Keep the balance in step with the total (nothing is owed on a voided billing)
+  const amountPaid = this.amountPaid || 0;
+  const amountCredited = this.amountCredited || 0;
+  this.balanceDue = this.status === 'Void'
+    ? 0
+    : Number((this.grandTotal - amountPaid - amountCredited).toFixed(2));
+  this.paymentStatus = calculatePaymentStatus(this.grandTotal, amountPaid, amountCredited);
   
   next();
 });
@@ -0,0 +1,74 @@
+/**
+ * Mongoose Model for Catalog Items
+ *
+ * Defines the price list of products and services (sewing, cutting, etc.)
+ * that billing line items can be picked from.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Catalog Item Interface
+ */
+export interface CatalogItem {
+  _id?: string;
+  /** Short unique code (e.g. SEW-TSHIRT) */
+  code: string;
+  description: string;
+  /** Unit of measure (e.g. pc, dozen, meter) */
+  unit: string;
+  /** Price used when the item is added to a billing */
+  defaultPrice: number;
+  /** Inactive items are kept for history but hidden from the picker */
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Catalog Item Schema
+ */
+const catalogItemSchema = new Schema<CatalogItem>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    index: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  unit: {
+    type: String,
+    required: true,
+    trim: true,
+    default: 'pc'
+  },
+  defaultPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'catalog_items'
+});
+
+/**
+ * Catalog Item Model
+ */
+export const CatalogItemModel: Model<CatalogItem> = mongoose.model<CatalogItem>('CatalogItem', catalogItemSchema);
@@ -0,0 +1,122 @@
+/**
+ * Mongoose Model for Client Master Records
+ *
+ * Defines the schema and model for storing client (customer) details that
+ * billings are linked to, so the same customer is not retyped on every billing.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import { ReminderPolicy } from '../../types/billing.types.js';
+
+/**
+ * Client Interface
+ */
+export interface Client {
+  _id?: string;
+  companyName: string;
+  /** Lowercased, punctuation-free company name used to detect duplicates */
+  normalizedName: string;
+  address: string;
+  contactNumber: string;
+  attentionPerson: string;
+  clientEmail?: string;
+  notes?: string;
+  /** Overrides the company-wide reminder policy; null to use it */
+  reminderPolicy?: ReminderPolicy | null;
+  createdBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Normalize a company name for duplicate detection
+ * "ACME Corp." and "acme  corp" both become "acme corp"
+ */
+export function normalizeCompanyName(companyName: string): string {
+  return companyName
+    .toLowerCase()
+    .replace(/[.,'"]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reminder Policy Schema (embedded)
+ */
+const reminderPolicySchema = new Schema<ReminderPolicy>({
+  enabled: { type: Boolean, default: true },
+  daysBeforeDue: { type: [Number], default: [] },
+  onDueDate: { type: Boolean, default: true },
+  repeatEveryDays: { type: Number, default: 0, min: 0 },
+  maxOverdueReminders: { type: Number, default: 0, min: 0 }
+}, { _id: false });
+
+/**
+ * Client Schema
+ */
+const clientSchema = new Schema<Client>({
+  companyName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  normalizedName: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  address: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  contactNumber: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  attentionPerson: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  clientEmail: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    default: undefined
+  },
+  notes: {
+    type: String,
+    trim: true,
+    default: undefined
+  },
+  reminderPolicy: {
+    type: reminderPolicySchema,
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'clients'
+});
+
+/**
+ * Keep the normalized name in sync with the company name
+ */
+clientSchema.pre('validate', function(next) {
+  if (this.companyName) {
+    this.normalizedName = normalizeCompanyName(this.companyName);
+  }
+  next();
+});
+
+/**
+ * Client Model
+ */
+export const ClientModel: Model<Client> = mongoose.model<Client>('Client', clientSchema);
@@ -0,0 +1,124 @@
+/**
+ * Mongoose Model for Company Settings
+ *
+ * The company's own profile as printed on PDFs and emails: name, address,
+ * TIN, contact details, logo, bank details and footer text. A single
+ * document; fields that were never saved fall back to the built-in defaults.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Company Settings Interface
+ */
+export interface CompanySettings {
+  _id?: string;
+  /** Always 'company'; keeps the collection to one document */
+  key: 'company';
+  companyName: string;
+  /** One line per printed line */
+  address: string;
+  tin?: string;
+  phone?: string;
+  email?: string;
+  /** Uploaded logo file (PNG or JPEG) */
+  logoPath?: string;
+  logoMimeType?: string;
+  bankName?: string;
+  bankAccountName?: string;
+  bankAccountNumber?: string;
+  /** Payment terms printed above the bank details, one per line */
+  paymentNotes?: string;
+  /** Closing line of every document */
+  footerText?: string;
+  updatedBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Company Settings Schema
+ */
+const companySettingsSchema = new Schema<CompanySettings>({
+  key: {
+    type: String,
+    enum: ['company'],
+    default: 'company',
+    unique: true
+  },
+  companyName: {
+    type: String,
+    required: [true, 'Company name is required'],
+    trim: true,
+    maxlength: [200, 'Company name cannot exceed 200 characters']
+  },
+  address: {
+    type: String,
+    trim: true,
+    default: '',
+    maxlength: [500, 'Address cannot exceed 500 characters']
+  },
+  tin: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  phone: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    default: ''
+  },
+  logoPath: {
+    type: String,
+    default: undefined
+  },
+  logoMimeType: {
+    type: String,
+    default: undefined
+  },
+  bankName: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  bankAccountName: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  bankAccountNumber: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  paymentNotes: {
+    type: String,
+    trim: true,
+    default: '',
+    maxlength: [1000, 'Payment notes cannot exceed 1000 characters']
+  },
+  footerText: {
+    type: String,
+    trim: true,
+    default: '',
+    maxlength: [300, 'Footer text cannot exceed 300 characters']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'settings'
+});
+
+/**
+ * Company Settings Model
+ */
+export const CompanySettingsModel: Model<CompanySettings> = mongoose.model<CompanySettings>('CompanySettings', companySettingsSchema);
@@ -0,0 +1,59 @@
+/**
+ * Mongoose Model for Sequence Counters
+ *
+ * Stores one counter document per document prefix and month (e.g. SEW / 202601).
+ * Counters are incremented atomically to hand out gap-free document numbers.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Counter Interface
+ */
+export interface Counter {
+  _id?: string;
+  /** Document number prefix (e.g. SEW) */
+  prefix: string;
+  /** Sequence period in YYYYMM format */
+  period: string;
+  /** Last sequence number issued for the prefix and period */
+  sequence: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Counter Schema
+ */
+const counterSchema = new Schema<Counter>({
+  prefix: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  period: {
+    type: String,
+    required: true,
+    trim: true,
+    match: /^\d{6}$/
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'counters'
+});
+
+/**
+ * One counter per prefix and period
+ */
+counterSchema.index({ prefix: 1, period: 1 }, { unique: true });
+
+/**
+ * Counter Model
+ */
+export const CounterModel: Model<Counter> = mongoose.model<Counter>('Counter', counterSchema);
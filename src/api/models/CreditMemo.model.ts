@@ -0,0 +1,117 @@
+/**
+ * Mongoose Model for Credit Memos
+ *
+ * A credit memo is a separately numbered document issued against a billing
+ * (returns, price adjustments, short deliveries). It reduces the billing's
+ * balance without altering the original billing.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Credit Memo Interface
+ */
+export interface CreditMemo {
+  _id?: string;
+  /** Credit memo number (e.g. CM-202601-001) */
+  creditMemoNumber: string;
+  billingId: mongoose.Types.ObjectId | string;
+  /** Snapshot of the original billing number */
+  billingNumber: string;
+  clientId?: mongoose.Types.ObjectId | string;
+  companyName: string;
+  memoDate: Date;
+  reason: string;
+  /** Amount credited against the billing's balance */
+  amount: number;
+  /** Portion of the amount that reverses net sales */
+  netSales: number;
+  /** Portion of the amount that reverses output VAT */
+  vatAmount: number;
+  /** Portion of the amount that reverses withholding */
+  withholdingTax: number;
+  /** Key of the generated PDF in PdfStorageService */
+  pdfStorageKey?: string;
+  createdBy: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Credit Memo Schema
+ */
+const creditMemoSchema = new Schema<CreditMemo>({
+  creditMemoNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    trim: true
+  },
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing',
+    required: true,
+    index: true
+  },
+  billingNumber: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    default: undefined
+  },
+  companyName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  memoDate: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  netSales: {
+    type: Number,
+    default: 0
+  },
+  vatAmount: {
+    type: Number,
+    default: 0
+  },
+  withholdingTax: {
+    type: Number,
+    default: 0
+  },
+  pdfStorageKey: {
+    type: String,
+    default: undefined
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'credit_memos'
+});
+
+/**
+ * Credit Memo Model
+ */
+export const CreditMemoModel: Model<CreditMemo> = mongoose.model<CreditMemo>('CreditMemo', creditMemoSchema);
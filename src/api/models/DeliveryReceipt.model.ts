@@ -0,0 +1,193 @@
+/**
+ * Mongoose Model for Delivery Receipts
+ *
+ * A delivery receipt (DR) is issued when garments ship and is signed by the
+ * person who received them. Billings are created later from one or more DRs;
+ * a DR can only be billed once.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Delivery receipt status
+ * Open DRs can still be edited and billed; Billed DRs are locked to their billing.
+ */
+export const DELIVERY_RECEIPT_STATUSES = ['Open', 'Billed'] as const;
+
+export type DeliveryReceiptStatus = typeof DELIVERY_RECEIPT_STATUSES[number];
+
+/**
+ * One line of a delivery receipt
+ */
+export interface DeliveryReceiptItem {
+  id: string;
+  description: string;
+  /** Unit of measure (pc, set, dozen) */
+  unit: string;
+  /** Quantity ordered for this shipment */
+  quantity: number;
+  /** Quantity actually received by the client */
+  deliveredQuantity: number;
+  /** Price carried over to the billing */
+  unitPrice: number;
+  catalogItemId?: mongoose.Types.ObjectId | string;
+}
+
+/**
+ * Delivery Receipt Interface
+ */
+export interface DeliveryReceipt {
+  _id?: string;
+  /** DR number (e.g. DR-202601-001) */
+  drNumber: string;
+  deliveryDate: Date;
+  clientId?: mongoose.Types.ObjectId | string;
+  companyName: string;
+  address: string;
+  contactNumber?: string;
+  attentionPerson?: string;
+  items: DeliveryReceiptItem[];
+  /** Name of the person who signed for the delivery */
+  receivedBy?: string;
+  notes?: string;
+  status: DeliveryReceiptStatus;
+  /** Billing the DR was billed on */
+  billingId?: mongoose.Types.ObjectId | string;
+  billingNumber?: string;
+  /** Key of the generated PDF in PdfStorageService */
+  pdfStorageKey?: string;
+  createdBy: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Delivery Receipt Item Schema (embedded)
+ */
+const deliveryReceiptItemSchema = new Schema<DeliveryReceiptItem>({
+  id: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  unit: {
+    type: String,
+    default: 'pc',
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  deliveredQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unitPrice: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  catalogItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CatalogItem',
+    default: undefined
+  }
+}, { _id: false });
+
+/**
+ * Delivery Receipt Schema
+ */
+const deliveryReceiptSchema = new Schema<DeliveryReceipt>({
+  drNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    trim: true
+  },
+  deliveryDate: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    default: undefined,
+    index: true
+  },
+  companyName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  address: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  contactNumber: {
+    type: String,
+    trim: true
+  },
+  attentionPerson: {
+    type: String,
+    trim: true
+  },
+  items: {
+    type: [deliveryReceiptItemSchema],
+    required: true,
+    validate: {
+      validator: (items: DeliveryReceiptItem[]) => items.length > 0,
+      message: 'At least one item is required'
+    }
+  },
+  receivedBy: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: DELIVERY_RECEIPT_STATUSES,
+    default: 'Open',
+    index: true
+  },
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing',
+    default: undefined
+  },
+  billingNumber: {
+    type: String,
+    default: undefined
+  },
+  pdfStorageKey: {
+    type: String,
+    default: undefined
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'delivery_receipts'
+});
+
+/**
+ * Delivery Receipt Model
+ */
+export const DeliveryReceiptModel: Model<DeliveryReceipt> = mongoose.model<DeliveryReceipt>('DeliveryReceipt', deliveryReceiptSchema);
@@ -5,7 +5,16 @@
  */
 
 import mongoose, { Schema, Model } from 'mongoose';
-import { BillingItem } from '../../types/billing.types.js';
+import {
+  BillingItem,
+  PaymentTerms,
+  PAYMENT_TERMS,
+  VatMode,
+  VAT_MODES,
+  VAT_TYPES,
+  WithholdingRate,
+  WITHHOLDING_RATES
+} from '../../types/billing.types.js';
 
 /**
  * Draft Billing Interface
@@ -15,6 +24,7 @@ export interface DraftBilling {
   savedAt: Date;
   billingDate: Date;
   deliveryReceiptNumber?: string;
+  clientId?: mongoose.Types.ObjectId;
   companyName: string;
   contactNumber: string;
   address: string;
@@ -24,6 +34,10 @@ export interface DraftBilling {
   discount: number;
   subtotal: number;
   grandTotal: number;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
+  paymentTerms?: PaymentTerms;
+  customTermDays?: number;
   createdBy: mongoose.Types.ObjectId;
 }
 
@@ -49,6 +63,24 @@ const draftBillingItemSchema = new Schema<BillingItem>({
     type: Number,
     required: true,
     min: 0
+  },
+  catalogItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CatalogItem',
+    default: undefined
+  },
+  vatType: {
+    type: String,
+    enum: VAT_TYPES,
+    default: 'Vatable'
+  },
+  purchaseOrderId: {
+    type: String,
+    default: undefined
+  },
+  purchaseOrderLineId: {
+    type: String,
+    default: undefined
   }
 }, { _id: false });
 
@@ -70,6 +102,11 @@ const draftBillingSchema = new Schema<DraftBilling>({
     type: String,
     trim: true
   },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    default: undefined
+  },
   companyName: {
     type: String,
     trim: true,
@@ -119,6 +156,26 @@ const draftBillingSchema = new Schema<DraftBilling>({
     min: 0,
     default: 0
   },
+  vatMode: {
+    type: String,
+    enum: VAT_MODES,
+    default: 'None'
+  },
+  withholdingRate: {
+    type: Number,
+    enum: WITHHOLDING_RATES,
+    default: 0
+  },
+  paymentTerms: {
+    type: String,
+    enum: PAYMENT_TERMS,
+    default: 'COD'
+  },
+  customTermDays: {
+    type: Number,
+    min: 1,
+    default: undefined
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
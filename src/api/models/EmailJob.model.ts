@@ -0,0 +1,112 @@
+/**
+ * Mongoose Model for Email Jobs
+ *
+ * The email outbox. Invoice emails are queued here as Pending and delivered
+ * by the outbox worker, so a slow or failing mail server never holds up an
+ * HTTP request and failed sends are retried.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Job status
+ * Sending is held while the worker talks to the mail server; Failed is final
+ * once the job has used up its attempts.
+ */
+export const EMAIL_JOB_STATUSES = ['Pending', 'Sending', 'Sent', 'Failed'] as const;
+
+export type EmailJobStatus = typeof EMAIL_JOB_STATUSES[number];
+
+/**
+ * Email Job Interface
+ */
+export interface EmailJob {
+  _id?: string;
+  billingId: mongoose.Types.ObjectId | string;
+  billingNumber: string;
+  recipientEmail: string;
+  status: EmailJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the next attempt may run */
+  nextAttemptAt: Date;
+  /** When the current attempt started (set while Sending) */
+  lockedAt?: Date;
+  /** Why the last attempt failed */
+  lastError?: string;
+  sentAt?: Date;
+  createdBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Email Job Schema
+ */
+const emailJobSchema = new Schema<EmailJob>({
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing',
+    required: true
+  },
+  billingNumber: {
+    type: String,
+    required: true
+  },
+  recipientEmail: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  status: {
+    type: String,
+    enum: EMAIL_JOB_STATUSES,
+    default: 'Pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  nextAttemptAt: {
+    type: Date,
+    required: true
+  },
+  lockedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'email_outbox'
+});
+
+emailJobSchema.index({ status: 1, nextAttemptAt: 1 });
+emailJobSchema.index({ billingId: 1, createdAt: -1 });
+// One open job per billing and recipient, so overlapping sends cannot queue it twice.
+// The range matches exactly 'Pending' and 'Sending' ('Failed' sorts before, 'Sent' after)
+// and, unlike $in, works in partial indexes on every MongoDB version.
+emailJobSchema.index(
+  { billingId: 1, recipientEmail: 1 },
+  { unique: true, partialFilterExpression: { status: { $gte: 'Pending', $lte: 'Sending' } } }
+);
+
+/**
+ * Email Job Model
+ */
+export const EmailJobModel: Model<EmailJob> = mongoose.model<EmailJob>('EmailJob', emailJobSchema);
@@ -0,0 +1,74 @@
+/**
+ * Mongoose Model for Email Templates
+ *
+ * Admin-edited subject and body templates. A template without a client is the
+ * company-wide version of its type; one with a client overrides it for that
+ * client only. Types without a stored template use the built-in defaults.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Email template types
+ */
+export const EMAIL_TEMPLATE_TYPES = ['Invoice', 'Reminder', 'Statement'] as const;
+
+export type EmailTemplateType = typeof EMAIL_TEMPLATE_TYPES[number];
+
+/**
+ * Email Template Interface
+ */
+export interface EmailTemplate {
+  _id?: string;
+  type: EmailTemplateType;
+  /** Client the template applies to; null for the company-wide template */
+  clientId?: mongoose.Types.ObjectId | string | null;
+  /** Subject line with {{placeholders}} */
+  subject: string;
+  /** HTML body with {{placeholders}} */
+  body: string;
+  updatedBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Email Template Schema
+ */
+const emailTemplateSchema = new Schema<EmailTemplate>({
+  type: {
+    type: String,
+    enum: EMAIL_TEMPLATE_TYPES,
+    required: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    default: null
+  },
+  subject: {
+    type: String,
+    required: [true, 'Subject is required'],
+    trim: true,
+    maxlength: [300, 'Subject cannot exceed 300 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Body is required'],
+    maxlength: [100000, 'Body cannot exceed 100000 characters']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'email_templates'
+});
+
+emailTemplateSchema.index({ type: 1, clientId: 1 }, { unique: true });
+
+/**
+ * Email Template Model
+ */
+export const EmailTemplateModel: Model<EmailTemplate> = mongoose.model<EmailTemplate>('EmailTemplate', emailTemplateSchema);
@@ -0,0 +1,82 @@
+/**
+ * Mongoose Model for Payments
+ *
+ * Each document is one payment received against a billing.
+ * The billing keeps running totals (amountPaid, balanceDue, paymentStatus)
+ * that are recalculated from this ledger.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Accepted payment methods
+ */
+export const PAYMENT_METHODS = ['Cash', 'Check', 'Bank Transfer', 'GCash'] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+/**
+ * Payment Interface
+ */
+export interface Payment {
+  _id?: string;
+  billingId: mongoose.Types.ObjectId | string;
+  /** Date the payment was received */
+  paymentDate: Date;
+  amount: number;
+  method: PaymentMethod;
+  /** Check number, bank transaction ID or GCash reference */
+  referenceNumber?: string;
+  notes?: string;
+  recordedBy?: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Payment Schema
+ */
+const paymentSchema = new Schema<Payment>({
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing',
+    required: true,
+    index: true
+  },
+  paymentDate: {
+    type: Date,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  method: {
+    type: String,
+    enum: PAYMENT_METHODS,
+    required: true
+  },
+  referenceNumber: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'payments'
+});
+
+paymentSchema.index({ billingId: 1, paymentDate: 1 });
+
+/**
+ * Payment Model
+ */
+export const PaymentModel: Model<Payment> = mongoose.model<Payment>('Payment', paymentSchema);
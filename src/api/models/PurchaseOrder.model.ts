@@ -0,0 +1,159 @@
+/**
+ * Mongoose Model for Client Purchase Orders
+ *
+ * A purchase order (PO) fixes the quantity and agreed price of each style a
+ * client ordered. Billing lines reference a PO line so the billed and
+ * remaining quantities can be tracked; billed quantities are derived from the
+ * billings themselves rather than stored here.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Purchase order status
+ * Closed POs can no longer be billed against.
+ */
+export const PURCHASE_ORDER_STATUSES = ['Open', 'Closed'] as const;
+
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+/**
+ * What happens when a billing would exceed the ordered quantity
+ * Block rejects the billing; Warn saves it and returns a warning.
+ */
+export const OVERBILLING_POLICIES = ['Block', 'Warn'] as const;
+
+export type OverbillingPolicy = typeof OVERBILLING_POLICIES[number];
+
+/**
+ * One style on a purchase order
+ */
+export interface PurchaseOrderLine {
+  id: string;
+  /** Client's style code */
+  style: string;
+  description: string;
+  orderedQuantity: number;
+  /** Agreed price per unit */
+  unitPrice: number;
+  catalogItemId?: mongoose.Types.ObjectId | string;
+}
+
+/**
+ * Purchase Order Interface
+ */
+export interface PurchaseOrder {
+  _id?: string;
+  /** The client's own PO number; unique per client */
+  poNumber: string;
+  clientId: mongoose.Types.ObjectId | string;
+  /** Snapshot of the client's company name */
+  companyName: string;
+  poDate: Date;
+  lines: PurchaseOrderLine[];
+  overbillingPolicy: OverbillingPolicy;
+  status: PurchaseOrderStatus;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Purchase Order Line Schema (embedded)
+ */
+const purchaseOrderLineSchema = new Schema<PurchaseOrderLine>({
+  id: {
+    type: String,
+    required: true
+  },
+  style: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  orderedQuantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  catalogItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CatalogItem',
+    default: undefined
+  }
+}, { _id: false });
+
+/**
+ * Purchase Order Schema
+ */
+const purchaseOrderSchema = new Schema<PurchaseOrder>({
+  poNumber: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    required: true,
+    index: true
+  },
+  companyName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  poDate: {
+    type: Date,
+    required: true
+  },
+  lines: {
+    type: [purchaseOrderLineSchema],
+    required: true,
+    validate: {
+      validator: (lines: PurchaseOrderLine[]) => lines.length > 0,
+      message: 'At least one line is required'
+    }
+  },
+  overbillingPolicy: {
+    type: String,
+    enum: OVERBILLING_POLICIES,
+    default: 'Block'
+  },
+  status: {
+    type: String,
+    enum: PURCHASE_ORDER_STATUSES,
+    default: 'Open',
+    index: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'purchase_orders'
+});
+
+purchaseOrderSchema.index({ clientId: 1, poNumber: 1 }, { unique: true });
+
+/**
+ * Purchase Order Model
+ */
+export const PurchaseOrderModel: Model<PurchaseOrder> = mongoose.model<PurchaseOrder>('PurchaseOrder', purchaseOrderSchema);
@@ -0,0 +1,204 @@
+/**
+ * Mongoose Model for Recurring Billing Schedules
+ *
+ * A recurring billing is a template (client, lines, discount and tax
+ * settings) that the scheduler turns into a regular billing every month or
+ * quarter between the start and end dates. Client details are read from the
+ * client record at run time so address and email changes carry over.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import {
+  BillingItem,
+  VatMode,
+  VAT_MODES,
+  VAT_TYPES,
+  WithholdingRate,
+  WITHHOLDING_RATES,
+  PaymentTerms,
+  PAYMENT_TERMS
+} from '../../types/billing.types.js';
+
+/**
+ * How often a recurring billing is issued
+ */
+export const RECURRING_FREQUENCIES = ['Monthly', 'Quarterly'] as const;
+
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+
+/**
+ * Template line copied onto each generated billing
+ */
+export type RecurringBillingItem = Pick<BillingItem, 'id' | 'description' | 'quantity' | 'unitPrice' | 'catalogItemId' | 'vatType'>;
+
+/**
+ * Recurring Billing Interface
+ */
+export interface RecurringBilling {
+  _id?: string;
+  /** Label shown in the schedule list, e.g. "Machine rental" */
+  name: string;
+  clientId: mongoose.Types.ObjectId | string;
+  /** Snapshot of the client's company name for listing */
+  companyName: string;
+  items: RecurringBillingItem[];
+  discount: number;
+  vatMode: VatMode;
+  withholdingRate: WithholdingRate;
+  paymentTerms: PaymentTerms;
+  customTermDays?: number;
+  frequency: RecurringFrequency;
+  /** First billing date; later billings fall on the same day of the month */
+  startDate: Date;
+  /** Last date a billing may be issued (inclusive); open-ended when unset */
+  endDate?: Date;
+  /** Email each generated billing to the client */
+  autoSend: boolean;
+  /** Paused schedules are skipped by the scheduler */
+  isActive: boolean;
+  /** Number of periods already processed since the start date */
+  occurrence: number;
+  /** Billing date of the next period to issue */
+  nextRunDate: Date;
+  lastRunAt?: Date;
+  createdBy: mongoose.Types.ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Template Line Schema (embedded)
+ */
+const recurringBillingItemSchema = new Schema<RecurringBillingItem>({
+  id: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  catalogItemId: {
+    type: String,
+    default: undefined
+  },
+  vatType: {
+    type: String,
+    enum: VAT_TYPES,
+    default: 'Vatable'
+  }
+}, { _id: false });
+
+/**
+ * Recurring Billing Schema
+ */
+const recurringBillingSchema = new Schema<RecurringBilling>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    required: true,
+    index: true
+  },
+  companyName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  items: {
+    type: [recurringBillingItemSchema],
+    required: true,
+    validate: {
+      validator: (items: RecurringBillingItem[]) => items.length > 0,
+      message: 'At least one item is required'
+    }
+  },
+  discount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  vatMode: {
+    type: String,
+    enum: VAT_MODES,
+    default: 'None'
+  },
+  withholdingRate: {
+    type: Number,
+    enum: WITHHOLDING_RATES,
+    default: 0
+  },
+  paymentTerms: {
+    type: String,
+    enum: PAYMENT_TERMS,
+    default: 'COD'
+  },
+  customTermDays: {
+    type: Number,
+    min: 1,
+    max: 365
+  },
+  frequency: {
+    type: String,
+    enum: RECURRING_FREQUENCIES,
+    required: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date
+  },
+  autoSend: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  occurrence: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  nextRunDate: {
+    type: Date,
+    required: true
+  },
+  lastRunAt: {
+    type: Date
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'recurring_billings'
+});
+
+recurringBillingSchema.index({ isActive: 1, nextRunDate: 1 }); // Scheduler lookup
+
+/**
+ * Recurring Billing Model
+ */
+export const RecurringBillingModel: Model<RecurringBilling> = mongoose.model<RecurringBilling>('RecurringBilling', recurringBillingSchema);
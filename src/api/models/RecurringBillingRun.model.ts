@@ -0,0 +1,96 @@
+/**
+ * Mongoose Model for Recurring Billing Runs
+ *
+ * One document per scheduled period of a recurring billing. The unique
+ * (recurringBillingId, scheduledFor) index makes each period billable once,
+ * even when the scheduler catches up after downtime or runs twice.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Run status
+ * Running is held while the billing is being created; a run left Running by a
+ * crash can be claimed again once it is stale.
+ */
+export const RECURRING_RUN_STATUSES = ['Running', 'Created', 'Failed'] as const;
+
+export type RecurringRunStatus = typeof RECURRING_RUN_STATUSES[number];
+
+/**
+ * Recurring Billing Run Interface
+ */
+export interface RecurringBillingRun {
+  _id?: string;
+  recurringBillingId: mongoose.Types.ObjectId | string;
+  /** Billing date of the period */
+  scheduledFor: Date;
+  status: RecurringRunStatus;
+  attempts: number;
+  billingId?: mongoose.Types.ObjectId | string;
+  billingNumber?: string;
+  /** Why the last attempt failed */
+  error?: string;
+  /** Pipeline warnings (PDF or email failures, PO over-billing) */
+  warnings?: string[];
+  startedAt: Date;
+  finishedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Recurring Billing Run Schema
+ */
+const recurringBillingRunSchema = new Schema<RecurringBillingRun>({
+  recurringBillingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'RecurringBilling',
+    required: true
+  },
+  scheduledFor: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: RECURRING_RUN_STATUSES,
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  billingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Billing'
+  },
+  billingNumber: {
+    type: String
+  },
+  error: {
+    type: String
+  },
+  warnings: {
+    type: [String],
+    default: undefined
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'recurring_billing_runs'
+});
+
+recurringBillingRunSchema.index({ recurringBillingId: 1, scheduledFor: 1 }, { unique: true });
+
+/**
+ * Recurring Billing Run Model
+ */
+export const RecurringBillingRunModel: Model<RecurringBillingRun> = mongoose.model<RecurringBillingRun>('RecurringBillingRun', recurringBillingRunSchema);
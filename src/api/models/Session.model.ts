@@ -0,0 +1,99 @@
+/**
+ * Mongoose Model for Sessions
+ *
+ * One document per signed-in device. The refresh token is stored only as a
+ * hash and is replaced every time it is used; access tokens name their session,
+ * so revoking a session signs that device out on its next request.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Why a session ended
+ * - logout: signed out on the device itself
+ * - revoked: ended by the user from their session list
+ * - admin: ended by an admin (force logout)
+ * - reuse: an already rotated refresh token was presented, so the token may
+ *   have been stolen
+ * - user-deleted: the account was deleted
+ */
+export const SESSION_REVOKE_REASONS = ['logout', 'revoked', 'admin', 'reuse', 'user-deleted'] as const;
+
+export type SessionRevokeReason = typeof SESSION_REVOKE_REASONS[number];
+
+/**
+ * Session Interface
+ */
+export interface Session {
+  _id?: string;
+  userId: mongoose.Types.ObjectId | string;
+  /** SHA-256 of the current refresh token */
+  refreshTokenHash: string;
+  /** SHA-256 of the refresh token it replaced, to detect reuse */
+  previousRefreshTokenHash?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  /** Last time the refresh token was used */
+  lastUsedAt: Date;
+  /** The refresh token stops working after this; the document is then removed */
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Session Schema
+ */
+const sessionSchema = new Schema<Session>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    index: { sparse: true }
+  },
+  userAgent: {
+    type: String,
+    trim: true
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  lastUsedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: SESSION_REVOKE_REASONS
+  }
+}, {
+  timestamps: true,
+  collection: 'sessions'
+});
+
+// MongoDB deletes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Session Model
+ */
+export const SessionModel: Model<Session> = mongoose.model<Session>('Session', sessionSchema);
@@ -4,7 +4,17 @@
  */
 
 import { Router } from 'express';
-import { getAllUsers, updateUserRole, deleteUser } from '../controllers/admin.controller.js';
+import {
+  getAllUsers,
+  updateUserRole,
+  deleteUser,
+  forceLogoutUser,
+  getBillingSequence,
+  reseedBillingSequence,
+  processEmailOutbox,
+  getPaymentReminderSettings,
+  runPaymentReminders
+} from '../controllers/admin.controller.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
 
 const router = Router();
@@ -49,4 +59,65 @@ router.put('/users/:userId/role', updateUserRole);
  */
 router.delete('/users/:userId', deleteUser);
 
+/**
+ * @route   POST /api/admin/users/:userId/logout
+ * @desc    Sign a user out on every device by ending all of their sessions
+ * @access  Admin only
+ * @param   userId - User ID
+ * @returns 200 - Number of sessions ended
+ * @returns 404 - User not found
+ * @returns 500 - Server error
+ */
+router.post('/users/:userId/logout', forceLogoutUser);
+
+/**
+ * @route   GET /api/admin/sequences/billing
+ * @desc    Get the billing number sequence for a month
+ * @access  Admin only
+ * @query   period? - YYYYMM (defaults to the current month)
+ * @returns 200 - Current sequence, next number and highest issued number
+ * @returns 400 - Invalid period
+ * @returns 500 - Server error
+ */
+router.get('/sequences/billing', getBillingSequence);
+
+/**
+ * @route   PUT /api/admin/sequences/billing
+ * @desc    Reseed the billing number sequence for a month
+ * @access  Admin only
+ * @body    { period?: string, sequence: number }
+ * @returns 200 - Sequence updated
+ * @returns 400 - Invalid period or sequence
+ * @returns 409 - Sequence lower than an issued billing number
+ * @returns 500 - Server error
+ */
+router.put('/sequences/billing', reseedBillingSequence);
+
+/**
+ * @route   POST /api/admin/email-outbox/process
+ * @desc    Attempt every due email in the outbox now
+ * @access  Admin only
+ * @returns 200 - Number of emails sent
+ * @returns 500 - Server error
+ */
+router.post('/email-outbox/process', processEmailOutbox);
+
+/**
+ * @route   GET /api/admin/payment-reminders
+ * @desc    Get the company-wide reminder policy and the clients that override it
+ * @access  Admin only
+ * @returns 200 - Company policy and client policies
+ * @returns 500 - Server error
+ */
+router.get('/payment-reminders', getPaymentReminderSettings);
+
+/**
+ * @route   POST /api/admin/payment-reminders/run
+ * @desc    Send every payment reminder that has come due now
+ * @access  Admin only
+ * @returns 200 - Number of reminders sent
+ * @returns 500 - Server error
+ */
+router.post('/payment-reminders/run', runPaymentReminders);
+
 export default router;
@@ -4,7 +4,12 @@
  */
 
 import { Router } from 'express';
-import { getBillingAnalytics } from '../controllers/analytics.controller.js';
+import {
+  getBillingAnalytics,
+  exportBillingAnalytics,
+  getAgingReport,
+  getPoFulfillmentReport
+} from '../controllers/analytics.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
 
 const router = Router();
@@ -21,4 +26,33 @@ router.use(authenticateToken);
  */
 router.get('/billings', getBillingAnalytics);
 
+/**
+ * @route   GET /api/analytics/billings/export
+ * @desc    Download the billing analytics as an XLSX workbook (summary, monthly
+ *          revenue, top clients, status breakdowns, recent billings)
+ * @access  Private (requires authentication)
+ * @query   dateFrom, dateTo (optional date range)
+ * @returns 200 - XLSX workbook
+ */
+router.get('/billings/export', exportBillingAnalytics);
+
+/**
+ * @route   GET /api/analytics/aging
+ * @desc    Get outstanding balances per client bucketed by days past due
+ *          (Current, 1-30, 31-60, 61-90, 90+)
+ * @access  Private (requires authentication)
+ * @query   asOf (optional date, defaults to today)
+ * @returns Aging totals and per-client breakdown
+ */
+router.get('/aging', getAgingReport);
+
+/**
+ * @route   GET /api/analytics/po-fulfillment
+ * @desc    Get ordered, billed and remaining quantities per purchase order and line
+ * @access  Private (requires authentication)
+ * @query   clientId (optional), status (optional, Open | Closed)
+ * @returns Fulfillment totals and per-PO breakdown
+ */
+router.get('/po-fulfillment', getPoFulfillmentReport);
+
 export default router;
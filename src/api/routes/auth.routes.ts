@@ -4,7 +4,15 @@
  */
 
 import { Router } from 'express';
-import { register, login, getProfile } from '../controllers/auth.controller.js';
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  getProfile,
+  getSessions,
+  revokeSession
+} from '../controllers/auth.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
 
 const router = Router();
@@ -18,11 +26,36 @@ router.post('/register', register);
 
 /**
  * @route   POST /api/auth/login
- * @desc    Login user
+ * @desc    Login user and start a session
  * @access  Public
+ * @returns 200 - Access token, refresh token and user
  */
 router.post('/login', login);
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token and refresh token.
+ *          Each refresh token works once; reusing a replaced one ends the session.
+ * @access  Public (refresh token)
+ * @body    {
+ *   refreshToken: string
+ * }
+ * @returns 200 - New access token, refresh token and user
+ * @returns 401 - Refresh token unknown, expired or revoked
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the session of a refresh token
+ * @access  Public (refresh token)
+ * @body    {
+ *   refreshToken: string
+ * }
+ * @returns 200 - Logged out (also when the session had already ended)
+ */
+router.post('/logout', logout);
+
 /**
  * @route   GET /api/auth/profile
  * @desc    Get current user profile
@@ -30,4 +63,21 @@ router.post('/login', login);
  */
 router.get('/profile', authenticateToken, getProfile);
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    Get the current user's active sessions, most recently used first.
+ *          The session making the request has current: true.
+ * @access  Private
+ */
+router.get('/sessions', authenticateToken, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    End one of the current user's sessions
+ * @access  Private
+ * @returns 200 - Session revoked
+ * @returns 404 - Session not found or already ended
+ */
+router.delete('/sessions/:sessionId', authenticateToken, revokeSession);
+
 export default router;
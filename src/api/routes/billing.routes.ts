@@ -3,21 +3,49 @@
  * Express router configuration for billing endpoints
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   createBilling,
+  consolidateDeliveryReceipts,
   getBillingById,
   getAllBillings,
+  exportBillings,
+  importBillings,
   updateBilling,
-  deleteBilling,
+  voidBilling,
   sendBillingEmail,
-  downloadBillingPdf
+  getBillingEmailJobs,
+  getBillingEmailJob,
+  downloadBillingPdf,
+  getBillingHistory,
+  getBillingReminders,
+  updateBillingReminders
 } from '../controllers/billing.controller';
-import { authenticateToken } from '../middleware/auth.middleware.js';
+import {
+  getBillingPayments,
+  recordPayment,
+  deletePayment
+} from '../controllers/payment.controller.js';
+import {
+  getBillingCreditMemos,
+  createCreditMemo,
+  downloadCreditMemoPdf
+} from '../controllers/credit.memo.controller.js';
+import {
+  bulkDownloadBillingPdfs,
+  bulkEmailBillings,
+  bulkVoidBillings,
+  bulkMarkBillingsPaid
+} from '../controllers/billing.bulk.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+import { authorizeBilling } from '../middleware/authorize.middleware.js';
+import { storageConfig } from '../../config/index.js';
 
 const router = Router();
 
 // Apply authentication to all routes
+// Routes on a single billing also go through authorizeBilling: non-admins only
+// see their own billings, and anything else is reported as not found
 router.use(authenticateToken);
 
 /**
@@ -27,20 +55,47 @@ router.use(authenticateToken);
  * @body    {
  *   billingDate: string,
  *   deliveryReceiptNumber?: string,
+ *   deliveryReceiptIds?: string[],
  *   companyName: string,
  *   address: string,
  *   contactNumber: string,
  *   attentionPerson: string,
  *   items: BillingItem[],
- *   discount: number
+ *   discount: number,
+ *   paymentTerms?: 'COD' | 'Net 15' | 'Net 30' | 'Net 60' | 'Custom',
+ *   customTermDays?: number
  * }
  * @returns 201 - Created billing
  * @returns 400 - Validation errors
- * @returns 409 - Duplicate billing number
+ * @returns 409 - Duplicate billing number or delivery receipt already billed
  * @returns 500 - Server error
  */
 router.post('/', createBilling);
 
+/**
+ * @route   POST /api/billings/consolidate
+ * @desc    Bill every open delivery receipt for a client in a date range as one billing
+ * @access  Private (requires authentication; non-admins consolidate their own receipts)
+ * @body    {
+ *   clientId: string,
+ *   from: string,
+ *   to: string,
+ *   billingDate?: string (defaults to `to`),
+ *   clientEmail?: string,
+ *   discount?: number,
+ *   vatMode?: 'None' | 'Inclusive' | 'Exclusive',
+ *   withholdingRate?: 0 | 1 | 2,
+ *   paymentTerms?: 'COD' | 'Net 15' | 'Net 30' | 'Net 60' | 'Custom',
+ *   customTermDays?: number
+ * }
+ * @returns 201 - Created billing (same response as POST /api/billings)
+ * @returns 400 - Validation errors
+ * @returns 404 - No unbilled delivery receipts in the range
+ * @returns 409 - A delivery receipt was billed concurrently
+ * @returns 500 - Server error
+ */
+router.post('/consolidate', consolidateDeliveryReceipts);
+
 /**
  * @route   GET /api/billings
  * @desc    Get all billings with optional filters
@@ -59,64 +114,313 @@ router.post('/', createBilling);
  */
 router.get('/', getAllBillings);
 
+/**
+ * @route   GET /api/billings/export
+ * @desc    Download every billing matching the filters as CSV or XLSX
+ * @access  Private
+ * @query   {
+ *   format?: 'csv' | 'xlsx',
+ *   items?: 'true',
+ *   status?: BillingStatus,
+ *   emailStatus?: EmailStatus,
+ *   companyName?: string,
+ *   billingNumber?: string,
+ *   dateFrom?: string,
+ *   dateTo?: string
+ * }
+ * @returns 200 - CSV file, or XLSX workbook with a Billings and optional Line Items sheet
+ * @returns 400 - Invalid format or filter
+ * @returns 500 - Server error
+ */
+router.get('/export', exportBillings);
+
+/**
+ * @route   POST /api/billings/import
+ * @desc    Import historical billings from CSV, one row per line item, grouped by
+ *          billing number. Original numbers and dates are kept; no PDF or email.
+ * @access  Admin only
+ * @query   dryRun?: 'true' (validate and preview without saving)
+ * @body    Raw CSV file (up to MAX_FILE_SIZE), sent with Content-Type text/csv
+ * @returns 200 - Dry run preview with row errors
+ * @returns 201 - Billings imported
+ * @returns 400 - Missing file, or row errors (nothing imported)
+ * @returns 500 - Server error
+ */
+router.post(
+  '/import',
+  requireAdmin,
+  express.text({ type: ['text/csv', 'text/plain', 'application/vnd.ms-excel'], limit: storageConfig.maxFileSize }),
+  importBillings
+);
+
+/**
+ * @route   POST /api/billings/bulk/download
+ * @desc    Download the PDFs of the selected billings as one ZIP. Billings that
+ *          cannot be included are listed in errors.txt inside the ZIP.
+ * @access  Private (creator or admin, per billing)
+ * @body    {
+ *   ids: string[] (billing IDs or numbers, up to 100)
+ * }
+ * @returns 200 - ZIP archive; X-Bulk-Failed header counts billings left out
+ * @returns 400 - Invalid selection
+ * @returns 404 - None of the billings has a PDF, with the result for each
+ * @returns 500 - Server error
+ */
+router.post('/bulk/download', bulkDownloadBillingPdfs);
+
+/**
+ * @route   POST /api/billings/bulk/email
+ * @desc    Queue the invoice email of each selected billing to its client email
+ * @access  Private (creator or admin, per billing)
+ * @body    {
+ *   ids: string[]
+ * }
+ * @returns 200 - Result for each billing
+ * @returns 400 - Invalid selection
+ * @returns 500 - Server error
+ */
+router.post('/bulk/email', bulkEmailBillings);
+
+/**
+ * @route   POST /api/billings/bulk/void
+ * @desc    Void each selected billing with the same reason
+ * @access  Admin only
+ * @body    {
+ *   ids: string[],
+ *   reason: string
+ * }
+ * @returns 200 - Result for each billing
+ * @returns 400 - Invalid selection or missing reason
+ * @returns 500 - Server error
+ */
+router.post('/bulk/void', requireAdmin, bulkVoidBillings);
+
+/**
+ * @route   POST /api/billings/bulk/mark-paid
+ * @desc    Record a payment for the full balance due of each selected billing
+ * @access  Private (creator or admin, per billing)
+ * @body    {
+ *   ids: string[],
+ *   method: PaymentMethod,
+ *   paymentDate?: string (defaults to now),
+ *   referenceNumber?: string,
+ *   notes?: string
+ * }
+ * @returns 200 - Result for each billing
+ * @returns 400 - Invalid selection
+ * @returns 500 - Server error
+ */
+router.post('/bulk/mark-paid', bulkMarkBillingsPaid);
+
 /**
  * @route   GET /api/billings/:id
  * @desc    Get a single billing by ID
- * @access  Private
+ * @access  Private (creator or admin)
  * @param   id - Billing ID
  * @returns 200 - Billing document
  * @returns 404 - Billing not found
  * @returns 500 - Server error
  */
-router.get('/:id', getBillingById);
+router.get('/:id', authorizeBilling, getBillingById);
 
 /**
  * @route   PUT /api/billings/:id
  * @desc    Update a billing
- * @access  Private
+ * @access  Private (creator or admin)
  * @param   id - Billing ID
  * @body    UpdateBillingDTO
  * @returns 200 - Updated billing
  * @returns 404 - Billing not found
  * @returns 500 - Server error
  */
-router.put('/:id', updateBilling);
+router.put('/:id', authorizeBilling, updateBilling);
 
 /**
- * @route   DELETE /api/billings/:id
- * @desc    Delete a billing
- * @access  Private
- * @param   id - Billing ID
- * @returns 200 - Success message
+ * @route   POST /api/billings/:id/void
+ * @desc    Void a billing. The record and its number are kept and the PDF is
+ *          stamped VOID. Billings are never hard-deleted.
+ * @access  Admin only
+ * @param   id - Billing ID or billing number
+ * @body    {
+ *   reason: string
+ * }
+ * @returns 200 - Voided billing
+ * @returns 400 - Missing reason
  * @returns 404 - Billing not found
+ * @returns 409 - Already void, or has payments/credit memos
  * @returns 500 - Server error
  */
-router.delete('/:id', deleteBilling);
+router.post('/:id/void', requireAdmin, authorizeBilling, voidBilling);
+
 /**
  * @route   POST /api/billings/:id/send-email
- * @desc    Send billing invoice via email
- * @access  Private
+ * @desc    Queue the billing invoice for email delivery. Returns immediately;
+ *          the outbox worker sends it and retries failures with backoff.
+ * @access  Private (creator or admin)
  * @param   id - Billing ID
  * @body    {
  *   recipientEmail: string
  * }
- * @returns 200 - Email sent successfully
+ * @returns 202 - Email queued, with the job ID to poll
  * @returns 400 - PDF not generated or validation error
  * @returns 404 - Billing not found
- * @returns 500 - Email sending error
+ * @returns 409 - Billing is void
+ * @returns 500 - Server error
+ */
+router.post('/:id/send-email', authorizeBilling, sendBillingEmail);
+
+/**
+ * @route   GET /api/billings/:id/email-jobs
+ * @desc    Get the email jobs of a billing, newest first
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @returns 200 - Email jobs with status, attempts and last error
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/email-jobs', authorizeBilling, getBillingEmailJobs);
+
+/**
+ * @route   GET /api/billings/:id/email-jobs/:jobId
+ * @desc    Get the delivery status of an email job
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @param   jobId - Email job ID
+ * @returns 200 - Email job (Pending, Sending, Sent or Failed)
+ * @returns 404 - Billing or job not found
+ * @returns 500 - Server error
  */
-router.post('/:id/send-email', sendBillingEmail);
+router.get('/:id/email-jobs/:jobId', authorizeBilling, getBillingEmailJob);
 
 /**
  * @route   GET /api/billings/:id/download-pdf
  * @desc    Download PDF for a billing
- * @access  Private
+ * @access  Private (creator or admin)
  * @param   id - Billing ID or billing number
  * @returns 200 - PDF file
  * @returns 404 - Billing or PDF not found
  * @returns 500 - Server error
  */
-router.get('/:id/download-pdf', downloadBillingPdf);
+router.get('/:id/download-pdf', authorizeBilling, downloadBillingPdf);
+
+/**
+ * @route   GET /api/billings/:id/history
+ * @desc    Get the audit trail of a billing (create, update, email, download, void, reminder)
+ *          with the actor and field-level before/after values, newest first
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @returns 200 - Audit log entries
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/history', authorizeBilling, getBillingHistory);
+
+/**
+ * @route   GET /api/billings/:id/reminders
+ * @desc    Get the payment reminder policy, next reminder and reminder log of a billing
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @returns 200 - Reminder state
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/reminders', authorizeBilling, getBillingReminders);
+
+/**
+ * @route   PUT /api/billings/:id/reminders
+ * @desc    Pause or resume payment reminders for a billing
+ * @access  Admin only
+ * @param   id - Billing ID or billing number
+ * @body    { paused: boolean }
+ * @returns 200 - Updated reminder state
+ * @returns 400 - paused missing
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.put('/:id/reminders', requireAdmin, authorizeBilling, updateBillingReminders);
+
+/**
+ * @route   GET /api/billings/:id/payments
+ * @desc    Get the payment history and balance of a billing
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @returns 200 - { payments: Payment[], summary: { grandTotal, amountPaid, balanceDue, paymentStatus } }
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/payments', authorizeBilling, getBillingPayments);
+
+/**
+ * @route   POST /api/billings/:id/payments
+ * @desc    Record a full or partial payment
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @body    {
+ *   paymentDate: string,
+ *   amount: number,
+ *   method: 'Cash' | 'Check' | 'Bank Transfer' | 'GCash',
+ *   referenceNumber?: string,
+ *   notes?: string
+ * }
+ * @returns 201 - Recorded payment and updated balance
+ * @returns 400 - Validation errors or amount exceeds balance due
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.post('/:id/payments', authorizeBilling, recordPayment);
+
+/**
+ * @route   DELETE /api/billings/:id/payments/:paymentId
+ * @desc    Remove a payment recorded by mistake
+ * @access  Admin only
+ * @param   id - Billing ID or billing number
+ * @param   paymentId - Payment ID
+ * @returns 200 - Updated balance
+ * @returns 404 - Payment not found
+ * @returns 500 - Server error
+ */
+router.delete('/:id/payments/:paymentId', requireAdmin, authorizeBilling, deletePayment);
+
+/**
+ * @route   GET /api/billings/:id/credit-memos
+ * @desc    Get the credit memos issued against a billing
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @returns 200 - Array of credit memos
+ * @returns 404 - Billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/credit-memos', authorizeBilling, getBillingCreditMemos);
+
+/**
+ * @route   POST /api/billings/:id/credit-memos
+ * @desc    Issue a separately numbered credit memo that reduces the billing's balance
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @body    {
+ *   memoDate: string,
+ *   reason: string,
+ *   amount: number
+ * }
+ * @returns 201 - { creditMemo, billing }
+ * @returns 400 - Validation errors or amount exceeds balance due
+ * @returns 404 - Billing not found
+ * @returns 409 - Billing is void
+ * @returns 500 - Server error
+ */
+router.post('/:id/credit-memos', authorizeBilling, createCreditMemo);
+
+/**
+ * @route   GET /api/billings/:id/credit-memos/:memoId/download-pdf
+ * @desc    Download a credit memo PDF
+ * @access  Private (creator or admin)
+ * @param   id - Billing ID or billing number
+ * @param   memoId - Credit memo ID
+ * @returns 200 - PDF file
+ * @returns 404 - Credit memo not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/credit-memos/:memoId/download-pdf', authorizeBilling, downloadCreditMemoPdf);
 
 
 export default router;
@@ -0,0 +1,85 @@
+/**
+ * Catalog API Routes
+ * Express router configuration for the product and service price list
+ */
+
+import { Router } from 'express';
+import {
+  getCatalogItems,
+  getCatalogItemById,
+  createCatalogItem,
+  updateCatalogItem,
+  deleteCatalogItem
+} from '../controllers/catalog.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/catalog
+ * @desc    Get catalog items
+ * @access  Private
+ * @query   search?: string, includeInactive?: boolean
+ * @returns 200 - Array of catalog items
+ * @returns 500 - Server error
+ */
+router.get('/', getCatalogItems);
+
+/**
+ * @route   GET /api/catalog/:id
+ * @desc    Get a single catalog item
+ * @access  Private
+ * @param   id - Catalog item ID
+ * @returns 200 - Catalog item
+ * @returns 404 - Catalog item not found
+ * @returns 500 - Server error
+ */
+router.get('/:id', getCatalogItemById);
+
+/**
+ * @route   POST /api/catalog
+ * @desc    Create a catalog item
+ * @access  Admin only
+ * @body    {
+ *   code: string,
+ *   description: string,
+ *   unit?: string,
+ *   defaultPrice: number,
+ *   isActive?: boolean
+ * }
+ * @returns 201 - Created catalog item
+ * @returns 400 - Validation errors
+ * @returns 409 - Duplicate code
+ * @returns 500 - Server error
+ */
+router.post('/', requireAdmin, createCatalogItem);
+
+/**
+ * @route   PUT /api/catalog/:id
+ * @desc    Update a catalog item
+ * @access  Admin only
+ * @param   id - Catalog item ID
+ * @returns 200 - Updated catalog item
+ * @returns 400 - Validation errors
+ * @returns 404 - Catalog item not found
+ * @returns 409 - Duplicate code
+ * @returns 500 - Server error
+ */
+router.put('/:id', requireAdmin, updateCatalogItem);
+
+/**
+ * @route   DELETE /api/catalog/:id
+ * @desc    Delete a catalog item that is not used on any billing
+ * @access  Admin only
+ * @param   id - Catalog item ID
+ * @returns 200 - Success message
+ * @returns 404 - Catalog item not found
+ * @returns 409 - Catalog item is used on billings
+ * @returns 500 - Server error
+ */
+router.delete('/:id', requireAdmin, deleteCatalogItem);
+
+export default router;
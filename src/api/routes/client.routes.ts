@@ -0,0 +1,146 @@
+/**
+ * Client API Routes
+ * Express router configuration for client master record endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getAllClients,
+  getClientById,
+  createClient,
+  updateClient,
+  deleteClient,
+  getClientStatement,
+  sendClientStatement,
+  getClientReminderPolicy,
+  updateClientReminderPolicy
+} from '../controllers/client.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/clients
+ * @desc    Get clients, optionally filtered by search term (used for autocomplete)
+ * @access  Private
+ * @query   search?: string, limit?: number
+ * @returns 200 - Array of clients
+ * @returns 400 - Invalid limit
+ * @returns 500 - Server error
+ */
+router.get('/', getAllClients);
+
+/**
+ * @route   GET /api/clients/:id
+ * @desc    Get a single client
+ * @access  Private
+ * @param   id - Client ID
+ * @returns 200 - Client document
+ * @returns 404 - Client not found
+ * @returns 500 - Server error
+ */
+router.get('/:id', getClientById);
+
+/**
+ * @route   GET /api/clients/:id/statement
+ * @desc    Download the client's Statement of Account PDF (open billings,
+ *          payments and running balance)
+ * @access  Private (non-admins only see their own billings)
+ * @param   id - Client ID
+ * @query   from?: date, to?: date (billing date range, inclusive)
+ * @returns 200 - PDF file
+ * @returns 400 - Invalid date range
+ * @returns 404 - Client not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/statement', getClientStatement);
+
+/**
+ * @route   POST /api/clients/:id/statement/send-email
+ * @desc    Email the client's Statement of Account as a PDF attachment
+ * @access  Private (non-admins only see their own billings)
+ * @param   id - Client ID
+ * @body    {
+ *   recipientEmail?: string (defaults to the client's email),
+ *   from?: date,
+ *   to?: date
+ * }
+ * @returns 200 - Recipient, billing count and balance
+ * @returns 400 - Invalid date range or missing recipient
+ * @returns 404 - Client not found
+ * @returns 500 - Server error
+ */
+router.post('/:id/statement/send-email', sendClientStatement);
+
+/**
+ * @route   GET /api/clients/:id/reminder-policy
+ * @desc    Get the payment reminder policy that applies to a client
+ * @access  Private
+ * @param   id - Client ID
+ * @returns 200 - Policy, whether it is the client's own or the company's, and the company policy
+ * @returns 404 - Client not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/reminder-policy', getClientReminderPolicy);
+
+/**
+ * @route   PUT /api/clients/:id/reminder-policy
+ * @desc    Set a client's own payment reminder policy, or clear it to use the company policy
+ * @access  Admin only
+ * @param   id - Client ID
+ * @body    { reminderPolicy: { enabled, daysBeforeDue, onDueDate, repeatEveryDays, maxOverdueReminders } | null }
+ * @returns 200 - Policy now in effect
+ * @returns 400 - Validation errors
+ * @returns 404 - Client not found
+ * @returns 500 - Server error
+ */
+router.put('/:id/reminder-policy', requireAdmin, updateClientReminderPolicy);
+
+/**
+ * @route   POST /api/clients
+ * @desc    Create a client
+ * @access  Private
+ * @body    {
+ *   companyName: string,
+ *   address: string,
+ *   contactNumber?: string,
+ *   attentionPerson: string,
+ *   clientEmail?: string,
+ *   notes?: string
+ * }
+ * @returns 201 - Created client
+ * @returns 400 - Validation errors
+ * @returns 409 - Client with the same company name exists
+ * @returns 500 - Server error
+ */
+router.post('/', createClient);
+
+/**
+ * @route   PUT /api/clients/:id
+ * @desc    Update a client
+ * @access  Private
+ * @param   id - Client ID
+ * @returns 200 - Updated client
+ * @returns 400 - Validation errors
+ * @returns 404 - Client not found
+ * @returns 409 - Client with the same company name exists
+ * @returns 500 - Server error
+ */
+router.put('/:id', updateClient);
+
+/**
+ * @route   DELETE /api/clients/:id
+ * @desc    Delete a client that has no billings
+ * @access  Admin only
+ * @param   id - Client ID
+ * @returns 200 - Success message
+ * @returns 404 - Client not found
+ * @returns 409 - Client has billings
+ * @returns 500 - Server error
+ */
+router.delete('/:id', requireAdmin, deleteClient);
+
+export default router;
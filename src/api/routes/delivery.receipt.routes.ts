@@ -0,0 +1,90 @@
+/**
+ * Delivery Receipt API Routes
+ * Express router configuration for delivery receipts
+ */
+
+import { Router } from 'express';
+import {
+  getDeliveryReceipts,
+  getDeliveryReceiptById,
+  createDeliveryReceipt,
+  updateDeliveryReceipt,
+  downloadDeliveryReceiptPdf
+} from '../controllers/delivery.receipt.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+import { authorizeDeliveryReceipt } from '../middleware/authorize.middleware.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/delivery-receipts
+ * @desc    Get delivery receipts (admins see all, other users their own)
+ * @access  Private
+ * @query   status?: 'Open' | 'Billed', clientId?: string, search?: string
+ * @returns 200 - Array of delivery receipts
+ * @returns 400 - Invalid status
+ * @returns 500 - Server error
+ */
+router.get('/', getDeliveryReceipts);
+
+/**
+ * @route   POST /api/delivery-receipts
+ * @desc    Issue a delivery receipt with the next DR number
+ * @access  Private
+ * @body    {
+ *   deliveryDate: string,
+ *   clientId?: string,
+ *   companyName: string,
+ *   address: string,
+ *   contactNumber?: string,
+ *   attentionPerson?: string,
+ *   items: Array<{ description, unit?, quantity, deliveredQuantity?, unitPrice?, catalogItemId? }>,
+ *   receivedBy?: string,
+ *   notes?: string
+ * }
+ * @returns 201 - Created delivery receipt
+ * @returns 400 - Validation errors
+ * @returns 500 - Server error
+ */
+router.post('/', createDeliveryReceipt);
+
+/**
+ * @route   GET /api/delivery-receipts/:id
+ * @desc    Get a single delivery receipt
+ * @access  Private (creator or admin)
+ * @param   id - DR number or MongoDB ID
+ * @returns 200 - Delivery receipt
+ * @returns 404 - Delivery receipt not found
+ * @returns 500 - Server error
+ */
+router.get('/:id', authorizeDeliveryReceipt, getDeliveryReceiptById);
+
+/**
+ * @route   PUT /api/delivery-receipts/:id
+ * @desc    Update an open delivery receipt and regenerate its PDF
+ * @access  Private (creator or admin)
+ * @param   id - DR number or MongoDB ID
+ * @body    Same fields as POST; omitted fields keep their current value
+ * @returns 200 - Updated delivery receipt
+ * @returns 400 - Validation errors
+ * @returns 404 - Delivery receipt not found
+ * @returns 409 - Delivery receipt already billed
+ * @returns 500 - Server error
+ */
+router.put('/:id', authorizeDeliveryReceipt, updateDeliveryReceipt);
+
+/**
+ * @route   GET /api/delivery-receipts/:id/download-pdf
+ * @desc    Download the printable delivery receipt
+ * @access  Private (creator or admin)
+ * @param   id - DR number or MongoDB ID
+ * @returns 200 - PDF file
+ * @returns 404 - Delivery receipt not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/download-pdf', authorizeDeliveryReceipt, downloadDeliveryReceiptPdf);
+
+export default router;
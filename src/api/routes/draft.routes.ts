@@ -11,6 +11,7 @@ import {
   deleteDraft
 } from '../controllers/draft.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
+import { authorizeDraft } from '../middleware/authorize.middleware.js';
 
 const router = Router();
 
@@ -40,23 +41,23 @@ router.get('/', getAllDrafts);
 /**
  * @route   GET /api/drafts/:id
  * @desc    Get a single draft by ID
- * @access  Private
+ * @access  Private (creator or admin)
  * @param   id - Draft ID
  * @returns 200 - Draft document
  * @returns 404 - Draft not found
  * @returns 500 - Server error
  */
-router.get('/:id', getDraftById);
+router.get('/:id', authorizeDraft, getDraftById);
 
 /**
  * @route   DELETE /api/drafts/:id
  * @desc    Delete a draft
- * @access  Private
+ * @access  Private (creator or admin)
  * @param   id - Draft ID
  * @returns 200 - Success message
  * @returns 404 - Draft not found
  * @returns 500 - Server error
  */
-router.delete('/:id', deleteDraft);
+router.delete('/:id', authorizeDraft, deleteDraft);
 
 export default router;
@@ -0,0 +1,89 @@
+/**
+ * Email Template API Routes
+ * Express router configuration for email templates (admin-only access)
+ */
+
+import { Router } from 'express';
+import {
+  getEmailTemplates,
+  getEmailTemplate,
+  saveEmailTemplate,
+  deleteEmailTemplate,
+  previewEmailTemplate
+} from '../controllers/email.template.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// Apply authentication and admin requirement to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+/**
+ * @route   GET /api/email-templates
+ * @desc    Get stored templates with the built-in default and placeholders of each type
+ * @access  Admin only
+ * @query   clientId? - Only the company-wide templates and this client's overrides
+ * @returns 200 - { templates, defaults, placeholders }
+ * @returns 500 - Server error
+ */
+router.get('/', getEmailTemplates);
+
+/**
+ * @route   GET /api/email-templates/:type
+ * @desc    Get the template that applies to a type and client
+ * @access  Admin only
+ * @param   type - 'Invoice' | 'Reminder' | 'Statement'
+ * @query   clientId? - Client being emailed
+ * @returns 200 - Template with its source ('Client', 'Company' or 'Default')
+ * @returns 400 - Invalid type or client ID
+ * @returns 500 - Server error
+ */
+router.get('/:type', getEmailTemplate);
+
+/**
+ * @route   PUT /api/email-templates/:type
+ * @desc    Save the company-wide template of a type, or a client's override
+ * @access  Admin only
+ * @param   type - 'Invoice' | 'Reminder' | 'Statement'
+ * @body    {
+ *   subject: string,
+ *   body: string,
+ *   clientId?: string
+ * }
+ * @returns 200 - Saved template
+ * @returns 400 - Validation error or unknown placeholder
+ * @returns 500 - Server error
+ */
+router.put('/:type', saveEmailTemplate);
+
+/**
+ * @route   DELETE /api/email-templates/:type
+ * @desc    Delete a stored template so the company-wide or built-in one applies again
+ * @access  Admin only
+ * @param   type - 'Invoice' | 'Reminder' | 'Statement'
+ * @query   clientId? - Client override to delete
+ * @returns 200 - Template deleted
+ * @returns 404 - No stored template
+ * @returns 500 - Server error
+ */
+router.delete('/:type', deleteEmailTemplate);
+
+/**
+ * @route   POST /api/email-templates/:type/preview
+ * @desc    Render a template against a real billing (or a client's statement)
+ * @access  Admin only
+ * @param   type - 'Invoice' | 'Reminder' | 'Statement'
+ * @body    {
+ *   billingId?: string,
+ *   clientId?: string,
+ *   subject?: string,
+ *   body?: string
+ * }
+ * @returns 200 - Rendered subject and body, with any template errors
+ * @returns 404 - Billing or client not found
+ * @returns 500 - Server error
+ */
+router.post('/:type/preview', previewEmailTemplate);
+
+export default router;
@@ -0,0 +1,87 @@
+/**
+ * Purchase Order API Routes
+ * Express router configuration for client purchase orders
+ */
+
+import { Router } from 'express';
+import {
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  deletePurchaseOrder
+} from '../controllers/purchase.order.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/purchase-orders
+ * @desc    Get purchase orders with billed and remaining quantities per line
+ * @access  Private
+ * @query   clientId?: string, status?: 'Open' | 'Closed', search?: string
+ * @returns 200 - Array of purchase orders
+ * @returns 500 - Server error
+ */
+router.get('/', getPurchaseOrders);
+
+/**
+ * @route   GET /api/purchase-orders/:id
+ * @desc    Get a single purchase order with billed and remaining quantities
+ * @access  Private
+ * @param   id - Purchase order ID
+ * @returns 200 - Purchase order
+ * @returns 404 - Purchase order not found
+ * @returns 500 - Server error
+ */
+router.get('/:id', getPurchaseOrderById);
+
+/**
+ * @route   POST /api/purchase-orders
+ * @desc    Create a purchase order
+ * @access  Private
+ * @body    {
+ *   poNumber: string,
+ *   clientId: string,
+ *   poDate: string,
+ *   lines: Array<{ id?, style, description, orderedQuantity, unitPrice, catalogItemId? }>,
+ *   overbillingPolicy?: 'Block' | 'Warn',
+ *   notes?: string
+ * }
+ * @returns 201 - Created purchase order
+ * @returns 400 - Validation errors
+ * @returns 409 - Duplicate PO number for the client
+ * @returns 500 - Server error
+ */
+router.post('/', createPurchaseOrder);
+
+/**
+ * @route   PUT /api/purchase-orders/:id
+ * @desc    Update a purchase order, or close/reopen it with { status }
+ * @access  Private
+ * @param   id - Purchase order ID
+ * @body    Same fields as POST plus status?: 'Open' | 'Closed'; omitted fields keep their current value
+ * @returns 200 - Updated purchase order
+ * @returns 400 - Validation errors (including lines reduced below the billed quantity)
+ * @returns 404 - Purchase order not found
+ * @returns 409 - Duplicate PO number for the client
+ * @returns 500 - Server error
+ */
+router.put('/:id', updatePurchaseOrder);
+
+/**
+ * @route   DELETE /api/purchase-orders/:id
+ * @desc    Delete a purchase order that no billing references
+ * @access  Admin only
+ * @param   id - Purchase order ID
+ * @returns 200 - Purchase order deleted
+ * @returns 404 - Purchase order not found
+ * @returns 409 - Purchase order is referenced by billings
+ * @returns 500 - Server error
+ */
+router.delete('/:id', requireAdmin, deletePurchaseOrder);
+
+export default router;
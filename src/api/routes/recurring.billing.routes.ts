@@ -0,0 +1,113 @@
+/**
+ * Recurring Billing API Routes
+ * Express router configuration for recurring billing schedules
+ */
+
+import { Router } from 'express';
+import {
+  getRecurringBillings,
+  getRecurringBillingById,
+  createRecurringBilling,
+  updateRecurringBilling,
+  deleteRecurringBilling,
+  getRecurringBillingRuns,
+  runDueRecurringBillings
+} from '../controllers/recurring.billing.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+import { authorizeRecurringBilling } from '../middleware/authorize.middleware.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/recurring-billings
+ * @desc    Get recurring billings (admins see all, other users their own)
+ * @access  Private
+ * @query   clientId?: string, active?: 'true' | 'false'
+ * @returns 200 - Array of recurring billings, next due first
+ * @returns 500 - Server error
+ */
+router.get('/', getRecurringBillings);
+
+/**
+ * @route   POST /api/recurring-billings
+ * @desc    Create a recurring billing schedule
+ * @access  Private
+ * @body    {
+ *   name: string,
+ *   clientId: string,
+ *   items: Array<{ description, quantity, unitPrice, catalogItemId?, vatType? }>,
+ *   discount?: number,
+ *   vatMode?: 'None' | 'Inclusive' | 'Exclusive',
+ *   withholdingRate?: 0 | 1 | 2,
+ *   paymentTerms?: PaymentTerms,
+ *   customTermDays?: number,
+ *   frequency: 'Monthly' | 'Quarterly',
+ *   startDate: string,
+ *   endDate?: string,
+ *   autoSend?: boolean
+ * }
+ * @returns 201 - Created recurring billing
+ * @returns 400 - Validation errors
+ * @returns 500 - Server error
+ */
+router.post('/', createRecurringBilling);
+
+/**
+ * @route   POST /api/recurring-billings/run-due
+ * @desc    Bill every due period now (for an external cron when the scheduler is not running)
+ * @access  Admin only
+ * @returns 200 - Number of billings created
+ * @returns 500 - Server error
+ */
+router.post('/run-due', requireAdmin, runDueRecurringBillings);
+
+/**
+ * @route   GET /api/recurring-billings/:id
+ * @desc    Get a recurring billing with its most recent runs
+ * @access  Private (creator or admin)
+ * @param   id - Recurring billing ID
+ * @returns 200 - Recurring billing with runs
+ * @returns 404 - Recurring billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id', authorizeRecurringBilling, getRecurringBillingById);
+
+/**
+ * @route   PUT /api/recurring-billings/:id
+ * @desc    Update a recurring billing, or pause/resume it with { isActive }
+ * @access  Private (creator or admin)
+ * @param   id - Recurring billing ID
+ * @body    Same fields as POST plus isActive?: boolean; omitted fields keep their current value
+ * @returns 200 - Updated recurring billing
+ * @returns 400 - Validation errors
+ * @returns 404 - Recurring billing not found
+ * @returns 500 - Server error
+ */
+router.put('/:id', authorizeRecurringBilling, updateRecurringBilling);
+
+/**
+ * @route   DELETE /api/recurring-billings/:id
+ * @desc    Delete a recurring billing and its run history (created billings are kept)
+ * @access  Private (creator or admin)
+ * @param   id - Recurring billing ID
+ * @returns 200 - Recurring billing deleted
+ * @returns 404 - Recurring billing not found
+ * @returns 500 - Server error
+ */
+router.delete('/:id', authorizeRecurringBilling, deleteRecurringBilling);
+
+/**
+ * @route   GET /api/recurring-billings/:id/runs
+ * @desc    Get the run history of a recurring billing, latest period first
+ * @access  Private (creator or admin)
+ * @param   id - Recurring billing ID
+ * @returns 200 - Array of runs (status Created, Failed or Running, with billing number or error)
+ * @returns 404 - Recurring billing not found
+ * @returns 500 - Server error
+ */
+router.get('/:id/runs', authorizeRecurringBilling, getRecurringBillingRuns);
+
+export default router;
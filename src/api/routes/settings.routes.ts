@@ -0,0 +1,89 @@
+/**
+ * Settings API Routes
+ * Express router configuration for the company profile
+ */
+
+import express, { Router } from 'express';
+import {
+  getCompanySettings,
+  updateCompanySettings,
+  getCompanyLogo,
+  uploadCompanyLogo,
+  deleteCompanyLogo
+} from '../controllers/settings.controller.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
+import { LOGO_MIME_TYPES } from '../services/company.settings.service.js';
+import { storageConfig } from '../../config/index.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/settings/company
+ * @desc    Get the company profile printed on PDFs and emails
+ * @access  Private
+ * @returns 200 - Company settings, with hasLogo
+ * @returns 500 - Server error
+ */
+router.get('/company', getCompanySettings);
+
+/**
+ * @route   PUT /api/settings/company
+ * @desc    Update the company profile
+ * @access  Admin only
+ * @body    {
+ *   companyName?: string,
+ *   address?: string,
+ *   tin?: string,
+ *   phone?: string,
+ *   email?: string,
+ *   bankName?: string,
+ *   bankAccountName?: string,
+ *   bankAccountNumber?: string,
+ *   paymentNotes?: string,
+ *   footerText?: string
+ * }
+ * @returns 200 - Updated settings
+ * @returns 400 - Validation error
+ * @returns 500 - Server error
+ */
+router.put('/company', requireAdmin, updateCompanySettings);
+
+/**
+ * @route   GET /api/settings/company/logo
+ * @desc    Get the company logo image
+ * @access  Private
+ * @returns 200 - PNG or JPEG image
+ * @returns 404 - No logo uploaded
+ * @returns 500 - Server error
+ */
+router.get('/company/logo', getCompanyLogo);
+
+/**
+ * @route   PUT /api/settings/company/logo
+ * @desc    Upload or replace the company logo
+ * @access  Admin only
+ * @body    Raw image file (up to MAX_FILE_SIZE), sent with Content-Type image/png or image/jpeg
+ * @returns 200 - Updated settings
+ * @returns 400 - Missing file or unsupported type
+ * @returns 500 - Server error
+ */
+router.put(
+  '/company/logo',
+  requireAdmin,
+  express.raw({ type: Object.keys(LOGO_MIME_TYPES), limit: storageConfig.maxFileSize }),
+  uploadCompanyLogo
+);
+
+/**
+ * @route   DELETE /api/settings/company/logo
+ * @desc    Remove the company logo
+ * @access  Admin only
+ * @returns 200 - Updated settings
+ * @returns 500 - Server error
+ */
+router.delete('/company/logo', requireAdmin, deleteCompanyLogo);
+
+export default router;
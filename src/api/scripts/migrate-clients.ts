@@ -0,0 +1,112 @@
+/**
+ * Migration Script: Build client master records from existing billings
+ * Creates one client per distinct company name (ignoring case, spacing and
+ * punctuation) using the details of its most recent billing, then links
+ * every billing to its client.
+ */
+
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Load environment variables
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '../../../.env') });
+
+import mongoose from 'mongoose';
+import { BillingModel } from '../models/Billing.model.js';
+import { ClientModel, normalizeCompanyName } from '../models/Client.model.js';
+import { UserModel } from '../models/User.model.js';
+
+async function migrateClients() {
+  try {
+    // Connect to MongoDB
+    console.log('🔌 Connecting to MongoDB...');
+    const mongoUri = process.env.MONGODB_URI;
+
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI not found in environment variables');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('✅ Connected to MongoDB\n');
+
+    // Clients created by the migration are owned by the first admin
+    const adminUser = await UserModel.findOne({ role: 'admin' }).sort({ createdAt: 1 });
+
+    if (!adminUser) {
+      console.log('❌ No admin user found. Please create an admin user first.');
+      process.exit(1);
+    }
+
+    console.log(`👤 Clients will be owned by: ${adminUser.name} (${adminUser.email})\n`);
+
+    // Find the distinct company names, newest billing first
+    const companies = await BillingModel.aggregate([
+      { $sort: { billingDate: -1, createdAt: -1 } },
+      {
+        $group: {
+          _id: '$companyName',
+          address: { $first: '$address' },
+          contactNumber: { $first: '$contactNumber' },
+          attentionPerson: { $first: '$attentionPerson' },
+          clientEmail: { $first: '$clientEmail' },
+          lastBillingDate: { $first: '$billingDate' }
+        }
+      },
+      { $sort: { lastBillingDate: -1 } }
+    ]);
+
+    console.log(`📊 Found ${companies.length} distinct company names in billings\n`);
+
+    let createdCount = 0;
+    let linkedCount = 0;
+
+    for (const company of companies) {
+      const companyName: string = company._id;
+      if (!companyName || companyName.trim() === '') {
+        continue;
+      }
+
+      const normalizedName = normalizeCompanyName(companyName);
+
+      // Spelling variants map onto the first (most recently billed) client
+      let client = await ClientModel.findOne({ normalizedName });
+
+      if (!client) {
+        client = await ClientModel.create({
+          companyName: companyName.trim(),
+          address: company.address,
+          contactNumber: company.contactNumber || '',
+          attentionPerson: company.attentionPerson,
+          clientEmail: company.clientEmail || undefined,
+          createdBy: adminUser._id
+        });
+        createdCount++;
+        console.log(`➕ Created client: ${client.companyName}`);
+      } else if (client.companyName !== companyName) {
+        console.log(`🔗 "${companyName}" merged into existing client "${client.companyName}"`);
+      }
+
+      // Link billings that are not yet linked to a client
+      const result = await BillingModel.updateMany(
+        { companyName, clientId: { $exists: false } },
+        { $set: { clientId: client._id } }
+      );
+      linkedCount += result.modifiedCount;
+    }
+
+    console.log(`\n✅ Migration complete!`);
+    console.log(`   Created ${createdCount} clients`);
+    console.log(`   Linked ${linkedCount} billings to clients\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migrateClients();
@@ -0,0 +1,63 @@
+/**
+ * Migration Script: Initialize payment balances
+ * Billings created before the payment ledger have no amountPaid, balanceDue
+ * or paymentStatus. This sets them to Unpaid with the full grand total due.
+ */
+
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Load environment variables
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '../../../.env') });
+
+import mongoose from 'mongoose';
+import { BillingModel } from '../models/Billing.model.js';
+
+async function migratePayments() {
+  try {
+    // Connect to MongoDB
+    console.log('🔌 Connecting to MongoDB...');
+    const mongoUri = process.env.MONGODB_URI;
+
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI not found in environment variables');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('✅ Connected to MongoDB\n');
+
+    const filter = { paymentStatus: { $exists: false } };
+    const pending = await BillingModel.countDocuments(filter);
+
+    console.log(`📊 Found ${pending} billings without payment balances\n`);
+
+    if (pending === 0) {
+      console.log('✅ All billings already have payment balances. Migration complete!');
+      process.exit(0);
+    }
+
+    const result = await BillingModel.updateMany(filter, [
+      {
+        $set: {
+          amountPaid: 0,
+          balanceDue: '$grandTotal',
+          paymentStatus: 'Unpaid'
+        }
+      }
+    ]);
+
+    console.log(`✅ Migration complete!`);
+    console.log(`   Updated ${result.modifiedCount} billings to Unpaid\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migratePayments();
@@ -0,0 +1,119 @@
+/**
+ * Migration Script: Move generated PDFs into PDF storage
+ * Billings, credit memos and delivery receipts used to record an absolute
+ * generatedFilePath on local disk. This copies each file into the storage
+ * chosen by PDF_STORAGE and records its key in pdfStorageKey instead.
+ * Files that are already gone are regenerated on their next download.
+ */
+
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join, basename } from 'path';
+
+// Load environment variables
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '../../../.env') });
+
+import fs from 'fs';
+import mongoose, { Model } from 'mongoose';
+import { BillingModel } from '../models/Billing.model.js';
+import { CreditMemoModel } from '../models/CreditMemo.model.js';
+import { DeliveryReceiptModel } from '../models/DeliveryReceipt.model.js';
+import { PdfStorageService, LocalPdfStorage } from '../services/pdf.storage.service.js';
+import { storageConfig } from '../../config/index.js';
+
+interface MigrationCounts {
+  moved: number;
+  alreadyStored: number;
+  missing: number;
+}
+
+/**
+ * Move the PDFs of one collection into the configured storage
+ * @param label - Name used in the log output
+ * @param model - Model of the collection
+ */
+async function migrateCollection(label: string, model: Model<any>): Promise<MigrationCounts> {
+  const localStorage = new LocalPdfStorage(storageConfig.pdfOutputDir);
+  const counts: MigrationCounts = { moved: 0, alreadyStored: 0, missing: 0 };
+
+  // Read the raw collection: generatedFilePath is no longer in the schema
+  const documents = await model.collection
+    .find(
+      { $or: [{ generatedFilePath: { $exists: true } }, { pdfStorageKey: { $exists: true } }] },
+      { projection: { generatedFilePath: 1, pdfStorageKey: 1 } }
+    )
+    .toArray();
+
+  console.log(`📊 Found ${documents.length} ${label} with a PDF\n`);
+
+  for (const document of documents) {
+    const legacyPath: string | undefined = document.generatedFilePath;
+    const key: string = document.pdfStorageKey || basename(legacyPath!);
+
+    if (await PdfStorageService.exists(key)) {
+      counts.alreadyStored++;
+    } else {
+      // Files were written to PDF_OUTPUT_DIR under the same name as the key
+      const sourcePath = [legacyPath, localStorage.getFilePath(key)].find(
+        (candidate): candidate is string => !!candidate && fs.existsSync(candidate)
+      );
+
+      if (sourcePath) {
+        await PdfStorageService.save(key, await fs.promises.readFile(sourcePath));
+        counts.moved++;
+      } else {
+        console.log(`   ⚠️  ${key}: file not found`);
+        counts.missing++;
+      }
+    }
+
+    await model.collection.updateOne(
+      { _id: document._id },
+      { $set: { pdfStorageKey: key }, $unset: { generatedFilePath: '' } }
+    );
+  }
+
+  console.log(`   Moved ${counts.moved}, already stored ${counts.alreadyStored}, missing ${counts.missing}\n`);
+  return counts;
+}
+
+async function migratePdfStorage() {
+  try {
+    // Connect to MongoDB
+    console.log('🔌 Connecting to MongoDB...');
+    const mongoUri = process.env.MONGODB_URI;
+
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI not found in environment variables');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('✅ Connected to MongoDB\n');
+
+    const target = storageConfig.pdfStorage === 'gridfs' ? 'MongoDB GridFS' : storageConfig.pdfOutputDir;
+    console.log(`📁 Moving PDFs into ${target}\n`);
+
+    const results = [
+      await migrateCollection('billings', BillingModel),
+      await migrateCollection('credit memos', CreditMemoModel),
+      await migrateCollection('delivery receipts', DeliveryReceiptModel)
+    ];
+
+    const missing = results.reduce((sum, counts) => sum + counts.missing, 0);
+
+    console.log(`✅ Migration complete!`);
+    if (missing > 0) {
+      console.log(`   ${missing} PDFs were missing and will be regenerated on their next download\n`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migratePdfStorage();
@@ -0,0 +1,109 @@
+/**
+ * Audit Service
+ * Records and reads the audit trail of billing changes
+ */
+
+import { AuditAction, AuditChange, AuditLog, AuditLogModel } from '../models/AuditLog.model.js';
+
+/**
+ * Who performed a billing mutation and why
+ */
+export interface AuditContext {
+  /** User performing the action; omitted for system actions */
+  actorId?: string;
+  /** Defaults to 'update' */
+  action?: AuditAction;
+}
+
+/**
+ * Fields that are bookkeeping rather than billing content
+ */
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+/**
+ * Sort object keys so documents read back from MongoDB compare equal to freshly built ones
+ */
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+/**
+ * Convert a value to its stored JSON form (dates to ISO strings, ObjectIds to strings)
+ */
+const normalize = (value: unknown): unknown =>
+  value === undefined || value === null ? undefined : sortKeys(JSON.parse(JSON.stringify(value)));
+
+/**
+ * Audit Service Class
+ */
+export class AuditService {
+  /**
+   * Field-level differences between two versions of a billing
+   * @param before - Billing before the change (empty object for a new billing)
+   * @param after - Billing after the change
+   * @param fields - Fields to compare; defaults to every field on either version
+   * @returns One entry per changed field
+   */
+  static diff(before: object, after: object, fields?: string[]): AuditChange[] {
+    const beforeValues = before as Record<string, unknown>;
+    const afterValues = after as Record<string, unknown>;
+    const keys = fields ?? [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return keys
+      .filter(field => !IGNORED_FIELDS.includes(field))
+      .map(field => ({ field, before: normalize(beforeValues[field]), after: normalize(afterValues[field]) }))
+      .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+  }
+
+  /**
+   * Append an entry to a billing's audit trail
+   * Failures are logged and swallowed so auditing never blocks the action itself.
+   * @param billing - Billing the action was taken on
+   * @param action - Action performed
+   * @param actorId - User who performed the action
+   * @param changes - Field-level changes
+   */
+  static async record(
+    billing: { _id?: unknown; billingNumber: string },
+    action: AuditAction,
+    actorId?: string,
+    changes: AuditChange[] = []
+  ): Promise<void> {
+    try {
+      await AuditLogModel.create({
+        billingId: billing._id,
+        billingNumber: billing.billingNumber,
+        action,
+        actor: actorId,
+        timestamp: new Date(),
+        changes
+      });
+    } catch (error) {
+      console.error('Error recording audit log:', error);
+    }
+  }
+
+  /**
+   * Get the audit trail of a billing
+   * @param billingId - Billing ID
+   * @returns Entries newest first with the actor's name and email
+   */
+  static async findByBilling(billingId: string): Promise<AuditLog[]> {
+    try {
+      const entries = await AuditLogModel.find({ billingId })
+        .sort({ timestamp: -1, _id: -1 })
+        .populate('actor', 'name email')
+        .lean();
+      return entries as AuditLog[];
+    } catch (error) {
+      console.error('Error finding audit log:', error);
+      return [];
+    }
+  }
+}
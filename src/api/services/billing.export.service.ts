@@ -0,0 +1,116 @@
+/**
+ * Billing Export Service
+ * Streams billing lists to CSV or XLSX for use in spreadsheets
+ */
+
+import { Writable } from 'stream';
+import { Billing, BillingItem } from '../../types/billing.types.js';
+import { BillingService } from './billing.service.js';
+import { CsvWriter, SpreadsheetColumn, XlsxWriter } from './spreadsheet.writer.js';
+
+export const BILLING_EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type BillingExportFormat = typeof BILLING_EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<BillingExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * A line item with the billing it belongs to
+ */
+interface BillingItemRow {
+  billing: Billing;
+  item: BillingItem;
+  lineNumber: number;
+}
+
+const BILLING_COLUMNS: SpreadsheetColumn<Billing>[] = [
+  { header: 'Billing Number', value: b => b.billingNumber, width: 18 },
+  { header: 'Revision', value: b => b.revision || 0, format: 'number' },
+  { header: 'Billing Date', value: b => b.billingDate, format: 'date', width: 12 },
+  { header: 'Due Date', value: b => b.dueDate, format: 'date', width: 12 },
+  { header: 'Company', value: b => b.companyName, width: 30 },
+  { header: 'Attention', value: b => b.attentionPerson, width: 20 },
+  { header: 'Client Email', value: b => b.clientEmail, width: 25 },
+  { header: 'DR Number', value: b => b.deliveryReceiptNumber, width: 14 },
+  { header: 'Payment Terms', value: b => b.paymentTerms === 'Custom' ? `Net ${b.customTermDays}` : b.paymentTerms },
+  { header: 'VAT Mode', value: b => b.vatMode },
+  { header: 'Subtotal', value: b => b.subtotal, format: 'money', width: 14 },
+  { header: 'Discount', value: b => b.discount, format: 'money', width: 12 },
+  // Billings created before VAT support have no breakdown
+  { header: 'Net Sales', value: b => b.taxBreakdown?.netSales ?? b.grandTotal, format: 'money', width: 14 },
+  { header: 'VAT', value: b => b.taxBreakdown?.vatAmount ?? 0, format: 'money', width: 12 },
+  { header: 'Withholding Tax', value: b => b.taxBreakdown?.withholdingTax ?? 0, format: 'money', width: 14 },
+  { header: 'Grand Total', value: b => b.grandTotal, format: 'money', width: 14 },
+  { header: 'Amount Paid', value: b => b.amountPaid ?? 0, format: 'money', width: 14 },
+  { header: 'Amount Credited', value: b => b.amountCredited ?? 0, format: 'money', width: 14 },
+  { header: 'Balance Due', value: b => b.balanceDue ?? b.grandTotal, format: 'money', width: 14 },
+  { header: 'Status', value: b => b.status },
+  { header: 'Payment Status', value: b => b.paymentStatus ?? 'Unpaid', width: 14 },
+  { header: 'Email Status', value: b => b.emailStatus },
+  { header: 'Emailed To', value: b => b.emailSentTo, width: 25 },
+  { header: 'Void Reason', value: b => b.voidReason, width: 25 },
+  { header: 'Created At', value: b => b.createdAt, format: 'date', width: 12 }
+];
+
+const ITEM_COLUMNS: SpreadsheetColumn<BillingItemRow>[] = [
+  { header: 'Billing Number', value: r => r.billing.billingNumber, width: 18 },
+  { header: 'Billing Date', value: r => r.billing.billingDate, format: 'date', width: 12 },
+  { header: 'Company', value: r => r.billing.companyName, width: 30 },
+  { header: 'Status', value: r => r.billing.status },
+  { header: 'Line', value: r => r.lineNumber, format: 'number', width: 6 },
+  { header: 'Description', value: r => r.item.description, width: 40 },
+  { header: 'Quantity', value: r => r.item.quantity, format: 'number' },
+  { header: 'Unit Price', value: r => r.item.unitPrice, format: 'money', width: 14 },
+  { header: 'Line Total', value: r => r.item.lineTotal, format: 'money', width: 14 },
+  { header: 'VAT Type', value: r => r.item.vatType ?? 'Vatable' },
+  { header: 'DR Number', value: r => r.item.deliveryReceiptNumber ?? r.billing.deliveryReceiptNumber, width: 14 }
+];
+
+/**
+ * One row per line item of every billing matching the filters
+ */
+async function* itemRows(filters: any): AsyncGenerator<BillingItemRow> {
+  for await (const billing of BillingService.stream(filters)) {
+    for (const [index, item] of (billing.items || []).entries()) {
+      yield { billing, item, lineNumber: index + 1 };
+    }
+  }
+}
+
+/**
+ * Billing Export Service Class
+ */
+export class BillingExportService {
+  /**
+   * Write every billing matching the filters, newest first
+   * A CSV holds one sheet, so with includeItems it lists the line items
+   * (with their billing's number, date and company) instead of the billings.
+   * An XLSX workbook gets a second "Line Items" sheet.
+   * @param output - Stream to write to (ended when done)
+   * @param filters - Billing query filters, as used by getAllBillings
+   * @param format - 'csv' or 'xlsx'
+   * @param includeItems - Also export one row per line item
+   */
+  static async write(output: Writable, filters: any, format: BillingExportFormat, includeItems = false): Promise<void> {
+    if (format === 'csv') {
+      const csv = new CsvWriter(output);
+      if (includeItems) {
+        await csv.writeRows(ITEM_COLUMNS, itemRows(filters));
+      } else {
+        await csv.writeRows(BILLING_COLUMNS, BillingService.stream(filters));
+      }
+      csv.finish();
+      return;
+    }
+
+    const workbook = new XlsxWriter(output);
+    await workbook.addSheet('Billings', BILLING_COLUMNS, BillingService.stream(filters));
+    if (includeItems) {
+      await workbook.addSheet('Line Items', ITEM_COLUMNS, itemRows(filters));
+    }
+    await workbook.finish();
+  }
+}
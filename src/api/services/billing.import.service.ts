@@ -0,0 +1,523 @@
+/**
+ * Billing Import Service
+ * Imports historical billings from CSV with one row per line item. Rows are
+ * grouped into billings by billing number; the billing's own fields are read
+ * from its first row and must not differ on later rows.
+ * Imported billings keep their original numbers and dates. No PDF is
+ * generated, no email is sent and payment reminders are paused.
+ */
+
+import {
+  Billing,
+  BillingItem,
+  PaymentTerms,
+  VatMode,
+  VatType,
+  WithholdingRate,
+  calculateLineTotal,
+  calculateSubtotal,
+  calculateTaxBreakdown,
+  calculateGrandTotal,
+  calculateDueDate
+} from '../../types/billing.types.js';
+import {
+  validateCompanyName,
+  validateAddress,
+  validateContactNumber,
+  validateAttentionPerson,
+  validateBillingDate,
+  validateBillingItems,
+  validateItemDescription,
+  validateItemQuantity,
+  validateItemUnitPrice,
+  validateDiscount,
+  validatePaymentTerms,
+  validateTaxSettings,
+  validateVatType,
+  ValidationResult
+} from '../../lib/validation.js';
+import { BillingModel } from '../models/Billing.model.js';
+import { PAYMENT_METHODS, PaymentMethod, PaymentModel } from '../models/Payment.model.js';
+import { BillingService } from './billing.service.js';
+import { ClientService } from './client.service.js';
+import { PaymentService } from './payment.service.js';
+import { SequenceService } from './sequence.service.js';
+
+/**
+ * CSV columns, by the header that selects them
+ * Headers are matched ignoring case, spaces and underscores.
+ */
+export const IMPORT_COLUMNS = {
+  billing: [
+    'billingNumber', 'billingDate', 'companyName', 'address', 'contactNumber', 'attentionPerson',
+    'clientEmail', 'deliveryReceiptNumber', 'paymentTerms', 'customTermDays', 'vatMode',
+    'withholdingRate', 'discount', 'amountPaid', 'paymentDate', 'paymentMethod'
+  ],
+  item: ['description', 'quantity', 'unitPrice', 'vatType']
+} as const;
+
+type BillingColumn = typeof IMPORT_COLUMNS.billing[number];
+type ItemColumn = typeof IMPORT_COLUMNS.item[number];
+type ImportColumn = BillingColumn | ItemColumn;
+
+/** Columns every file must have */
+const REQUIRED_COLUMNS: ImportColumn[] = ['billingNumber', 'billingDate', 'companyName', 'description', 'quantity', 'unitPrice'];
+
+/**
+ * A problem with one row of the file (row 1 is the header)
+ */
+export interface ImportRowError {
+  row: number;
+  billingNumber?: string;
+  message: string;
+}
+
+/**
+ * A billing as it will be imported
+ */
+export interface ImportBillingPreview {
+  billingNumber: string;
+  billingDate: Date;
+  companyName: string;
+  /** Whether the company matched a client record */
+  clientMatched: boolean;
+  itemCount: number;
+  grandTotal: number;
+  amountPaid: number;
+  rows: number[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  /** Line item rows read, excluding the header and blank lines */
+  rowCount: number;
+  billings: ImportBillingPreview[];
+  errors: ImportRowError[];
+  /** Billings inserted (0 on a dry run or when there are errors) */
+  importedCount: number;
+}
+
+type ImportRow = Partial<Record<ImportColumn, string>> & { row: number };
+
+interface BillingGroup {
+  billingNumber: string;
+  rows: ImportRow[];
+}
+
+/**
+ * A billing ready to insert, with its opening payment if one was given
+ */
+interface PreparedBilling {
+  billing: Omit<Billing, '_id'>;
+  payment?: { amount: number; paymentDate: Date; method: PaymentMethod };
+  preview: ImportBillingPreview;
+}
+
+const normalizeHeader = (header: string): string => header.replace(/[\s_]/g, '').toLowerCase();
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ * @returns Records with the line number each one starts on
+ */
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  // Excel writes a byte order mark at the start of UTF-8 files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  // Skip blank lines
+  return records.filter(record => record.fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse a number, allowing thousands separators ("1,234.50")
+ * @returns The number, undefined when blank, or NaN when not a number
+ */
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const cleaned = value.replace(/,/g, '').trim();
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+/**
+ * Billing Import Service Class
+ */
+export class BillingImportService {
+  /**
+   * Validate a CSV file and, unless this is a dry run, import its billings
+   * Nothing is imported when any row has an error.
+   * @param csv - File contents
+   * @param actorId - Admin importing the file (recorded as creator)
+   * @param dryRun - Only validate and preview
+   */
+  static async import(csv: string, actorId: string, dryRun: boolean): Promise<ImportResult> {
+    const result: ImportResult = { dryRun, rowCount: 0, billings: [], errors: [], importedCount: 0 };
+
+    const { rows, errors: headerErrors } = this.readRows(csv);
+    result.rowCount = rows.length;
+    if (headerErrors.length > 0) {
+      result.errors = headerErrors;
+      return result;
+    }
+
+    const groups = this.groupRows(rows, result.errors);
+
+    // Numbers that are already taken cannot be imported again
+    const existing = await BillingModel.find(
+      { billingNumber: { $in: groups.map(group => group.billingNumber) } },
+      { billingNumber: 1 }
+    ).lean();
+    const taken = new Set(existing.map(billing => billing.billingNumber));
+
+    const prepared: PreparedBilling[] = [];
+    for (const group of groups) {
+      if (taken.has(group.billingNumber)) {
+        result.errors.push({
+          row: group.rows[0].row,
+          billingNumber: group.billingNumber,
+          message: `Billing number ${group.billingNumber} already exists`
+        });
+        continue;
+      }
+
+      const billing = await this.prepareBilling(group, actorId, result.errors);
+      if (billing) prepared.push(billing);
+    }
+
+    result.billings = prepared.map(billing => billing.preview);
+    result.errors.sort((a, b) => a.row - b.row);
+
+    if (dryRun || result.errors.length > 0) {
+      return result;
+    }
+
+    // Billings inserted so far, removed again if a later one fails
+    const inserted: Billing[] = [];
+    let current: PreparedBilling | undefined;
+    try {
+      for (const entry of prepared) {
+        current = entry;
+        const saved = await BillingService.create(entry.billing, { actorId, action: 'import' });
+        inserted.push(saved);
+        if (entry.payment) {
+          const payment = await PaymentService.create({
+            billingId: String(saved._id),
+            paymentDate: entry.payment.paymentDate,
+            amount: entry.payment.amount,
+            method: entry.payment.method,
+            notes: 'Imported with billing',
+            recordedBy: actorId
+          });
+          if (!payment) {
+            throw new Error(`Amount paid exceeds the grand total of billing ${saved.billingNumber}`);
+          }
+        }
+      }
+      result.importedCount = inserted.length;
+    } catch (error) {
+      console.error(`Error importing billing ${current?.billing.billingNumber}; rolling back the import:`, error);
+      await this.rollback(inserted);
+      result.errors.push({
+        row: current?.preview.rows[0] ?? 0,
+        billingNumber: current?.billing.billingNumber,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      // Numbers that were written, even if rolled back, must not be handed out by the next create
+      await this.advanceSequences(inserted.map(billing => billing.billingNumber));
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove billings inserted by an import that failed part way, with their
+   * opening payments. Their audit entries are kept, as the log is append-only.
+   */
+  private static async rollback(billings: Billing[]): Promise<void> {
+    if (billings.length === 0) return;
+
+    const ids = billings.map(billing => billing._id);
+    await PaymentModel.deleteMany({ billingId: { $in: ids } });
+    await BillingModel.deleteMany({ _id: { $in: ids } });
+  }
+
+  /**
+   * Map CSV records to rows keyed by column
+   */
+  private static readRows(csv: string): { rows: ImportRow[]; errors: ImportRowError[] } {
+    const [header, ...records] = parseCsv(csv);
+    if (!header) {
+      return { rows: [], errors: [{ row: 1, message: 'The file is empty' }] };
+    }
+
+    const known = new Map<string, ImportColumn>(
+      [...IMPORT_COLUMNS.billing, ...IMPORT_COLUMNS.item].map(column => [normalizeHeader(column), column])
+    );
+    const columns = header.fields.map(name => known.get(normalizeHeader(name)));
+
+    const errors: ImportRowError[] = [];
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      errors.push({ row: header.line, message: `Missing required columns: ${missing.join(', ')}` });
+    }
+    const unknown = header.fields.filter((name, index) => !columns[index] && name.trim() !== '');
+    if (unknown.length > 0) {
+      errors.push({ row: header.line, message: `Unknown columns: ${unknown.join(', ')}` });
+    }
+
+    const rows = records.map(record => {
+      const row: ImportRow = { row: record.line };
+      columns.forEach((column, index) => {
+        if (column) row[column] = (record.fields[index] ?? '').trim();
+      });
+      return row;
+    });
+
+    return { rows, errors };
+  }
+
+  /**
+   * Group rows by billing number, keeping the order billings first appear in
+   * Rows whose billing fields differ from the billing's first row are reported.
+   */
+  private static groupRows(rows: ImportRow[], errors: ImportRowError[]): BillingGroup[] {
+    const groups = new Map<string, BillingGroup>();
+
+    for (const row of rows) {
+      const billingNumber = row.billingNumber?.trim();
+      if (!billingNumber) {
+        errors.push({ row: row.row, message: 'Billing number is required' });
+        continue;
+      }
+
+      const group = groups.get(billingNumber);
+      if (!group) {
+        groups.set(billingNumber, { billingNumber, rows: [row] });
+        continue;
+      }
+
+      const first = group.rows[0];
+      const conflicts = IMPORT_COLUMNS.billing.filter(column => (row[column] || '') !== '' && (row[column] || '') !== (first[column] || ''));
+      if (conflicts.length > 0) {
+        errors.push({
+          row: row.row,
+          billingNumber,
+          message: `${conflicts.join(', ')} differ${conflicts.length === 1 ? 's' : ''} from row ${first.row} of the same billing`
+        });
+      }
+      group.rows.push(row);
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Validate a billing's rows and build the billing to insert
+   * @returns The billing, or null when it has errors (added to errors)
+   */
+  private static async prepareBilling(group: BillingGroup, actorId: string, errors: ImportRowError[]): Promise<PreparedBilling | null> {
+    const first = group.rows[0];
+    const errorCount = errors.length;
+    const report = (row: number, validation: ValidationResult) => {
+      if (!validation.isValid) {
+        errors.push({ row, billingNumber: group.billingNumber, message: validation.error! });
+      }
+    };
+    const reportMessage = (row: number, message: string) => report(row, { isValid: false, error: message });
+
+    // Billing fields
+    const companyName = first.companyName || '';
+    const address = first.address || '';
+    const contactNumber = first.contactNumber || '';
+    const attentionPerson = first.attentionPerson || '';
+    const billingDateText = first.billingDate || '';
+    const paymentTerms = (first.paymentTerms || 'COD') as PaymentTerms;
+    const customTermDays = parseNumber(first.customTermDays);
+    const vatMode = (first.vatMode || 'None') as VatMode;
+    const withholdingRate = (parseNumber(first.withholdingRate) ?? 0) as WithholdingRate;
+
+    report(first.row, validateCompanyName(companyName));
+    report(first.row, validateAddress(address));
+    report(first.row, validateContactNumber(contactNumber));
+    report(first.row, validateAttentionPerson(attentionPerson));
+    report(first.row, validateBillingDate(billingDateText));
+    report(first.row, validatePaymentTerms(paymentTerms, customTermDays));
+    report(first.row, validateTaxSettings(vatMode, withholdingRate));
+
+    // Line items
+    const items: BillingItem[] = group.rows.map((row, index) => {
+      const quantity = parseNumber(row.quantity);
+      const unitPrice = parseNumber(row.unitPrice);
+      const vatType = (row.vatType || undefined) as VatType | undefined;
+
+      report(row.row, validateItemDescription(row.description || ''));
+      if (quantity === undefined || isNaN(quantity)) {
+        reportMessage(row.row, 'Quantity must be a number');
+      } else {
+        report(row.row, validateItemQuantity(quantity));
+      }
+      if (unitPrice === undefined || isNaN(unitPrice)) {
+        reportMessage(row.row, 'Unit price must be a number');
+      } else {
+        report(row.row, validateItemUnitPrice(unitPrice));
+      }
+      report(row.row, validateVatType(vatType));
+
+      return {
+        id: `${index + 1}`,
+        description: row.description || '',
+        quantity: quantity || 0,
+        unitPrice: unitPrice || 0,
+        lineTotal: calculateLineTotal(quantity || 0, unitPrice || 0),
+        vatType: vatType || 'Vatable'
+      };
+    });
+    report(first.row, validateBillingItems(items));
+
+    const subtotal = calculateSubtotal(items);
+    const discount = parseNumber(first.discount) ?? 0;
+    if (isNaN(discount)) {
+      reportMessage(first.row, 'Discount must be a number');
+    } else {
+      report(first.row, validateDiscount(discount, subtotal));
+    }
+
+    // Payment already received, recorded as a single payment
+    const amountPaid = parseNumber(first.amountPaid) ?? 0;
+    const paymentDate = first.paymentDate ? new Date(first.paymentDate) : new Date(billingDateText);
+    const paymentMethod = first.paymentMethod as PaymentMethod | undefined;
+    if (isNaN(amountPaid) || amountPaid < 0) {
+      reportMessage(first.row, 'Amount paid must be a number and cannot be negative');
+    } else if (amountPaid > 0) {
+      if (!paymentMethod || !PAYMENT_METHODS.includes(paymentMethod)) {
+        reportMessage(first.row, `Payment method must be one of: ${PAYMENT_METHODS.join(', ')}`);
+      }
+      if (first.paymentDate && isNaN(paymentDate.getTime())) {
+        reportMessage(first.row, 'Invalid payment date format');
+      }
+    }
+
+    if (errors.length > errorCount) {
+      return null;
+    }
+
+    const taxBreakdown = calculateTaxBreakdown(items, discount, vatMode, withholdingRate);
+    const grandTotal = calculateGrandTotal(taxBreakdown);
+    if (amountPaid > grandTotal) {
+      reportMessage(first.row, `Amount paid (${amountPaid.toFixed(2)}) exceeds the grand total (${grandTotal.toFixed(2)})`);
+      return null;
+    }
+
+    const client = await ClientService.findByCompanyName(companyName);
+    const billingDate = new Date(billingDateText);
+
+    const billing: Omit<Billing, '_id'> = {
+      billingNumber: group.billingNumber,
+      billingDate,
+      deliveryReceiptNumber: first.deliveryReceiptNumber || undefined,
+      clientId: client?._id?.toString(),
+      companyName: companyName.trim(),
+      address: address.trim(),
+      contactNumber: contactNumber.trim(),
+      attentionPerson: attentionPerson.trim(),
+      clientEmail: first.clientEmail || undefined,
+      items,
+      subtotal,
+      discount,
+      vatMode,
+      withholdingRate,
+      taxBreakdown,
+      grandTotal,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? customTermDays : undefined,
+      dueDate: calculateDueDate(billingDate, paymentTerms, customTermDays),
+      status: 'Generated',
+      amountPaid: 0,
+      balanceDue: grandTotal,
+      paymentStatus: 'Unpaid',
+      emailStatus: 'Not Sent',
+      // Historical billings were settled outside this system; never chase them
+      remindersPaused: true,
+      remindersPausedBy: actorId,
+      remindersPausedAt: new Date(),
+      createdBy: actorId,
+      // Sort with the billings of their own time
+      createdAt: billingDate,
+      updatedAt: new Date()
+    };
+
+    return {
+      billing,
+      payment: amountPaid > 0 ? { amount: amountPaid, paymentDate, method: paymentMethod! } : undefined,
+      preview: {
+        billingNumber: group.billingNumber,
+        billingDate,
+        companyName: billing.companyName,
+        clientMatched: !!client,
+        itemCount: items.length,
+        grandTotal,
+        amountPaid,
+        rows: group.rows.map(row => row.row)
+      }
+    };
+  }
+
+  /**
+   * Move billing number counters past imported numbers in our own format
+   * so new billings are never issued a number that was imported.
+   */
+  private static async advanceSequences(billingNumbers: string[]): Promise<void> {
+    const highest = new Map<string, number>();
+    for (const billingNumber of billingNumbers) {
+      const parsed = SequenceService.parseNumber(billingNumber);
+      if (parsed?.prefix !== SequenceService.BILLING_PREFIX) continue;
+      highest.set(parsed.period, Math.max(highest.get(parsed.period) ?? 0, parsed.sequence));
+    }
+
+    for (const [period, sequence] of highest) {
+      await SequenceService.advanceTo(SequenceService.BILLING_PREFIX, period, sequence);
+    }
+  }
+}
@@ -5,6 +5,7 @@
 
 import { Billing } from '../../types/billing.types.js';
 import { BillingModel } from '../models/Billing.model.js';
+import { AuditContext, AuditService } from './audit.service.js';
 
 /**
  * Billing Service Class
@@ -14,13 +15,17 @@ export class BillingService {
   /**
    * Create a new billing record in the database
    * @param billingData - Billing data to create
+   * @param audit - Who created the billing (recorded in the audit log)
    * @returns Created billing with _id
    */
-  static async create(billingData: Omit<Billing, '_id'>): Promise<Billing> {
+  static async create(billingData: Omit<Billing, '_id'>, audit: AuditContext = {}): Promise<Billing> {
     try {
       const billing = new BillingModel(billingData);
-      const savedBilling = await billing.save();
-      return savedBilling.toObject() as Billing;
+      const savedBilling = (await billing.save()).toObject() as Billing;
+
+      await AuditService.record(savedBilling, audit.action ?? 'create', audit.actorId, AuditService.diff({}, savedBilling));
+
+      return savedBilling;
     } catch (error: any) {
       if (error.code === 11000) {
         throw new Error('A billing with this billing number already exists');
@@ -59,23 +64,38 @@ export class BillingService {
     }
   }
 
+  /**
+   * Find a billing by billing number, falling back to its MongoDB ID
+   * @param id - Billing number (e.g. SEW-202601-001) or billing ID
+   * @returns Billing document or null
+   */
+  static async findByIdOrNumber(id: string): Promise<Billing | null> {
+    const billing = await this.findByBillingNumber(id);
+    if (billing || !/^[0-9a-fA-F]{24}$/.test(id)) {
+      return billing;
+    }
+    return this.findById(id);
+  }
+
   /**
    * Find all billings with optional filters and pagination
-   * Returns billings sorted by creation date (newest first)
+   * Returns billings sorted by creation date (newest first) unless a sort is given
    * @param filters - Query filters
    * @param page - Page number
    * @param limit - Items per page
-   * @returns Array of billing documents sorted by createdAt DESC
+   * @param sort - Field and direction to sort by (1 ascending, -1 descending)
+   * @returns Array of billing documents
    */
   static async findAll(
     filters: any = {}, 
     page: number = 1, 
-    limit: number = 10
+    limit: number = 10,
+    sort: Record<string, 1 | -1> = { createdAt: -1 }
   ): Promise<Billing[]> {
     try {
       const skip = (page - 1) * limit;
       const billings = await BillingModel.find(filters)
-        .sort({ createdAt: -1 }) // Sort by createdAt descending (newest first)
+        .sort({ ...sort, _id: -1 }) // _id breaks ties so pages never overlap
         .skip(skip)
         .limit(limit)
         .lean(); // Convert to plain JavaScript objects for better performance
@@ -87,6 +107,19 @@ export class BillingService {
     }
   }
 
+  /**
+   * Iterate over every billing matching filters without loading them all
+   * Same order as findAll (newest first).
+   * @param filters - Query filters
+   * @returns Async iterable of billing documents
+   */
+  static stream(filters: any = {}): AsyncIterable<Billing> {
+    return BillingModel.find(filters)
+      .sort({ createdAt: -1 })
+      .lean<Billing[]>()
+      .cursor();
+  }
+
   /**
    * Count billings matching filters
    * @param filters - Query filters
@@ -103,17 +136,33 @@ export class BillingService {
 
   /**
    * Update a billing by ID
+   * The changed fields are recorded in the audit log.
    * @param _id - Billing ID
    * @param updates - Fields to update
+   * @param audit - Who made the change and which action it belongs to
    * @returns Updated billing document
    */
-  static async update(_id: string, updates: Partial<Billing>): Promise<Billing | null> {
+  static async update(_id: string, updates: Partial<Billing>, audit: AuditContext = {}): Promise<Billing | null> {
     try {
+      const existingBilling = await BillingModel.findById(_id).lean();
+      if (!existingBilling) {
+        return null;
+      }
+
       const updatedBilling = await BillingModel.findByIdAndUpdate(
         _id, 
         { $set: updates }, 
         { new: true, runValidators: true }
       ).lean();
+
+      if (updatedBilling) {
+        const changes = AuditService.diff(existingBilling, updatedBilling, Object.keys(updates));
+        const action = audit.action ?? 'update';
+        // Saves that change nothing are not worth a plain 'update' entry
+        if (changes.length > 0 || action !== 'update') {
+          await AuditService.record(updatedBilling as Billing, action, audit.actorId, changes);
+        }
+      }
       
       return updatedBilling as Billing | null;
     } catch (error) {
@@ -124,8 +173,9 @@ export class BillingService {
 
   /**
    * Delete a billing by ID
+   * Billings are voided, not deleted; this only undoes a create that could not be completed.
    * @param _id - Billing ID
-   * @returns Deleted billing document
+   * @returns Deleted billing
    */
   static async delete(_id: string): Promise<Billing | null> {
     try {
@@ -151,6 +201,10 @@ export class BillingService {
     try {
       const now = new Date();
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+      // Voided billings are kept for audit but do not count
+      const notVoid = { status: { $ne: 'Void' } };
+      // Revenue is net of credit memos, as in the analytics and statements
+      const netRevenue = { $subtract: ['$grandTotal', { $ifNull: ['$amountCredited', 0] }] };
       
       const [
         totalBillings,
@@ -159,16 +213,17 @@ export class BillingService {
         totalRevenue,
         revenueThisMonth
       ] = await Promise.all([
-        BillingModel.countDocuments(),
-        BillingModel.countDocuments({ createdAt: { $gte: startOfMonth } }),
-        BillingModel.countDocuments({ emailStatus: 'Sent' }),
+        BillingModel.countDocuments(notVoid),
+        BillingModel.countDocuments({ ...notVoid, createdAt: { $gte: startOfMonth } }),
+        BillingModel.countDocuments({ ...notVoid, emailStatus: 'Sent' }),
         BillingModel.aggregate([
-          { $group: { _id: null, total: { $sum: '$grandTotal' } } }
-        ]).then(result => result[0]?.total || 0),
+          { $match: notVoid },
+          { $group: { _id: null, total: { $sum: netRevenue } } }
+        ]).then(result => Number((result[0]?.total || 0).toFixed(2))),
         BillingModel.aggregate([
-          { $match: { createdAt: { $gte: startOfMonth } } },
-          { $group: { _id: null, total: { $sum: '$grandTotal' } } }
-        ]).then(result => result[0]?.total || 0)
+          { $match: { ...notVoid, createdAt: { $gte: startOfMonth } } },
+          { $group: { _id: null, total: { $sum: netRevenue } } }
+        ]).then(result => Number((result[0]?.total || 0).toFixed(2)))
       ]);
       
       return {
@@ -0,0 +1,126 @@
+/**
+ * Catalog Service
+ * Database operations for the product and service price list
+ */
+
+import { CatalogItem, CatalogItemModel } from '../models/CatalogItem.model.js';
+
+/**
+ * Catalog Service Class
+ * Handles all database operations for catalog items
+ */
+export class CatalogService {
+  /**
+   * Create a new catalog item
+   * @param itemData - Catalog item data to create
+   * @returns Created catalog item with _id
+   */
+  static async create(itemData: Omit<CatalogItem, '_id'>): Promise<CatalogItem> {
+    try {
+      const item = new CatalogItemModel(itemData);
+      const savedItem = await item.save();
+      return savedItem.toObject() as CatalogItem;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('A catalog item with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a catalog item by ID
+   * @param _id - Catalog item ID
+   * @returns Catalog item or null
+   */
+  static async findById(_id: string): Promise<CatalogItem | null> {
+    try {
+      const item = await CatalogItemModel.findById(_id).lean();
+      return item as CatalogItem | null;
+    } catch (error) {
+      console.error('Error finding catalog item by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find several catalog items by ID
+   * @param ids - Catalog item IDs
+   * @returns Catalog items that exist
+   */
+  static async findByIds(ids: string[]): Promise<CatalogItem[]> {
+    try {
+      const items = await CatalogItemModel.find({ _id: { $in: ids } }).lean();
+      return items as CatalogItem[];
+    } catch (error) {
+      console.error('Error finding catalog items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find catalog items
+   * @param search - Partial code or description to match (case-insensitive)
+   * @param activeOnly - Exclude deactivated items
+   * @returns Array of catalog items sorted by code
+   */
+  static async findAll(search = '', activeOnly = true): Promise<CatalogItem[]> {
+    try {
+      const filter: any = {};
+
+      if (activeOnly) {
+        filter.isActive = true;
+      }
+
+      const term = search.trim();
+      if (term) {
+        const pattern = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        filter.$or = [{ code: pattern }, { description: pattern }];
+      }
+
+      const items = await CatalogItemModel.find(filter).sort({ code: 1 }).lean();
+      return items as CatalogItem[];
+    } catch (error) {
+      console.error('Error finding catalog items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a catalog item by ID
+   * @param _id - Catalog item ID
+   * @param updates - Fields to update
+   * @returns Updated catalog item
+   */
+  static async update(_id: string, updates: Partial<CatalogItem>): Promise<CatalogItem | null> {
+    try {
+      const updatedItem = await CatalogItemModel.findByIdAndUpdate(
+        _id,
+        { $set: updates },
+        { new: true, runValidators: true }
+      ).lean();
+
+      return updatedItem as CatalogItem | null;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('A catalog item with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a catalog item by ID
+   * @param _id - Catalog item ID
+   * @returns Deleted catalog item
+   */
+  static async delete(_id: string): Promise<CatalogItem | null> {
+    try {
+      const deletedItem = await CatalogItemModel.findByIdAndDelete(_id).lean();
+      return deletedItem as CatalogItem | null;
+    } catch (error) {
+      console.error('Error deleting catalog item:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Client Service
+ * Database operations for client master records using MongoDB with Mongoose
+ */
+
+import { Client, ClientModel, normalizeCompanyName } from '../models/Client.model.js';
+
+/**
+ * Client Service Class
+ * Handles all database operations for clients
+ */
+export class ClientService {
+  /**
+   * Create a new client
+   * @param clientData - Client data to create
+   * @returns Created client with _id
+   */
+  static async create(clientData: Omit<Client, '_id' | 'normalizedName'>): Promise<Client> {
+    try {
+      const client = new ClientModel(clientData);
+      const savedClient = await client.save();
+      return savedClient.toObject() as Client;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('A client with this company name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a client by ID
+   * @param _id - Client ID
+   * @returns Client document or null
+   */
+  static async findById(_id: string): Promise<Client | null> {
+    try {
+      const client = await ClientModel.findById(_id).lean();
+      return client as Client | null;
+    } catch (error) {
+      console.error('Error finding client by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find a client by company name, ignoring case, spacing and punctuation
+   * @param companyName - Company name as typed
+   * @returns Client document or null
+   */
+  static async findByCompanyName(companyName: string): Promise<Client | null> {
+    try {
+      const client = await ClientModel.findOne({
+        normalizedName: normalizeCompanyName(companyName)
+      }).lean();
+      return client as Client | null;
+    } catch (error) {
+      console.error('Error finding client by company name:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Search clients by company name, attention person or email
+   * @param search - Partial text to match (case-insensitive)
+   * @param limit - Maximum number of results
+   * @returns Array of clients sorted by company name
+   */
+  static async search(search = '', limit = 20): Promise<Client[]> {
+    try {
+      const filter: any = {};
+      const term = search.trim();
+
+      if (term) {
+        const pattern = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        filter.$or = [
+          { companyName: pattern },
+          { attentionPerson: pattern },
+          { clientEmail: pattern }
+        ];
+      }
+
+      const clients = await ClientModel.find(filter)
+        .sort({ companyName: 1 })
+        .limit(limit)
+        .lean();
+
+      return clients as Client[];
+    } catch (error) {
+      console.error('Error searching clients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a client by ID
+   * @param _id - Client ID
+   * @param updates - Fields to update
+   * @returns Updated client document
+   */
+  static async update(_id: string, updates: Partial<Client>): Promise<Client | null> {
+    try {
+      // Hooks don't run on findByIdAndUpdate, so keep the normalized name in sync here
+      const changes: Partial<Client> = { ...updates };
+      if (changes.companyName) {
+        changes.normalizedName = normalizeCompanyName(changes.companyName);
+      }
+
+      const updatedClient = await ClientModel.findByIdAndUpdate(
+        _id,
+        { $set: changes },
+        { new: true, runValidators: true }
+      ).lean();
+
+      return updatedClient as Client | null;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('A client with this company name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a client by ID
+   * @param _id - Client ID
+   * @returns Deleted client document
+   */
+  static async delete(_id: string): Promise<Client | null> {
+    try {
+      const deletedClient = await ClientModel.findByIdAndDelete(_id).lean();
+      return deletedClient as Client | null;
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Company Settings Service
+ * Reads and updates the company profile printed on PDFs and emails
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CompanySettings, CompanySettingsModel } from '../models/CompanySettings.model.js';
+import { storageConfig } from '../../config/index.js';
+import { validateCompanyName, validateContactNumber, validateTin } from '../../lib/validation.js';
+
+/**
+ * Settings an admin can edit (the logo is uploaded separately)
+ */
+export const COMPANY_SETTINGS_FIELDS = [
+  'companyName',
+  'address',
+  'tin',
+  'phone',
+  'email',
+  'bankName',
+  'bankAccountName',
+  'bankAccountNumber',
+  'paymentNotes',
+  'footerText'
+] as const;
+
+export type CompanySettingsField = typeof COMPANY_SETTINGS_FIELDS[number];
+
+export type CompanySettingsUpdate = Partial<Pick<CompanySettings, CompanySettingsField>>;
+
+/**
+ * Logo formats PDFKit can embed
+ */
+export const LOGO_MIME_TYPES: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg'
+};
+
+/**
+ * Profile used until an admin saves the settings
+ */
+export const DEFAULT_COMPANY_SETTINGS: Omit<CompanySettings, '_id'> = {
+  key: 'company',
+  companyName: 'Sew Cut Wearing Apparel Manufacturing',
+  address: '13 Delaware St. Barangay Banaba\nSan Mateo, Rizal 1850',
+  tin: '',
+  phone: '',
+  email: 'sewcut.garmentsmanufacturing@gmail.com',
+  bankName: 'BDO',
+  bankAccountName: 'SEW-CUT WEARING APPAREL MANUFACTURING',
+  bankAccountNumber: '012258002502',
+  paymentNotes: '50% Down Payment upon confirmation of order (through bank deposit)\n' +
+    '50% Full payment after 5 working days upon completion of orders (through bank deposit)',
+  footerText: 'This is a computer-generated document. No signature is required.'
+};
+
+const MAX_LENGTHS: Partial<Record<CompanySettingsField, number>> = {
+  companyName: 200,
+  address: 500,
+  paymentNotes: 1000,
+  footerText: 300
+};
+
+/**
+ * Company Settings Service Class
+ */
+export class CompanySettingsService {
+  /**
+   * Get the company profile
+   * Read on every render so changes apply to the next PDF or email.
+   * @returns Saved settings over the defaults
+   */
+  static async get(): Promise<CompanySettings> {
+    try {
+      const settings = await CompanySettingsModel.findOne({ key: 'company' }).lean();
+      return { ...DEFAULT_COMPANY_SETTINGS, ...(settings as CompanySettings | null) };
+    } catch (error) {
+      console.error('Error loading company settings, using the defaults:', error);
+      return { ...DEFAULT_COMPANY_SETTINGS };
+    }
+  }
+
+  /**
+   * Check settings sent by an admin
+   * @param updates - Fields to change
+   * @returns Validation errors
+   */
+  static validate(updates: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    for (const field of COMPANY_SETTINGS_FIELDS) {
+      const value = updates[field];
+      if (value === undefined) continue;
+
+      if (typeof value !== 'string') {
+        errors.push(`${field} must be text`);
+        continue;
+      }
+      const maxLength = MAX_LENGTHS[field] ?? 120;
+      if (value.trim().length > maxLength) {
+        errors.push(`${field} cannot exceed ${maxLength} characters`);
+      }
+    }
+
+    if (typeof updates.companyName === 'string') {
+      const result = validateCompanyName(updates.companyName);
+      if (!result.isValid) errors.push(result.error!);
+    }
+    if (typeof updates.phone === 'string') {
+      const result = validateContactNumber(updates.phone);
+      if (!result.isValid) errors.push(result.error!);
+    }
+    if (typeof updates.tin === 'string') {
+      const result = validateTin(updates.tin);
+      if (!result.isValid) errors.push(result.error!);
+    }
+    if (typeof updates.email === 'string' && updates.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(updates.email.trim())) {
+      errors.push('Invalid email address format');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Save changes to the company profile
+   * The first save stores the defaults along with the changes.
+   * @param updates - Fields to change
+   * @param updatedBy - Admin saving the settings
+   * @returns Updated settings
+   */
+  static async update(updates: CompanySettingsUpdate, updatedBy?: string): Promise<CompanySettings> {
+    const current = await this.get();
+    const fields: CompanySettingsUpdate = {};
+    for (const field of COMPANY_SETTINGS_FIELDS) {
+      const value = updates[field] ?? current[field];
+      fields[field] = typeof value === 'string' ? value.trim() : value;
+    }
+
+    const settings = await CompanySettingsModel.findOneAndUpdate(
+      { key: 'company' },
+      { $set: { ...fields, updatedBy } },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    ).lean();
+    return { ...DEFAULT_COMPANY_SETTINGS, ...(settings as CompanySettings) };
+  }
+
+  /**
+   * Replace the company logo
+   * @param data - Image file contents
+   * @param mimeType - image/png or image/jpeg
+   * @param updatedBy - Admin uploading the logo
+   * @returns Updated settings
+   */
+  static async saveLogo(data: Buffer, mimeType: string, updatedBy?: string): Promise<CompanySettings> {
+    const extension = LOGO_MIME_TYPES[mimeType];
+    if (!extension) {
+      throw new Error('Logo must be a PNG or JPEG image');
+    }
+
+    if (!fs.existsSync(storageConfig.uploadDir)) {
+      fs.mkdirSync(storageConfig.uploadDir, { recursive: true });
+    }
+
+    const current = await this.get();
+    const logoPath = path.join(storageConfig.uploadDir, `company-logo-${Date.now()}${extension}`);
+    await fs.promises.writeFile(logoPath, data);
+
+    // Make sure the settings document exists before attaching the logo to it
+    await this.update({}, updatedBy);
+    const settings = await CompanySettingsModel.findOneAndUpdate(
+      { key: 'company' },
+      { $set: { logoPath, logoMimeType: mimeType, updatedBy } },
+      { new: true }
+    ).lean();
+
+    this.removeFile(current.logoPath);
+    return { ...DEFAULT_COMPANY_SETTINGS, ...(settings as CompanySettings) };
+  }
+
+  /**
+   * Remove the company logo
+   * @param updatedBy - Admin removing the logo
+   * @returns Updated settings
+   */
+  static async deleteLogo(updatedBy?: string): Promise<CompanySettings> {
+    const current = await this.get();
+    const settings = await CompanySettingsModel.findOneAndUpdate(
+      { key: 'company' },
+      { $unset: { logoPath: 1, logoMimeType: 1 }, $set: { updatedBy } },
+      { new: true }
+    ).lean();
+
+    this.removeFile(current.logoPath);
+    return { ...DEFAULT_COMPANY_SETTINGS, ...(settings as CompanySettings | null) };
+  }
+
+  /**
+   * Path of the logo file, if one is uploaded and still on disk
+   * @param settings - Company settings
+   */
+  static getLogoPath(settings: CompanySettings): string | null {
+    return settings.logoPath && fs.existsSync(settings.logoPath) ? settings.logoPath : null;
+  }
+
+  /**
+   * The logo as a data URI, for previews shown in the browser
+   * @param settings - Company settings
+   * @returns The data URI, or an empty string if there is no logo
+   */
+  static async getLogoDataUri(settings: CompanySettings): Promise<string> {
+    const logoPath = this.getLogoPath(settings);
+    if (!logoPath) return '';
+    const data = await fs.promises.readFile(logoPath);
+    return `data:${settings.logoMimeType || 'image/png'};base64,${data.toString('base64')}`;
+  }
+
+  private static removeFile(filePath?: string): void {
+    if (filePath && fs.existsSync(filePath)) {
+      fs.promises.unlink(filePath).catch(error => console.error('Error removing old logo:', error));
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Credit Memo Service
+ * Database operations for credit memos issued against billings
+ */
+
+import { Billing } from '../../types/billing.types.js';
+import { CreditMemo, CreditMemoModel } from '../models/CreditMemo.model.js';
+import { PaymentService } from './payment.service.js';
+import { SequenceService } from './sequence.service.js';
+
+/**
+ * Credit Memo Service Class
+ * Handles all database operations for credit memos
+ */
+export class CreditMemoService {
+  /**
+   * Issue a credit memo against a billing and refresh the billing balance
+   * The amount is split into net sales, VAT and withholding in the same
+   * proportions as the original billing.
+   * @param billing - Billing being credited
+   * @param memoData - Date, reason and amount of the credit
+   * @param createdBy - User issuing the credit memo
+   * @returns Created credit memo with _id, or null if the billing is void or
+   * the amount exceeds its balance due
+   */
+  static async create(
+    billing: Billing,
+    memoData: { memoDate: Date; reason: string; amount: number },
+    createdBy: string
+  ): Promise<CreditMemo | null> {
+    const round = (amount: number) => Number(amount.toFixed(2));
+
+    // Billings created before VAT support have no breakdown; credit net sales only
+    let netSales = memoData.amount;
+    let vatAmount = 0;
+    let withholdingTax = 0;
+    if (billing.taxBreakdown && billing.grandTotal > 0) {
+      const share = memoData.amount / billing.grandTotal;
+      netSales = round(billing.taxBreakdown.netSales * share);
+      vatAmount = round(billing.taxBreakdown.vatAmount * share);
+      withholdingTax = round(netSales + vatAmount - memoData.amount);
+    }
+
+    // Checked against the current balance in the same write that records the credit
+    const billingId = String(billing._id);
+    const reserved = await PaymentService.reserve(billingId, { amountCredited: memoData.amount });
+    if (!reserved) {
+      return null;
+    }
+
+    let creditMemoNumber: string;
+    try {
+      creditMemoNumber = await SequenceService.next(SequenceService.CREDIT_MEMO_PREFIX, memoData.memoDate);
+    } catch (error) {
+      await PaymentService.release(billingId, { amountCredited: memoData.amount });
+      throw error;
+    }
+
+    let savedMemo;
+    try {
+      savedMemo = await new CreditMemoModel({
+        creditMemoNumber,
+        billingId: billing._id,
+        billingNumber: billing.billingNumber,
+        clientId: billing.clientId,
+        companyName: billing.companyName,
+        memoDate: memoData.memoDate,
+        reason: memoData.reason,
+        amount: memoData.amount,
+        netSales,
+        vatAmount,
+        withholdingTax,
+        createdBy
+      }).save();
+    } catch (error: any) {
+      await SequenceService.release(creditMemoNumber);
+      await PaymentService.release(billingId, { amountCredited: memoData.amount });
+      if (error.code === 11000) {
+        throw new Error('A credit memo with this number already exists');
+      }
+      throw error;
+    }
+
+    await PaymentService.recordBalanceChange(reserved, { amountCredited: memoData.amount }, 'credit-memo', createdBy);
+    return savedMemo.toObject() as CreditMemo;
+  }
+
+  /**
+   * Find a credit memo by ID
+   * @param _id - Credit memo ID
+   * @returns Credit memo or null
+   */
+  static async findById(_id: string): Promise<CreditMemo | null> {
+    try {
+      const memo = await CreditMemoModel.findById(_id).lean();
+      return memo as CreditMemo | null;
+    } catch (error) {
+      console.error('Error finding credit memo by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find all credit memos issued against a billing
+   * @param billingId - Billing ID
+   * @returns Credit memos sorted by memo date (oldest first)
+   */
+  static async findByBilling(billingId: string): Promise<CreditMemo[]> {
+    try {
+      const memos = await CreditMemoModel.find({ billingId })
+        .sort({ memoDate: 1, createdAt: 1 })
+        .lean();
+      return memos as CreditMemo[];
+    } catch (error) {
+      console.error('Error finding credit memos:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the storage key of the credit memo PDF
+   * @param _id - Credit memo ID
+   * @param pdfStorageKey - Key from PdfStorageService
+   * @returns Updated credit memo
+   */
+  static async setPdfKey(_id: string, pdfStorageKey: string): Promise<CreditMemo | null> {
+    try {
+      const memo = await CreditMemoModel.findByIdAndUpdate(
+        _id,
+        { $set: { pdfStorageKey } },
+        { new: true }
+      ).lean();
+      return memo as CreditMemo | null;
+    } catch (error) {
+      console.error('Error updating credit memo:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Delivery Receipt Service
+ * Database operations for delivery receipts and their link to billings
+ */
+
+import { DeliveryReceipt, DeliveryReceiptModel } from '../models/DeliveryReceipt.model.js';
+import { SequenceService } from './sequence.service.js';
+
+/**
+ * Delivery Receipt Service Class
+ * Handles all database operations for delivery receipts
+ */
+export class DeliveryReceiptService {
+  /**
+   * Issue a delivery receipt number and save the receipt
+   * @param receiptData - Receipt without number or status
+   * @returns Created delivery receipt with _id
+   */
+  static async create(
+    receiptData: Omit<DeliveryReceipt, '_id' | 'drNumber' | 'status' | 'billingId' | 'billingNumber' | 'pdfStorageKey' | 'createdAt' | 'updatedAt'>
+  ): Promise<DeliveryReceipt> {
+    const drNumber = await SequenceService.next(SequenceService.DELIVERY_RECEIPT_PREFIX, receiptData.deliveryDate);
+
+    try {
+      const savedReceipt = await new DeliveryReceiptModel({
+        ...receiptData,
+        drNumber,
+        status: 'Open'
+      }).save();
+      return savedReceipt.toObject() as DeliveryReceipt;
+    } catch (error: any) {
+      await SequenceService.release(drNumber);
+      if (error.code === 11000) {
+        throw new Error('A delivery receipt with this number already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a delivery receipt by ID or DR number
+   * @param id - MongoDB ID or DR number
+   * @returns Delivery receipt or null
+   */
+  static async findByIdOrNumber(id: string): Promise<DeliveryReceipt | null> {
+    try {
+      const filter = /^[0-9a-fA-F]{24}$/.test(id) ? { _id: id } : { drNumber: id };
+      const receipt = await DeliveryReceiptModel.findOne(filter).lean();
+      return receipt as DeliveryReceipt | null;
+    } catch (error) {
+      console.error('Error finding delivery receipt:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find several delivery receipts by ID
+   * @param ids - Delivery receipt IDs
+   * @returns Receipts found, oldest delivery first
+   */
+  static async findByIds(ids: string[]): Promise<DeliveryReceipt[]> {
+    try {
+      const receipts = await DeliveryReceiptModel.find({ _id: { $in: ids } })
+        .sort({ deliveryDate: 1, drNumber: 1 })
+        .lean();
+      return receipts as DeliveryReceipt[];
+    } catch (error) {
+      console.error('Error finding delivery receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find delivery receipts matching a filter
+   * @param filter - MongoDB filter
+   * @returns Receipts, newest first
+   */
+  static async findAll(filter: Record<string, unknown> = {}): Promise<DeliveryReceipt[]> {
+    try {
+      const receipts = await DeliveryReceiptModel.find(filter)
+        .sort({ deliveryDate: -1, drNumber: -1 })
+        .lean();
+      return receipts as DeliveryReceipt[];
+    } catch (error) {
+      console.error('Error finding delivery receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find a client's open delivery receipts delivered within a date range
+   * @param clientId - Client master record ID
+   * @param from - First delivery date (inclusive)
+   * @param to - Last delivery date (inclusive, through the end of the day)
+   * @param createdBy - Only receipts issued by this user (omit for admins)
+   * @returns Receipts, oldest delivery first
+   */
+  static async findUnbilled(clientId: string, from: Date, to: Date, createdBy?: string): Promise<DeliveryReceipt[]> {
+    const end = new Date(to);
+    end.setHours(23, 59, 59, 999);
+
+    const filter: Record<string, unknown> = {
+      clientId,
+      status: 'Open',
+      deliveryDate: { $gte: from, $lte: end }
+    };
+    if (createdBy) {
+      filter.createdBy = createdBy;
+    }
+
+    try {
+      const receipts = await DeliveryReceiptModel.find(filter)
+        .sort({ deliveryDate: 1, drNumber: 1 })
+        .lean();
+      return receipts as DeliveryReceipt[];
+    } catch (error) {
+      console.error('Error finding unbilled delivery receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update an open delivery receipt
+   * Billed receipts are left untouched.
+   * @param _id - Delivery receipt ID
+   * @param updates - Fields to update
+   * @returns Updated delivery receipt, or null if it is missing or already billed
+   */
+  static async update(_id: string, updates: Partial<DeliveryReceipt>): Promise<DeliveryReceipt | null> {
+    const updatedReceipt = await DeliveryReceiptModel.findOneAndUpdate(
+      { _id, status: 'Open' },
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).lean();
+    return updatedReceipt as DeliveryReceipt | null;
+  }
+
+  /**
+   * Record the storage key of the delivery receipt PDF
+   * @param _id - Delivery receipt ID
+   * @param pdfStorageKey - Key from PdfStorageService
+   * @returns Updated delivery receipt
+   */
+  static async setPdfKey(_id: string, pdfStorageKey: string): Promise<DeliveryReceipt | null> {
+    try {
+      const receipt = await DeliveryReceiptModel.findByIdAndUpdate(
+        _id,
+        { $set: { pdfStorageKey } },
+        { new: true }
+      ).lean();
+      return receipt as DeliveryReceipt | null;
+    } catch (error) {
+      console.error('Error updating delivery receipt:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark open delivery receipts as billed on a billing number
+   * The status check makes this safe against two billings claiming the same
+   * receipt at once: if any receipt was already billed, nothing is claimed.
+   * @param ids - Delivery receipt IDs
+   * @param billingNumber - Billing the receipts are billed on
+   * @returns True if every receipt was claimed
+   */
+  static async claimForBilling(ids: string[], billingNumber: string): Promise<boolean> {
+    const result = await DeliveryReceiptModel.updateMany(
+      { _id: { $in: ids }, status: 'Open' },
+      { $set: { status: 'Billed', billingNumber } }
+    );
+
+    if (result.modifiedCount !== ids.length) {
+      await DeliveryReceiptModel.updateMany(
+        { _id: { $in: ids }, status: 'Billed', billingNumber },
+        { $set: { status: 'Open' }, $unset: { billingNumber: 1, billingId: 1 } }
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Link claimed delivery receipts to the saved billing
+   * @param billingNumber - Billing number the receipts were claimed for
+   * @param billingId - Saved billing ID
+   */
+  static async linkBilling(billingNumber: string, billingId: string): Promise<void> {
+    await DeliveryReceiptModel.updateMany(
+      { billingNumber },
+      { $set: { billingId } }
+    );
+  }
+
+  /**
+   * Return a billing's delivery receipts to Open so they can be billed again
+   * Used when the billing fails to save or is voided.
+   * @param billingNumber - Billing the receipts were billed on
+   */
+  static async releaseFromBilling(billingNumber: string): Promise<void> {
+    try {
+      await DeliveryReceiptModel.updateMany(
+        { billingNumber },
+        { $set: { status: 'Open' }, $unset: { billingNumber: 1, billingId: 1 } }
+      );
+    } catch (error) {
+      console.error('Error releasing delivery receipts:', error);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Email Outbox Service
+ * Database operations for queued emails
+ */
+
+import { EmailJob, EmailJobModel } from '../models/EmailJob.model.js';
+import { Billing } from '../../types/billing.types.js';
+import { BillingService } from './billing.service.js';
+import { emailConfig } from '../../config/index.js';
+
+/** A job still marked Sending after this long is assumed to have crashed */
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * Email Outbox Service Class
+ * Handles all database operations for the email outbox
+ */
+export class EmailOutboxService {
+  /**
+   * Delay before the next attempt
+   * Doubles after every failed attempt: 1, 2, 4, 8... times the base delay.
+   * @param attempts - Attempts made so far
+   */
+  static getRetryDelay(attempts: number): number {
+    return emailConfig.retryBaseMs * Math.pow(2, Math.max(attempts - 1, 0));
+  }
+
+  /**
+   * Queue a billing invoice email
+   * An invoice already queued for the same recipient is not queued twice.
+   * @param billing - Billing to email
+   * @param recipientEmail - Recipient email address
+   * @param actorId - User sending the email (recorded in the audit log)
+   * @returns The queued job
+   */
+  static async enqueueBillingInvoice(billing: Billing, recipientEmail: string, actorId?: string): Promise<EmailJob> {
+    const openJob = {
+      billingId: billing._id,
+      recipientEmail: recipientEmail.trim().toLowerCase(),
+      status: { $in: ['Pending', 'Sending'] }
+    };
+    const existingJob = await EmailJobModel.findOne(openJob).lean();
+    if (existingJob) {
+      return existingJob as EmailJob;
+    }
+
+    let savedJob;
+    try {
+      savedJob = await new EmailJobModel({
+        billingId: billing._id,
+        billingNumber: billing.billingNumber,
+        recipientEmail,
+        status: 'Pending',
+        maxAttempts: emailConfig.maxAttempts,
+        nextAttemptAt: new Date(),
+        createdBy: actorId
+      }).save();
+    } catch (error: any) {
+      // Another request queued the same email in the meantime (unique open-job index)
+      if (error.code === 11000) {
+        const queuedJob = await EmailJobModel.findOne(openJob).lean();
+        if (queuedJob) {
+          return queuedJob as EmailJob;
+        }
+      }
+      throw error;
+    }
+
+    await BillingService.update(billing._id!, { emailStatus: 'Pending' }, { actorId, action: 'email' });
+
+    return savedJob.toObject() as EmailJob;
+  }
+
+  /**
+   * Find an email job by ID
+   * @param _id - Job ID
+   * @returns Job or null
+   */
+  static async findById(_id: string): Promise<EmailJob | null> {
+    try {
+      if (!/^[0-9a-fA-F]{24}$/.test(_id)) return null;
+      const job = await EmailJobModel.findById(_id).lean();
+      return job as EmailJob | null;
+    } catch (error) {
+      console.error('Error finding email job by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Email jobs of a billing
+   * @param billingId - Billing ID
+   * @param limit - Most recent jobs to return
+   * @returns Jobs, newest first
+   */
+  static async findByBilling(billingId: string, limit = 20): Promise<EmailJob[]> {
+    try {
+      const jobs = await EmailJobModel.find({ billingId })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+      return jobs as EmailJob[];
+    } catch (error) {
+      console.error('Error finding email jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Claim the next job that is due for an attempt
+   * A job left Sending by a crash is claimed again once it is stale.
+   * @param now - Current time
+   * @returns The claimed job, or null if nothing is due
+   */
+  static async claimNext(now: Date = new Date()): Promise<EmailJob | null> {
+    const job = await EmailJobModel.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'Pending', nextAttemptAt: { $lte: now } },
+          { status: 'Sending', lockedAt: { $lt: new Date(now.getTime() - STALE_JOB_MS) } }
+        ]
+      },
+      { $set: { status: 'Sending', lockedAt: now }, $inc: { attempts: 1 } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    ).lean();
+    return job as EmailJob | null;
+  }
+
+  /**
+   * Record a delivered job
+   * @param job - Claimed job
+   */
+  static async markSent(job: EmailJob): Promise<void> {
+    await EmailJobModel.updateOne(
+      { _id: job._id },
+      { $set: { status: 'Sent', sentAt: new Date() }, $unset: { lockedAt: 1 } }
+    );
+  }
+
+  /**
+   * Record a failed attempt
+   * The job goes back to Pending with a backoff delay, or becomes Failed and
+   * marks the billing's email as failed once it has no attempts left.
+   * @param job - Claimed job
+   * @param error - Why the attempt failed
+   * @param retry - false to fail the job now whatever attempts are left
+   * @returns Updated job
+   */
+  static async markFailed(job: EmailJob, error: string, retry = true): Promise<EmailJob | null> {
+    const isFinal = !retry || job.attempts >= job.maxAttempts;
+
+    const updatedJob = await EmailJobModel.findByIdAndUpdate(
+      job._id,
+      {
+        $set: {
+          status: isFinal ? 'Failed' : 'Pending',
+          lastError: error,
+          nextAttemptAt: new Date(Date.now() + (isFinal ? 0 : this.getRetryDelay(job.attempts)))
+        },
+        $unset: { lockedAt: 1 }
+      },
+      { new: true }
+    ).lean();
+
+    if (isFinal) {
+      await BillingService.update(String(job.billingId), { emailStatus: 'Failed' }, {
+        actorId: job.createdBy ? String(job.createdBy) : undefined,
+        action: 'email'
+      });
+    }
+
+    return updatedJob as EmailJob | null;
+  }
+}
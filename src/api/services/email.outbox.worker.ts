@@ -0,0 +1,113 @@
+/**
+ * Email Outbox Worker
+ * Delivers queued emails from inside the API process
+ */
+
+import { EmailJob } from '../models/EmailJob.model.js';
+import { EmailOutboxService } from './email.outbox.service.js';
+import { EmailService } from './email.service.js';
+import { BillingService } from './billing.service.js';
+
+/**
+ * Email Outbox Worker Class
+ * Checks the outbox on an interval and right after an email is queued. Each
+ * due job gets one attempt per pass; failed attempts are retried with
+ * exponential backoff until the job runs out of attempts.
+ */
+export class EmailOutboxWorker {
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+  private static passRequested = false;
+
+  /**
+   * Start checking the outbox
+   * Runs a pass immediately, then every intervalMs.
+   * @param intervalMs - Time between passes
+   */
+  static start(intervalMs: number): void {
+    if (this.timer) return;
+
+    console.log(`[Outbox] Worker started (every ${Math.round(intervalMs / 1000)} s)`);
+    this.timer = setInterval(() => this.processDue(), intervalMs);
+    this.processDue();
+  }
+
+  /**
+   * Stop the worker
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver newly queued emails without waiting for the next interval
+   * Does not wait for delivery.
+   */
+  static trigger(): void {
+    this.processDue();
+  }
+
+  /**
+   * Attempt every job that is due
+   * A pass requested while one is running runs again once it finishes.
+   * @returns Number of emails sent
+   */
+  static async processDue(): Promise<number> {
+    if (this.isRunning) {
+      this.passRequested = true;
+      return 0;
+    }
+    this.isRunning = true;
+
+    let sent = 0;
+    try {
+      do {
+        this.passRequested = false;
+        const passStartedAt = new Date();
+        let job: EmailJob | null;
+        // Jobs retried during this pass are due later than its start, so each gets one attempt
+        while ((job = await EmailOutboxService.claimNext(passStartedAt))) {
+          if (await this.deliver(job)) sent++;
+        }
+      } while (this.passRequested);
+    } catch (error) {
+      console.error('[Outbox] Worker pass failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Make one attempt at a claimed job
+   * @param job - Claimed job
+   * @returns Whether the email was sent
+   */
+  private static async deliver(job: EmailJob): Promise<boolean> {
+    try {
+      const billing = await BillingService.findById(String(job.billingId));
+
+      if (!billing || billing.status === 'Void') {
+        await EmailOutboxService.markFailed(job, !billing ? 'Billing no longer exists' : 'Billing was voided', false);
+        return false;
+      }
+
+      await EmailService.sendBillingInvoice(billing, job.recipientEmail, job.createdBy ? String(job.createdBy) : undefined);
+      await EmailOutboxService.markSent(job);
+      console.log(`[Outbox] ${job.billingNumber}: sent to ${job.recipientEmail} (attempt ${job.attempts})`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown email error';
+      const updatedJob = await EmailOutboxService.markFailed(job, message);
+      console.error(
+        `[Outbox] ${job.billingNumber}: attempt ${job.attempts} of ${job.maxAttempts} failed: ${message}` +
+        (updatedJob?.status === 'Pending' ? `; retrying at ${updatedJob.nextAttemptAt.toISOString()}` : '')
+      );
+      return false;
+    }
+  }
+}
@@ -1,9 +1,12 @@
 import nodemailer from 'nodemailer';
 import SMTPTransport from 'nodemailer/lib/smtp-transport';
-import fs from 'fs';
 import path from 'path';
 import { Billing } from '../../types/billing.types';
 import { BillingService } from './billing.service';
+import { StatementOfAccount } from './statement.service.js';
+import { EmailTemplateService, COMPANY_LOGO_CID } from './email.template.service.js';
+import { CompanySettingsService } from './company.settings.service.js';
+import { PdfStorageService } from './pdf.storage.service.js';
 import { emailConfig } from '../../config';
 
 interface EmailConfig {
@@ -16,11 +19,21 @@ interface EmailConfig {
   };
 }
 
+interface InlineAttachment {
+  filename: string;
+  path: string;
+  cid: string;
+  contentType?: string;
+}
+
 interface EmailOptions {
   to: string;
   subject: string;
   body: string;
-  attachmentPath: string;
+  /** PDF contents */
+  attachment: Buffer;
+  /** File name shown to the recipient */
+  attachmentName: string;
   billingNumber?: string;
 }
 
@@ -57,6 +70,27 @@ export class EmailService {
     return this.transporter;
   }
 
+  /**
+   * Sender and inline logo of an email
+   * The From name is SMTP_FROM_NAME when set, else the company name from the
+   * settings. The logo is attached only when the body refers to it.
+   * @param html - Email body
+   */
+  private static async getSender(html: string): Promise<{ name: string; from: string; inlineAttachments: InlineAttachment[] }> {
+    const company = await CompanySettingsService.get();
+    const logoPath = CompanySettingsService.getLogoPath(company);
+    const inlineAttachments = logoPath && html.includes(`cid:${COMPANY_LOGO_CID}`)
+      ? [{ filename: path.basename(logoPath), path: logoPath, cid: COMPANY_LOGO_CID, contentType: company.logoMimeType }]
+      : [];
+
+    const name = emailConfig.fromName || company.companyName;
+    return {
+      name,
+      from: `"${name}" <${emailConfig.user}>`,
+      inlineAttachments
+    };
+  }
+
   /**
    * Send email with PDF attachment
    * @param options - Email options
@@ -66,23 +100,20 @@ export class EmailService {
     try {
       const transporter = this.getTransporter();
 
-      // Verify attachment file exists
-      if (!fs.existsSync(options.attachmentPath)) {
-        throw new Error(`Attachment file not found: ${options.attachmentPath}`);
-      }
-
       // Prepare email
+      const { from, inlineAttachments } = await this.getSender(options.body);
       const mailOptions = {
-        from: `"${emailConfig.fromName}" <${emailConfig.user}>`,
+        from,
         to: options.to,
         subject: options.subject,
         html: options.body, // Body is already formatted HTML
         attachments: [
           {
-            filename: path.basename(options.attachmentPath),
-            path: options.attachmentPath,
+            filename: options.attachmentName,
+            content: options.attachment,
             contentType: 'application/pdf'
-          }
+          },
+          ...inlineAttachments
         ]
       };
 
@@ -100,199 +131,117 @@ export class EmailService {
 
   /**
    * Send billing invoice email
+   * Called by the outbox worker; use EmailOutboxService.enqueueBillingInvoice
+   * to email an invoice. Marks the billing as emailed on success. Failures are
+   * thrown and recorded by the outbox, which decides whether to retry.
    * @param billing - Billing data
    * @param recipientEmail - Recipient email address
+   * @param actorId - User sending the email (recorded in the audit log)
    * @returns Promise<void>
    */
   static async sendBillingInvoice(
     billing: Billing,
-    recipientEmail?: string
+    recipientEmail?: string,
+    actorId?: string
   ): Promise<void> {
-    try {
-      // Use provided email or billing contact email
-      const toEmail = recipientEmail || this.extractEmailFromContact(billing);
+    // Use provided email or billing contact email
+    const toEmail = recipientEmail || this.extractEmailFromContact(billing);
 
-      if (!toEmail) {
-        throw new Error('No recipient email address provided or found in billing data');
-      }
+    if (!toEmail) {
+      throw new Error('No recipient email address provided or found in billing data');
+    }
 
-      // Verify PDF exists
-      if (!billing.generatedFilePath) {
-        throw new Error('Billing PDF has not been generated yet');
-      }
+    const attachment = await this.readBillingPdf(billing);
 
-      if (!fs.existsSync(billing.generatedFilePath)) {
-        throw new Error('Billing PDF file not found');
-      }
+    // Prepare email content from the invoice template (client override, company template or default)
+    const { subject, body } = await EmailTemplateService.renderForBilling('Invoice', billing);
 
-      // Update email status to pending
-      await BillingService.update(billing._id!, {
-        emailStatus: 'Pending'
-      });
+    // Send email
+    const emailOptions: EmailOptions = {
+      to: toEmail,
+      subject,
+      body,
+      attachment,
+      attachmentName: `${billing.billingNumber}.pdf`,
+      billingNumber: billing.billingNumber
+    };
 
-      // Prepare email content
-      const subject = `Invoice ${billing.billingNumber} - ${billing.companyName}`;
-      const body = this.generateBillingEmailBody(billing);
+    await this.sendEmail(emailOptions);
 
-      // Send email
-      const emailOptions: EmailOptions = {
-        to: toEmail,
-        subject,
-        body,
-        attachmentPath: billing.generatedFilePath,
-        billingNumber: billing.billingNumber
-      };
+    // Update billing record with email status
+    await BillingService.update(billing._id!, {
+      emailStatus: 'Sent',
+      emailSentTo: toEmail,
+      emailSentAt: new Date(),
+      status: 'Emailed'
+    }, { actorId, action: 'email' });
 
-      await this.sendEmail(emailOptions);
+    console.log(`Billing invoice sent successfully to ${toEmail}`);
+  }
 
-      // Update billing record with email status
-      await BillingService.update(billing._id!, {
-        emailStatus: 'Sent',
-        emailSentTo: toEmail,
-        emailSentAt: new Date(),
-        status: 'Emailed'
-      });
+  /**
+   * Send a payment reminder with the invoice re-attached
+   * Called by the payment reminder scheduler, which logs the result on the
+   * billing. Failures are thrown.
+   * @param billing - Billing data
+   * @param recipientEmail - Recipient email address
+   * @returns Promise<void>
+   */
+  static async sendBillingReminder(billing: Billing, recipientEmail: string): Promise<void> {
+    const attachment = await this.readBillingPdf(billing);
+    const { subject, body } = await EmailTemplateService.renderForBilling('Reminder', billing);
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      body,
+      attachment,
+      attachmentName: `${billing.billingNumber}.pdf`,
+      billingNumber: billing.billingNumber
+    });
 
-      console.log(`Billing invoice sent successfully to ${toEmail}`);
+    console.log(`Payment reminder for ${billing.billingNumber} sent successfully to ${recipientEmail}`);
+  }
 
-    } catch (error) {
-      console.error('Error sending billing invoice:', error);
-
-      // Update email status to failed
-      try {
-        await BillingService.update(billing._id!, {
-          emailStatus: 'Failed'
-        });
-      } catch (updateError) {
-        console.error('Error updating email status to failed:', updateError);
-      }
+  /**
+   * Send a client's Statement of Account
+   * @param statement - Statement data
+   * @param attachment - Generated statement PDF
+   * @param recipientEmail - Recipient email address
+   * @returns Promise<void>
+   */
+  static async sendStatement(
+    statement: StatementOfAccount,
+    attachment: Buffer,
+    recipientEmail: string
+  ): Promise<void> {
+    const { subject, body } = await EmailTemplateService.renderForStatement(statement);
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      body,
+      attachment,
+      attachmentName: `Statement-of-Account-${statement.statementDate.toISOString().split('T')[0]}.pdf`
+    });
 
-      throw error;
-    }
+    console.log(`Statement of account sent successfully to ${recipientEmail}`);
   }
 
   /**
-   * Generate HTML email body for billing invoice
+   * Read a billing's invoice PDF from storage
+   * @throws If the PDF was never generated or is missing from storage
    */
-  private static generateBillingEmailBody(billing: Billing): string {
-    const formattedDate = new Date(billing.billingDate).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  private static async readBillingPdf(billing: Billing): Promise<Buffer> {
+    if (!billing.pdfStorageKey) {
+      throw new Error('Billing PDF has not been generated yet');
+    }
 
-    const formattedAmount = new Intl.NumberFormat('en-PH', {
-      style: 'currency',
-      currency: 'PHP',
-      minimumFractionDigits: 2
-    }).format(billing.grandTotal);
-
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Invoice ${billing.billingNumber}</title>
-      </head>
-      <body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-        <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f9fafb; padding: 20px 15px;">
-          <tr>
-            <td align="center">
-              <table cellpadding="0" cellspacing="0" border="0" width="600" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); overflow: hidden;">
-                
-                <!-- Header -->
-                <tr>
-                  <td style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); padding: 25px 20px; text-align: center;">
-                    <h1 style="margin: 0; color: #ffffff; font-size: 22px; font-weight: 700;">
-                      Sew Cut Wearing Apparel Manufacturing
-                    </h1>
-                    <p style="margin: 5px 0 0 0; color: #dbeafe; font-size: 13px;">Invoice ${billing.billingNumber}</p>
-                  </td>
-                </tr>
-                
-                <!-- Content -->
-                <tr>
-                  <td style="padding: 25px 20px;">
-                    <p style="margin: 0 0 12px 0; font-size: 15px; color: #374151;">
-                      Dear <strong>${billing.attentionPerson}</strong>,
-                    </p>
-                    
-                    <p style="margin: 0 0 18px 0; font-size: 14px; color: #4b5563; line-height: 1.5;">
-                      Thank you for your business. Please find attached your invoice for the services rendered.
-                    </p>
-                    
-                    <!-- Invoice Details Card -->
-                    <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background: #f0f9ff; border-radius: 6px; border: 1px solid #e5e7eb; margin-bottom: 18px;">
-                      <tr>
-                        <td style="padding: 16px;">
-                          <h2 style="margin: 0 0 12px 0; color: #1f2937; font-size: 15px; font-weight: 600; border-bottom: 2px solid #2563eb; padding-bottom: 8px;">
-                            📄 Invoice Details
-                          </h2>
-                          
-                          <table cellpadding="0" cellspacing="0" border="0" width="100%" style="border-collapse: collapse;">
-                            <tr>
-                              <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Invoice Number:</td>
-                              <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">${billing.billingNumber}</td>
-                            </tr>
-                            <tr style="border-top: 1px solid #e5e7eb;">
-                              <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Date:</td>
-                              <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">${formattedDate}</td>
-                            </tr>
-                            <tr style="border-top: 1px solid #e5e7eb;">
-                              <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Company:</td>
-                              <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">${billing.companyName}</td>
-                            </tr>
-                            ${billing.deliveryReceiptNumber ? `
-                            <tr style="border-top: 1px solid #e5e7eb;">
-                              <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">DR No:</td>
-                              <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">${billing.deliveryReceiptNumber}</td>
-                            </tr>
-                            ` : ''}
-                            <tr style="border-top: 2px solid #2563eb;">
-                              <td style="padding: 10px 0 0 0; color: #111827; font-size: 14px; font-weight: 700;">Total Amount:</td>
-                              <td style="padding: 10px 0 0 0; color: #2563eb; font-size: 20px; font-weight: 700; text-align: right;">${formattedAmount}</td>
-                            </tr>
-                          </table>
-                        </td>
-                      </tr>
-                    </table>
-                    
-                    <!-- Payment Terms -->
-                    <div style="padding: 14px; background-color: #fef3c7; border-left: 3px solid #f59e0b; border-radius: 4px; margin-bottom: 15px;">
-                      <p style="margin: 0; color: #92400e; font-size: 13px; line-height: 1.5;">
-                        <strong>⚠️ Payment Terms:</strong> Please make payment within <strong>30 days</strong>. The PDF contains complete details.
-                      </p>
-                    </div>
-                    
-                    <p style="margin: 0; font-size: 13px; color: #6b7280; line-height: 1.5;">
-                      For questions, please contact us at the email below.
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Footer -->
-                <tr>
-                  <td style="background-color: #f9fafb; padding: 18px 20px; border-top: 1px solid #e5e7eb;">
-                    <p style="margin: 0 0 8px 0; color: #111827; font-size: 13px; font-weight: 600;">Best regards,</p>
-                    <p style="margin: 0 0 6px 0; color: #111827; font-size: 14px; font-weight: 700;">Sew Cut Wearing Apparel Manufacturing</p>
-                    <p style="margin: 0; color: #6b7280; font-size: 12px; line-height: 1.6;">
-                      13 Delaware St. Barangay Banaba, San Mateo, Rizal 1850<br>
-                      📧 <a href="mailto:sewcut.garmentsmanufacturing@gmail.com" style="color: #2563eb; text-decoration: none;">sewcut.garmentsmanufacturing@gmail.com</a>
-                    </p>
-                    <p style="margin: 12px 0 0 0; padding-top: 12px; border-top: 1px solid #e5e7eb; font-size: 10px; color: #9ca3af;">
-                      <em>Automated notification from Sewcut Billing System. Do not reply to this email.</em>
-                    </p>
-                  </td>
-                </tr>
-                
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-    `;
+    const pdf = await PdfStorageService.read(billing.pdfStorageKey);
+    if (!pdf) {
+      throw new Error('Billing PDF not found in storage');
+    }
+    return pdf;
   }
 
   private static extractEmailFromContact(billing: Billing): string | null {
@@ -328,9 +277,10 @@ export class EmailService {
   static async sendTestEmail(recipientEmail: string): Promise<void> {
     try {
       const transporter = this.getTransporter();
+      const { name: senderName, from } = await this.getSender('');
 
       const mailOptions = {
-        from: `"${emailConfig.fromName}" <${emailConfig.user}>`,
+        from,
         to: recipientEmail,
         subject: 'Test Email - Sewcut Billing System',
         html: `
@@ -395,7 +345,7 @@ export class EmailService {
                     <tr>
                       <td style="background-color: #f9fafb; padding: 25px 30px; border-top: 1px solid #e5e7eb; text-align: center;">
                         <p style="margin: 0; color: #111827; font-size: 15px; font-weight: 700;">
-                          ${emailConfig.fromName}
+                          ${senderName}
                         </p>
                         <p style="margin: 8px 0 0 0; font-size: 11px; color: #9ca3af;">
                           <em>Automated test from Sewcut Billing System</em>
@@ -0,0 +1,244 @@
+/**
+ * Built-in Email Templates
+ * Used for any template type an admin has not customized
+ */
+
+import { EmailTemplateType } from '../models/EmailTemplate.model.js';
+
+/**
+ * A placeholder available to a template type
+ */
+export interface EmailTemplatePlaceholder {
+  name: string;
+  description: string;
+}
+
+/**
+ * Our own company's details, from the company settings
+ */
+const COMPANY_PLACEHOLDERS: EmailTemplatePlaceholder[] = [
+  { name: 'senderName', description: 'Our company name' },
+  { name: 'senderAddress', description: 'Our address on one line' },
+  { name: 'senderPhone', description: 'Our phone number (may be empty)' },
+  { name: 'senderEmail', description: 'Our email address (may be empty)' },
+  { name: 'senderTin', description: 'Our TIN (may be empty)' },
+  { name: 'bankName', description: 'Bank for payments (may be empty)' },
+  { name: 'bankAccountName', description: 'Bank account name (may be empty)' },
+  { name: 'bankAccountNumber', description: 'Bank account number (may be empty)' },
+  { name: 'footerText', description: 'Footer text (may be empty)' },
+  { name: 'logoUrl', description: 'Image source of our logo (empty if none is uploaded)' }
+];
+
+const BILLING_PLACEHOLDERS: EmailTemplatePlaceholder[] = [
+  { name: 'billingNumber', description: 'Billing number, e.g. SEW-202601-001' },
+  { name: 'billingDate', description: 'Billing date' },
+  { name: 'dueDate', description: 'Due date (empty for COD)' },
+  { name: 'paymentTerms', description: 'Payment terms, e.g. Net 30' },
+  { name: 'grandTotal', description: 'Grand total' },
+  { name: 'balanceDue', description: 'Amount still owed' },
+  { name: 'daysOverdue', description: 'Days past the due date (empty if not overdue)' },
+  { name: 'companyName', description: 'Client company name' },
+  { name: 'attentionPerson', description: 'Client contact person' },
+  { name: 'deliveryReceiptNumber', description: 'DR number (may be empty)' },
+  ...COMPANY_PLACEHOLDERS
+];
+
+/**
+ * Placeholders each template type can use
+ * {{name}} inserts a value; {{#name}}...{{/name}} keeps its content only when
+ * the value is not empty.
+ */
+export const EMAIL_TEMPLATE_PLACEHOLDERS: Record<EmailTemplateType, EmailTemplatePlaceholder[]> = {
+  Invoice: BILLING_PLACEHOLDERS,
+  Reminder: BILLING_PLACEHOLDERS,
+  Statement: [
+    { name: 'companyName', description: 'Client company name' },
+    { name: 'attentionPerson', description: 'Client contact person' },
+    { name: 'statementDate', description: 'Statement date' },
+    { name: 'openBillings', description: 'Number of open billings on the statement' },
+    { name: 'balance', description: 'Total balance due' },
+    ...COMPANY_PLACEHOLDERS
+  ]
+};
+
+/**
+ * Shared layout: a colored header, the content and the company footer
+ * Company details come from the sender* placeholders.
+ */
+const layout = (title: string, heading: string, headerColor: string, content: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f9fafb; padding: 20px 15px;">
+    <tr>
+      <td align="center">
+        <table cellpadding="0" cellspacing="0" border="0" width="600" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); overflow: hidden;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background: ${headerColor}; padding: 25px 20px; text-align: center;">
+              {{#logoUrl}}
+              <img src="{{logoUrl}}" alt="{{senderName}}" height="48" style="display: block; margin: 0 auto 10px auto; max-height: 48px; max-width: 200px; background-color: #ffffff; border-radius: 4px; padding: 4px;">
+              {{/logoUrl}}
+              <h1 style="margin: 0; color: #ffffff; font-size: 22px; font-weight: 700;">
+                {{senderName}}
+              </h1>
+              <p style="margin: 5px 0 0 0; color: #dbeafe; font-size: 13px;">${heading}</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 25px 20px;">
+${content}
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f9fafb; padding: 18px 20px; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0 0 8px 0; color: #111827; font-size: 13px; font-weight: 600;">Best regards,</p>
+              <p style="margin: 0 0 6px 0; color: #111827; font-size: 14px; font-weight: 700;">{{senderName}}</p>
+              <p style="margin: 0; color: #6b7280; font-size: 12px; line-height: 1.6;">
+                {{senderAddress}}
+                {{#senderPhone}}<br>📞 {{senderPhone}}{{/senderPhone}}
+                {{#senderEmail}}<br>📧 <a href="mailto:{{senderEmail}}" style="color: #2563eb; text-decoration: none;">{{senderEmail}}</a>{{/senderEmail}}
+                {{#senderTin}}<br>TIN: {{senderTin}}{{/senderTin}}
+              </p>
+              {{#footerText}}
+              <p style="margin: 12px 0 0 0; padding-top: 12px; border-top: 1px solid #e5e7eb; font-size: 10px; color: #9ca3af;">
+                <em>{{footerText}}</em>
+              </p>
+              {{/footerText}}
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+/**
+ * Invoice details card shared by the invoice and reminder emails
+ */
+const invoiceDetails = (amountLabel: string, amountPlaceholder: string): string => `              <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background: #f0f9ff; border-radius: 6px; border: 1px solid #e5e7eb; margin-bottom: 18px;">
+                <tr>
+                  <td style="padding: 16px;">
+                    <h2 style="margin: 0 0 12px 0; color: #1f2937; font-size: 15px; font-weight: 600; border-bottom: 2px solid #2563eb; padding-bottom: 8px;">
+                      📄 Invoice Details
+                    </h2>
+                    <table cellpadding="0" cellspacing="0" border="0" width="100%" style="border-collapse: collapse;">
+                      <tr>
+                        <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Invoice Number:</td>
+                        <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">{{billingNumber}}</td>
+                      </tr>
+                      <tr style="border-top: 1px solid #e5e7eb;">
+                        <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Date:</td>
+                        <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">{{billingDate}}</td>
+                      </tr>
+                      {{#dueDate}}
+                      <tr style="border-top: 1px solid #e5e7eb;">
+                        <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Due Date:</td>
+                        <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">{{dueDate}}</td>
+                      </tr>
+                      {{/dueDate}}
+                      <tr style="border-top: 1px solid #e5e7eb;">
+                        <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">Company:</td>
+                        <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">{{companyName}}</td>
+                      </tr>
+                      {{#deliveryReceiptNumber}}
+                      <tr style="border-top: 1px solid #e5e7eb;">
+                        <td style="padding: 6px 0; color: #6b7280; font-size: 13px; font-weight: 500;">DR No:</td>
+                        <td style="padding: 6px 0; color: #111827; font-size: 13px; font-weight: 600; text-align: right;">{{deliveryReceiptNumber}}</td>
+                      </tr>
+                      {{/deliveryReceiptNumber}}
+                      <tr style="border-top: 2px solid #2563eb;">
+                        <td style="padding: 10px 0 0 0; color: #111827; font-size: 14px; font-weight: 700;">${amountLabel}:</td>
+                        <td style="padding: 10px 0 0 0; color: #2563eb; font-size: 20px; font-weight: 700; text-align: right;">{{${amountPlaceholder}}}</td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>`;
+
+/**
+ * Bank details for paying an invoice, shown when an account number is set
+ */
+const paymentInstructions = `              {{#bankAccountNumber}}
+              <div style="padding: 14px; background-color: #f9fafb; border: 1px solid #e5e7eb; border-radius: 4px; margin-bottom: 15px;">
+                <p style="margin: 0 0 6px 0; color: #111827; font-size: 13px; font-weight: 600;">Deposit all payments to:</p>
+                <p style="margin: 0; color: #4b5563; font-size: 13px; line-height: 1.6;">
+                  {{#bankName}}Bank: <strong>{{bankName}}</strong><br>{{/bankName}}
+                  {{#bankAccountName}}Account Name: <strong>{{bankAccountName}}</strong><br>{{/bankAccountName}}
+                  Account Number: <strong>{{bankAccountNumber}}</strong>
+                </p>
+              </div>
+              {{/bankAccountNumber}}`;
+
+/**
+ * Default subject and body of each template type
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, { subject: string; body: string }> = {
+  Invoice: {
+    subject: 'Invoice {{billingNumber}} - {{companyName}}',
+    body: layout('Invoice {{billingNumber}}', 'Invoice {{billingNumber}}', 'linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%)', `              <p style="margin: 0 0 12px 0; font-size: 15px; color: #374151;">
+                Dear <strong>{{attentionPerson}}</strong>,
+              </p>
+              <p style="margin: 0 0 18px 0; font-size: 14px; color: #4b5563; line-height: 1.5;">
+                Thank you for your business. Please find attached your invoice for the services rendered.
+              </p>
+${invoiceDetails('Total Amount', 'grandTotal')}
+              <div style="padding: 14px; background-color: #fef3c7; border-left: 3px solid #f59e0b; border-radius: 4px; margin-bottom: 15px;">
+                <p style="margin: 0; color: #92400e; font-size: 13px; line-height: 1.5;">
+                  <strong>⚠️ Payment Terms:</strong> {{paymentTerms}}{{#dueDate}}. Please make payment by <strong>{{dueDate}}</strong>{{/dueDate}}. The PDF contains complete details.
+                </p>
+              </div>
+${paymentInstructions}
+              <p style="margin: 0; font-size: 13px; color: #6b7280; line-height: 1.5;">
+                For questions, please contact us at the email below.
+              </p>`)
+  },
+
+  Reminder: {
+    subject: 'Payment Reminder: Invoice {{billingNumber}} - {{companyName}}',
+    body: layout('Payment Reminder {{billingNumber}}', 'Payment Reminder', 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)', `              <p style="margin: 0 0 12px 0; font-size: 15px; color: #374151;">
+                Dear <strong>{{attentionPerson}}</strong>,
+              </p>
+              <p style="margin: 0 0 18px 0; font-size: 14px; color: #4b5563; line-height: 1.5;">
+                This is a friendly reminder that invoice <strong>{{billingNumber}}</strong> is due on <strong>{{dueDate}}</strong>{{#daysOverdue}} and is now <strong>{{daysOverdue}} day(s) overdue</strong>{{/daysOverdue}}.
+                A copy of the invoice is attached.
+              </p>
+${invoiceDetails('Balance Due', 'balanceDue')}
+${paymentInstructions}
+              <p style="margin: 0; font-size: 13px; color: #6b7280; line-height: 1.5;">
+                If you have already settled this invoice, please disregard this reminder or send us the payment details.
+              </p>`)
+  },
+
+  Statement: {
+    subject: 'Statement of Account - {{companyName}}',
+    body: layout('Statement of Account', 'Statement of Account as of {{statementDate}}', 'linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%)', `              <p style="margin: 0 0 12px 0; font-size: 15px; color: #374151;">
+                Dear <strong>{{attentionPerson}}</strong>,
+              </p>
+              <p style="margin: 0 0 18px 0; font-size: 14px; color: #4b5563; line-height: 1.5;">
+                Please find attached the statement of account for <strong>{{companyName}}</strong>,
+                listing {{openBillings}} open billing(s) and the payments we have received against them.
+              </p>
+              <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background: #f0f9ff; border-radius: 6px; border: 1px solid #e5e7eb; margin-bottom: 18px;">
+                <tr>
+                  <td style="padding: 16px; color: #111827; font-size: 14px; font-weight: 700;">Balance Due:</td>
+                  <td style="padding: 16px; color: #2563eb; font-size: 20px; font-weight: 700; text-align: right;">{{balance}}</td>
+                </tr>
+              </table>
+              <p style="margin: 0; font-size: 13px; color: #6b7280; line-height: 1.5;">
+                If you have already settled any of these billings, please disregard them or send us the payment details.
+              </p>`)
+  }
+};
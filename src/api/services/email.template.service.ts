@@ -0,0 +1,305 @@
+/**
+ * Email Template Service
+ * Stores email templates and renders them with billing and statement data
+ */
+
+import { EmailTemplate, EmailTemplateModel, EmailTemplateType } from '../models/EmailTemplate.model.js';
+import { DEFAULT_EMAIL_TEMPLATES, EMAIL_TEMPLATE_PLACEHOLDERS } from './email.template.defaults.js';
+import { Billing, formatPaymentTerms } from '../../types/billing.types.js';
+import { StatementOfAccount } from './statement.service.js';
+import { CompanySettings } from '../models/CompanySettings.model.js';
+import { CompanySettingsService } from './company.settings.service.js';
+
+/**
+ * Content ID of the logo attached inline to outgoing emails
+ */
+export const COMPANY_LOGO_CID = 'company-logo';
+
+/**
+ * Placeholder values by name
+ */
+export type EmailTemplateValues = Record<string, string>;
+
+/**
+ * A rendered subject and HTML body
+ */
+export interface RenderedEmail {
+  subject: string;
+  body: string;
+}
+
+/**
+ * The template that applies to a type and client, and where it came from
+ */
+export interface ResolvedEmailTemplate extends RenderedEmail {
+  type: EmailTemplateType;
+  source: 'Client' | 'Company' | 'Default';
+}
+
+/**
+ * A stored template as listed for the editor
+ */
+export interface EmailTemplateListItem extends EmailTemplate {
+  clientName?: string;
+}
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+const ANY_TAG = /\{\{([#/]?)(\w+)\}\}/g;
+
+const formatDate = (date: Date | string): string => new Date(date).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+const formatAmount = (amount: number): string => new Intl.NumberFormat('en-PH', {
+  style: 'currency',
+  currency: 'PHP',
+  minimumFractionDigits: 2
+}).format(amount);
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Email Template Service Class
+ */
+export class EmailTemplateService {
+  /**
+   * Fill in a template
+   * {{name}} is replaced with its value; {{#name}}...{{/name}} is kept only
+   * when the value is not empty. Unknown placeholders are left as they are.
+   * @param text - Subject or body template
+   * @param values - Placeholder values
+   * @param html - Escape values for an HTML body
+   */
+  static render(text: string, values: EmailTemplateValues, html = false): string {
+    let result = text;
+    let previous: string;
+    do {
+      previous = result;
+      result = result.replace(SECTION, (_match, name: string, content: string) => values[name] ? content : '');
+    } while (result !== previous);
+
+    return result.replace(PLACEHOLDER, (match, name: string) => {
+      if (!(name in values)) return match;
+      return html ? escapeHtml(values[name]) : values[name];
+    });
+  }
+
+  /**
+   * Check a template for placeholders its type does not provide and for
+   * unclosed sections
+   * @param type - Template type
+   * @param subject - Subject template
+   * @param body - Body template
+   * @returns Validation errors
+   */
+  static validate(type: EmailTemplateType, subject: string, body: string): string[] {
+    const errors: string[] = [];
+    const allowed = new Set(EMAIL_TEMPLATE_PLACEHOLDERS[type].map(placeholder => placeholder.name));
+
+    for (const [field, text] of [['Subject', subject], ['Body', body]] as const) {
+      const openSections: Record<string, number> = {};
+
+      for (const [, kind, name] of text.matchAll(ANY_TAG)) {
+        if (!allowed.has(name)) {
+          errors.push(`${field}: unknown placeholder {{${kind}${name}}}`);
+          continue;
+        }
+        if (kind === '#') openSections[name] = (openSections[name] || 0) + 1;
+        if (kind === '/') openSections[name] = (openSections[name] || 0) - 1;
+      }
+
+      Object.entries(openSections)
+        .filter(([, count]) => count !== 0)
+        .forEach(([name]) => errors.push(`${field}: {{#${name}}} and {{/${name}}} must be paired`));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Placeholder values of our own company, shared by every template type
+   * @param company - Company settings
+   * @param logoUrl - Image source for the logo; emails use the inline attachment
+   */
+  static getCompanyValues(company: CompanySettings, logoUrl = `cid:${COMPANY_LOGO_CID}`): EmailTemplateValues {
+    return {
+      senderName: company.companyName,
+      senderAddress: company.address.split('\n').map(line => line.trim()).filter(Boolean).join(', '),
+      senderPhone: company.phone || '',
+      senderEmail: company.email || '',
+      senderTin: company.tin || '',
+      bankName: company.bankName || '',
+      bankAccountName: company.bankAccountName || '',
+      bankAccountNumber: company.bankAccountNumber || '',
+      footerText: company.footerText || '',
+      logoUrl: CompanySettingsService.getLogoPath(company) ? logoUrl : ''
+    };
+  }
+
+  /**
+   * Placeholder values of a billing, for invoices and reminders
+   * @param billing - Billing data
+   * @param now - Date daysOverdue is counted to
+   */
+  static getBillingValues(billing: Billing, now: Date = new Date()): EmailTemplateValues {
+    const daysOverdue = billing.dueDate
+      ? Math.floor((now.getTime() - new Date(billing.dueDate).getTime()) / (24 * 60 * 60 * 1000))
+      : 0;
+
+    return {
+      billingNumber: billing.billingNumber,
+      billingDate: formatDate(billing.billingDate),
+      dueDate: billing.dueDate ? formatDate(billing.dueDate) : '',
+      paymentTerms: formatPaymentTerms(billing.paymentTerms || 'COD', billing.customTermDays),
+      grandTotal: formatAmount(billing.grandTotal),
+      balanceDue: formatAmount(billing.balanceDue ?? billing.grandTotal),
+      daysOverdue: daysOverdue > 0 ? String(daysOverdue) : '',
+      companyName: billing.companyName,
+      attentionPerson: billing.attentionPerson || '',
+      deliveryReceiptNumber: billing.deliveryReceiptNumber || ''
+    };
+  }
+
+  /**
+   * Placeholder values of a Statement of Account
+   * @param statement - Statement data
+   */
+  static getStatementValues(statement: StatementOfAccount): EmailTemplateValues {
+    return {
+      companyName: statement.client.companyName,
+      attentionPerson: statement.client.attentionPerson || '',
+      statementDate: formatDate(statement.statementDate),
+      openBillings: String(statement.lines.length),
+      balance: formatAmount(statement.totals.balance)
+    };
+  }
+
+  /**
+   * Find the template that applies to a type and client
+   * The client's override wins over the company-wide template, which wins
+   * over the built-in default.
+   * @param type - Template type
+   * @param clientId - Client being emailed
+   */
+  static async resolve(type: EmailTemplateType, clientId?: string | null): Promise<ResolvedEmailTemplate> {
+    try {
+      const candidates = await EmailTemplateModel.find({
+        type,
+        clientId: { $in: clientId && /^[0-9a-fA-F]{24}$/.test(clientId) ? [clientId, null] : [null] }
+      }).lean();
+
+      const clientTemplate = candidates.find(template => template.clientId);
+      const companyTemplate = candidates.find(template => !template.clientId);
+      const template = clientTemplate || companyTemplate;
+
+      if (template) {
+        return {
+          type,
+          subject: template.subject,
+          body: template.body,
+          source: clientTemplate ? 'Client' : 'Company'
+        };
+      }
+    } catch (error) {
+      console.error('Error loading email template, using the default:', error);
+    }
+
+    return { type, ...DEFAULT_EMAIL_TEMPLATES[type], source: 'Default' };
+  }
+
+  /**
+   * Render a template with placeholder values
+   * @param template - Subject and body templates
+   * @param values - Placeholder values
+   */
+  static renderEmail(template: RenderedEmail, values: EmailTemplateValues): RenderedEmail {
+    return {
+      subject: this.render(template.subject, values),
+      body: this.render(template.body, values, true)
+    };
+  }
+
+  /**
+   * Render the invoice or reminder email of a billing
+   * @param type - Invoice or Reminder
+   * @param billing - Billing data
+   */
+  static async renderForBilling(type: 'Invoice' | 'Reminder', billing: Billing): Promise<RenderedEmail> {
+    const template = await this.resolve(type, billing.clientId ? String(billing.clientId) : null);
+    const company = await CompanySettingsService.get();
+    return this.renderEmail(template, { ...this.getCompanyValues(company), ...this.getBillingValues(billing) });
+  }
+
+  /**
+   * Render the email sent with a Statement of Account
+   * @param statement - Statement data
+   */
+  static async renderForStatement(statement: StatementOfAccount): Promise<RenderedEmail> {
+    const template = await this.resolve('Statement', statement.client._id ? String(statement.client._id) : null);
+    const company = await CompanySettingsService.get();
+    return this.renderEmail(template, { ...this.getCompanyValues(company), ...this.getStatementValues(statement) });
+  }
+
+  /**
+   * Find stored templates
+   * @param filter - MongoDB filter
+   * @returns Templates by type, company-wide first, with the client name of overrides
+   */
+  static async findAll(filter: Record<string, unknown> = {}): Promise<EmailTemplateListItem[]> {
+    try {
+      const templates = await EmailTemplateModel.find(filter)
+        .sort({ type: 1, clientId: 1 })
+        .populate<{ clientId: { _id: string; companyName: string } | null }>('clientId', 'companyName')
+        .lean();
+      return templates.map(template => ({
+        ...template,
+        clientId: template.clientId ? String(template.clientId._id) : null,
+        clientName: template.clientId?.companyName
+      })) as EmailTemplateListItem[];
+    } catch (error) {
+      console.error('Error finding email templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or replace a stored template
+   * @param type - Template type
+   * @param clientId - Client to override for, or null for the company-wide template
+   * @param content - Subject and body templates
+   * @param updatedBy - Admin saving the template
+   * @returns Saved template
+   */
+  static async save(
+    type: EmailTemplateType,
+    clientId: string | null,
+    content: RenderedEmail,
+    updatedBy?: string
+  ): Promise<EmailTemplate> {
+    const savedTemplate = await EmailTemplateModel.findOneAndUpdate(
+      { type, clientId },
+      { $set: { subject: content.subject, body: content.body, updatedBy } },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    ).lean();
+    return savedTemplate as EmailTemplate;
+  }
+
+  /**
+   * Delete a stored template, falling back to the company-wide or default one
+   * @param type - Template type
+   * @param clientId - Client override to delete, or null for the company-wide template
+   * @returns Deleted template, or null if none was stored
+   */
+  static async delete(type: EmailTemplateType, clientId: string | null): Promise<EmailTemplate | null> {
+    const deletedTemplate = await EmailTemplateModel.findOneAndDelete({ type, clientId }).lean();
+    return deletedTemplate as EmailTemplate | null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Payment Reminder Scheduler
+ * Emails due payment reminders from inside the API process
+ */
+
+import { EmailService } from './email.service.js';
+import { PaymentReminderService, ResolvedReminderPolicy } from './payment.reminder.service.js';
+
+/**
+ * Payment Reminder Scheduler Class
+ * Checks open billings on an interval and emails the reminder each one is
+ * owed under its client's policy, with the invoice re-attached. Every
+ * attempt is logged on the billing; failed ones are retried on later passes.
+ */
+export class PaymentReminderScheduler {
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  /**
+   * Start checking for due reminders
+   * Runs a pass immediately, then every intervalMs.
+   * @param intervalMs - Time between passes
+   */
+  static start(intervalMs: number): void {
+    if (this.timer) return;
+
+    console.log(`[Reminders] Scheduler started (every ${Math.round(intervalMs / 60000)} min)`);
+    this.timer = setInterval(() => this.runDue(), intervalMs);
+    this.runDue();
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send every reminder that has come due
+   * Overlapping passes are skipped.
+   * @param now - Current time
+   * @returns Number of reminders sent
+   */
+  static async runDue(now: Date = new Date()): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    let sent = 0;
+    try {
+      const billings = await PaymentReminderService.findCandidates(now);
+      const policies = new Map<string, ResolvedReminderPolicy>();
+
+      for (const billing of billings) {
+        const clientKey = billing.clientId ? String(billing.clientId) : '';
+        if (!policies.has(clientKey)) {
+          policies.set(clientKey, await PaymentReminderService.resolvePolicy(clientKey || null));
+        }
+        const { policy } = policies.get(clientKey)!;
+
+        if (PaymentReminderService.getSkipReason(billing, policy)) continue;
+
+        const offsetDays = PaymentReminderService.getDueOffset(billing, policy, now);
+        if (offsetDays === null) continue;
+
+        const recipientEmail = PaymentReminderService.getRecipient(billing)!;
+        try {
+          await EmailService.sendBillingReminder(billing, recipientEmail);
+          await PaymentReminderService.recordReminder(billing, {
+            offsetDays,
+            recipientEmail,
+            status: 'Sent',
+            sentAt: new Date()
+          });
+          sent++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          await PaymentReminderService.recordReminder(billing, {
+            offsetDays,
+            recipientEmail,
+            status: 'Failed',
+            error: message,
+            sentAt: new Date()
+          });
+          console.error(`[Reminders] ${billing.billingNumber}: reminder to ${recipientEmail} failed: ${message}`);
+        }
+      }
+    } catch (error) {
+      console.error('[Reminders] Scheduler pass failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    if (sent > 0) {
+      console.log(`[Reminders] Sent ${sent} payment reminder(s)`);
+    }
+    return sent;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Payment Reminder Service
+ * Works out when a billing's payment reminders are due and records the ones sent
+ */
+
+import { BillingModel } from '../models/Billing.model.js';
+import { Client, ClientModel } from '../models/Client.model.js';
+import { Billing, BillingReminder, ReminderPolicy } from '../../types/billing.types.js';
+import { BillingService } from './billing.service.js';
+import { ClientService } from './client.service.js';
+import { AuditService } from './audit.service.js';
+import { emailConfig, reminderConfig } from '../../config/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest lead time a policy may remind before the due date
+ */
+export const MAX_DAYS_BEFORE_DUE = 60;
+
+/**
+ * The policy that applies to a client, and where it came from
+ */
+export interface ResolvedReminderPolicy {
+  policy: ReminderPolicy;
+  source: 'Client' | 'Company';
+}
+
+/**
+ * One reminder of a policy, placed on a billing's calendar
+ */
+export interface ReminderStep {
+  /** Days from the due date (negative before it) */
+  offsetDays: number;
+  date: Date;
+}
+
+/**
+ * Reminder state of a billing as shown on its page
+ */
+export interface BillingReminderStatus extends ResolvedReminderPolicy {
+  paused: boolean;
+  pausedAt?: Date;
+  /** Next reminder the scheduler will send, or null if there is none */
+  nextReminder: ReminderStep | null;
+  /** Why the billing gets no reminders */
+  skipReason?: string;
+  reminders: BillingReminder[];
+}
+
+const startOfDay = (date: Date | string): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Whole calendar days from a billing's due date to a date (negative before it)
+ */
+const daysFromDue = (dueDate: Date | string, date: Date | string): number =>
+  Math.round((startOfDay(date).getTime() - startOfDay(dueDate).getTime()) / DAY_MS);
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Payment Reminder Service Class
+ */
+export class PaymentReminderService {
+  /**
+   * The company-wide policy from configuration
+   */
+  static getCompanyPolicy(): ReminderPolicy {
+    return { ...reminderConfig, daysBeforeDue: [...reminderConfig.daysBeforeDue] };
+  }
+
+  /**
+   * Find the policy that applies to a client
+   * A client's own policy wins over the company-wide one.
+   * @param clientId - Client the billing belongs to
+   */
+  static async resolvePolicy(clientId?: string | null): Promise<ResolvedReminderPolicy> {
+    const client = clientId ? await ClientService.findById(clientId) : null;
+    return client?.reminderPolicy
+      ? { policy: client.reminderPolicy, source: 'Client' }
+      : { policy: this.getCompanyPolicy(), source: 'Company' };
+  }
+
+  /**
+   * Clients with their own reminder policy
+   * @returns Clients by company name
+   */
+  static async findClientPolicies(): Promise<Pick<Client, '_id' | 'companyName' | 'reminderPolicy'>[]> {
+    try {
+      const clients = await ClientModel.find({ reminderPolicy: { $ne: null } })
+        .select('companyName reminderPolicy')
+        .sort({ companyName: 1 })
+        .lean();
+      return clients as Pick<Client, '_id' | 'companyName' | 'reminderPolicy'>[];
+    } catch (error) {
+      console.error('Error finding client reminder policies:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Check a reminder policy sent by a client
+   * @param input - Policy from the request body
+   * @returns The cleaned-up policy, or validation errors
+   */
+  static validatePolicy(input: any): { policy?: ReminderPolicy; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { errors: ['Reminder policy is required'] };
+    }
+    if (typeof input.enabled !== 'boolean') {
+      errors.push('enabled must be true or false');
+    }
+    if (typeof input.onDueDate !== 'boolean') {
+      errors.push('onDueDate must be true or false');
+    }
+    if (!Array.isArray(input.daysBeforeDue) || !input.daysBeforeDue.every((days: unknown) => isWholeNumber(days, 1, MAX_DAYS_BEFORE_DUE))) {
+      errors.push(`daysBeforeDue must be a list of whole numbers from 1 to ${MAX_DAYS_BEFORE_DUE}`);
+    }
+    if (!isWholeNumber(input.repeatEveryDays, 0, 365)) {
+      errors.push('repeatEveryDays must be a whole number from 0 to 365');
+    }
+    if (!isWholeNumber(input.maxOverdueReminders, 0, 100)) {
+      errors.push('maxOverdueReminders must be a whole number from 0 to 100');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      policy: {
+        enabled: input.enabled,
+        daysBeforeDue: [...new Set<number>(input.daysBeforeDue)].sort((a, b) => b - a),
+        onDueDate: input.onDueDate,
+        repeatEveryDays: input.repeatEveryDays,
+        maxOverdueReminders: input.maxOverdueReminders
+      },
+      errors
+    };
+  }
+
+  /**
+   * Reminder offsets of a policy up to a day, in order
+   * @param policy - Reminder policy
+   * @param throughOffset - Last day to include, in days from the due date
+   */
+  static getOffsets(policy: ReminderPolicy, throughOffset: number): number[] {
+    if (!policy.enabled) return [];
+
+    const offsets = new Set(policy.daysBeforeDue.map(days => -days));
+    if (policy.onDueDate) offsets.add(0);
+
+    if (policy.repeatEveryDays > 0) {
+      for (
+        let count = 1;
+        count * policy.repeatEveryDays <= throughOffset && (!policy.maxOverdueReminders || count <= policy.maxOverdueReminders);
+        count++
+      ) {
+        offsets.add(count * policy.repeatEveryDays);
+      }
+    }
+
+    return [...offsets].filter(offset => offset <= throughOffset).sort((a, b) => a - b);
+  }
+
+  /**
+   * Email address reminders for a billing go to
+   * The address the invoice was emailed to, else the billing's client email.
+   */
+  static getRecipient(billing: Billing): string | undefined {
+    return billing.emailSentTo || billing.clientEmail || undefined;
+  }
+
+  /**
+   * Why a billing gets no reminders under a policy
+   * @returns The reason, or undefined if it is eligible
+   */
+  static getSkipReason(billing: Billing, policy: ReminderPolicy): string | undefined {
+    if (billing.status === 'Void') return 'Billing is void';
+    if (billing.status === 'Draft') return 'Billing is a draft';
+    if ((billing.balanceDue ?? 0) <= 0) return 'Billing is fully paid';
+    if (!billing.dueDate) return 'Billing has no due date';
+    if (!this.getRecipient(billing)) return 'Billing has no client email';
+    if (billing.remindersPaused) return 'Reminders are paused';
+    if (!policy.enabled) return 'Reminders are turned off for this client';
+    return undefined;
+  }
+
+  /**
+   * The reminder a billing is owed now, if any
+   * Only the latest step that has come due is sent, so a billing that was
+   * missed for a while gets one reminder rather than a burst. Steps on or
+   * before the billing date are skipped, and a step that keeps failing is
+   * given up after the email attempt limit.
+   * @param billing - Eligible billing
+   * @param policy - Policy that applies to the billing
+   * @param now - Current time
+   * @returns Offset of the step to send, or null
+   */
+  static getDueOffset(billing: Billing, policy: ReminderPolicy, now: Date = new Date()): number | null {
+    const today = daysFromDue(billing.dueDate, now);
+    const firstOffset = daysFromDue(billing.dueDate, billing.billingDate) + 1;
+    const reminders = billing.reminders ?? [];
+    const lastSent = Math.max(-Infinity, ...reminders.filter(reminder => reminder.status === 'Sent').map(reminder => reminder.offsetDays));
+
+    const offset = this.getOffsets(policy, today).filter(candidate => candidate >= firstOffset).pop();
+    if (offset === undefined || offset <= lastSent) return null;
+
+    const failures = reminders.filter(reminder => reminder.offsetDays === offset && reminder.status === 'Failed').length;
+    return failures < emailConfig.maxAttempts ? offset : null;
+  }
+
+  /**
+   * The next reminder of a billing: the one owed now, else the next one coming up
+   */
+  static getNextReminder(billing: Billing, policy: ReminderPolicy, now: Date = new Date()): ReminderStep | null {
+    const toStep = (offsetDays: number): ReminderStep => ({
+      offsetDays,
+      date: new Date(startOfDay(billing.dueDate).getTime() + offsetDays * DAY_MS)
+    });
+
+    const dueOffset = this.getDueOffset(billing, policy, now);
+    if (dueOffset !== null) return toStep(dueOffset);
+
+    const today = daysFromDue(billing.dueDate, now);
+    const firstOffset = daysFromDue(billing.dueDate, billing.billingDate) + 1;
+    const upcoming = this.getOffsets(policy, Math.max(today, 0) + policy.repeatEveryDays)
+      .find(offset => offset > today && offset >= firstOffset);
+    return upcoming === undefined ? null : toStep(upcoming);
+  }
+
+  /**
+   * Reminder state of a billing
+   * @param billing - Billing data
+   * @param now - Current time
+   */
+  static async getStatus(billing: Billing, now: Date = new Date()): Promise<BillingReminderStatus> {
+    const resolved = await this.resolvePolicy(billing.clientId ? String(billing.clientId) : null);
+    const skipReason = this.getSkipReason(billing, resolved.policy);
+
+    return {
+      ...resolved,
+      paused: !!billing.remindersPaused,
+      pausedAt: billing.remindersPaused ? billing.remindersPausedAt : undefined,
+      nextReminder: skipReason ? null : this.getNextReminder(billing, resolved.policy, now),
+      skipReason,
+      reminders: billing.reminders ?? []
+    };
+  }
+
+  /**
+   * Billings that may be owed a reminder
+   * Open, unpaid and not paused, with a due date no further away than the
+   * longest lead time a policy can set.
+   * @param now - Current time
+   */
+  static async findCandidates(now: Date = new Date()): Promise<Billing[]> {
+    try {
+      const billings = await BillingModel.find({
+        status: { $in: ['Generated', 'Emailed'] },
+        balanceDue: { $gt: 0 },
+        remindersPaused: { $ne: true },
+        dueDate: { $lte: new Date(now.getTime() + (MAX_DAYS_BEFORE_DUE + 1) * DAY_MS) }
+      }).sort({ dueDate: 1 }).lean();
+      return billings as Billing[];
+    } catch (error) {
+      console.error('Error finding billings due for reminders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Log a reminder attempt on its billing
+   * Sent reminders are also added to the audit trail.
+   * @param billing - Billing the reminder was for
+   * @param reminder - Attempt to log
+   */
+  static async recordReminder(billing: Billing, reminder: BillingReminder): Promise<void> {
+    const updatedBilling = await BillingModel.findByIdAndUpdate(
+      billing._id,
+      { $push: { reminders: reminder } },
+      { new: true }
+    ).lean();
+
+    if (updatedBilling && reminder.status === 'Sent') {
+      await AuditService.record(
+        updatedBilling as Billing,
+        'reminder',
+        undefined,
+        AuditService.diff({}, { recipientEmail: reminder.recipientEmail, offsetDays: reminder.offsetDays })
+      );
+    }
+  }
+
+  /**
+   * Pause or resume reminders for a billing
+   * @param billing - Billing data
+   * @param paused - Pause (true) or resume (false)
+   * @param actorId - Admin making the change
+   * @returns Updated billing, or null on failure
+   */
+  static async setPaused(billing: Billing, paused: boolean, actorId?: string): Promise<Billing | null> {
+    const updates: Partial<Billing> = { remindersPaused: paused };
+    if (paused) {
+      updates.remindersPausedBy = actorId;
+      updates.remindersPausedAt = new Date();
+    }
+    return BillingService.update(String(billing._id), updates, { actorId });
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Payment Service
+ * Database operations for the billing payment ledger
+ */
+
+import { Billing, calculatePaymentStatus } from '../../types/billing.types.js';
+import { BillingModel } from '../models/Billing.model.js';
+import { Payment, PaymentModel } from '../models/Payment.model.js';
+import { AuditAction } from '../models/AuditLog.model.js';
+import { AuditService } from './audit.service.js';
+
+/**
+ * Change to the paid and credited totals of a billing
+ */
+export interface BalanceChange {
+  amountPaid?: number;
+  amountCredited?: number;
+}
+
+const round2 = (expression: unknown) => ({ $round: [expression, 2] });
+
+/** Billing fields a balance change writes, as shown in the audit trail */
+const BALANCE_FIELDS = ['amountPaid', 'amountCredited', 'balanceDue', 'paymentStatus'];
+
+/** What is left to pay, computed from the stored totals */
+const REMAINING = round2({
+  $subtract: ['$grandTotal', { $add: [{ $ifNull: ['$amountPaid', 0] }, { $ifNull: ['$amountCredited', 0] }] }]
+});
+
+/**
+ * Update pipeline stage deriving balanceDue and paymentStatus from the stored
+ * totals, the same way as calculatePaymentStatus and the billing save hook
+ */
+const BALANCE_STAGE = {
+  $set: {
+    // Nothing is owed on a voided billing
+    balanceDue: { $cond: [{ $eq: ['$status', 'Void'] }, 0, REMAINING] },
+    paymentStatus: {
+      $switch: {
+        branches: [
+          { case: { $lte: [{ $subtract: ['$grandTotal', '$amountCredited'] }, 0] }, then: 'Paid' },
+          { case: { $lte: ['$amountPaid', 0] }, then: 'Unpaid' },
+          { case: { $gte: ['$amountPaid', { $subtract: ['$grandTotal', '$amountCredited'] }] }, then: 'Paid' }
+        ],
+        default: 'Partially Paid'
+      }
+    }
+  }
+};
+
+/**
+ * Payment Service Class
+ * Handles all database operations for payments
+ * Billing totals are changed with single conditional writes, so payments and
+ * credit memos recorded at the same time cannot overpay a billing.
+ */
+export class PaymentService {
+  /**
+   * Record a payment and add it to the billing balance
+   * @param paymentData - Payment data to create
+   * @returns Created payment with _id, or null if the billing is void or the
+   * amount exceeds its balance due
+   */
+  static async create(paymentData: Omit<Payment, '_id'>): Promise<Payment | null> {
+    const billingId = String(paymentData.billingId);
+    const billing = await this.reserve(billingId, { amountPaid: paymentData.amount });
+    if (!billing) {
+      return null;
+    }
+
+    let payment;
+    try {
+      payment = await new PaymentModel(paymentData).save();
+    } catch (error) {
+      await this.release(billingId, { amountPaid: paymentData.amount });
+      throw error;
+    }
+
+    await this.recordBalanceChange(billing, { amountPaid: paymentData.amount }, 'payment', paymentData.recordedBy ? String(paymentData.recordedBy) : undefined);
+    return payment.toObject() as Payment;
+  }
+
+  /**
+   * Find a payment by ID
+   * @param _id - Payment ID
+   * @returns Payment or null
+   */
+  static async findById(_id: string): Promise<Payment | null> {
+    try {
+      const payment = await PaymentModel.findById(_id).lean();
+      return payment as Payment | null;
+    } catch (error) {
+      console.error('Error finding payment by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find all payments for a billing
+   * @param billingId - Billing ID
+   * @returns Payments sorted by payment date (oldest first)
+   */
+  static async findByBilling(billingId: string): Promise<Payment[]> {
+    try {
+      const payments = await PaymentModel.find({ billingId })
+        .sort({ paymentDate: 1, createdAt: 1 })
+        .lean();
+      return payments as Payment[];
+    } catch (error) {
+      console.error('Error finding payments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete a payment and take it off the billing balance
+   * @param _id - Payment ID
+   * @param actorId - User deleting the payment
+   * @returns Deleted payment
+   */
+  static async delete(_id: string, actorId?: string): Promise<Payment | null> {
+    const deletedPayment = await PaymentModel.findByIdAndDelete(_id).lean();
+    if (deletedPayment) {
+      const change = { amountPaid: -deletedPayment.amount };
+      const billing = await this.refreshBalance(String(deletedPayment.billingId), change);
+      if (billing) {
+        await this.recordBalanceChange(billing, change, 'payment-delete', actorId);
+      }
+    }
+    return deletedPayment as Payment | null;
+  }
+
+  /**
+   * Add a change to the billing's totals to its audit trail
+   * The values before are worked back from the billing as written, since the
+   * change was made in a single write.
+   * @param billing - Billing as returned by the write
+   * @param change - Change that was applied
+   */
+  static async recordBalanceChange(billing: Billing, change: BalanceChange, action: AuditAction, actorId?: string): Promise<void> {
+    const round = (amount: number) => Number(amount.toFixed(2));
+    const amountPaid = round((billing.amountPaid ?? 0) - (change.amountPaid ?? 0));
+    const amountCredited = round((billing.amountCredited ?? 0) - (change.amountCredited ?? 0));
+    const before = {
+      amountPaid,
+      amountCredited,
+      balanceDue: billing.status === 'Void' ? 0 : round(billing.grandTotal - amountPaid - amountCredited),
+      paymentStatus: calculatePaymentStatus(billing.grandTotal, amountPaid, amountCredited)
+    };
+
+    await AuditService.record(billing, action, actorId, AuditService.diff(before, billing, BALANCE_FIELDS));
+  }
+
+  /**
+   * Add to the paid or credited total of a billing if its balance due covers it
+   * The check and the write are one operation.
+   * @returns Updated billing, or null if the billing is missing or void or the
+   * amount exceeds its balance due
+   */
+  static async reserve(billingId: string, change: BalanceChange): Promise<Billing | null> {
+    const amount = (change.amountPaid ?? 0) + (change.amountCredited ?? 0);
+
+    const updatedBilling = await BillingModel.findOneAndUpdate(
+      { _id: billingId, status: { $ne: 'Void' }, $expr: { $gte: [REMAINING, amount] } },
+      this.balanceUpdate(change),
+      { new: true }
+    ).lean();
+
+    return updatedBilling as Billing | null;
+  }
+
+  /**
+   * Take an amount off the paid or credited total of a billing
+   * @returns Updated billing or null if it does not exist
+   */
+  static async release(billingId: string, change: BalanceChange): Promise<Billing | null> {
+    return this.refreshBalance(billingId, {
+      amountPaid: -(change.amountPaid ?? 0),
+      amountCredited: -(change.amountCredited ?? 0)
+    });
+  }
+
+  /**
+   * Recalculate balanceDue and paymentStatus from the stored totals (e.g. after
+   * the grand total changed), applying a change to the totals in the same write
+   * @returns Updated billing or null if it does not exist
+   */
+  static async refreshBalance(billingId: string, change: BalanceChange = {}): Promise<Billing | null> {
+    const updatedBilling = await BillingModel.findByIdAndUpdate(
+      billingId,
+      this.balanceUpdate(change),
+      { new: true }
+    ).lean();
+
+    return updatedBilling as Billing | null;
+  }
+
+  /**
+   * Update pipeline adding a change to the totals and deriving the balance
+   */
+  private static balanceUpdate(change: BalanceChange) {
+    return [
+      {
+        $set: {
+          amountPaid: round2({ $add: [{ $ifNull: ['$amountPaid', 0] }, change.amountPaid ?? 0] }),
+          amountCredited: round2({ $add: [{ $ifNull: ['$amountCredited', 0] }, change.amountCredited ?? 0] })
+        }
+      },
+      BALANCE_STAGE
+    ];
+  }
+}
@@ -1,144 +1,788 @@
 /**
  * PDF Generation Service
- * Generates professional billing invoices as PDF documents
+ * Generates professional billing invoices, client statements and delivery receipts as PDF documents
  */
 
 import PDFDocument from 'pdfkit';
-import fs from 'fs';
-import path from 'path';
-import { Billing } from '../../types/billing.types';
-import { storageConfig } from '../../config';
+import { Billing, formatPaymentTerms } from '../../types/billing.types';
+import { StatementOfAccount } from './statement.service.js';
+import { CreditMemo } from '../models/CreditMemo.model.js';
+import { DeliveryReceipt } from '../models/DeliveryReceipt.model.js';
+import { CompanySettings } from '../models/CompanySettings.model.js';
+import { CompanySettingsService } from './company.settings.service.js';
+import { PdfStorageService } from './pdf.storage.service.js';
 
 /**
  * PDF Generation Service Class
  */
 export class PdfGenerationService {
-  // Directory where PDFs will be saved (from config)
-  private static readonly PDF_DIR = storageConfig.pdfOutputDir;
+  /**
+   * Render an A4 document in memory
+   * @param info - Document metadata
+   * @param draw - Adds the content to the document
+   * @returns The finished PDF
+   */
+  private static render(info: PDFKit.DocumentInfo, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        // Pages are kept until the end so stamps can be added to every page
+        const doc = new PDFDocument({ size: 'A4', margin: 50, info, bufferPages: true });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        draw(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Format currency value
+   */
+  private static formatCurrency(amount: number): string {
+    // PDFKit's default Helvetica font doesn't support ₱ symbol properly
+    // So we format manually with PHP prefix
+    const formatted = amount.toLocaleString('en-PH', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    });
+    return `PHP ${formatted}`;
+  }
+
+  /**
+   * Format amount without currency prefix (for narrow table columns)
+   */
+  private static formatAmount(amount: number): string {
+    return amount.toLocaleString('en-PH', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    });
+  }
+
+  /**
+   * Format date
+   */
+  private static formatDate(date: Date | string): string {
+    const dateObj = typeof date === 'string' ? new Date(date) : date;
+    return dateObj.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  }
+
+  /**
+   * Generate PDF invoice from billing data
+   * Replaces any PDF already stored for the billing number.
+   * @param billing - Billing data
+   * @returns Promise<string> - Storage key of the generated PDF
+   */
+  static async generateInvoice(billing: Billing): Promise<string> {
+    const key = `${billing.billingNumber}.pdf`;
+
+    // Company profile is read per document so saved changes apply right away
+    const company = await CompanySettingsService.get();
+
+    const data = await this.render({
+      Title: `Invoice ${billing.billingNumber}`,
+      Author: company.companyName,
+      Subject: `Invoice for ${billing.companyName}`,
+      CreationDate: new Date()
+    }, doc => {
+      // Header Section
+      this.addHeader(doc, company, 'BILLING STATEMENT', 'Billing No.', billing.billingNumber);
+      if (billing.revision) {
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .text(`Revision ${billing.revision}`, 400, 69, { width: 145, align: 'right' });
+      }
+
+      // Company Details Section
+      this.addCompanyDetails(doc, company, billing);
+
+      // Billing Information
+      this.addBillingInfo(doc, billing);
+
+      // Itemized Table
+      const tableEndY = this.addItemizedTable(doc, billing);
+
+      // Totals Section (grows with the VAT breakdown)
+      const totalsBottom = this.addTotals(doc, billing, tableEndY);
+
+      // Footer follows the totals, on a new page if it does not fit
+      let footerY = Math.max(585, totalsBottom + 20);
+      if (footerY + 100 > 790) {
+        doc.addPage();
+        footerY = 50;
+      }
+      this.addFooter(doc, company, footerY);
+
+      // Voided billings keep their PDF, stamped so it cannot be mistaken for a live invoice
+      if (billing.status === 'Void') {
+        const pages = doc.bufferedPageRange();
+        for (let page = pages.start; page < pages.start + pages.count; page++) {
+          doc.switchToPage(page);
+          this.addVoidStamp(doc, billing);
+        }
+      }
+    });
+
+    await PdfStorageService.save(key, data);
+    return key;
+  }
+
+  /**
+   * Generate a Statement of Account PDF for a client
+   * Statements are generated on demand and never stored.
+   * @param statement - Statement data from StatementService
+   * @returns Promise<Buffer> - The generated PDF
+   */
+  static async generateStatement(statement: StatementOfAccount): Promise<Buffer> {
+    // Company profile is read per document so saved changes apply right away
+    const company = await CompanySettingsService.get();
+
+    const data = await this.render({
+      Title: `Statement of Account - ${statement.client.companyName}`,
+      Author: company.companyName,
+      Subject: `Statement of Account for ${statement.client.companyName}`,
+      CreationDate: new Date()
+    }, doc => {
+      // Same header and FROM block as invoices
+      this.addHeader(doc, company, 'STATEMENT OF ACCOUNT', 'Statement Date', this.formatDate(statement.statementDate));
+      this.addFromBlock(doc, company, 100);
+
+      this.addStatementDetails(doc, statement);
+      const tableEndY = this.addStatementTable(doc, statement);
+      const totalsEndY = this.addStatementTotals(doc, statement, tableEndY + 15);
+
+      // Footer follows the totals, on a new page if it does not fit
+      let footerY = totalsEndY + 20;
+      if (footerY + 100 > 790) {
+        doc.addPage();
+        footerY = 50;
+      }
+      this.addFooter(doc, company, footerY);
+    });
+
+    return data;
+  }
+
+  /**
+   * Generate a credit memo PDF
+   * @param memo - Credit memo data
+   * @param billing - Original billing the memo is issued against
+   * @returns Promise<string> - Storage key of the generated PDF
+   */
+  static async generateCreditMemo(memo: CreditMemo, billing: Billing): Promise<string> {
+    const key = `${memo.creditMemoNumber}.pdf`;
+
+    // Company profile is read per document so saved changes apply right away
+    const company = await CompanySettingsService.get();
+
+    const data = await this.render({
+      Title: `Credit Memo ${memo.creditMemoNumber}`,
+      Author: company.companyName,
+      Subject: `Credit memo for ${memo.companyName} against ${memo.billingNumber}`,
+      CreationDate: new Date()
+    }, doc => {
+      this.addHeader(doc, company, 'CREDIT MEMO', 'Credit Memo No.', memo.creditMemoNumber);
+      this.addFromBlock(doc, company, 100);
+      this.addCreditMemoDetails(doc, memo, billing);
+      this.addCreditMemoAmounts(doc, memo);
+
+      // Footer text
+      if (company.footerText) {
+        doc
+          .fontSize(7)
+          .font('Helvetica-Oblique')
+          .fillColor('#9ca3af')
+          .text(company.footerText, 50, 700, { align: 'center', width: 495 });
+      }
+    });
+
+    await PdfStorageService.save(key, data);
+    return key;
+  }
+
+  /**
+   * Add credit memo details (right), CREDITED TO section and reason
+   */
+  private static addCreditMemoDetails(doc: PDFKit.PDFDocument, memo: CreditMemo, billing: Billing): void {
+    const yPosition = 100;
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('CREDIT MEMO DETAILS', 350, yPosition);
+
+    const details: [string, string][] = [
+      ['Date:', this.formatDate(memo.memoDate)],
+      ['Billing No.:', memo.billingNumber],
+      ['Billing Date:', this.formatDate(billing.billingDate)]
+    ];
+
+    details.forEach(([label, value], index) => {
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text(label, 350, yPosition + 12 * (index + 1))
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(value, 420, yPosition + 12 * (index + 1));
+    });
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('CREDITED TO', 50, 165);
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(billing.companyName, 50, 177)
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#4b5563')
+      .text(billing.address, 50, 189, { width: 300 });
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('REASON', 50, 250);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .fillColor('#000000')
+      .text(memo.reason, 50, 262, { width: 495 });
+  }
+
+  /**
+   * Add the credited amounts box
+   */
+  private static addCreditMemoAmounts(doc: PDFKit.PDFDocument, memo: CreditMemo): void {
+    const boxX = 365;
+    const boxWidth = 180;
+    let yPosition = 330;
+
+    const rows: [string, string][] = [
+      ['Net of VAT:', this.formatCurrency(memo.netSales)]
+    ];
+    if (memo.vatAmount > 0) {
+      rows.push(['VAT (12%):', this.formatCurrency(memo.vatAmount)]);
+    }
+    if (memo.withholdingTax > 0) {
+      rows.push(['Less W/Tax:', `-${this.formatCurrency(memo.withholdingTax)}`]);
+    }
+
+    const boxHeight = 12 + rows.length * 16 + 31;
+    doc
+      .rect(boxX, yPosition, boxWidth, boxHeight)
+      .fillAndStroke('#f9fafb', '#e5e7eb');
+
+    yPosition -= 4;
+    rows.forEach(([label, value]) => {
+      yPosition += 16;
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text(label, boxX + 12, yPosition)
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(value, boxX + 12, yPosition, { width: boxWidth - 24, align: 'right' });
+    });
+
+    yPosition += 16;
+    doc
+      .moveTo(boxX + 12, yPosition)
+      .lineTo(boxX + boxWidth - 12, yPosition)
+      .strokeColor('#9ca3af')
+      .lineWidth(1)
+      .stroke();
+
+    yPosition += 8;
+    doc
+      .fontSize(9)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text('Total Credit:', boxX + 12, yPosition)
+      .fontSize(12)
+      .fillColor('#2563eb')
+      .text(this.formatCurrency(memo.amount), boxX + 12, yPosition, { width: boxWidth - 24, align: 'right' });
+  }
+
+  /**
+   * Generate a delivery receipt PDF
+   * Shows quantities only; prices appear on the billing.
+   * @param receipt - Delivery receipt data
+   * @returns Promise<string> - Storage key of the generated PDF
+   */
+  static async generateDeliveryReceipt(receipt: DeliveryReceipt): Promise<string> {
+    const key = `${receipt.drNumber}.pdf`;
+
+    // Company profile is read per document so saved changes apply right away
+    const company = await CompanySettingsService.get();
+
+    const data = await this.render({
+      Title: `Delivery Receipt ${receipt.drNumber}`,
+      Author: company.companyName,
+      Subject: `Delivery receipt for ${receipt.companyName}`,
+      CreationDate: new Date()
+    }, doc => {
+      this.addHeader(doc, company, 'DELIVERY RECEIPT', 'DR No.', receipt.drNumber);
+      this.addFromBlock(doc, company, 100);
+      this.addDeliveryReceiptDetails(doc, receipt);
+      const tableBottom = this.addDeliveryReceiptTable(doc, receipt);
+      this.addReceivingSignature(doc, receipt, Math.max(tableBottom + 40, 600));
+    });
+
+    await PdfStorageService.save(key, data);
+    return key;
+  }
+
+  /**
+   * Add delivery details (right) and DELIVER TO section
+   */
+  private static addDeliveryReceiptDetails(doc: PDFKit.PDFDocument, receipt: DeliveryReceipt): void {
+    const yPosition = 100;
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('DELIVERY DETAILS', 350, yPosition);
+
+    const details: [string, string][] = [['Date:', this.formatDate(receipt.deliveryDate)]];
+    if (receipt.billingNumber) {
+      details.push(['Billing No.:', receipt.billingNumber]);
+    }
+
+    details.forEach(([label, value], index) => {
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text(label, 350, yPosition + 12 * (index + 1))
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(value, 420, yPosition + 12 * (index + 1));
+    });
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('DELIVER TO', 50, 165);
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(receipt.companyName, 50, 177)
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#4b5563')
+      .text(receipt.address, 50, 189, { width: 300 });
+
+    let deliverToYOffset = 189 + doc.heightOfString(receipt.address, { width: 300 });
+
+    if (receipt.contactNumber) {
+      doc.text(`Tel: ${receipt.contactNumber}`, 50, deliverToYOffset + 3);
+      deliverToYOffset += 10;
+    }
+
+    if (receipt.attentionPerson) {
+      doc.text(`Attention: ${receipt.attentionPerson}`, 50, deliverToYOffset + 3);
+    }
+  }
+
+  /**
+   * Add the delivered items table and notes
+   * @returns Bottom of the table (or notes)
+   */
+  private static addDeliveryReceiptTable(doc: PDFKit.PDFDocument, receipt: DeliveryReceipt): number {
+    let yPosition = 245;
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('ITEMS', 50, yPosition);
+
+    yPosition = 260;
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#374151')
+      .text('ORDERED', 50, yPosition, { width: 55, align: 'center' })
+      .text('DELIVERED', 110, yPosition, { width: 55, align: 'center' })
+      .text('UNIT', 170, yPosition, { width: 45, align: 'center' })
+      .text('DESCRIPTION', 225, yPosition, { width: 320, align: 'left' });
+
+    yPosition += 13;
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(545, yPosition)
+      .strokeColor('#d1d5db')
+      .lineWidth(1)
+      .stroke();
+
+    yPosition += 8;
+
+    receipt.items.forEach(item => {
+      const rowHeight = Math.max(15, doc.heightOfString(item.description, { width: 320 }) + 5);
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#000000')
+        .text(item.quantity.toString(), 50, yPosition, { width: 55, align: 'center' })
+        .font('Helvetica-Bold')
+        .text(item.deliveredQuantity.toString(), 110, yPosition, { width: 55, align: 'center' })
+        .font('Helvetica')
+        .text(item.unit || 'pc', 170, yPosition, { width: 45, align: 'center' })
+        .text(item.description, 225, yPosition, { width: 320, align: 'left' });
+
+      yPosition += rowHeight;
+    });
+
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(545, yPosition)
+      .strokeColor('#d1d5db')
+      .lineWidth(1)
+      .stroke();
+
+    if (receipt.notes) {
+      yPosition += 12;
+      doc
+        .fontSize(8)
+        .font('Helvetica-Bold')
+        .fillColor('#6b7280')
+        .text('NOTES', 50, yPosition)
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#000000')
+        .text(receipt.notes, 50, yPosition + 12, { width: 495 });
+      yPosition = doc.y;
+    }
+
+    return yPosition;
+  }
+
+  /**
+   * Add the receiving acknowledgement and signature line
+   * @param startY - Top of the signature block
+   */
+  private static addReceivingSignature(doc: PDFKit.PDFDocument, receipt: DeliveryReceipt, startY: number): void {
+    doc
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#374151')
+      .text('Received the above items in good order and condition.', 50, startY, { width: 495 });
+
+    const lineY = startY + 50;
+    doc
+      .moveTo(50, lineY)
+      .lineTo(260, lineY)
+      .moveTo(335, lineY)
+      .lineTo(545, lineY)
+      .strokeColor('#000000')
+      .lineWidth(0.75)
+      .stroke();
+
+    // Pre-print the receiver's name when it is already known; the signature is still handwritten
+    if (receipt.receivedBy) {
+      doc
+        .fontSize(9)
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(receipt.receivedBy, 50, lineY - 13, { width: 210, align: 'center' });
+    }
+
+    doc
+      .fontSize(7.5)
+      .font('Helvetica')
+      .fillColor('#6b7280')
+      .text('Received by (signature over printed name)', 50, lineY + 4, { width: 210, align: 'center' })
+      .text('Date received', 335, lineY + 4, { width: 210, align: 'center' });
+  }
+
+  /**
+   * Stamp a voided billing with a diagonal VOID mark and the reason
+   */
+  private static addVoidStamp(doc: PDFKit.PDFDocument, billing: Billing): void {
+    doc.save();
+    doc.rotate(-30, { origin: [297, 421] });
+    doc
+      .fontSize(130)
+      .font('Helvetica-Bold')
+      .fillColor('#dc2626')
+      .fillOpacity(0.25)
+      .text('VOID', 0, 340, { width: 595, align: 'center', lineBreak: false });
+
+    const voidedOn = billing.voidedAt ? ` on ${this.formatDate(billing.voidedAt)}` : '';
+    doc
+      .fontSize(11)
+      .font('Helvetica')
+      .fillOpacity(0.6)
+      .text(`Voided${voidedOn}${billing.voidReason ? `: ${billing.voidReason}` : ''}`, 100, 480, { width: 395, align: 'center' });
+    doc.restore();
+  }
+
+  /**
+   * Add statement details (right) and BILLED TO section
+   */
+  private static addStatementDetails(doc: PDFKit.PDFDocument, statement: StatementOfAccount): void {
+    const yPosition = 100;
+    const period = statement.from || statement.to
+      ? `${statement.from ? this.formatDate(statement.from) : 'Beginning'} - ${statement.to ? this.formatDate(statement.to) : 'Present'}`
+      : 'All open billings';
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('STATEMENT DETAILS', 350, yPosition);
+
+    doc
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#4b5563')
+      .text('Period:', 350, yPosition + 12)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(period, 420, yPosition + 12, { width: 125 })
+      .font('Helvetica')
+      .fillColor('#4b5563')
+      .text('Open Billings:', 350, yPosition + 36)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(statement.lines.length.toString(), 420, yPosition + 36);
+
+    // Billed To Section (full width)
+    const billedToY = 165;
+    const { client } = statement;
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('BILLED TO', 50, billedToY);
+
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(client.companyName, 50, billedToY + 12)
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#4b5563')
+      .text(client.address, 50, billedToY + 24, { width: 300 });
 
-  /**
-   * Initialize PDF directory
-   * Creates the directory if it doesn't exist
-   */
-  private static ensurePdfDirectory(): void {
-    if (!fs.existsSync(this.PDF_DIR)) {
-      fs.mkdirSync(this.PDF_DIR, { recursive: true });
+    let billedToYOffset = billedToY + 24 + doc.heightOfString(client.address, { width: 300 });
+
+    if (client.contactNumber) {
+      doc.text(`Tel: ${client.contactNumber}`, 50, billedToYOffset + 3);
+      billedToYOffset += 10;
     }
-  }
 
-  /**
-   * Format currency value
-   */
-  private static formatCurrency(amount: number): string {
-    // PDFKit's default Helvetica font doesn't support ₱ symbol properly
-    // So we format manually with PHP prefix
-    const formatted = amount.toLocaleString('en-PH', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    });
-    return `PHP ${formatted}`;
+    if (client.attentionPerson) {
+      doc.text(`Attention: ${client.attentionPerson}`, 50, billedToYOffset + 3);
+    }
   }
 
   /**
-   * Format date
+   * Add the statement table header row
    */
-  private static formatDate(date: Date | string): string {
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    return dateObj.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  private static addStatementTableHeader(doc: PDFKit.PDFDocument, yPosition: number): number {
+    doc
+      .fontSize(7.5)
+      .font('Helvetica-Bold')
+      .fillColor('#374151')
+      .text('BILLING NO.', 50, yPosition, { width: 85 })
+      .text('DATE', 140, yPosition, { width: 70 })
+      .text('DR NO.', 215, yPosition, { width: 65 })
+      .text('AMOUNT', 285, yPosition, { width: 62, align: 'right' })
+      .text('PAID/CREDIT', 352, yPosition, { width: 62, align: 'right' })
+      .text('BALANCE', 419, yPosition, { width: 62, align: 'right' })
+      .text('RUNNING BAL.', 486, yPosition, { width: 59, align: 'right' });
+
+    yPosition += 12;
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(545, yPosition)
+      .strokeColor('#d1d5db')
+      .lineWidth(1)
+      .stroke();
+
+    return yPosition + 8;
   }
 
   /**
-   * Generate PDF invoice from billing data
-   * @param billing - Billing data
-   * @returns Promise<string> - File path of generated PDF
+   * Add one row per open billing with a running balance
+   * @returns Y position after the table
    */
-  static async generateInvoice(billing: Billing): Promise<string> {
-    this.ensurePdfDirectory();
-
-    // Generate filename
-    const filename = `${billing.billingNumber}.pdf`;
-    const filePath = path.join(this.PDF_DIR, filename);
+  private static addStatementTable(doc: PDFKit.PDFDocument, statement: StatementOfAccount): number {
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('OPEN BILLINGS (PHP)', 50, 245);
 
-    return new Promise((resolve, reject) => {
-      try {
-        // Create PDF document
-        const doc = new PDFDocument({
-          size: 'A4',
-          margin: 50,
-          info: {
-            Title: `Invoice ${billing.billingNumber}`,
-            Author: 'Sewcut Billing System',
-            Subject: `Invoice for ${billing.companyName}`,
-            CreationDate: new Date()
-          }
-        });
+    let yPosition = this.addStatementTableHeader(doc, 260);
 
-        // Pipe to file
-        const writeStream = fs.createWriteStream(filePath);
-        doc.pipe(writeStream);
+    if (statement.lines.length === 0) {
+      doc
+        .fontSize(8)
+        .font('Helvetica-Oblique')
+        .fillColor('#6b7280')
+        .text('No open billings for this period.', 50, yPosition, { width: 495, align: 'center' });
+      yPosition += 15;
+    }
 
-        // Header Section
-        this.addHeader(doc, billing);
+    statement.lines.forEach(line => {
+      // Continue the table on a new page
+      if (yPosition > 760) {
+        doc.addPage();
+        yPosition = this.addStatementTableHeader(doc, 50);
+      }
 
-        // Company Details Section
-        this.addCompanyDetails(doc, billing);
+      doc
+        .fontSize(7.5)
+        .font('Helvetica')
+        .fillColor('#000000')
+        .text(line.billingNumber, 50, yPosition, { width: 85 })
+        .text(new Date(line.billingDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), 140, yPosition, { width: 70 })
+        .text(line.deliveryReceiptNumber || '-', 215, yPosition, { width: 65 })
+        .text(this.formatAmount(line.amount), 285, yPosition, { width: 62, align: 'right' })
+        .text(this.formatAmount(line.payments + line.credits), 352, yPosition, { width: 62, align: 'right' })
+        .text(this.formatAmount(line.balance), 419, yPosition, { width: 62, align: 'right' })
+        .font('Helvetica-Bold')
+        .text(this.formatAmount(line.runningBalance), 486, yPosition, { width: 59, align: 'right' });
 
-        // Billing Information
-        this.addBillingInfo(doc, billing);
+      yPosition += 15;
+    });
 
-        // Itemized Table
-        this.addItemizedTable(doc, billing);
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(545, yPosition)
+      .strokeColor('#d1d5db')
+      .lineWidth(1)
+      .stroke();
 
-        // Totals Section
-        this.addTotals(doc, billing);
+    return yPosition;
+  }
 
-        // Footer
-        this.addFooter(doc);
+  /**
+   * Add statement totals box
+   * @returns Y position after the box
+   */
+  private static addStatementTotals(doc: PDFKit.PDFDocument, statement: StatementOfAccount, startY: number): number {
+    let yPosition = startY;
+    if (yPosition + 84 > 790) {
+      doc.addPage();
+      yPosition = 50;
+    }
 
-        // Finalize PDF
-        doc.end();
+    const boxX = 365;
+    const boxWidth = 180;
 
-        // Handle stream events
-        writeStream.on('finish', () => {
-          resolve(filePath);
-        });
+    const rows: [string, number][] = [
+      ['Total Billed:', statement.totals.amount],
+      ['Total Payments:', statement.totals.payments]
+    ];
+    if (statement.totals.credits > 0) {
+      rows.push(['Total Credits:', statement.totals.credits]);
+    }
+    const boxHeight = 34 + rows.length * 14;
 
-        writeStream.on('error', (error) => {
-          reject(error);
-        });
+    doc
+      .rect(boxX, yPosition, boxWidth, boxHeight)
+      .fillAndStroke('#f9fafb', '#e5e7eb');
 
-      } catch (error) {
-        reject(error);
-      }
+    let rowY = yPosition + 10;
+    rows.forEach(([label, amount]) => {
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text(label, boxX + 12, rowY)
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(this.formatCurrency(amount), boxX + 12, rowY, { width: boxWidth - 24, align: 'right' });
+      rowY += 14;
     });
+
+    doc
+      .moveTo(boxX + 12, rowY)
+      .lineTo(boxX + boxWidth - 12, rowY)
+      .strokeColor('#9ca3af')
+      .lineWidth(1)
+      .stroke();
+
+    rowY += 6;
+    doc
+      .fontSize(9)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text('Balance Due:', boxX + 12, rowY)
+      .fontSize(11)
+      .fillColor('#2563eb')
+      .text(this.formatCurrency(statement.totals.balance), boxX + 12, rowY - 1, { width: boxWidth - 24, align: 'right' })
+      .fillColor('#000000');
+
+    return yPosition + boxHeight;
   }
 
   /**
    * Add header section to PDF
+   * @param company - Company settings (logo and name)
+   * @param title - Document title (e.g. BILLING STATEMENT)
+   * @param referenceLabel - Label of the reference box on the right (e.g. Billing No.)
+   * @param reference - Value shown in the reference box
    */
-  private static addHeader(doc: PDFKit.PDFDocument, billing: Billing): void {
-    // Company Logo/Name
+  private static addHeader(doc: PDFKit.PDFDocument, company: CompanySettings, title: string, referenceLabel: string, reference: string): void {
+    // Company Logo, with the title moved right of it
+    let titleX = 50;
+    const logoPath = CompanySettingsService.getLogoPath(company);
+    if (logoPath) {
+      try {
+        doc.image(logoPath, 50, 36, { fit: [40, 40] });
+        titleX = 100;
+      } catch (error) {
+        console.error('Error adding company logo to PDF:', error);
+      }
+    }
+
+    // Title and Company Name
     doc
       .fontSize(22)
       .font('Helvetica-Bold')
-      .text('BILLING STATEMENT', 50, 40, { align: 'left' })
+      .text(title, titleX, 40, { align: 'left' })
       .fontSize(9)
       .font('Helvetica')
-      .text('Sewcut Billing System', 50, 65);
+      .text(company.companyName, titleX, 65, { width: 340 - titleX, lineBreak: false, ellipsis: true });
 
     // Billing Number Box (top right)
     doc
       .fontSize(8)
       .font('Helvetica')
-      .text('Billing No.', 400, 40, { width: 145, align: 'right' })
+      .text(referenceLabel, 400, 40, { width: 145, align: 'right' })
       .fontSize(12)
       .font('Helvetica-Bold')
       .fillColor('#2563eb')
-      .text(billing.billingNumber, 400, 53, { width: 145, align: 'right' })
+      .text(reference, 400, 53, { width: 145, align: 'right' })
       .fillColor('#000000');
 
     // Horizontal line
@@ -153,27 +797,11 @@ export class PdfGenerationService {
   /**
    * Add company details section
    */
-  private static addCompanyDetails(doc: PDFKit.PDFDocument, billing: Billing): void {
+  private static addCompanyDetails(doc: PDFKit.PDFDocument, company: CompanySettings, billing: Billing): void {
     let yPosition = 100;
 
     // From Section (left)
-    doc
-      .fontSize(8)
-      .font('Helvetica-Bold')
-      .fillColor('#6b7280')
-      .text('FROM', 50, yPosition);
-
-    doc
-      .fontSize(9)
-      .font('Helvetica-Bold')
-      .fillColor('#000000')
-      .text('Sew Cut Wearing Apparel Manufacturing', 50, yPosition + 12)
-      .fontSize(8)
-      .font('Helvetica')
-      .fillColor('#4b5563')
-      .text('13 Delaware St. Barangay Banaba', 50, yPosition + 24)
-      .text('San Mateo, Rizal 1850', 50, yPosition + 35)
-      .text('sewcut.garmentsmanufacturing@gmail.com', 50, yPosition + 46);
+    this.addFromBlock(doc, company, yPosition);
 
     // Billing Details (right)
     doc
@@ -191,14 +819,35 @@ export class PdfGenerationService {
       .fillColor('#000000')
       .text(this.formatDate(billing.billingDate), 420, yPosition + 12);
 
+    let detailsYOffset = yPosition + 24;
+
+    if (billing.dueDate) {
+      doc
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text('Terms:', 350, detailsYOffset)
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(formatPaymentTerms(billing.paymentTerms || 'COD', billing.customTermDays), 420, detailsYOffset)
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text('Due Date:', 350, detailsYOffset + 12)
+        .font('Helvetica-Bold')
+        .fillColor('#000000')
+        .text(this.formatDate(billing.dueDate), 420, detailsYOffset + 12);
+      detailsYOffset += 24;
+    }
+
     if (billing.deliveryReceiptNumber) {
+      // Consolidated billings list their receipts under the items table instead
+      const receiptCount = billing.deliveryReceiptIds?.length ?? 0;
       doc
         .font('Helvetica')
         .fillColor('#4b5563')
-        .text('DR No:', 350, yPosition + 24)
+        .text(receiptCount > 1 ? 'DR Nos:' : 'DR No:', 350, detailsYOffset)
         .font('Helvetica-Bold')
         .fillColor('#000000')
-        .text(billing.deliveryReceiptNumber, 420, yPosition + 24);
+        .text(receiptCount > 1 ? `${receiptCount} receipts (see items)` : billing.deliveryReceiptNumber, 420, detailsYOffset);
     }
 
     // Billed To Section (full width)
@@ -233,6 +882,40 @@ export class PdfGenerationService {
     }
   }
 
+  /**
+   * Add the FROM block with the company's own details
+   * Holds four lines under the name so it never runs into the BILLED TO
+   * section; extra address lines are joined onto the second one.
+   */
+  private static addFromBlock(doc: PDFKit.PDFDocument, company: CompanySettings, yPosition: number): void {
+    const addressLines = company.address.split('\n').map(line => line.trim()).filter(Boolean);
+    if (addressLines.length > 2) {
+      addressLines.splice(1, addressLines.length, addressLines.slice(1).join(', '));
+    }
+    const contact = [company.phone && `Tel: ${company.phone}`, company.email].filter(Boolean).join('  |  ');
+    const lines = [...addressLines, contact, company.tin && `TIN: ${company.tin}`].filter(Boolean) as string[];
+
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .fillColor('#6b7280')
+      .text('FROM', 50, yPosition);
+
+    doc
+      .fontSize(9)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(company.companyName, 50, yPosition + 12, { width: 290, lineBreak: false, ellipsis: true })
+      .fontSize(8)
+      .font('Helvetica')
+      .fillColor('#4b5563');
+
+    const lineHeight = lines.length > 3 ? 10 : 11;
+    lines.slice(0, 4).forEach((line, index) => {
+      doc.text(line, 50, yPosition + 24 + index * lineHeight, { width: 290, lineBreak: false, ellipsis: true });
+    });
+  }
+
   /**
    * Add billing info section
    */
@@ -248,18 +931,23 @@ export class PdfGenerationService {
   }
 
   /**
-   * Add itemized table
+   * Add the item table header row
+   * @returns Y position of the first row
    */
-  private static addItemizedTable(doc: PDFKit.PDFDocument, billing: Billing): void {
-    let yPosition = 260;
+  private static addItemizedTableHeader(doc: PDFKit.PDFDocument, yPosition: number, showReceipts: boolean): number {
+    const descriptionX = showReceipts ? 170 : 95;
+    const descriptionWidth = showReceipts ? 175 : 250;
 
-    // Table Header
     doc
       .fontSize(8)
       .font('Helvetica-Bold')
       .fillColor('#374151')
-      .text('QTY', 50, yPosition, { width: 40, align: 'center' })
-      .text('DESCRIPTION', 95, yPosition, { width: 250, align: 'left' })
+      .text('QTY', 50, yPosition, { width: 40, align: 'center' });
+    if (showReceipts) {
+      doc.text('DR NO.', 95, yPosition, { width: 70, align: 'left' });
+    }
+    doc
+      .text('DESCRIPTION', descriptionX, yPosition, { width: descriptionWidth, align: 'left' })
       .text('UNIT PRICE', 360, yPosition, { width: 90, align: 'right' })
       .text('LINE TOTAL', 455, yPosition, { width: 90, align: 'right' });
 
@@ -272,24 +960,49 @@ export class PdfGenerationService {
       .lineWidth(1)
       .stroke();
 
-    // Table Rows
-    yPosition += 8;
+    return yPosition + 8;
+  }
 
-    billing.items
-      .filter(item => item.description.trim() !== '')
-      .forEach((item, _index) => {
-        doc
-          .fontSize(8)
-          .font('Helvetica')
-          .fillColor('#000000')
-          .text(item.quantity.toString(), 50, yPosition, { width: 40, align: 'center' })
-          .text(item.description, 95, yPosition, { width: 250, align: 'left' })
-          .text(this.formatCurrency(item.unitPrice), 360, yPosition, { width: 90, align: 'right' })
-          .font('Helvetica-Bold')
-          .text(this.formatCurrency(item.lineTotal), 455, yPosition, { width: 90, align: 'right' });
+  /**
+   * Add itemized table, continued on new pages when the items do not fit
+   * @returns Y position after the table
+   */
+  private static addItemizedTable(doc: PDFKit.PDFDocument, billing: Billing): number {
+    // Lines billed from delivery receipts get a DR column carved out of the description
+    const items = billing.items.filter(item => item.description.trim() !== '');
+    const showReceipts = items.some(item => item.deliveryReceiptNumber);
+    const descriptionX = showReceipts ? 170 : 95;
+    const descriptionWidth = showReceipts ? 175 : 250;
 
-        yPosition += 15;
-      });
+    let yPosition = this.addItemizedTableHeader(doc, 260, showReceipts);
+
+    items.forEach(item => {
+      // Long descriptions wrap, so the row grows with them
+      doc.fontSize(8).font('Helvetica');
+      const rowHeight = Math.max(15, doc.heightOfString(item.description, { width: descriptionWidth }) + 5);
+
+      // Continue the table on a new page
+      if (yPosition + rowHeight > 790) {
+        doc.addPage();
+        yPosition = this.addItemizedTableHeader(doc, 50, showReceipts);
+      }
+
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#000000')
+        .text(item.quantity.toString(), 50, yPosition, { width: 40, align: 'center' });
+      if (showReceipts) {
+        doc.text(item.deliveryReceiptNumber || '-', 95, yPosition, { width: 70, align: 'left' });
+      }
+      doc
+        .text(item.description, descriptionX, yPosition, { width: descriptionWidth, align: 'left' })
+        .text(this.formatCurrency(item.unitPrice), 360, yPosition, { width: 90, align: 'right' })
+        .font('Helvetica-Bold')
+        .text(this.formatCurrency(item.lineTotal), 455, yPosition, { width: 90, align: 'right' });
+
+      yPosition += rowHeight;
+    });
 
     // Bottom border
     doc
@@ -298,53 +1011,97 @@ export class PdfGenerationService {
       .strokeColor('#d1d5db')
       .lineWidth(1)
       .stroke();
+
+    if (showReceipts) {
+      const receiptNumbers = [...new Set(items.map(item => item.deliveryReceiptNumber).filter(Boolean))];
+      const text = `Delivery receipts covered: ${receiptNumbers.join(', ')}`;
+      doc
+        .fontSize(7.5)
+        .font('Helvetica');
+      const textHeight = doc.heightOfString(text, { width: 495 });
+      if (yPosition + 6 + textHeight > 790) {
+        doc.addPage();
+        yPosition = 44;
+      }
+      doc
+        .fillColor('#4b5563')
+        .text(text, 50, yPosition + 6, { width: 495 });
+      yPosition += 6 + textHeight;
+    }
+
+    return yPosition;
   }
 
   /**
    * Add totals section
+   * Sits at a fixed spot on short billings and below the items on longer ones,
+   * on a new page if it does not fit.
+   * @param tableEndY - Bottom of the item table
+   * @returns Bottom of the totals box
    */
-  private static addTotals(doc: PDFKit.PDFDocument, billing: Billing): void {
-    // Position totals at bottom of page or after items
-    let yPosition = 490;
+  private static addTotals(doc: PDFKit.PDFDocument, billing: Billing, tableEndY: number): number {
+    let yPosition = Math.max(490, tableEndY + 15);
 
     // Totals box (right aligned)
     const boxX = 365;
     const boxWidth = 180;
 
+    // Rows above the grand total; billings created before VAT support have no breakdown
+    const rows: Array<{ label: string; value: string; color?: string }> = [
+      { label: 'Subtotal:', value: this.formatCurrency(billing.subtotal) }
+    ];
+    if (billing.discount > 0) {
+      rows.push({ label: 'Discount:', value: `-${this.formatCurrency(billing.discount)}`, color: '#dc2626' });
+    }
+
+    const tax = billing.taxBreakdown;
+    if (tax && billing.vatMode && billing.vatMode !== 'None') {
+      rows.push({ label: 'VATable Sales:', value: this.formatCurrency(tax.vatableSales) });
+      if (tax.vatExemptSales > 0) {
+        rows.push({ label: 'VAT-Exempt Sales:', value: this.formatCurrency(tax.vatExemptSales) });
+      }
+      if (tax.zeroRatedSales > 0) {
+        rows.push({ label: 'Zero-Rated Sales:', value: this.formatCurrency(tax.zeroRatedSales) });
+      }
+      rows.push({ label: `VAT (12%${billing.vatMode === 'Inclusive' ? ', incl.' : ''}):`, value: this.formatCurrency(tax.vatAmount) });
+      rows.push({ label: 'Total Sales:', value: this.formatCurrency(tax.totalSales) });
+    }
+    if (tax && tax.withholdingTax > 0) {
+      rows.push({
+        label: `Less W/Tax (${billing.withholdingRate}%):`,
+        value: `-${this.formatCurrency(tax.withholdingTax)}`,
+        color: '#dc2626'
+      });
+    }
+
+    const boxHeight = Math.max(75, 12 + rows.length * 16 + 31);
+    if (yPosition + boxHeight > 790) {
+      doc.addPage();
+      yPosition = 50;
+    }
+    const boxTop = yPosition;
+
     // Background
     doc
-      .rect(boxX, yPosition, boxWidth, 75)
+      .rect(boxX, yPosition, boxWidth, boxHeight)
       .fillAndStroke('#f9fafb', '#e5e7eb');
 
-    yPosition += 12;
-
-    // Subtotal
-    doc
-      .fontSize(8)
-      .font('Helvetica')
-      .fillColor('#4b5563')
-      .text('Subtotal:', boxX + 12, yPosition)
-      .font('Helvetica-Bold')
-      .fillColor('#000000')
-      .text(this.formatCurrency(billing.subtotal), boxX + 12, yPosition, {
-        width: boxWidth - 24,
-        align: 'right'
-      });
+    yPosition -= 4;
 
-    // Discount (if applicable)
-    if (billing.discount > 0) {
+    rows.forEach(row => {
       yPosition += 16;
       doc
+        .fontSize(8)
         .font('Helvetica')
         .fillColor('#4b5563')
-        .text('Discount:', boxX + 12, yPosition)
+        .text(row.label, boxX + 12, yPosition)
         .font('Helvetica-Bold')
-        .fillColor('#dc2626')
-        .text(`-${this.formatCurrency(billing.discount)}`, boxX + 12, yPosition, {
+        .fillColor(row.color || '#000000')
+        .text(row.value, boxX + 12, yPosition, {
           width: boxWidth - 24,
           align: 'right'
         });
-    }
+    });
 
     // Divider
     yPosition += 16;
@@ -368,101 +1125,84 @@ export class PdfGenerationService {
         width: boxWidth - 24,
         align: 'right'
       });
-  }
 
-  /**
-   * Add footer with payment terms and bank details
-   */
-  private static addFooter(doc: PDFKit.PDFDocument): void {
-    const startY = 585;
-    
-    // Payment Terms Header
-    doc
-      .fontSize(9)
-      .font('Helvetica-Bold')
-      .fillColor('#1f2937')
-      .text('Terms:', 50, startY, { align: 'left' });
-    
-    // Term 1
-    doc
-      .fontSize(7.5)
-      .font('Helvetica')
-      .fillColor('#374151')
-      .text(
-        '1. 50% Down Payment upon confirmation of order (through bank deposit)',
-        50,
-        startY + 13,
-        { align: 'left', width: 495 }
-      );
-    
-    // Term 2
-    doc
-      .text(
-        '2. 50% Full payment after 5 working days upon completion of orders (through bank deposit)',
-        50,
-        startY + 25,
-        { align: 'left', width: 495 }
-      );
-    
-    // Bank Details Header
-    doc
-      .fontSize(8)
-      .font('Helvetica-Bold')
-      .fillColor('#1f2937')
-      .text('*Deposit all payments to:', 50, startY + 43, { align: 'left' });
-    
-    // BDO Account Name
-    doc
-      .fontSize(8)
-      .font('Helvetica')
-      .fillColor('#dc2626')
-      .text('BDO Account Name: ', 50, startY + 56, { continued: true })
-      .font('Helvetica-Bold')
-      .text('SEW-CUT WEARING APPAREL MANUFACTURING');
-    
-    // Account Number
-    doc
-      .font('Helvetica')
-      .fillColor('#dc2626')
-      .text('Account Number: ', 50, startY + 68, { continued: true })
-      .font('Helvetica-Bold')
-      .text('012258002502');
-    
-    // Computer-generated notice
-    doc
-      .fontSize(7)
-      .font('Helvetica-Oblique')
-      .fillColor('#9ca3af')
-      .text(
-        'This is a computer-generated document. No signature is required.',
-        50,
-        startY + 85,
-        { align: 'center', width: 495 }
-      );
+    return boxTop + boxHeight;
   }
 
   /**
-   * Delete a PDF file
-   * @param filePath - Path to the PDF file
+   * Add footer with payment terms, bank details and the footer text
+   * Each part is left out when its settings are empty.
+   * @param company - Company settings
+   * @param startY - Top of the footer (fixed on invoices, follows the table on statements)
    */
-  static async deletePdf(filePath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      fs.unlink(filePath, (error) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
-        }
+  private static addFooter(doc: PDFKit.PDFDocument, company: CompanySettings, startY = 585): void {
+    let yPosition = startY;
+    const terms = (company.paymentNotes || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+    if (terms.length > 0) {
+      // Payment Terms Header
+      doc
+        .fontSize(9)
+        .font('Helvetica-Bold')
+        .fillColor('#1f2937')
+        .text('Terms:', 50, yPosition, { align: 'left' });
+      yPosition += 13;
+
+      // Numbered terms
+      doc
+        .fontSize(7.5)
+        .font('Helvetica')
+        .fillColor('#374151');
+      terms.forEach((term, index) => {
+        const text = `${index + 1}. ${term}`;
+        doc.text(text, 50, yPosition, { align: 'left', width: 495 });
+        yPosition += Math.max(12, doc.heightOfString(text, { width: 495 }) + 3);
       });
-    });
-  }
+      yPosition += 6;
+    }
 
-  /**
-   * Check if PDF exists
-   * @param filePath - Path to the PDF file
-   * @returns boolean
-   */
-  static pdfExists(filePath: string): boolean {
-    return fs.existsSync(filePath);
+    if (company.bankAccountName || company.bankAccountNumber) {
+      // Bank Details Header
+      doc
+        .fontSize(8)
+        .font('Helvetica-Bold')
+        .fillColor('#1f2937')
+        .text('*Deposit all payments to:', 50, yPosition, { align: 'left' });
+      yPosition += 13;
+
+      // Account Name
+      if (company.bankAccountName) {
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .fillColor('#dc2626')
+          .text(company.bankName ? `${company.bankName} Account Name: ` : 'Account Name: ', 50, yPosition, { continued: true })
+          .font('Helvetica-Bold')
+          .text(company.bankAccountName);
+        yPosition += 12;
+      }
+
+      // Account Number
+      if (company.bankAccountNumber) {
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .fillColor('#dc2626')
+          .text(!company.bankAccountName && company.bankName ? `${company.bankName} Account Number: ` : 'Account Number: ', 50, yPosition, { continued: true })
+          .font('Helvetica-Bold')
+          .text(company.bankAccountNumber);
+        yPosition += 12;
+      }
+      yPosition += 5;
+    }
+
+    // Footer text
+    if (company.footerText) {
+      doc
+        .fontSize(7)
+        .font('Helvetica-Oblique')
+        .fillColor('#9ca3af')
+        .text(company.footerText, 50, yPosition, { align: 'center', width: 495 });
+    }
   }
 }
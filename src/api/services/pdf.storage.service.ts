@@ -0,0 +1,188 @@
+/**
+ * PDF Storage Service
+ * Keeps generated PDFs in the backend chosen by PDF_STORAGE: the local
+ * filesystem or MongoDB GridFS. Records store the storage key (the PDF's
+ * file name), never a path, so they stay valid when the backend changes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { storageConfig } from '../../config/index.js';
+
+export const PDF_STORAGE_BACKENDS = ['local', 'gridfs'] as const;
+
+export type PdfStorageBackend = typeof PDF_STORAGE_BACKENDS[number];
+
+/**
+ * A place to keep PDFs by key
+ */
+export interface PdfStorage {
+  readonly backend: PdfStorageBackend;
+  /** Store a PDF, replacing any stored under the same key */
+  save(key: string, data: Buffer): Promise<void>;
+  /** @returns The PDF, or null if nothing is stored under the key */
+  read(key: string): Promise<Buffer | null>;
+  /** @returns A stream of the PDF, or null if nothing is stored under the key */
+  openReadStream(key: string): Promise<Readable | null>;
+  exists(key: string): Promise<boolean>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * PDFs as files in a directory on the server
+ * Only suitable where the filesystem outlives a deploy.
+ */
+export class LocalPdfStorage implements PdfStorage {
+  readonly backend = 'local';
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * File path of a key; keys are plain file names
+   */
+  getFilePath(key: string): string {
+    return path.join(this.directory, path.basename(key));
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.getFilePath(key), data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.getFilePath(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async openReadStream(key: string): Promise<Readable | null> {
+    return await this.exists(key) ? fs.createReadStream(this.getFilePath(key)) : null;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.getFilePath(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(key), { force: true });
+  }
+}
+
+/**
+ * PDFs in MongoDB GridFS, for hosts with an ephemeral filesystem
+ */
+export class GridFsPdfStorage implements PdfStorage {
+  readonly backend = 'gridfs';
+
+  constructor(private readonly bucketName = 'pdfs') {}
+
+  private getBucket(): mongoose.mongo.GridFSBucket {
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('MongoDB is not connected; PDFs cannot be stored in GridFS');
+    }
+    return new mongoose.mongo.GridFSBucket(db, { bucketName: this.bucketName });
+  }
+
+  /**
+   * Stored versions of a key, newest first
+   */
+  private async findFiles(key: string) {
+    return this.getBucket().find({ filename: key }).sort({ uploadDate: -1 }).toArray();
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const bucket = this.getBucket();
+    const previous = await this.findFiles(key);
+
+    await new Promise<void>((resolve, reject) => {
+      const upload = bucket.openUploadStream(key, { metadata: { contentType: 'application/pdf' } });
+      upload.once('finish', () => resolve());
+      upload.once('error', reject);
+      upload.end(data);
+    });
+
+    // Older versions are removed only once the new one is stored
+    await Promise.all(previous.map(file => bucket.delete(file._id)));
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const stream = await this.openReadStream(key);
+    if (!stream) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async openReadStream(key: string): Promise<Readable | null> {
+    const [file] = await this.findFiles(key);
+    return file ? this.getBucket().openDownloadStream(file._id) : null;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const [file] = await this.findFiles(key);
+    return !!file;
+  }
+
+  async remove(key: string): Promise<void> {
+    const bucket = this.getBucket();
+    const files = await this.findFiles(key);
+    await Promise.all(files.map(file => bucket.delete(file._id)));
+  }
+}
+
+/**
+ * PDF Storage Service Class
+ * Delegates to the backend configured with PDF_STORAGE.
+ */
+export class PdfStorageService {
+  private static storage: PdfStorage | null = null;
+
+  /**
+   * Create a storage backend
+   * @param backend - 'local' or 'gridfs'
+   */
+  static create(backend: PdfStorageBackend): PdfStorage {
+    return backend === 'gridfs'
+      ? new GridFsPdfStorage()
+      : new LocalPdfStorage(storageConfig.pdfOutputDir);
+  }
+
+  /**
+   * The configured storage backend
+   */
+  static getStorage(): PdfStorage {
+    if (!this.storage) {
+      this.storage = this.create(storageConfig.pdfStorage);
+    }
+    return this.storage;
+  }
+
+  static async save(key: string, data: Buffer): Promise<void> {
+    return this.getStorage().save(key, data);
+  }
+
+  static async read(key: string): Promise<Buffer | null> {
+    return this.getStorage().read(key);
+  }
+
+  static async openReadStream(key: string): Promise<Readable | null> {
+    return this.getStorage().openReadStream(key);
+  }
+
+  static async exists(key: string): Promise<boolean> {
+    return this.getStorage().exists(key);
+  }
+
+  static async remove(key: string): Promise<void> {
+    return this.getStorage().remove(key);
+  }
+}
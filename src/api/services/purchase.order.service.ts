@@ -0,0 +1,275 @@
+/**
+ * Purchase Order Service
+ * Database operations for client purchase orders and their fulfillment
+ */
+
+import mongoose from 'mongoose';
+import { BillingItem } from '../../types/billing.types.js';
+import { BillingModel } from '../models/Billing.model.js';
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderModel } from '../models/PurchaseOrder.model.js';
+
+/**
+ * A purchase order line with its billed and remaining quantities
+ */
+export interface PurchaseOrderLineFulfillment extends PurchaseOrderLine {
+  billedQuantity: number;
+  /** Negative when the line has been over-billed */
+  remainingQuantity: number;
+}
+
+/**
+ * A purchase order with fulfillment totals
+ */
+export interface PurchaseOrderFulfillment extends Omit<PurchaseOrder, 'lines'> {
+  lines: PurchaseOrderLineFulfillment[];
+  orderedQuantity: number;
+  billedQuantity: number;
+  remainingQuantity: number;
+  orderedAmount: number;
+  billedAmount: number;
+  /** Billed share of the ordered quantity (0-100, capped) */
+  percentFulfilled: number;
+}
+
+/**
+ * Outcome of checking billing lines against their purchase orders
+ */
+export interface PurchaseOrderCheck {
+  /** Problems that must stop the billing from being saved */
+  errors: string[];
+  /** Over-billing on POs that only warn */
+  warnings: string[];
+}
+
+const lineKey = (purchaseOrderId: unknown, lineId: string) => `${String(purchaseOrderId)}:${lineId}`;
+
+/**
+ * Purchase Order Service Class
+ * Handles all database operations for purchase orders
+ */
+export class PurchaseOrderService {
+  /**
+   * Create a purchase order
+   * @param poData - Purchase order data
+   * @returns Created purchase order with _id
+   */
+  static async create(poData: Omit<PurchaseOrder, '_id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder> {
+    try {
+      const savedPo = await new PurchaseOrderModel(poData).save();
+      return savedPo.toObject() as PurchaseOrder;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('This client already has a purchase order with this number');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a purchase order by ID
+   * @param _id - Purchase order ID
+   * @returns Purchase order or null
+   */
+  static async findById(_id: string): Promise<PurchaseOrder | null> {
+    try {
+      const po = await PurchaseOrderModel.findById(_id).lean();
+      return po as PurchaseOrder | null;
+    } catch (error) {
+      console.error('Error finding purchase order by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find purchase orders matching a filter
+   * @param filter - MongoDB filter
+   * @returns Purchase orders, newest first
+   */
+  static async findAll(filter: Record<string, unknown> = {}): Promise<PurchaseOrder[]> {
+    try {
+      const pos = await PurchaseOrderModel.find(filter).sort({ poDate: -1, poNumber: 1 }).lean();
+      return pos as PurchaseOrder[];
+    } catch (error) {
+      console.error('Error finding purchase orders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a purchase order by ID
+   * @param _id - Purchase order ID
+   * @param updates - Fields to update
+   * @returns Updated purchase order
+   */
+  static async update(_id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | null> {
+    try {
+      const updatedPo = await PurchaseOrderModel.findByIdAndUpdate(
+        _id,
+        { $set: updates },
+        { new: true, runValidators: true }
+      ).lean();
+      return updatedPo as PurchaseOrder | null;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('This client already has a purchase order with this number');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a purchase order by ID
+   * @param _id - Purchase order ID
+   * @returns Deleted purchase order
+   */
+  static async delete(_id: string): Promise<PurchaseOrder | null> {
+    try {
+      const deletedPo = await PurchaseOrderModel.findByIdAndDelete(_id).lean();
+      return deletedPo as PurchaseOrder | null;
+    } catch (error) {
+      console.error('Error deleting purchase order:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Quantities billed against purchase order lines
+   * Voided billings do not count.
+   * @param purchaseOrderIds - Purchase orders to total
+   * @param excludeBillingId - Billing to leave out (the one being edited)
+   * @returns Billed quantity keyed by "purchaseOrderId:lineId"
+   */
+  static async getBilledQuantities(purchaseOrderIds: string[], excludeBillingId?: string): Promise<Map<string, number>> {
+    const poObjectIds = purchaseOrderIds.map(id => new mongoose.Types.ObjectId(id));
+    const match: Record<string, unknown> = {
+      status: { $ne: 'Void' },
+      'items.purchaseOrderId': { $in: poObjectIds }
+    };
+    if (excludeBillingId) {
+      match._id = { $ne: new mongoose.Types.ObjectId(excludeBillingId) };
+    }
+
+    const totals = await BillingModel.aggregate([
+      { $match: match },
+      { $unwind: '$items' },
+      { $match: { 'items.purchaseOrderId': { $in: poObjectIds } } },
+      {
+        $group: {
+          _id: { purchaseOrderId: '$items.purchaseOrderId', lineId: '$items.purchaseOrderLineId' },
+          quantity: { $sum: '$items.quantity' }
+        }
+      }
+    ]);
+
+    return new Map(totals.map(total => [lineKey(total._id.purchaseOrderId, total._id.lineId), total.quantity as number]));
+  }
+
+  /**
+   * Attach billed and remaining quantities to purchase orders
+   * @param pos - Purchase orders
+   * @returns Purchase orders with per-line and total fulfillment
+   */
+  static async withFulfillment(pos: PurchaseOrder[]): Promise<PurchaseOrderFulfillment[]> {
+    if (pos.length === 0) return [];
+
+    const billed = await this.getBilledQuantities(pos.map(po => String(po._id)));
+    const round = (amount: number) => Number(amount.toFixed(2));
+
+    return pos.map(po => {
+      const lines = po.lines.map(line => {
+        const billedQuantity = billed.get(lineKey(po._id, line.id)) || 0;
+        return { ...line, billedQuantity, remainingQuantity: line.orderedQuantity - billedQuantity };
+      });
+      const orderedQuantity = lines.reduce((sum, line) => sum + line.orderedQuantity, 0);
+      const billedQuantity = lines.reduce((sum, line) => sum + line.billedQuantity, 0);
+
+      return {
+        ...po,
+        lines,
+        orderedQuantity,
+        billedQuantity,
+        remainingQuantity: orderedQuantity - billedQuantity,
+        orderedAmount: round(lines.reduce((sum, line) => sum + line.orderedQuantity * line.unitPrice, 0)),
+        billedAmount: round(lines.reduce((sum, line) => sum + line.billedQuantity * line.unitPrice, 0)),
+        percentFulfilled: orderedQuantity > 0 ? Math.min(100, Math.round((billedQuantity / orderedQuantity) * 100)) : 0
+      };
+    });
+  }
+
+  /**
+   * Check billing lines that reference purchase orders
+   * Each referenced PO must exist, be open and belong to the billing's client,
+   * and the line must exist on it. Quantities beyond what remains on a PO line
+   * are an error on POs that block over-billing and a warning otherwise.
+   * @param items - Billing lines
+   * @param clientId - Client the billing is for
+   * @param excludeBillingId - Billing being edited (its current lines do not count as billed)
+   */
+  static async checkBillingItems(items: BillingItem[], clientId?: string, excludeBillingId?: string): Promise<PurchaseOrderCheck> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const poItems = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.purchaseOrderId);
+    if (poItems.length === 0) {
+      return { errors, warnings };
+    }
+
+    if (!clientId) {
+      errors.push('Billings against a purchase order must be linked to a client');
+      return { errors, warnings };
+    }
+
+    const poIds = [...new Set(poItems.map(({ item }) => String(item.purchaseOrderId)))];
+    const invalidId = poIds.some(id => !/^[0-9a-fA-F]{24}$/.test(id));
+    const pos = invalidId ? [] : await this.findAll({ _id: { $in: poIds } });
+    const posById = new Map(pos.map(po => [String(po._id), po]));
+
+    // Quantity on this billing per PO line
+    const requested = new Map<string, number>();
+    poItems.forEach(({ item, index }) => {
+      const line = `Item ${index + 1}`;
+      const po = posById.get(String(item.purchaseOrderId));
+      if (!po) {
+        errors.push(`${line}: Purchase order not found`);
+        return;
+      }
+      if (String(po.clientId) !== clientId) {
+        errors.push(`${line}: Purchase order ${po.poNumber} belongs to another client`);
+        return;
+      }
+      if (po.status === 'Closed') {
+        errors.push(`${line}: Purchase order ${po.poNumber} is closed`);
+        return;
+      }
+      if (!item.purchaseOrderLineId || !po.lines.some(poLine => poLine.id === item.purchaseOrderLineId)) {
+        errors.push(`${line}: Line not found on purchase order ${po.poNumber}`);
+        return;
+      }
+      const key = lineKey(po._id, item.purchaseOrderLineId);
+      requested.set(key, (requested.get(key) || 0) + item.quantity);
+    });
+
+    if (requested.size === 0) {
+      return { errors, warnings };
+    }
+
+    const billed = await this.getBilledQuantities([...posById.keys()], excludeBillingId);
+    pos.forEach(po => {
+      po.lines.forEach(poLine => {
+        const key = lineKey(po._id, poLine.id);
+        const quantity = requested.get(key);
+        if (quantity === undefined) return;
+
+        const remaining = poLine.orderedQuantity - (billed.get(key) || 0);
+        if (quantity > remaining) {
+          const message = `PO ${po.poNumber} ${poLine.style}: billing ${quantity} exceeds the ${Math.max(0, remaining)} remaining of ${poLine.orderedQuantity} ordered`;
+          (po.overbillingPolicy === 'Warn' ? warnings : errors).push(message);
+        }
+      });
+    });
+
+    return { errors, warnings };
+  }
+}
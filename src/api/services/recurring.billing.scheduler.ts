@@ -0,0 +1,165 @@
+/**
+ * Recurring Billing Scheduler
+ * Issues due recurring billings from inside the API process
+ */
+
+import { RecurringBilling } from '../models/RecurringBilling.model.js';
+import { UserModel } from '../models/User.model.js';
+import { RecurringBillingService } from './recurring.billing.service.js';
+import { ClientService } from './client.service.js';
+import { createBillingRecord } from '../controllers/billing.controller.js';
+
+/**
+ * What happened to one period
+ * done - billed, or failed in a way retrying will not fix; move on
+ * retry - leave the schedule on this period and try again next pass
+ */
+type PeriodOutcome = 'done' | 'retry';
+
+/**
+ * Recurring Billing Scheduler Class
+ * Checks for due schedules on an interval. Every period between a schedule's
+ * next run date and now is billed in order, so periods missed while the
+ * server was down are caught up on the first pass after it starts.
+ */
+export class RecurringBillingScheduler {
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  /**
+   * Start checking for due schedules
+   * Runs a pass immediately, then every intervalMs.
+   * @param intervalMs - Time between passes
+   */
+  static start(intervalMs: number): void {
+    if (this.timer) return;
+
+    console.log(`[Recurring] Scheduler started (every ${Math.round(intervalMs / 60000)} min)`);
+    this.timer = setInterval(() => this.runDue(), intervalMs);
+    this.runDue();
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Bill every due period of every active schedule
+   * Overlapping passes are skipped.
+   * @param now - Bill periods dated up to this time
+   * @returns Number of billings created
+   */
+  static async runDue(now: Date = new Date()): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    let created = 0;
+    try {
+      const schedules = await RecurringBillingService.findDue(now);
+
+      for (const dueSchedule of schedules) {
+        let schedule: RecurringBilling | null = dueSchedule;
+
+        while (
+          schedule &&
+          new Date(schedule.nextRunDate) <= now &&
+          (!schedule.endDate || new Date(schedule.nextRunDate) <= new Date(schedule.endDate))
+        ) {
+          const { outcome, billed } = await this.runPeriod(schedule);
+          if (billed) created++;
+          if (outcome === 'retry') break;
+          schedule = await RecurringBillingService.advance(schedule);
+        }
+      }
+    } catch (error) {
+      console.error('[Recurring] Scheduler pass failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    if (created > 0) {
+      console.log(`[Recurring] Created ${created} billing(s)`);
+    }
+    return created;
+  }
+
+  /**
+   * Bill one period of a schedule through the regular create pipeline
+   * @param schedule - Schedule positioned on the period to bill
+   */
+  private static async runPeriod(schedule: RecurringBilling): Promise<{ outcome: PeriodOutcome; billed: boolean }> {
+    const scheduleId = String(schedule._id);
+    const scheduledFor = new Date(schedule.nextRunDate);
+
+    const run = await RecurringBillingService.claimRun(scheduleId, scheduledFor);
+    if (!run) {
+      // Already billed, or another pass is billing it right now
+      const existingRun = await RecurringBillingService.findRun(scheduleId, scheduledFor);
+      return { outcome: existingRun?.status === 'Created' ? 'done' : 'retry', billed: false };
+    }
+
+    const runId = String(run._id);
+    try {
+      const [client, owner] = await Promise.all([
+        ClientService.findById(String(schedule.clientId)),
+        UserModel.findById(schedule.createdBy).lean()
+      ]);
+
+      if (!client || !owner) {
+        await RecurringBillingService.finishRun(runId, {
+          status: 'Failed',
+          error: !client ? 'Client no longer exists' : 'Schedule owner no longer exists'
+        });
+        return { outcome: 'done', billed: false };
+      }
+
+      const result = await createBillingRecord(
+        {
+          billingDate: scheduledFor.toISOString(),
+          clientId: String(client._id),
+          companyName: client.companyName,
+          address: client.address,
+          contactNumber: client.contactNumber,
+          attentionPerson: client.attentionPerson,
+          clientEmail: client.clientEmail,
+          items: schedule.items.map(item => ({ ...item, lineTotal: 0 })),
+          discount: schedule.discount,
+          vatMode: schedule.vatMode,
+          withholdingRate: schedule.withholdingRate,
+          paymentTerms: schedule.paymentTerms,
+          customTermDays: schedule.customTermDays
+        },
+        { userId: String(owner._id), email: owner.email, role: owner.role },
+        { sendEmail: schedule.autoSend }
+      );
+
+      if (result.status === 201 && result.body.data) {
+        await RecurringBillingService.finishRun(runId, {
+          status: 'Created',
+          billingId: result.body.data._id,
+          billingNumber: result.body.data.billingNumber,
+          warnings: result.body.warnings
+        });
+        console.log(`[Recurring] ${schedule.name}: created ${result.body.data.billingNumber} for ${scheduledFor.toDateString()}`);
+        return { outcome: 'done', billed: true };
+      }
+
+      // Validation problems will not go away on their own; server errors might
+      const error = result.body.errors?.join('; ') || String(result.body.error || result.body.message);
+      await RecurringBillingService.finishRun(runId, { status: 'Failed', error });
+      console.error(`[Recurring] ${schedule.name}: billing for ${scheduledFor.toDateString()} failed: ${error}`);
+      return { outcome: result.status >= 500 ? 'retry' : 'done', billed: false };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await RecurringBillingService.finishRun(runId, { status: 'Failed', error: message });
+      console.error(`[Recurring] ${schedule.name}: billing for ${scheduledFor.toDateString()} failed:`, error);
+      return { outcome: 'retry', billed: false };
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Recurring Billing Service
+ * Database operations for recurring billing schedules and their runs
+ */
+
+import {
+  RecurringBilling,
+  RecurringBillingModel,
+  RecurringFrequency
+} from '../models/RecurringBilling.model.js';
+import { RecurringBillingRun, RecurringBillingRunModel } from '../models/RecurringBillingRun.model.js';
+
+/** A run still marked Running after this long is assumed to have crashed */
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * Recurring Billing Service Class
+ * Handles all database operations for recurring billings
+ */
+export class RecurringBillingService {
+  /**
+   * Billing date of the nth period of a schedule
+   * Periods fall on the start date's day of the month, or the last day of
+   * shorter months (a schedule starting Jan 31 bills Feb 28, then Mar 31).
+   * @param startDate - First billing date
+   * @param frequency - Monthly or Quarterly
+   * @param occurrence - Period index, 0 for the start date
+   */
+  static getRunDate(startDate: Date, frequency: RecurringFrequency, occurrence: number): Date {
+    const start = new Date(startDate);
+    const months = occurrence * (frequency === 'Quarterly' ? 3 : 1);
+    const runDate = new Date(start);
+    runDate.setDate(1);
+    runDate.setMonth(start.getMonth() + months);
+    const daysInMonth = new Date(runDate.getFullYear(), runDate.getMonth() + 1, 0).getDate();
+    runDate.setDate(Math.min(start.getDate(), daysInMonth));
+    return runDate;
+  }
+
+  /**
+   * Index of the first period on or after a date
+   * @param startDate - First billing date
+   * @param frequency - Monthly or Quarterly
+   * @param from - Earliest billing date wanted
+   */
+  static getFirstOccurrenceFrom(startDate: Date, frequency: RecurringFrequency, from: Date): number {
+    let occurrence = 0;
+    while (this.getRunDate(startDate, frequency, occurrence) < from) {
+      occurrence++;
+    }
+    return occurrence;
+  }
+
+  /**
+   * Create a recurring billing
+   * @param data - Schedule without its run position
+   * @returns Created recurring billing with _id
+   */
+  static async create(
+    data: Omit<RecurringBilling, '_id' | 'occurrence' | 'nextRunDate' | 'lastRunAt' | 'createdAt' | 'updatedAt'>
+  ): Promise<RecurringBilling> {
+    const savedSchedule = await new RecurringBillingModel({
+      ...data,
+      occurrence: 0,
+      nextRunDate: this.getRunDate(data.startDate, data.frequency, 0)
+    }).save();
+    return savedSchedule.toObject() as RecurringBilling;
+  }
+
+  /**
+   * Find a recurring billing by ID
+   * @param _id - Recurring billing ID
+   * @returns Recurring billing or null
+   */
+  static async findById(_id: string): Promise<RecurringBilling | null> {
+    try {
+      if (!/^[0-9a-fA-F]{24}$/.test(_id)) return null;
+      const schedule = await RecurringBillingModel.findById(_id).lean();
+      return schedule as RecurringBilling | null;
+    } catch (error) {
+      console.error('Error finding recurring billing by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find recurring billings matching a filter
+   * @param filter - MongoDB filter
+   * @returns Recurring billings, next due first
+   */
+  static async findAll(filter: Record<string, unknown> = {}): Promise<RecurringBilling[]> {
+    try {
+      const schedules = await RecurringBillingModel.find(filter).sort({ nextRunDate: 1, name: 1 }).lean();
+      return schedules as RecurringBilling[];
+    } catch (error) {
+      console.error('Error finding recurring billings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find active recurring billings with a period due
+   * @param now - Current time
+   * @returns Due schedules (the end date is checked by the caller)
+   */
+  static async findDue(now: Date): Promise<RecurringBilling[]> {
+    const schedules = await RecurringBillingModel.find({
+      isActive: true,
+      nextRunDate: { $lte: now }
+    }).sort({ nextRunDate: 1 }).lean();
+    return schedules as RecurringBilling[];
+  }
+
+  /**
+   * Update a recurring billing by ID
+   * @param _id - Recurring billing ID
+   * @param updates - Fields to update
+   * @returns Updated recurring billing
+   */
+  static async update(_id: string, updates: Partial<RecurringBilling>): Promise<RecurringBilling | null> {
+    const updatedSchedule = await RecurringBillingModel.findByIdAndUpdate(
+      _id,
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).lean();
+    return updatedSchedule as RecurringBilling | null;
+  }
+
+  /**
+   * Move a schedule on to its next period
+   * Only succeeds if no one else has advanced it since it was read.
+   * @param schedule - Schedule as last read
+   * @returns Updated schedule, or null if it had already moved on
+   */
+  static async advance(schedule: RecurringBilling): Promise<RecurringBilling | null> {
+    const occurrence = schedule.occurrence + 1;
+    const advancedSchedule = await RecurringBillingModel.findOneAndUpdate(
+      { _id: schedule._id, occurrence: schedule.occurrence },
+      {
+        $set: {
+          occurrence,
+          nextRunDate: this.getRunDate(schedule.startDate, schedule.frequency, occurrence),
+          lastRunAt: new Date()
+        }
+      },
+      { new: true }
+    ).lean();
+    return advancedSchedule as RecurringBilling | null;
+  }
+
+  /**
+   * Delete a recurring billing and its run history
+   * Billings it already created are kept.
+   * @param _id - Recurring billing ID
+   * @returns Deleted recurring billing
+   */
+  static async delete(_id: string): Promise<RecurringBilling | null> {
+    try {
+      const deletedSchedule = await RecurringBillingModel.findByIdAndDelete(_id).lean();
+      if (deletedSchedule) {
+        await RecurringBillingRunModel.deleteMany({ recurringBillingId: _id });
+      }
+      return deletedSchedule as RecurringBilling | null;
+    } catch (error) {
+      console.error('Error deleting recurring billing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Claim a period for billing
+   * A period that has never run is claimed by inserting its run; a failed or
+   * stale run is claimed again. A period that is already billed or being
+   * billed elsewhere is not.
+   * @param recurringBillingId - Recurring billing ID
+   * @param scheduledFor - Billing date of the period
+   * @returns The claimed run, or null if it cannot be claimed
+   */
+  static async claimRun(recurringBillingId: string, scheduledFor: Date): Promise<RecurringBillingRun | null> {
+    const startedAt = new Date();
+    try {
+      const run = await new RecurringBillingRunModel({
+        recurringBillingId,
+        scheduledFor,
+        status: 'Running',
+        attempts: 1,
+        startedAt
+      }).save();
+      return run.toObject() as RecurringBillingRun;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+    }
+
+    const run = await RecurringBillingRunModel.findOneAndUpdate(
+      {
+        recurringBillingId,
+        scheduledFor,
+        $or: [
+          { status: 'Failed' },
+          { status: 'Running', startedAt: { $lt: new Date(startedAt.getTime() - STALE_RUN_MS) } }
+        ]
+      },
+      { $set: { status: 'Running', startedAt }, $inc: { attempts: 1 }, $unset: { error: 1, finishedAt: 1 } },
+      { new: true }
+    ).lean();
+    return run as RecurringBillingRun | null;
+  }
+
+  /**
+   * Find the run of a period
+   * @param recurringBillingId - Recurring billing ID
+   * @param scheduledFor - Billing date of the period
+   * @returns Run or null
+   */
+  static async findRun(recurringBillingId: string, scheduledFor: Date): Promise<RecurringBillingRun | null> {
+    const run = await RecurringBillingRunModel.findOne({ recurringBillingId, scheduledFor }).lean();
+    return run as RecurringBillingRun | null;
+  }
+
+  /**
+   * Record the outcome of a claimed run
+   * @param runId - Run ID
+   * @param outcome - Created with the billing, or Failed with the error
+   */
+  static async finishRun(
+    runId: string,
+    outcome: Pick<RecurringBillingRun, 'status' | 'billingId' | 'billingNumber' | 'error' | 'warnings'>
+  ): Promise<void> {
+    await RecurringBillingRunModel.updateOne(
+      { _id: runId },
+      { $set: { ...outcome, finishedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Run history of a recurring billing
+   * @param recurringBillingId - Recurring billing ID
+   * @param limit - Most recent runs to return
+   * @returns Runs, latest period first
+   */
+  static async findRuns(recurringBillingId: string, limit = 50): Promise<RecurringBillingRun[]> {
+    try {
+      const runs = await RecurringBillingRunModel.find({ recurringBillingId })
+        .sort({ scheduledFor: -1 })
+        .limit(limit)
+        .lean();
+      return runs as RecurringBillingRun[];
+    } catch (error) {
+      console.error('Error finding recurring billing runs:', error);
+      return [];
+    }
+  }
+}
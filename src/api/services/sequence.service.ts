@@ -0,0 +1,174 @@
+/**
+ * Sequence Service
+ * Issues document numbers from persistent, atomically incremented counters
+ */
+
+import { CounterModel } from '../models/Counter.model.js';
+
+/**
+ * Current state of a sequence counter
+ */
+export interface SequenceState {
+  prefix: string;
+  period: string;
+  sequence: number;
+  nextNumber: string;
+}
+
+/**
+ * Sequence Service Class
+ * Document numbers have the format PREFIX-YYYYMM-NNN and restart at 001 every month
+ */
+export class SequenceService {
+  /** Prefix used for billing numbers */
+  static readonly BILLING_PREFIX = 'SEW';
+
+  /** Prefix used for credit memo numbers */
+  static readonly CREDIT_MEMO_PREFIX = 'CM';
+
+  /** Prefix used for delivery receipt numbers */
+  static readonly DELIVERY_RECEIPT_PREFIX = 'DR';
+
+  /**
+   * Get the sequence period (YYYYMM) for a date
+   * @param date - Date to derive the period from
+   * @returns Period string (e.g. "202601")
+   */
+  static getPeriod(date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${year}${month}`;
+  }
+
+  /**
+   * Format a document number
+   * @returns Document number (e.g. "SEW-202601-001")
+   */
+  static formatNumber(prefix: string, period: string, sequence: number): string {
+    return `${prefix}-${period}-${String(sequence).padStart(3, '0')}`;
+  }
+
+  /**
+   * Parse a document number into its parts
+   * @returns Parsed parts or null if the number does not follow the format
+   */
+  static parseNumber(documentNumber: string): { prefix: string; period: string; sequence: number } | null {
+    const match = /^([A-Z]+)-(\d{6})-(\d+)$/.exec(documentNumber);
+    if (!match) {
+      return null;
+    }
+    return {
+      prefix: match[1],
+      period: match[2],
+      sequence: parseInt(match[3], 10)
+    };
+  }
+
+  /**
+   * Issue the next number for a prefix
+   * The increment is a single atomic findOneAndUpdate, so concurrent requests
+   * never receive the same number. A new counter is created on the first
+   * request of each month.
+   * @param prefix - Document number prefix
+   * @param date - Date that determines the period (defaults to now)
+   * @returns Newly issued document number
+   */
+  static async next(prefix: string, date: Date = new Date()): Promise<string> {
+    const period = this.getPeriod(date);
+
+    // Two concurrent upserts of a new month's counter can race on the unique
+    // index; the loser retries and increments the counter created by the winner.
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const counter = await CounterModel.findOneAndUpdate(
+          { prefix, period },
+          { $inc: { sequence: 1 } },
+          { new: true, upsert: true, setDefaultsOnInsert: true }
+        ).lean();
+
+        return this.formatNumber(prefix, period, counter!.sequence);
+      } catch (error: any) {
+        if (error.code === 11000 && attempt === 0) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error(`Unable to issue a number for sequence ${prefix}-${period}`);
+  }
+
+  /**
+   * Give back a number that was issued but never used (e.g. the save failed)
+   * The counter is only decremented if no later number has been issued since,
+   * which keeps the sequence gap-free without ever reusing a taken number.
+   * @param documentNumber - Number to release
+   * @returns True if the counter was rolled back
+   */
+  static async release(documentNumber: string): Promise<boolean> {
+    const parsed = this.parseNumber(documentNumber);
+    if (!parsed) {
+      return false;
+    }
+
+    try {
+      const result = await CounterModel.updateOne(
+        { prefix: parsed.prefix, period: parsed.period, sequence: parsed.sequence },
+        { $inc: { sequence: -1 } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error releasing sequence number:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the current state of a counter
+   * @param prefix - Document number prefix
+   * @param period - Period in YYYYMM format (defaults to the current month)
+   */
+  static async getState(prefix: string, period: string = this.getPeriod()): Promise<SequenceState> {
+    const counter = await CounterModel.findOne({ prefix, period }).lean();
+    const sequence = counter?.sequence ?? 0;
+
+    return {
+      prefix,
+      period,
+      sequence,
+      nextNumber: this.formatNumber(prefix, period, sequence + 1)
+    };
+  }
+
+  /**
+   * Raise a counter to at least a value, never lowering it
+   * Used after numbers were assigned outside the counter (e.g. imported).
+   * @param prefix - Document number prefix
+   * @param period - Period in YYYYMM format
+   * @param sequence - Sequence number that must count as issued
+   */
+  static async advanceTo(prefix: string, period: string, sequence: number): Promise<void> {
+    await CounterModel.updateOne(
+      { prefix, period },
+      { $max: { sequence } },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Set a counter to a specific value
+   * The next issued number will be sequence + 1.
+   * @param prefix - Document number prefix
+   * @param period - Period in YYYYMM format
+   * @param sequence - Last sequence number considered issued
+   */
+  static async reseed(prefix: string, period: string, sequence: number): Promise<SequenceState> {
+    await CounterModel.findOneAndUpdate(
+      { prefix, period },
+      { $set: { sequence } },
+      { upsert: true, runValidators: true }
+    );
+
+    return this.getState(prefix, period);
+  }
+}
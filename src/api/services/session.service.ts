@@ -0,0 +1,163 @@
+/**
+ * Session Service
+ * Database operations for sign-in sessions and their refresh tokens
+ */
+
+import crypto from 'crypto';
+import { Session, SessionModel, SessionRevokeReason } from '../models/Session.model.js';
+import { securityConfig } from '../../config/index.js';
+
+/**
+ * A rotated refresh token presented this soon after rotation is taken to be a
+ * request that raced the rotation (e.g. two tabs refreshing at once) rather
+ * than a stolen token, so it is refused without ending the session
+ */
+const REUSE_GRACE_MS = 10 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const isObjectId = (id: string): boolean => /^[0-9a-fA-F]{24}$/.test(id);
+
+/**
+ * Where a session was started from, shown in the session list
+ */
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Session Service Class
+ * Handles all database operations for sessions
+ */
+export class SessionService {
+  /**
+   * Start a session for a user who has just signed in
+   * @returns The session and its refresh token (only its hash is stored)
+   */
+  static async create(userId: string, client: SessionClient = {}): Promise<{ session: Session; refreshToken: string }> {
+    const refreshToken = newRefreshToken();
+    const now = new Date();
+
+    const session = await SessionModel.create({
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent?.slice(0, 500),
+      ipAddress: client.ipAddress,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + securityConfig.refreshTokenTtlDays * DAY_MS)
+    });
+
+    return { session: session.toObject(), refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * Each refresh token works once. Presenting one that was already replaced
+   * ends the session, as someone else may hold a copy of it.
+   * @returns The session and its new refresh token, or null if the token is
+   * unknown, expired or revoked
+   */
+  static async rotate(refreshToken: string): Promise<{ session: Session; refreshToken: string } | null> {
+    const tokenHash = hashToken(refreshToken);
+    const nextToken = newRefreshToken();
+    const now = new Date();
+
+    const session = await SessionModel.findOneAndUpdate(
+      { refreshTokenHash: tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      {
+        $set: {
+          refreshTokenHash: hashToken(nextToken),
+          previousRefreshTokenHash: tokenHash,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + securityConfig.refreshTokenTtlDays * DAY_MS)
+        }
+      },
+      { new: true }
+    ).lean<Session>();
+
+    if (session) {
+      return { session, refreshToken: nextToken };
+    }
+
+    const replaced = await SessionModel.findOne({
+      previousRefreshTokenHash: tokenHash,
+      revokedAt: { $exists: false }
+    }).lean<Session>();
+
+    if (replaced && now.getTime() - new Date(replaced.lastUsedAt).getTime() > REUSE_GRACE_MS) {
+      console.warn(`Refresh token reused for session ${replaced._id}; ending the session`);
+      await this.revoke(String(replaced._id), 'reuse');
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a session may still be used
+   */
+  static async isActive(sessionId: string): Promise<boolean> {
+    if (!isObjectId(sessionId)) return false;
+
+    const session = await SessionModel.exists({
+      _id: sessionId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    });
+    return !!session;
+  }
+
+  /**
+   * Get the sessions a user is signed in with, most recently used first
+   * Token hashes are left out.
+   */
+  static async findActiveByUser(userId: string): Promise<Session[]> {
+    return SessionModel.find({ userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .select('-refreshTokenHash -previousRefreshTokenHash')
+      .sort({ lastUsedAt: -1 })
+      .lean<Session[]>();
+  }
+
+  /**
+   * End a session
+   * @param userId - Only end the session if it belongs to this user
+   * @returns Whether an active session was ended
+   */
+  static async revoke(sessionId: string, reason: SessionRevokeReason, userId?: string): Promise<boolean> {
+    if (!isObjectId(sessionId)) return false;
+
+    const result = await SessionModel.updateOne(
+      { _id: sessionId, ...(userId ? { userId } : {}), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * @returns Whether an active session was ended
+   */
+  static async revokeByRefreshToken(refreshToken: string, reason: SessionRevokeReason): Promise<boolean> {
+    const result = await SessionModel.updateOne(
+      { refreshTokenHash: hashToken(refreshToken), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * End every session of a user
+   * @returns Number of sessions ended
+   */
+  static async revokeAllForUser(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const result = await SessionModel.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Spreadsheet Writers
+ * Stream rows to CSV or to an XLSX workbook. Both take the same column
+ * definitions so a report can be offered in either format.
+ */
+
+import { Writable } from 'stream';
+import { ZipWriter, writeChunk } from './zip.writer.js';
+
+export type CellValue = string | number | Date | null | undefined;
+
+/**
+ * How a column is written
+ * - text: as typed
+ * - number: plain number
+ * - money: number with two decimals
+ * - date: calendar date (YYYY-MM-DD in CSV, a date cell in XLSX)
+ */
+export type ColumnFormat = 'text' | 'number' | 'money' | 'date';
+
+export interface SpreadsheetColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+  format?: ColumnFormat;
+  /** Column width in characters (XLSX only) */
+  width?: number;
+}
+
+export type SpreadsheetRows<T> = Iterable<T> | AsyncIterable<T>;
+
+/** Spreadsheet apps run text starting with these as formulas */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toDateString = (value: Date): string => value.toISOString().slice(0, 10);
+
+/**
+ * Normalize a cell to a string, number or date for its column
+ */
+const toCell = (value: CellValue, format: ColumnFormat = 'text'): string | number | Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (format === 'date') {
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (format === 'number' || format === 'money') {
+    const number = typeof value === 'number' ? value : Number(value);
+    return isNaN(number) ? null : number;
+  }
+  return value instanceof Date ? toDateString(value) : String(value);
+};
+
+/**
+ * Writes rows as CSV (RFC 4180), with a byte order mark so Excel reads UTF-8
+ */
+export class CsvWriter {
+  private started = false;
+
+  constructor(private readonly output: Writable) {}
+
+  /**
+   * Write a header row and then every row
+   */
+  async writeRows<T>(columns: SpreadsheetColumn<T>[], rows: SpreadsheetRows<T>): Promise<void> {
+    await this.writeLine(columns.map(column => column.header));
+    for await (const row of rows) {
+      await this.writeLine(columns.map(column => column.value(row)), columns);
+    }
+  }
+
+  /**
+   * End the output stream
+   */
+  finish(): void {
+    this.output.end();
+  }
+
+  private async writeLine<T>(values: CellValue[], columns?: SpreadsheetColumn<T>[]): Promise<void> {
+    const line = values.map((value, index) => this.escape(toCell(value, columns?.[index].format), columns?.[index].format)).join(',');
+    const chunk = `${this.started ? '' : '\uFEFF'}${line}\r\n`;
+    this.started = true;
+
+    await writeChunk(this.output, chunk);
+  }
+
+  private escape(cell: string | number | Date | null, format?: ColumnFormat): string {
+    if (cell === null) return '';
+    if (cell instanceof Date) return toDateString(cell);
+    if (typeof cell === 'number') return format === 'money' ? cell.toFixed(2) : String(cell);
+
+    const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+/**
+ * Control characters other than tab and newlines are not allowed in XML
+ */
+const isXmlCharacter = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (text: string): string =>
+  Array.from(text).filter(isXmlCharacter).join('').replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+
+/** Excel counts days from 1899-12-30 */
+const toExcelDate = (date: Date): number => date.getTime() / 86400000 + 25569;
+
+/**
+ * Cell style indexes into the stylesheet written by XlsxWriter
+ */
+const STYLE = { header: 1, date: 2, money: 3 } as const;
+
+const STYLESHEET = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+/**
+ * Column letters for a zero-based index (0 = A, 26 = AA)
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Writes an XLSX workbook, streaming each sheet as it is added
+ * Strings are written inline, so no shared string table has to be kept.
+ */
+export class XlsxWriter {
+  private readonly zip: ZipWriter;
+  private sheetNames: string[] = [];
+
+  constructor(output: Writable) {
+    this.zip = new ZipWriter(output);
+  }
+
+  /**
+   * Add a sheet with a bold header row
+   * @param name - Sheet tab name (trimmed to Excel's 31 characters)
+   */
+  async addSheet<T>(name: string, columns: SpreadsheetColumn<T>[], rows: SpreadsheetRows<T>): Promise<void> {
+    const sheetName = this.uniqueSheetName(name);
+    this.sheetNames.push(sheetName);
+
+    await this.zip.addEntry(`xl/worksheets/sheet${this.sheetNames.length}.xml`, this.sheetXml(columns, rows));
+  }
+
+  /**
+   * Write the workbook parts and end the output stream
+   */
+  async finish(): Promise<void> {
+    const sheets = this.sheetNames.map((_name, index) => index + 1);
+
+    await this.zip.addEntry('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map(n => `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`);
+
+    await this.zip.addEntry('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+
+    await this.zip.addEntry('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>
+${this.sheetNames.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('\n')}
+</sheets>
+</workbook>`);
+
+    await this.zip.addEntry('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map(n => `<Relationship Id="rId${n}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${n}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`);
+
+    await this.zip.addEntry('xl/styles.xml', STYLESHEET);
+
+    await this.zip.finish();
+  }
+
+  private async *sheetXml<T>(columns: SpreadsheetColumn<T>[], rows: SpreadsheetRows<T>): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + `<cols>${columns.map((column, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(10, column.header.length + 2)}" customWidth="1"/>`
+      ).join('')}</cols>`
+      + '<sheetData>';
+
+    yield this.rowXml(1, columns.map(column => column.header), columns.map(() => 'text' as const), STYLE.header);
+
+    let rowNumber = 1;
+    for await (const row of rows) {
+      rowNumber++;
+      yield this.rowXml(rowNumber, columns.map(column => column.value(row)), columns.map(column => column.format ?? 'text'));
+    }
+
+    yield '</sheetData></worksheet>';
+  }
+
+  private rowXml(rowNumber: number, values: CellValue[], formats: ColumnFormat[], style?: number): string {
+    const cells = values.map((value, index) => {
+      const cell = toCell(value, formats[index]);
+      if (cell === null) return '';
+
+      const ref = `${columnName(index)}${rowNumber}`;
+      if (cell instanceof Date) {
+        return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelDate(cell)}</v></c>`;
+      }
+      if (typeof cell === 'number') {
+        const numberStyle = formats[index] === 'money' ? ` s="${STYLE.money}"` : '';
+        return `<c r="${ref}"${numberStyle}><v>${cell}</v></c>`;
+      }
+      const textStyle = style ? ` s="${style}"` : '';
+      return `<c r="${ref}" t="inlineStr"${textStyle}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  }
+
+  /**
+   * Excel rejects duplicate names, names over 31 characters and []:*?/\
+   */
+  private uniqueSheetName(name: string): string {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let sheetName = base;
+    for (let n = 2; this.sheetNames.some(existing => existing.toLowerCase() === sheetName.toLowerCase()); n++) {
+      sheetName = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    return sheetName;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Statement Service
+ * Builds a client's Statement of Account from their open billings and payments
+ */
+
+import mongoose from 'mongoose';
+import { BillingModel } from '../models/Billing.model.js';
+import { PaymentModel } from '../models/Payment.model.js';
+import { Client } from '../models/Client.model.js';
+
+/**
+ * One billing on a statement
+ */
+export interface StatementLine {
+  billingNumber: string;
+  billingDate: Date;
+  dueDate?: Date;
+  deliveryReceiptNumber?: string;
+  /** Grand total of the billing */
+  amount: number;
+  /** Payments received against the billing */
+  payments: number;
+  /** Credit memos issued against the billing */
+  credits: number;
+  /** Amount still owed on the billing */
+  balance: number;
+  /** Cumulative balance up to and including this billing */
+  runningBalance: number;
+}
+
+/**
+ * Statement of Account data used for the PDF and email
+ */
+export interface StatementOfAccount {
+  client: Client;
+  from?: Date;
+  to?: Date;
+  statementDate: Date;
+  lines: StatementLine[];
+  totals: {
+    amount: number;
+    payments: number;
+    credits: number;
+    balance: number;
+  };
+}
+
+/**
+ * Statement Service Class
+ */
+export class StatementService {
+  /**
+   * Build the statement for a client
+   * @param client - Client master record
+   * @param from - Only include billings dated on or after this date
+   * @param to - Only include billings dated on or before this date
+   * @param createdBy - Restrict to billings created by this user (non-admins)
+   * @returns Open billings oldest first with a running balance
+   */
+  static async build(client: Client, from?: Date, to?: Date, createdBy?: string): Promise<StatementOfAccount> {
+    const filter: any = { clientId: client._id };
+
+    if (from || to) {
+      filter.billingDate = {};
+      if (from) filter.billingDate.$gte = from;
+      if (to) filter.billingDate.$lte = to;
+    }
+
+    if (createdBy) {
+      filter.createdBy = createdBy;
+    }
+
+    const billings = await BillingModel.find(filter)
+      .sort({ billingDate: 1, billingNumber: 1 })
+      .lean();
+
+    // Billings from before the payment ledger have no balanceDue; treat them as unpaid
+    const openBillings = billings.filter(billing =>
+      billing.status !== 'Void' && (billing.balanceDue ?? billing.grandTotal) > 0
+    );
+
+    const paymentTotals = await PaymentModel.aggregate([
+      { $match: { billingId: { $in: openBillings.map(billing => new mongoose.Types.ObjectId(String(billing._id))) } } },
+      { $group: { _id: '$billingId', total: { $sum: '$amount' } } }
+    ]);
+    const paidByBilling = new Map(paymentTotals.map(item => [String(item._id), item.total as number]));
+
+    let runningBalance = 0;
+    const lines: StatementLine[] = openBillings.map(billing => {
+      const payments = Number((paidByBilling.get(String(billing._id)) || 0).toFixed(2));
+      const credits = billing.amountCredited ?? 0;
+      const balance = Number((billing.grandTotal - payments - credits).toFixed(2));
+      runningBalance = Number((runningBalance + balance).toFixed(2));
+
+      return {
+        billingNumber: billing.billingNumber,
+        billingDate: billing.billingDate,
+        dueDate: billing.dueDate,
+        deliveryReceiptNumber: billing.deliveryReceiptNumber,
+        amount: billing.grandTotal,
+        payments,
+        credits,
+        balance,
+        runningBalance
+      };
+    });
+
+    const totals = lines.reduce((sum, line) => ({
+      amount: Number((sum.amount + line.amount).toFixed(2)),
+      payments: Number((sum.payments + line.payments).toFixed(2)),
+      credits: Number((sum.credits + line.credits).toFixed(2)),
+      balance: Number((sum.balance + line.balance).toFixed(2))
+    }), { amount: 0, payments: 0, credits: 0, balance: 0 });
+
+    return {
+      client,
+      from,
+      to,
+      statementDate: new Date(),
+      lines,
+      totals
+    };
+  }
+}
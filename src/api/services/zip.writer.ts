@@ -0,0 +1,168 @@
+/**
+ * Zip Writer
+ * Streams a ZIP archive to a writable stream one entry at a time, so large
+ * exports never have to be held in memory. Entries are deflated; sizes are
+ * written after each entry's data, as the archive is not seekable.
+ * ZIP64 is not supported, so entries and the archive must stay under 4 GB.
+ */
+
+import zlib from 'zlib';
+import { once } from 'events';
+import { Writable } from 'stream';
+
+/**
+ * Contents of an entry: a buffer or string, or chunks produced over time
+ */
+export type ZipEntrySource = Buffer | string | Iterable<Buffer | string> | AsyncIterable<Buffer | string>;
+
+interface ZipEntryRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/** Sizes follow the data (bit 3); names are UTF-8 (bit 11) */
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+/**
+ * Date and time of an entry in MS-DOS format
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Write to a stream, waiting while it is backed up
+ * @throws If the stream was closed, e.g. by a client that disconnected
+ */
+export async function writeChunk(output: Writable, chunk: Buffer | string): Promise<void> {
+  if (output.destroyed) {
+    throw new Error('Output stream was closed before writing finished');
+  }
+  if (!output.write(chunk)) {
+    // A closed stream never drains
+    await new Promise<void>(resolve => {
+      const done = () => {
+        output.off('drain', done);
+        output.off('close', done);
+        resolve();
+      };
+      output.on('drain', done);
+      output.on('close', done);
+    });
+  }
+}
+
+export class ZipWriter {
+  private entries: ZipEntryRecord[] = [];
+  private offset = 0;
+  private readonly modified = toDosDateTime(new Date());
+
+  constructor(private readonly output: Writable) {}
+
+  /**
+   * Add a file to the archive
+   * Entries are written in the order they are added; wait for each to finish.
+   * @param name - Path inside the archive (forward slashes)
+   * @param source - File contents
+   */
+  async addEntry(name: string, source: ZipEntrySource): Promise<void> {
+    const entry: ZipEntryRecord = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    // CRC and sizes (14-25) are left zero and sent in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = zlib.createDeflateRaw();
+    const compressed = (async () => {
+      for await (const chunk of deflate) {
+        entry.compressedSize += chunk.length;
+        await this.write(chunk);
+      }
+    })().catch(error => {
+      // Stop feeding the compressor once the output has failed
+      deflate.destroy(error);
+      throw error;
+    });
+    // Awaited after the input is written; until then failures surface through the compressor
+    compressed.catch(() => undefined);
+
+    const chunks = typeof source === 'string' || Buffer.isBuffer(source) ? [source] : source;
+    for await (const chunk of chunks) {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+      entry.crc = zlib.crc32(data, entry.crc);
+      entry.size += data.length;
+      if (!deflate.write(data)) {
+        await once(deflate, 'drain');
+      }
+    }
+    deflate.end();
+    await compressed;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory and end the output stream
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc >>> 0, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    this.output.end();
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.output, chunk);
+  }
+}
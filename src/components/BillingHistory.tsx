@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { History, FilePlus, FileUp, Pencil, Mail, Download, Ban, BellRing, Banknote, Undo2, ReceiptText, Loader2, LucideIcon } from 'lucide-react';
+import { Card, CardContent } from './ui/Card';
+import { cn } from '../lib/utils';
+import { BillingApiService, BillingAuditEntry } from '../services/billing.api.service';
+
+interface BillingHistoryProps {
+  /** Billing number or ID */
+  billingId: string;
+}
+
+const actionStyles: Record<BillingAuditEntry['action'], { label: string; icon: LucideIcon; className: string }> = {
+  create: { label: 'Created', icon: FilePlus, className: 'bg-blue-100 text-blue-700' },
+  update: { label: 'Updated', icon: Pencil, className: 'bg-yellow-100 text-yellow-700' },
+  email: { label: 'Emailed', icon: Mail, className: 'bg-green-100 text-green-700' },
+  download: { label: 'Downloaded', icon: Download, className: 'bg-gray-100 text-gray-700' },
+  void: { label: 'Voided', icon: Ban, className: 'bg-red-100 text-red-700' },
+  reminder: { label: 'Reminder Sent', icon: BellRing, className: 'bg-amber-100 text-amber-700' },
+  import: { label: 'Imported', icon: FileUp, className: 'bg-indigo-100 text-indigo-700' },
+  payment: { label: 'Payment Recorded', icon: Banknote, className: 'bg-emerald-100 text-emerald-700' },
+  'payment-delete': { label: 'Payment Deleted', icon: Undo2, className: 'bg-orange-100 text-orange-700' },
+  'credit-memo': { label: 'Credit Memo Issued', icon: ReceiptText, className: 'bg-teal-100 text-teal-700' }
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+/**
+ * "grandTotal" -> "Grand Total"
+ */
+const formatField = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'string' && ISO_DATE.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+};
+
+export function BillingHistory({ billingId }: BillingHistoryProps) {
+  const [entries, setEntries] = useState<BillingAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await BillingApiService.getBillingHistory(billingId);
+        if (response.success && response.data) {
+          setEntries(response.data);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [billingId]);
+
+  return <Card className="shadow-lg print:hidden">
+      <CardContent className="p-6 space-y-5">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-bold text-gray-900">History</h2>
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {!isLoading && entries.length > 0 && (
+          <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+            {entries.map(entry => {
+              const style = actionStyles[entry.action];
+              const Icon = style.icon;
+
+              return <li key={entry._id} className="ml-6">
+                  <span className={cn('absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white', style.className)}>
+                    <Icon className="h-3 w-3" />
+                  </span>
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="text-sm font-semibold text-gray-900">{style.label}</span>
+                    <span className="text-sm text-gray-600">by {entry.actor?.name || 'System'}</span>
+                    <span className="text-xs text-gray-400">{new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  {/* A new billing's "diff" is every field; only show changes to existing billings */}
+                  {entry.action !== 'create' && entry.action !== 'import' && entry.changes.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {entry.changes.map(change => (
+                        <li key={change.field} className="text-gray-600">
+                          <span className="font-medium text-gray-700">{formatField(change.field)}:</span>{' '}
+                          <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+                          {' → '}
+                          <span className="text-gray-900">{formatValue(change.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>;
+            })}
+          </ol>
+        )}
+
+        {!isLoading && !error && entries.length === 0 && (
+          <p className="text-sm text-gray-500">No recorded activity yet.</p>
+        )}
+      </CardContent>
+    </Card>;
+}
@@ -1,18 +1,72 @@
-import React, { useState, useMemo } from 'react';
-import { Eye, Download, Search } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Eye, Download, Search, Mail, Wallet, Ban, X, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { StatusBadge, BillingStatus } from './StatusBadge';
+import { AuthService } from '../services/auth.service';
+import { BillingApiService, BulkActionData } from '../services/billing.api.service';
+import { PaymentMethod, PAYMENT_METHODS } from '../services/payment.api.service';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * What the table shows: search, status filter, sort and page
+ * The table does not filter itself; the parent loads the matching page.
+ */
+export interface BillingTableQuery {
+  search: string;
+  status: string;
+  /** Field to sort by, '-' prefix for descending */
+  sort: string;
+  page: number;
+  limit: number;
+}
+
+export interface BillingTablePagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
 
 interface BillingTableProps {
+  /** The current page of billings */
   billings: any[];
+  pagination?: BillingTablePagination;
+  query: BillingTableQuery;
+  onQueryChange: (changes: Partial<BillingTableQuery>) => void;
+  /** A page is loading; the current rows stay on screen */
+  isFetching?: boolean;
+  /** Called after a bulk action changes billings, so the list can be reloaded */
+  onBillingsChanged?: () => void;
 }
 
-export function BillingTable({ billings }: BillingTableProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('All');
+/**
+ * Outcome of the last bulk action, shown above the table
+ */
+interface BulkOutcome {
+  message: string;
+  failures: { billingNumber: string; message: string }[];
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const PAGE_SIZES = [10, 25, 50, 100];
+
+/** Wait this long after the last keystroke before searching */
+const SEARCH_DELAY_MS = 300;
+
+export function BillingTable({ billings, pagination, query, onQueryChange, isFetching, onBillingsChanged }: BillingTableProps) {
+  const { isAdmin } = useAuth();
+  const [searchTerm, setSearchTerm] = useState(query.search);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<string | null>(null);
+  const [bulkOutcome, setBulkOutcome] = useState<BulkOutcome | null>(null);
+  const [isPaymentFormOpen, setIsPaymentFormOpen] = useState(false);
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Bank Transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
 
   // Transform MongoDB data to table format
   const tableData = useMemo(() => {
@@ -29,7 +83,9 @@ export function BillingTable({ billings }: BillingTableProps) {
   const handleDownloadPdf = async (billingNumber: string) => {
     try {
       const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${API_BASE_URL}/billings/${billingNumber}/download-pdf`);
+      const response = await fetch(`${API_BASE_URL}/billings/${billingNumber}/download-pdf`, {
+        headers: { ...AuthService.getAuthHeader() }
+      });
       
       if (!response.ok) {
         const error = await response.json();
@@ -57,11 +113,151 @@ export function BillingTable({ billings }: BillingTableProps) {
     }
   };
 
-  const filteredData = tableData.filter(record => {
-    const matchesSearch = record.companyName.toLowerCase().includes(searchTerm.toLowerCase()) || record.billingNumber.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'All' || record.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // Follow searches that did not come from typing here (e.g. back navigation),
+  // without overwriting what has been typed since the last search went out
+  const sentSearch = useRef(query.search);
+  useEffect(() => {
+    if (query.search !== sentSearch.current) {
+      sentSearch.current = query.search;
+      setSearchTerm(query.search);
+    }
+  }, [query.search]);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term === sentSearch.current) return;
+
+    const timer = setTimeout(() => {
+      sentSearch.current = term;
+      onQueryChange({ search: term, page: 1 });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, onQueryChange]);
+
+  const sortField = query.sort.replace(/^-/, '');
+  const sortDescending = query.sort.startsWith('-');
+
+  /**
+   * Sort by a column; clicking the sorted column again reverses it
+   * Dates and amounts start with the newest or largest first.
+   */
+  const handleSort = (field: string) => {
+    const sort = field === sortField
+      ? (sortDescending ? field : `-${field}`)
+      : (['billingDate', 'grandTotal'].includes(field) ? `-${field}` : field);
+    onQueryChange({ sort, page: 1 });
+  };
+
+  const renderSortHeader = (label: string, field: string) => {
+    const SortIcon = field !== sortField ? ArrowUpDown : sortDescending ? ArrowDown : ArrowUp;
+    return <th className="px-6 py-3" aria-sort={field !== sortField ? 'none' : sortDescending ? 'descending' : 'ascending'}>
+        <button type="button" className="inline-flex items-center gap-1 hover:text-gray-900" onClick={() => handleSort(field)}>
+          {label}
+          <SortIcon className={`h-3.5 w-3.5 ${field === sortField ? 'text-gray-900' : 'text-gray-400'}`} />
+        </button>
+      </th>;
+  };
+
+  const isFiltered = query.search !== '' || query.status !== 'All';
+  const firstRow = pagination && pagination.total > 0 ? (pagination.page - 1) * pagination.limit + 1 : 0;
+  const lastRow = pagination ? Math.min(pagination.page * pagination.limit, pagination.total) : 0;
+
+  const allVisibleSelected = tableData.length > 0 && tableData.every(record => selected.has(record.billingNumber));
+
+  const toggleSelected = (billingNumber: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(billingNumber)) {
+        next.delete(billingNumber);
+      } else {
+        next.add(billingNumber);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      tableData.forEach(record => allVisibleSelected ? next.delete(record.billingNumber) : next.add(record.billingNumber));
+      return next;
+    });
+  };
+
+  /**
+   * Run a bulk action on the selection and report each billing that failed
+   * Failed billings stay selected so the action can be retried on them.
+   */
+  const runBulkAction = async (action: string, request: (ids: string[]) => Promise<{ message?: string; data?: BulkActionData }>) => {
+    setBulkAction(action);
+    setBulkOutcome(null);
+    try {
+      const response = await request([...selected]);
+      const results = response.data?.results || [];
+      const failures = results.filter(result => !result.success);
+
+      setBulkOutcome({
+        message: response.message || 'Done',
+        failures: failures.map(result => ({ billingNumber: result.billingNumber || result.id, message: result.message }))
+      });
+      setSelected(new Set(failures.map(result => result.id)));
+      if (failures.length < results.length) {
+        onBillingsChanged?.();
+      }
+    } catch (err: any) {
+      setBulkOutcome({ message: err.errors?.join(', ') || err.message || 'Bulk action failed', failures: [] });
+    } finally {
+      setBulkAction(null);
+    }
+  };
+
+  const handleBulkDownload = async () => {
+    setBulkAction('download');
+    setBulkOutcome(null);
+    try {
+      const { blob, failedCount } = await BillingApiService.downloadBillingPdfs([...selected]);
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `billings-${today()}.zip`;
+      document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      if (failedCount > 0) {
+        setBulkOutcome({ message: `${failedCount} billing(s) could not be included; see errors.txt in the ZIP.`, failures: [] });
+      }
+    } catch (err: any) {
+      setBulkOutcome({ message: err.message || 'Failed to download PDFs', failures: [] });
+    } finally {
+      setBulkAction(null);
+    }
+  };
+
+  const handleBulkEmail = () => {
+    if (!confirm(`Email the invoices of ${selected.size} billing(s) to each billing's client email?`)) return;
+    runBulkAction('email', ids => BillingApiService.bulkEmailBillings(ids));
+  };
+
+  const handleBulkVoid = () => {
+    const reason = prompt(`Void ${selected.size} billing(s)? The records are kept and their PDFs are stamped "VOID".\n\nReason:`);
+    if (!reason?.trim()) return;
+    runBulkAction('void', ids => BillingApiService.bulkVoidBillings(ids, reason.trim()));
+  };
+
+  const handleBulkMarkPaid = async () => {
+    setIsPaymentFormOpen(false);
+    await runBulkAction('mark-paid', ids => BillingApiService.bulkMarkBillingsPaid(ids, {
+      method: paymentMethod,
+      paymentDate,
+      referenceNumber: referenceNumber.trim() || undefined
+    }));
+    setReferenceNumber('');
+  };
   
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
@@ -97,25 +293,93 @@ export function BillingTable({ billings }: BillingTableProps) {
         }, {
           label: 'Emailed',
           value: 'Emailed'
-        }]} value={statusFilter} onChange={e => setStatusFilter(e.target.value)} />
+        }, {
+          label: 'Void',
+          value: 'Void'
+        }]} value={query.status} onChange={e => onQueryChange({ status: e.target.value, page: 1 })} />
         </div>
       </div>
 
+      {selected.size > 0 && <div className="rounded-md border border-blue-200 bg-blue-50/50 p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 mr-2">{selected.size} selected</span>
+            <Button variant="secondary" size="sm" onClick={handleBulkDownload} isLoading={bulkAction === 'download'} disabled={!!bulkAction}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDFs
+            </Button>
+            <Button variant="secondary" size="sm" onClick={handleBulkEmail} isLoading={bulkAction === 'email'} disabled={!!bulkAction}>
+              <Mail className="mr-2 h-4 w-4" />
+              Email Invoices
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setIsPaymentFormOpen(open => !open)} isLoading={bulkAction === 'mark-paid'} disabled={!!bulkAction}>
+              <Wallet className="mr-2 h-4 w-4" />
+              Mark Paid
+            </Button>
+            {isAdmin && <Button variant="secondary" size="sm" onClick={handleBulkVoid} isLoading={bulkAction === 'void'} disabled={!!bulkAction}>
+                <Ban className="mr-2 h-4 w-4" />
+                Void
+              </Button>}
+            <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())} disabled={!!bulkAction}>
+              Clear
+            </Button>
+          </div>
+
+          {isPaymentFormOpen && <div className="space-y-3">
+              <p className="text-sm text-gray-600">Records a payment for the full balance due of each selected billing.</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input label="Payment Date" type="date" value={paymentDate} onChange={e => setPaymentDate(e.target.value)} />
+                <Select label="Method" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)} options={PAYMENT_METHODS.map(m => ({
+              label: m,
+              value: m
+            }))} />
+                <Input label="Reference No." value={referenceNumber} onChange={e => setReferenceNumber(e.target.value)} placeholder="Check / transaction no." />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={() => setIsPaymentFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleBulkMarkPaid}>
+                  Mark {selected.size} Paid
+                </Button>
+              </div>
+            </div>}
+        </div>}
+
+      {bulkOutcome && <div className={`rounded-md border p-3 text-sm ${bulkOutcome.failures.length > 0 ? 'border-yellow-200 bg-yellow-50 text-yellow-800' : 'border-green-200 bg-green-50 text-green-800'}`}>
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">{bulkOutcome.message}</p>
+            <button type="button" onClick={() => setBulkOutcome(null)} title="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {bulkOutcome.failures.length > 0 && <ul className="mt-2 space-y-1">
+              {bulkOutcome.failures.map(failure => <li key={failure.billingNumber}>
+                  <span className="font-medium">{failure.billingNumber}</span>: {failure.message}
+                </li>)}
+            </ul>}
+        </div>}
+
       <div className="rounded-md border border-gray-200 bg-white shadow-sm overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-sm text-left">
             <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
               <tr>
-                <th className="px-6 py-3">Billing Number</th>
-                <th className="px-6 py-3">Company Name</th>
-                <th className="px-6 py-3">Billing Date</th>
-                <th className="px-6 py-3">Total Amount</th>
-                <th className="px-6 py-3">Status</th>
+                <th className="pl-6 py-3 w-4">
+                  <input type="checkbox" className="rounded border-gray-300" checked={allVisibleSelected} onChange={toggleAllVisible} aria-label="Select all billings" />
+                </th>
+                {renderSortHeader('Billing Number', 'billingNumber')}
+                {renderSortHeader('Company Name', 'companyName')}
+                {renderSortHeader('Billing Date', 'billingDate')}
+                {renderSortHeader('Total Amount', 'grandTotal')}
+                {renderSortHeader('Status', 'status')}
                 <th className="px-6 py-3 text-right">Actions</th>
               </tr>
             </thead>
-            <tbody className="divide-y divide-gray-200">
-              {filteredData.length > 0 ? filteredData.map(record => <tr key={record.id} className="hover:bg-gray-50 transition-colors">
+            <tbody className={`divide-y divide-gray-200 transition-opacity ${isFetching ? 'opacity-50' : ''}`}>
+              {tableData.length > 0 ? tableData.map(record => <tr key={record.id} className={`hover:bg-gray-50 transition-colors ${selected.has(record.billingNumber) ? 'bg-blue-50/50' : ''}`}>
+                    <td className="pl-6 py-4">
+                      <input type="checkbox" className="rounded border-gray-300" checked={selected.has(record.billingNumber)} onChange={() => toggleSelected(record.billingNumber)} aria-label={`Select ${record.billingNumber}`} />
+                    </td>
                     <td className="px-6 py-4 font-medium text-gray-900">
                       {record.billingNumber}
                     </td>
@@ -149,8 +413,8 @@ export function BillingTable({ billings }: BillingTableProps) {
                       </div>
                     </td>
                   </tr>) : <tr>
-                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
-                    {billings.length === 0 
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    {!isFiltered 
                       ? 'No billings yet. Create your first billing to get started!'
                       : 'No billings found matching your criteria.'}
                   </td>
@@ -158,6 +422,24 @@ export function BillingTable({ billings }: BillingTableProps) {
             </tbody>
           </table>
         </div>
+
+        {pagination && pagination.total > 0 && <div className="flex flex-col sm:flex-row items-center justify-between gap-3 border-t border-gray-200 px-6 py-3 text-sm text-gray-600">
+            <div className="flex items-center gap-2">
+              <span>Rows per page</span>
+              <select className="rounded-md border border-gray-300 bg-white px-2 py-1" value={query.limit} onChange={e => onQueryChange({ limit: Number(e.target.value), page: 1 })} aria-label="Rows per page">
+                {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center gap-3">
+              <span>{firstRow}–{lastRow} of {pagination.total}</span>
+              <Button variant="ghost" size="icon" title="Previous page" disabled={pagination.page <= 1} onClick={() => onQueryChange({ page: pagination.page - 1 })}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Next page" disabled={pagination.page >= pagination.totalPages} onClick={() => onQueryChange({ page: pagination.page + 1 })}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>}
       </div>
     </div>;
 }
\ No newline at end of file
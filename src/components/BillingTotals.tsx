@@ -1,12 +1,15 @@
 import { useMemo } from 'react';
 import { BillingItem } from './ItemizedTable';
+import { VatMode, WithholdingRate, calculateTaxBreakdown, calculateGrandTotal } from '../types/billing.types';
 
 interface BillingTotalsProps {
   items: BillingItem[];
   discount?: number;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
 }
 
-export function BillingTotals({ items, discount = 0 }: BillingTotalsProps) {
+export function BillingTotals({ items, discount = 0, vatMode = 'None', withholdingRate = 0 }: BillingTotalsProps) {
   // Calculate subtotal from all line totals
   const subtotal = useMemo(() => {
     return items.reduce((sum, item) => {
@@ -17,10 +20,12 @@ export function BillingTotals({ items, discount = 0 }: BillingTotalsProps) {
   // Ensure discount is non-negative
   const validatedDiscount = Math.max(0, discount);
 
-  // Calculate grand total
-  const grandTotal = useMemo(() => {
-    return Math.max(0, subtotal - validatedDiscount);
-  }, [subtotal, validatedDiscount]);
+  // Calculate the VAT/withholding breakdown and grand total
+  const taxBreakdown = useMemo(() => {
+    return calculateTaxBreakdown(items, validatedDiscount, vatMode, withholdingRate);
+  }, [items, validatedDiscount, vatMode, withholdingRate]);
+
+  const grandTotal = calculateGrandTotal(taxBreakdown);
 
   // Format currency helper
   const formatCurrency = (amount: number): string => {
@@ -52,12 +57,52 @@ export function BillingTotals({ items, discount = 0 }: BillingTotalsProps) {
         </div>
       )}
 
+      {/* VAT breakdown */}
+      {vatMode !== 'None' && (
+        <div className="space-y-1 border-t border-gray-200 pt-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600">VATable Sales:</span>
+            <span className="text-gray-900">{formatCurrency(taxBreakdown.vatableSales)}</span>
+          </div>
+          {taxBreakdown.vatExemptSales > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">VAT-Exempt Sales:</span>
+              <span className="text-gray-900">{formatCurrency(taxBreakdown.vatExemptSales)}</span>
+            </div>
+          )}
+          {taxBreakdown.zeroRatedSales > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">Zero-Rated Sales:</span>
+              <span className="text-gray-900">{formatCurrency(taxBreakdown.zeroRatedSales)}</span>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600">VAT (12%):</span>
+            <span className="text-gray-900">{formatCurrency(taxBreakdown.vatAmount)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-600">Total Sales:</span>
+            <span className="font-semibold text-gray-900">{formatCurrency(taxBreakdown.totalSales)}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Withholding (if present) */}
+      {taxBreakdown.withholdingTax > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-600">Less Withholding Tax ({withholdingRate}%):</span>
+          <span className="font-semibold text-red-600">
+            -{formatCurrency(taxBreakdown.withholdingTax)}
+          </span>
+        </div>
+      )}
+
       {/* Divider */}
       <div className="border-t border-gray-300 my-2"></div>
 
       {/* Grand Total - Visually Emphasized */}
       <div className="flex items-center justify-between pt-2">
-        <span className="text-lg font-bold text-gray-900">Grand Total:</span>
+        <span className="text-lg font-bold text-gray-900">{taxBreakdown.withholdingTax > 0 ? 'Amount Due:' : 'Grand Total:'}</span>
         <span className="text-2xl font-bold text-blue-600">
           {formatCurrency(grandTotal)}
         </span>
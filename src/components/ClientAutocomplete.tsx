@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+import { Input } from './ui/Input';
+import { ClientApiService, ClientData } from '../services/client.api.service';
+
+interface ClientAutocompleteProps {
+  label?: string;
+  placeholder?: string;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+  onSelect: (client: ClientData) => void;
+  onBlur?: () => void;
+}
+
+export function ClientAutocomplete({
+  label,
+  placeholder,
+  value,
+  error,
+  onChange,
+  onSelect,
+  onBlur
+}: ClientAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<ClientData[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const skipNextSearch = useRef(false);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    if (skipNextSearch.current) {
+      skipNextSearch.current = false;
+      return;
+    }
+
+    const term = value.trim();
+    if (term.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        const response = await ClientApiService.searchClients(term, 8);
+        setSuggestions(response.data || []);
+        setHighlightedIndex(-1);
+      } catch (error) {
+        setSuggestions([]);
+      } finally {
+        setIsSearching(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const handleSelect = (client: ClientData) => {
+    // Selecting fills the input with the client's name; don't search for it again
+    skipNextSearch.current = true;
+    setIsOpen(false);
+    setSuggestions([]);
+    onSelect(client);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter' && highlightedIndex >= 0) {
+      e.preventDefault();
+      handleSelect(suggestions[highlightedIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return <div className="relative">
+      <Input
+        label={label}
+        placeholder={placeholder}
+        value={value}
+        autoComplete="off"
+        onChange={e => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => {
+          // Delay so a click on a suggestion registers before the list closes
+          setTimeout(() => setIsOpen(false), 150);
+          onBlur?.();
+        }}
+        onKeyDown={handleKeyDown}
+        error={error}
+      />
+      {isSearching && (
+        <Loader2 className="absolute right-3 top-9 h-4 w-4 animate-spin text-gray-400" />
+      )}
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-30 mt-1 w-full max-h-64 overflow-auto rounded-md border border-gray-200 bg-white shadow-lg">
+          {suggestions.map((client, index) => (
+            <li
+              key={client._id}
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => handleSelect(client)}
+              className={`flex items-start gap-2 px-3 py-2 cursor-pointer text-sm ${
+                index === highlightedIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <Building2 className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{client.companyName}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {client.attentionPerson}{client.clientEmail ? ` · ${client.clientEmail}` : ''}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>;
+}
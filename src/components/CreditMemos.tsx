@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { FileMinus, Plus, Download, Loader2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardContent } from './ui/Card';
+import { formatCurrency } from '../lib/utils';
+import { CreditMemoApiService, CreditMemoData } from '../services/credit.memo.api.service';
+
+interface CreditMemosProps {
+  /** Billing number or ID */
+  billingId: string;
+  /** Remaining balance; a credit memo cannot exceed it */
+  balanceDue: number;
+  /** Voided billings cannot be credited */
+  isVoid?: boolean;
+  /** Called after a credit memo is issued so the balance can be refreshed */
+  onChange?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function CreditMemos({ billingId, balanceDue, isVoid, onChange }: CreditMemosProps) {
+  const [creditMemos, setCreditMemos] = useState<CreditMemoData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [memoDate, setMemoDate] = useState(today());
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const loadCreditMemos = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await CreditMemoApiService.getCreditMemos(billingId);
+      if (response.success && response.data) {
+        setCreditMemos(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load credit memos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCreditMemos();
+  }, [billingId]);
+
+  const openForm = () => {
+    setMemoDate(today());
+    setAmount('');
+    setReason('');
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleIssue = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await CreditMemoApiService.createCreditMemo(billingId, {
+        memoDate,
+        amount: parseFloat(amount) || 0,
+        reason: reason.trim()
+      });
+      setIsFormOpen(false);
+      await loadCreditMemos();
+      onChange?.();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to issue credit memo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = async (creditMemo: CreditMemoData) => {
+    try {
+      const blob = await CreditMemoApiService.downloadCreditMemoPdf(billingId, creditMemo._id!);
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${creditMemo.creditMemoNumber}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: any) {
+      alert(err.message || 'Failed to download credit memo');
+    }
+  };
+
+  return <Card className="shadow-lg print:hidden">
+      <CardContent className="p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5 text-purple-600" />
+            <h2 className="text-lg font-bold text-gray-900">Credit Memos</h2>
+          </div>
+          {!isVoid && balanceDue > 0 && !isFormOpen && (
+            <Button size="sm" variant="secondary" onClick={openForm}>
+              <Plus className="mr-1 h-4 w-4" />
+              Issue Credit Memo
+            </Button>
+          )}
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isFormOpen && (
+          <div className="border border-purple-200 bg-purple-50/50 rounded-lg p-4 space-y-4">
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Input label="Memo Date" type="date" value={memoDate} onChange={e => setMemoDate(e.target.value)} />
+              <Input
+                label="Amount"
+                type="number"
+                min="0"
+                max={balanceDue}
+                step="0.01"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder={`Up to ${formatCurrency(balanceDue)}`}
+              />
+              <div className="md:col-span-2">
+                <Input label="Reason" value={reason} maxLength={500} onChange={e => setReason(e.target.value)} placeholder="e.g. Returned items, pricing correction" />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleIssue} isLoading={isSaving}>
+                Issue Credit Memo
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && creditMemos.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-2 pr-3 font-semibold">Number</th>
+                <th className="py-2 pr-3 font-semibold">Date</th>
+                <th className="py-2 pr-3 font-semibold">Reason</th>
+                <th className="py-2 pr-3 font-semibold text-right">Amount</th>
+                <th className="py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {creditMemos.map(creditMemo => (
+                <tr key={creditMemo._id} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 font-medium text-gray-900">{creditMemo.creditMemoNumber}</td>
+                  <td className="py-2 pr-3 text-gray-700">{new Date(creditMemo.memoDate).toLocaleDateString()}</td>
+                  <td className="py-2 pr-3 text-gray-500">{creditMemo.reason}</td>
+                  <td className="py-2 pr-3 text-right font-semibold text-gray-900">{formatCurrency(creditMemo.amount)}</td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => handleDownload(creditMemo)} className="text-gray-400 hover:text-blue-600" title="Download PDF">
+                      <Download className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {!isLoading && !error && creditMemos.length === 0 && (
+          <p className="text-sm text-gray-500">No credit memos issued.</p>
+        )}
+      </CardContent>
+    </Card>;
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Mail, Send, Loader2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardContent } from './ui/Card';
+import { cn } from '../lib/utils';
+import { BillingApiService, EmailJobData } from '../services/billing.api.service';
+
+interface EmailDeliveryProps {
+  /** Billing number or ID */
+  billingId: string;
+  /** Prefilled recipient (the client's email) */
+  defaultRecipient?: string;
+  /** Voided billings cannot be emailed */
+  isVoid?: boolean;
+  /** Called when a queued email is sent or fails so the billing can be refreshed */
+  onChange?: () => void;
+}
+
+/** How often a queued email is checked while it is being delivered */
+const POLL_INTERVAL_MS = 3000;
+
+const statusStyles: Record<EmailJobData['status'], string> = {
+  Pending: 'bg-yellow-100 text-yellow-700',
+  Sending: 'bg-blue-100 text-blue-700',
+  Sent: 'bg-green-100 text-green-700',
+  Failed: 'bg-red-100 text-red-700'
+};
+
+const isActive = (job: EmailJobData) => job.status === 'Pending' || job.status === 'Sending';
+
+export function EmailDelivery({ billingId, defaultRecipient, isVoid, onChange }: EmailDeliveryProps) {
+  const [jobs, setJobs] = useState<EmailJobData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState(defaultRecipient || '');
+  const [isSending, setIsSending] = useState(false);
+
+  const loadJobs = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await BillingApiService.getEmailJobs(billingId);
+      if (response.success && response.data) {
+        setJobs(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load email status');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, [billingId]);
+
+  useEffect(() => {
+    setRecipient(defaultRecipient || '');
+  }, [defaultRecipient]);
+
+  // Poll the job being delivered until it is sent or gives up
+  const activeJobId = jobs.find(isActive)?._id;
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await BillingApiService.getEmailJob(billingId, activeJobId);
+        const job = response.data;
+        if (!job) return;
+
+        setJobs(current => current.map(existing => existing._id === job._id ? job : existing));
+        if (!isActive(job)) {
+          onChange?.();
+        }
+      } catch (err) {
+        console.error('Error polling email job:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [billingId, activeJobId]);
+
+  const handleSend = async () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient.trim())) {
+      setError('Enter a valid email address');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await BillingApiService.sendBillingEmail(billingId, recipient.trim());
+      await loadJobs();
+    } catch (err: any) {
+      setError(err.message || 'Failed to queue email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return <Card className="shadow-lg print:hidden">
+      <CardContent className="p-6 space-y-5">
+        <div className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-bold text-gray-900">Email</h2>
+        </div>
+
+        {!isVoid && (
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Input
+                label="Recipient"
+                type="email"
+                value={recipient}
+                onChange={e => setRecipient(e.target.value)}
+                placeholder="client@example.com"
+              />
+            </div>
+            <Button onClick={handleSend} isLoading={isSending} disabled={!!activeJobId}>
+              <Send className="mr-2 h-4 w-4" />
+              {jobs.length > 0 ? 'Resend Invoice' : 'Email Invoice'}
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isLoading && jobs.length === 0 && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {jobs.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left py-2 px-3">Queued</th>
+                <th className="text-left py-2 px-3">Recipient</th>
+                <th className="text-left py-2 px-3">Status</th>
+                <th className="text-right py-2 px-3">Attempts</th>
+                <th className="text-left py-2 px-3">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(job => (
+                <tr key={job._id} className="border-b border-gray-100">
+                  <td className="py-2 px-3 text-gray-600">{new Date(job.createdAt).toLocaleString()}</td>
+                  <td className="py-2 px-3 text-gray-900">{job.recipientEmail}</td>
+                  <td className="py-2 px-3">
+                    <span className={cn('inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded', statusStyles[job.status])}>
+                      {isActive(job) && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-600">{job.attempts} / {job.maxAttempts}</td>
+                  <td className="py-2 px-3 text-gray-600">
+                    {job.status === 'Sent' && job.sentAt && `Sent ${new Date(job.sentAt).toLocaleString()}`}
+                    {job.status === 'Pending' && job.lastError && `Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()}: ${job.lastError}`}
+                    {job.status === 'Failed' && job.lastError}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {!isLoading && !error && jobs.length === 0 && isVoid && (
+          <p className="text-sm text-gray-500">This billing was never emailed</p>
+        )}
+      </CardContent>
+    </Card>;
+}
@@ -1,24 +1,100 @@
 import { Plus, Trash2 } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { CatalogItemData } from '../services/catalog.api.service';
+import { PurchaseOrderData, PurchaseOrderLineData } from '../services/purchase.order.api.service';
+import { VatType, VAT_TYPES } from '../types/billing.types';
 export interface BillingItem {
   id: string;
   quantity: number;
   description: string;
   unitPrice: number;
+  catalogItemId?: string;
+  vatType?: VatType;
+  /** Delivery receipt the line was carried over from */
+  deliveryReceiptNumber?: string;
+  /** Purchase order line the quantity is billed against */
+  purchaseOrderId?: string;
+  purchaseOrderLineId?: string;
 }
 interface ItemizedTableProps {
   items: BillingItem[];
+  catalogItems?: CatalogItemData[];
+  /** Show the per-line VAT treatment column */
+  showVatType?: boolean;
   onUpdateItem: (id: string, field: keyof BillingItem, value: any) => void;
+  onPickCatalogItem?: (id: string, catalogItem: CatalogItemData | null) => void;
+  /** Open purchase orders of the selected client */
+  purchaseOrders?: PurchaseOrderData[];
+  onPickPurchaseOrderLine?: (id: string, po: PurchaseOrderData | null, line: PurchaseOrderLineData | null) => void;
   onRemoveItem: (id: string) => void;
   onAddItem: () => void;
 }
 export function ItemizedTable({
   items,
+  catalogItems = [],
+  showVatType = false,
   onUpdateItem,
+  onPickCatalogItem,
+  purchaseOrders = [],
+  onPickPurchaseOrderLine,
   onRemoveItem,
   onAddItem
 }: ItemizedTableProps) {
+  const showCatalog = !!onPickCatalogItem && catalogItems.length > 0;
+
+  // Catalog options for a row; keeps a reference to an item that is no longer listed
+  const getCatalogOptions = (item: BillingItem) => {
+    const options = [{ label: 'Custom item', value: '' }, ...catalogItems.map(catalogItem => ({
+      label: `${catalogItem.code} — ${catalogItem.description}`,
+      value: catalogItem._id!
+    }))];
+    if (item.catalogItemId && !catalogItems.some(catalogItem => catalogItem._id === item.catalogItemId)) {
+      options.push({ label: 'Catalog item (unavailable)', value: item.catalogItemId });
+    }
+    return options;
+  };
+
+  const showPurchaseOrders = !!onPickPurchaseOrderLine && (purchaseOrders.length > 0 || items.some(item => item.purchaseOrderId));
+
+  // PO line options for a row, keyed "poId:lineId"
+  const getPurchaseOrderOptions = (item: BillingItem) => {
+    const options = [{ label: 'No PO', value: '' }, ...purchaseOrders.flatMap(po => po.lines.map(line => ({
+      label: `${po.poNumber} — ${line.style} (${line.remainingQuantity ?? line.orderedQuantity} left)`,
+      value: `${po._id}:${line.id}`
+    })))];
+    const selected = item.purchaseOrderId ? `${item.purchaseOrderId}:${item.purchaseOrderLineId}` : '';
+    if (selected && !options.some(option => option.value === selected)) {
+      options.push({ label: 'PO line (unavailable)', value: selected });
+    }
+    return options;
+  };
+
+  const handlePurchaseOrderChange = (id: string, value: string) => {
+    const [poId, lineId] = value.split(':');
+    const po = purchaseOrders.find(entry => entry._id === poId) || null;
+    const line = po?.lines.find(entry => entry.id === lineId) || null;
+    onPickPurchaseOrderLine?.(id, po, line);
+  };
+
+  // Quantity on this billing beyond what is left on the PO line, summed over rows
+  const getPurchaseOrderOverage = (item: BillingItem): number => {
+    if (!item.purchaseOrderId) return 0;
+    const po = purchaseOrders.find(entry => entry._id === item.purchaseOrderId);
+    const line = po?.lines.find(entry => entry.id === item.purchaseOrderLineId);
+    if (!line || line.remainingQuantity === undefined) return 0;
+    const requested = items
+      .filter(entry => entry.purchaseOrderId === item.purchaseOrderId && entry.purchaseOrderLineId === item.purchaseOrderLineId)
+      .reduce((sum, entry) => sum + entry.quantity, 0);
+    return Math.max(0, requested - Math.max(0, line.remainingQuantity));
+  };
+
+  const handleCatalogChange = (id: string, catalogItemId: string) => {
+    const catalogItem = catalogItems.find(entry => entry._id === catalogItemId) || null;
+    onPickCatalogItem?.(id, catalogItem);
+  };
+
   // Handle quantity change with validation to prevent negative values
   const handleQuantityChange = (id: string, value: string) => {
     const numValue = parseInt(value) || 0;
@@ -56,8 +132,11 @@ export function ItemizedTable({
           <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
             <tr>
               <th className="px-4 py-3 w-24">Quantity</th>
+              {showPurchaseOrders && <th className="px-4 py-3 w-56">PO Line</th>}
+              {showCatalog && <th className="px-4 py-3 w-56">Catalog</th>}
               <th className="px-4 py-3">Description</th>
               <th className="px-4 py-3 w-32">Unit Price</th>
+              {showVatType && <th className="px-4 py-3 w-36">VAT</th>}
               <th className="px-4 py-3 w-32">Line Total</th>
               <th className="px-4 py-3 w-16"></th>
             </tr>
@@ -73,6 +152,21 @@ export function ItemizedTable({
                     className="text-center" 
                   />
                 </td>
+                {showPurchaseOrders && <td className="p-2">
+                    <Select 
+                      options={getPurchaseOrderOptions(item)} 
+                      value={item.purchaseOrderId ? `${item.purchaseOrderId}:${item.purchaseOrderLineId}` : ''} 
+                      onChange={e => handlePurchaseOrderChange(item.id, e.target.value)} 
+                    />
+                    {getPurchaseOrderOverage(item) > 0 && <p className="mt-1 text-xs text-amber-600">{getPurchaseOrderOverage(item)} over the PO balance</p>}
+                  </td>}
+                {showCatalog && <td className="p-2">
+                    <Select 
+                      options={getCatalogOptions(item)} 
+                      value={item.catalogItemId || ''} 
+                      onChange={e => handleCatalogChange(item.id, e.target.value)} 
+                    />
+                  </td>}
                 <td className="p-2">
                   <Input 
                     type="text" 
@@ -80,6 +174,7 @@ export function ItemizedTable({
                     value={item.description} 
                     onChange={e => onUpdateItem(item.id, 'description', e.target.value)} 
                   />
+                  {item.deliveryReceiptNumber && <p className="mt-1 text-xs text-gray-500">From {item.deliveryReceiptNumber}</p>}
                 </td>
                 <td className="p-2">
                   <Input 
@@ -91,6 +186,13 @@ export function ItemizedTable({
                     className="text-right" 
                   />
                 </td>
+                {showVatType && <td className="p-2">
+                    <Select 
+                      options={VAT_TYPES.map(vatType => ({ label: vatType, value: vatType }))} 
+                      value={item.vatType || 'Vatable'} 
+                      onChange={e => onUpdateItem(item.id, 'vatType', e.target.value as VatType)} 
+                    />
+                  </td>}
                 <td className="p-2">
                   <div className="flex h-10 w-full items-center justify-end rounded-md bg-gray-50 px-3 text-gray-700 font-medium border border-gray-200">
                     {formatCurrency(calculateLineTotal(item))}
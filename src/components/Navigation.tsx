@@ -37,6 +37,18 @@ export function Navigation() {
                 <Link to="/drafts" className={cn('text-sm font-medium transition-colors hover:text-blue-600', isActive('/drafts') ? 'text-blue-600' : 'text-gray-600')}>
                   Drafts
                 </Link>
+                <Link to="/recurring-billings" className={cn('text-sm font-medium transition-colors hover:text-blue-600', isActive('/recurring-billings') ? 'text-blue-600' : 'text-gray-600')}>
+                  Recurring
+                </Link>
+                <Link to="/delivery-receipts" className={cn('text-sm font-medium transition-colors hover:text-blue-600', isActive('/delivery-receipts') ? 'text-blue-600' : 'text-gray-600')}>
+                  Deliveries
+                </Link>
+                <Link to="/purchase-orders" className={cn('text-sm font-medium transition-colors hover:text-blue-600', isActive('/purchase-orders') ? 'text-blue-600' : 'text-gray-600')}>
+                  POs
+                </Link>
+                <Link to="/catalog" className={cn('text-sm font-medium transition-colors hover:text-blue-600', isActive('/catalog') ? 'text-blue-600' : 'text-gray-600')}>
+                  Catalog
+                </Link>
                 {isAdmin && (
                   <Link to="/admin" className={cn('text-sm font-medium transition-colors hover:text-purple-600 flex items-center gap-1', isActive('/admin') ? 'text-purple-600' : 'text-gray-600')}>
                     <Shield className="h-4 w-4" />
@@ -50,7 +62,7 @@ export function Navigation() {
           <div className="flex items-center gap-4">
             {isAuthenticated ? (
               <>
-                <div className="hidden md:flex items-center gap-2 text-sm text-gray-700">
+                <Link to="/sessions" title="My sessions" className={cn('hidden md:flex items-center gap-2 text-sm transition-colors hover:text-blue-600', isActive('/sessions') ? 'text-blue-600' : 'text-gray-700')}>
                   <User className="h-4 w-4" />
                   <span>{user?.name}</span>
                   {user?.role === 'admin' && (
@@ -58,7 +70,7 @@ export function Navigation() {
                       Admin
                     </span>
                   )}
-                </div>
+                </Link>
                 <button 
                   onClick={handleLogout}
                   className="flex items-center gap-2 h-8 px-3 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm font-medium transition-colors"
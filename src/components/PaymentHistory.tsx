@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Wallet, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Card, CardContent } from './ui/Card';
+import { cn, formatCurrency } from '../lib/utils';
+import { useAuth } from '../context/AuthContext';
+import {
+  PaymentApiService,
+  PaymentData,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentSummary,
+  PAYMENT_METHODS
+} from '../services/payment.api.service';
+
+interface PaymentHistoryProps {
+  /** Billing number or ID */
+  billingId: string;
+}
+
+const statusStyles: Record<PaymentStatus, string> = {
+  Unpaid: 'bg-red-100 text-red-700',
+  'Partially Paid': 'bg-yellow-100 text-yellow-700',
+  Paid: 'bg-green-100 text-green-700'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function PaymentHistory({ billingId }: PaymentHistoryProps) {
+  const { isAdmin } = useAuth();
+  const [payments, setPayments] = useState<PaymentData[]>([]);
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('Bank Transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
+
+  const loadPayments = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await PaymentApiService.getPayments(billingId);
+      if (response.success && response.data) {
+        setPayments(response.data.payments);
+        setSummary(response.data.summary);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load payments');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPayments();
+  }, [billingId]);
+
+  const openForm = () => {
+    setPaymentDate(today());
+    setAmount(summary ? summary.balanceDue.toFixed(2) : '');
+    setMethod('Bank Transfer');
+    setReferenceNumber('');
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleRecordPayment = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await PaymentApiService.recordPayment(billingId, {
+        paymentDate,
+        amount: parseFloat(amount) || 0,
+        method,
+        referenceNumber: referenceNumber.trim() || undefined
+      });
+      setIsFormOpen(false);
+      await loadPayments();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePayment = async (payment: PaymentData) => {
+    if (!confirm(`Delete the ${formatCurrency(payment.amount)} payment? The balance will be recalculated.`)) {
+      return;
+    }
+
+    try {
+      await PaymentApiService.deletePayment(billingId, payment._id!);
+      await loadPayments();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete payment');
+    }
+  };
+
+  return <Card className="shadow-lg print:hidden">
+      <CardContent className="p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-bold text-gray-900">Payments</h2>
+            {summary && (
+              <span className={cn('inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium', statusStyles[summary.paymentStatus])}>
+                {summary.paymentStatus}
+              </span>
+            )}
+          </div>
+          {summary && summary.balanceDue > 0 && !isFormOpen && (
+            <Button size="sm" onClick={openForm}>
+              <Plus className="mr-1 h-4 w-4" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {summary && !isLoading && (
+          <div className={cn('grid gap-4', summary.amountCredited > 0 ? 'grid-cols-4' : 'grid-cols-3')}>
+            <div className="bg-gray-50 rounded p-3">
+              <p className="text-xs text-gray-500">Grand Total</p>
+              <p className="text-base font-bold text-gray-900">{formatCurrency(summary.grandTotal)}</p>
+            </div>
+            <div className="bg-green-50 rounded p-3">
+              <p className="text-xs text-gray-500">Amount Paid</p>
+              <p className="text-base font-bold text-green-700">{formatCurrency(summary.amountPaid)}</p>
+            </div>
+            {summary.amountCredited > 0 && (
+              <div className="bg-purple-50 rounded p-3">
+                <p className="text-xs text-gray-500">Credited</p>
+                <p className="text-base font-bold text-purple-700">{formatCurrency(summary.amountCredited)}</p>
+              </div>
+            )}
+            <div className="bg-red-50 rounded p-3">
+              <p className="text-xs text-gray-500">Balance Due</p>
+              <p className="text-base font-bold text-red-700">{formatCurrency(summary.balanceDue)}</p>
+            </div>
+          </div>
+        )}
+
+        {isFormOpen && (
+          <div className="border border-blue-200 bg-blue-50/50 rounded-lg p-4 space-y-4">
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Input label="Payment Date" type="date" value={paymentDate} onChange={e => setPaymentDate(e.target.value)} />
+              <Input label="Amount" type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} />
+              <Select
+                label="Method"
+                value={method}
+                onChange={e => setMethod(e.target.value as PaymentMethod)}
+                options={PAYMENT_METHODS.map(m => ({ label: m, value: m }))}
+              />
+              <Input label="Reference No." value={referenceNumber} onChange={e => setReferenceNumber(e.target.value)} placeholder="Check / transaction no." />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleRecordPayment} isLoading={isSaving}>
+                Save Payment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && payments.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-2 pr-3 font-semibold">Date</th>
+                <th className="py-2 pr-3 font-semibold">Method</th>
+                <th className="py-2 pr-3 font-semibold">Reference</th>
+                <th className="py-2 pr-3 font-semibold text-right">Amount</th>
+                {isAdmin && <th className="py-2 w-10"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map(payment => (
+                <tr key={payment._id} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 text-gray-900">{new Date(payment.paymentDate).toLocaleDateString()}</td>
+                  <td className="py-2 pr-3 text-gray-700">{payment.method}</td>
+                  <td className="py-2 pr-3 text-gray-500">{payment.referenceNumber || '—'}</td>
+                  <td className="py-2 pr-3 text-right font-semibold text-gray-900">{formatCurrency(payment.amount)}</td>
+                  {isAdmin && (
+                    <td className="py-2 text-right">
+                      <button onClick={() => handleDeletePayment(payment)} className="text-gray-400 hover:text-red-600" title="Delete payment">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {!isLoading && !error && payments.length === 0 && (
+          <p className="text-sm text-gray-500">No payments recorded yet.</p>
+        )}
+      </CardContent>
+    </Card>;
+}
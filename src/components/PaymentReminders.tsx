@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { BellRing, PauseCircle, PlayCircle, Loader2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Card, CardContent } from './ui/Card';
+import { cn } from '../lib/utils';
+import { BillingApiService, BillingReminderStatusData } from '../services/billing.api.service';
+import { formatReminderOffset, formatReminderPolicy } from '../types/billing.types';
+
+interface PaymentRemindersProps {
+  /** Billing number or ID */
+  billingId: string;
+  /** Only admins can pause reminders */
+  isAdmin?: boolean;
+}
+
+const statusStyles: Record<BillingReminderStatusData['reminders'][number]['status'], string> = {
+  Sent: 'bg-green-100 text-green-700',
+  Failed: 'bg-red-100 text-red-700'
+};
+
+export function PaymentReminders({ billingId, isAdmin }: PaymentRemindersProps) {
+  const [status, setStatus] = useState<BillingReminderStatusData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReminders = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await BillingApiService.getReminders(billingId);
+        if (response.success && response.data) {
+          setStatus(response.data);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load payment reminders');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReminders();
+  }, [billingId]);
+
+  const handleTogglePause = async () => {
+    if (!status) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await BillingApiService.setRemindersPaused(billingId, !status.paused);
+      if (response.success && response.data) {
+        setStatus(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to update payment reminders');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return <Card className="shadow-lg print:hidden">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-amber-600" />
+            <h2 className="text-lg font-bold text-gray-900">Payment Reminders</h2>
+          </div>
+          {isAdmin && status && (
+            <Button variant="secondary" size="sm" onClick={handleTogglePause} isLoading={isSaving}>
+              {status.paused
+                ? <><PlayCircle className="mr-2 h-4 w-4" />Resume Reminders</>
+                : <><PauseCircle className="mr-2 h-4 w-4" />Pause Reminders</>}
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {isLoading && !status && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {status && (
+          <div className="grid gap-2 text-sm sm:grid-cols-2">
+            <div>
+              <p className="text-gray-500">Policy ({status.source === 'Client' ? 'client' : 'company'})</p>
+              <p className="text-gray-900">{formatReminderPolicy(status.policy)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Next reminder</p>
+              <p className={cn('text-gray-900', status.paused && 'text-amber-700')}>
+                {status.skipReason
+                  ? `None: ${status.skipReason.toLowerCase()}${status.paused && status.pausedAt ? ` since ${new Date(status.pausedAt).toLocaleDateString()}` : ''}`
+                  : status.nextReminder
+                    ? `${new Date(status.nextReminder.date).toLocaleDateString()} (${formatReminderOffset(status.nextReminder.offsetDays).toLowerCase()})`
+                    : 'None left under this policy'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {status && status.reminders.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left py-2 px-3">Date</th>
+                <th className="text-left py-2 px-3">Reminder</th>
+                <th className="text-left py-2 px-3">Recipient</th>
+                <th className="text-left py-2 px-3">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...status.reminders].reverse().map((reminder, index) => (
+                <tr key={index} className="border-b border-gray-100">
+                  <td className="py-2 px-3 text-gray-600">{new Date(reminder.sentAt).toLocaleString()}</td>
+                  <td className="py-2 px-3 text-gray-900">{formatReminderOffset(reminder.offsetDays)}</td>
+                  <td className="py-2 px-3 text-gray-900">{reminder.recipientEmail}</td>
+                  <td className="py-2 px-3">
+                    <span className={cn('text-xs px-2 py-0.5 rounded', statusStyles[reminder.status])}>
+                      {reminder.status}
+                    </span>
+                    {reminder.error && <span className="ml-2 text-gray-600">{reminder.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {status && status.reminders.length === 0 && (
+          <p className="text-sm text-gray-500">No reminders sent yet</p>
+        )}
+      </CardContent>
+    </Card>;
+}
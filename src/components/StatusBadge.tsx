@@ -1,6 +1,6 @@
 import React from 'react';
 import { cn } from '../lib/utils';
-export type BillingStatus = 'Draft' | 'Generated' | 'Emailed';
+export type BillingStatus = 'Draft' | 'Generated' | 'Emailed' | 'Void';
 interface StatusBadgeProps {
   status: BillingStatus;
 }
@@ -10,7 +10,8 @@ export function StatusBadge({
   const styles = {
     Draft: 'bg-gray-100 text-gray-700',
     Generated: 'bg-blue-100 text-blue-700',
-    Emailed: 'bg-green-100 text-green-700'
+    Emailed: 'bg-green-100 text-green-700',
+    Void: 'bg-red-100 text-red-700'
   };
   return <span className={cn('inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium', styles[status])}>
       {status}
@@ -40,10 +40,14 @@ interface Config {
     user: string;
     pass: string;
     fromName: string;
+    maxAttempts: number;
+    retryBaseMs: number;
   };
 
   // File Storage Configuration
   storage: {
+    /** Where generated PDFs are kept: 'local' (pdfOutputDir) or 'gridfs' (MongoDB) */
+    pdfStorage: 'local' | 'gridfs';
     pdfOutputDir: string;
     uploadDir: string;
     maxFileSize: number;
@@ -52,12 +56,33 @@ interface Config {
   // Security Configuration
   security: {
     jwtSecret?: string;
+    /** Lifetime of access tokens (a jsonwebtoken duration, e.g. '15m') */
+    accessTokenExpiresIn: string;
+    /** Days a session stays signed in without being used */
+    refreshTokenTtlDays: number;
   };
 
   // Logging Configuration
   logging: {
     level: string;
   };
+
+  // Background Job Configuration
+  scheduler: {
+    enabled: boolean;
+    recurringBillingIntervalMs: number;
+    emailOutboxIntervalMs: number;
+    paymentReminderIntervalMs: number;
+  };
+
+  // Payment Reminder Configuration (company-wide policy; clients may override it)
+  reminders: {
+    enabled: boolean;
+    daysBeforeDue: number[];
+    onDueDate: boolean;
+    repeatEveryDays: number;
+    maxOverdueReminders: number;
+  };
 }
 
 /**
@@ -108,10 +133,14 @@ function createConfig(): Config {
       secure: process.env.SMTP_SECURE === 'true',
       user: process.env.SMTP_USER || '',
       pass: process.env.SMTP_PASS || '',
-      fromName: process.env.SMTP_FROM_NAME || 'Sewcut Company'
+      // Empty means the company name from the company settings
+      fromName: process.env.SMTP_FROM_NAME || '',
+      maxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10),
+      retryBaseMs: parseInt(process.env.EMAIL_RETRY_BASE_SECONDS || '60', 10) * 1000
     },
 
     storage: {
+      pdfStorage: process.env.PDF_STORAGE === 'gridfs' ? 'gridfs' : 'local',
       pdfOutputDir: process.env.PDF_OUTPUT_DIR 
         ? path.resolve(process.cwd(), process.env.PDF_OUTPUT_DIR)
         : path.resolve(process.cwd(), 'generated-pdfs'),
@@ -122,11 +151,31 @@ function createConfig(): Config {
     },
 
     security: {
-      jwtSecret: process.env.JWT_SECRET
+      jwtSecret: process.env.JWT_SECRET,
+      accessTokenExpiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN || '15m',
+      refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10)
     },
 
     logging: {
       level: process.env.LOG_LEVEL || 'info'
+    },
+
+    scheduler: {
+      enabled: process.env.SCHEDULER_ENABLED !== 'false',
+      recurringBillingIntervalMs: parseInt(process.env.RECURRING_BILLING_INTERVAL_MINUTES || '15', 10) * 60 * 1000,
+      emailOutboxIntervalMs: parseInt(process.env.EMAIL_OUTBOX_INTERVAL_SECONDS || '30', 10) * 1000,
+      paymentReminderIntervalMs: parseInt(process.env.PAYMENT_REMINDER_INTERVAL_MINUTES || '60', 10) * 60 * 1000
+    },
+
+    reminders: {
+      enabled: process.env.REMINDERS_ENABLED !== 'false',
+      daysBeforeDue: (process.env.REMINDER_DAYS_BEFORE_DUE ?? '3')
+        .split(',')
+        .map(days => parseInt(days, 10))
+        .filter(days => days > 0),
+      onDueDate: process.env.REMINDER_ON_DUE_DATE !== 'false',
+      repeatEveryDays: parseInt(process.env.REMINDER_REPEAT_EVERY_DAYS || '7', 10),
+      maxOverdueReminders: parseInt(process.env.REMINDER_MAX_OVERDUE || '0', 10)
     }
   };
 }
@@ -144,6 +193,8 @@ export const emailConfig = config.email;
 export const storageConfig = config.storage;
 export const securityConfig = config.security;
 export const loggingConfig = config.logging;
+export const schedulerConfig = config.scheduler;
+export const reminderConfig = config.reminders;
 
 // Development helpers
 if (config.server.nodeEnv === 'development') {
@@ -153,7 +204,7 @@ if (config.server.nodeEnv === 'development') {
   console.log('- Database URI:', config.database.uri.replace(/\/\/.*@/, '//*****@')); // Hide credentials
   console.log('- Email Host:', config.email.host);
   console.log('- Email User:', config.email.user ? '✓ Configured' : '✗ Not configured');
-  console.log('- PDF Output Dir:', config.storage.pdfOutputDir);
+  console.log('- PDF Storage:', config.storage.pdfStorage === 'gridfs' ? 'MongoDB GridFS' : config.storage.pdfOutputDir);
   console.log('- CORS Origin:', config.server.corsOrigin);
 }
 
@@ -4,7 +4,7 @@
  */
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AuthService, User } from '../services/auth.service';
+import { AuthService, User, SESSION_ENDED_EVENT } from '../services/auth.service';
 
 interface AuthContextType {
   user: User | null;
@@ -30,6 +30,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    // The session was revoked or expired and could not be refreshed
+    const handleSessionEnded = () => setUser(null);
+    window.addEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+  }, []);
+
   const login = async (email: string, password: string) => {
     const response = await AuthService.login({ email, password });
     if (response.data?.user) {
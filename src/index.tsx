@@ -2,4 +2,6 @@ import './index.css';
 import React from "react";
 import { render } from "react-dom";
 import { App } from "./App";
+import { AuthService } from "./services/auth.service";
+AuthService.installTokenRefresh();
 render(<App />, document.getElementById("root"));
\ No newline at end of file
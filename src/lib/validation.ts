@@ -212,3 +212,78 @@ export function validateDiscount(discount: number, subtotal: number): Validation
   }
   return { isValid: true };
 }
+
+/**
+ * Validate payment terms
+ */
+export function validatePaymentTerms(paymentTerms: string, customTermDays?: number): ValidationResult {
+  const validTerms = ['COD', 'Net 15', 'Net 30', 'Net 60', 'Custom'];
+  if (!validTerms.includes(paymentTerms)) {
+    return {
+      isValid: false,
+      error: `Payment terms must be one of: ${validTerms.join(', ')}`
+    };
+  }
+  if (paymentTerms === 'Custom') {
+    if (typeof customTermDays !== 'number' || !Number.isInteger(customTermDays) || customTermDays < 1 || customTermDays > 365) {
+      return {
+        isValid: false,
+        error: 'Custom terms must be between 1 and 365 days'
+      };
+    }
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate VAT mode and withholding tax rate
+ */
+export function validateTaxSettings(vatMode: string, withholdingRate: number): ValidationResult {
+  const validModes = ['None', 'Inclusive', 'Exclusive'];
+  if (!validModes.includes(vatMode)) {
+    return {
+      isValid: false,
+      error: `VAT mode must be one of: ${validModes.join(', ')}`
+    };
+  }
+  if (![0, 1, 2].includes(withholdingRate)) {
+    return {
+      isValid: false,
+      error: 'Withholding tax rate must be 0%, 1% or 2%'
+    };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate the VAT treatment of a line item
+ */
+export function validateVatType(vatType?: string): ValidationResult {
+  const validTypes = ['Vatable', 'Exempt', 'Zero-Rated'];
+  if (vatType !== undefined && !validTypes.includes(vatType)) {
+    return {
+      isValid: false,
+      error: `VAT type must be one of: ${validTypes.join(', ')}`
+    };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate a Tax Identification Number (optional but must be valid if provided)
+ * Nine digits with an optional 3-5 digit branch code, e.g. 123-456-789-000
+ */
+export function validateTin(value: string): ValidationResult {
+  if (!value || value.trim() === '') {
+    return { isValid: true }; // Optional field
+  }
+
+  if (!/^\d{3}-?\d{3}-?\d{3}(-?\d{3,5})?$/.test(value.trim())) {
+    return {
+      isValid: false,
+      error: 'TIN must be 9 digits with an optional branch code, e.g. 123-456-789-000'
+    };
+  }
+
+  return { isValid: true };
+}
@@ -8,9 +8,9 @@ import { AdminService, User } from '../services/admin.service';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { useAuth } from '../context/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, Link } from 'react-router-dom';
 import { Navigation } from '../components/Navigation';
-import { Users, Shield, Trash2, RefreshCw } from 'lucide-react';
+import { Users, Shield, Trash2, RefreshCw, Mail, BellRing, Building2, FileUp, LogOut } from 'lucide-react';
 
 export default function Admin() {
   const [users, setUsers] = useState<User[]>([]);
@@ -76,6 +76,20 @@ export default function Admin() {
     }
   };
 
+  // Sign user out of every device
+  const handleForceLogout = async (userId: string, userName: string) => {
+    if (!confirm(`Sign "${userName}" out of every device?`)) {
+      return;
+    }
+
+    try {
+      const response = await AdminService.forceLogoutUser(userId);
+      alert(response.message || 'User signed out');
+    } catch (err: any) {
+      alert(err.message || 'Failed to sign out user');
+    }
+  };
+
   if (!isAdmin) {
     return null;
   }
@@ -92,7 +106,35 @@ export default function Admin() {
             </div>
             <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Admin Panel</h1>
           </div>
-          <p className="text-gray-600 text-lg">Manage users and system settings</p>
+          <div className="flex items-center justify-between">
+            <p className="text-gray-600 text-lg">Manage users and system settings</p>
+            <div className="flex items-center gap-2">
+              <Link to="/admin/import-billings">
+                <Button variant="secondary" className="flex items-center gap-2">
+                  <FileUp className="w-4 h-4" />
+                  Import Billings
+                </Button>
+              </Link>
+              <Link to="/admin/company-settings">
+                <Button variant="secondary" className="flex items-center gap-2">
+                  <Building2 className="w-4 h-4" />
+                  Company Settings
+                </Button>
+              </Link>
+              <Link to="/admin/payment-reminders">
+                <Button variant="secondary" className="flex items-center gap-2">
+                  <BellRing className="w-4 h-4" />
+                  Payment Reminders
+                </Button>
+              </Link>
+              <Link to="/admin/email-templates">
+                <Button variant="secondary" className="flex items-center gap-2">
+                  <Mail className="w-4 h-4" />
+                  Email Templates
+                </Button>
+              </Link>
+            </div>
+          </div>
         </div>
 
         {/* User Management Section */}
@@ -187,6 +229,14 @@ export default function Admin() {
                                 >
                                   {user.role === 'admin' ? 'Make User' : 'Make Admin'}
                                 </Button>
+                                <Button
+                                  onClick={() => handleForceLogout(user._id, user.name)}
+                                  className="text-sm"
+                                  variant="secondary"
+                                  title="Sign out of every device"
+                                >
+                                  <LogOut className="w-4 h-4" />
+                                </Button>
                                 <Button
                                   onClick={() => handleDeleteUser(user._id, user.name)}
                                   className="text-sm bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-700 hover:to-pink-700 shadow-md"
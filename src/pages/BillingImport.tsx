@@ -0,0 +1,260 @@
+/**
+ * Billing Import Page
+ * Admin upload of historical billings from CSV, with a dry-run preview
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BillingApiService, BillingImportResult } from '../services/billing.api.service';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Navigation } from '../components/Navigation';
+import { useAuth } from '../context/AuthContext';
+import { FileUp, Upload, Download, AlertTriangle, CheckCircle } from 'lucide-react';
+
+const TEMPLATE_HEADER = [
+  'billingNumber', 'billingDate', 'companyName', 'address', 'contactNumber', 'attentionPerson',
+  'clientEmail', 'deliveryReceiptNumber', 'paymentTerms', 'customTermDays', 'vatMode', 'withholdingRate',
+  'discount', 'amountPaid', 'paymentDate', 'paymentMethod', 'description', 'quantity', 'unitPrice', 'vatType'
+];
+
+const TEMPLATE_ROWS = [
+  ['SEW-202301-001', '2023-01-05', 'Acme Garments', '"123 Rizal Ave, Manila"', '09171234567', 'Juan Dela Cruz',
+    'billing@acme.ph', '', 'Net 30', '', 'Exclusive', '0', '0', '5000', '2023-02-01', 'Bank Transfer', 'Cutting service', '100', '35', 'Vatable'],
+  ['SEW-202301-001', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', 'Sewing service', '100', '20', 'Vatable']
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(amount);
+
+export function BillingImport() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BillingImportResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  const handleDownloadTemplate = () => {
+    const content = [TEMPLATE_HEADER, ...TEMPLATE_ROWS].map(row => row.join(',')).join('\r\n');
+    const url = window.URL.createObjectURL(new Blob([content], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'billing-import-template.csv';
+    document.body.appendChild(a);
+    a.click();
+
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setImportMessage(null);
+    setError(null);
+    setIsChecking(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      const response = await BillingApiService.importBillings(text, true);
+      setPreview(response.data || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to check the file');
+    } finally {
+      setIsChecking(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv || !preview) return;
+    if (!confirm(`Import ${preview.billings.length} billing(s)? They will appear in reports and aging.`)) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const response = await BillingApiService.importBillings(csv, false);
+      if (response.success && response.data) {
+        setImportMessage(`Imported ${response.data.importedCount} billing(s) from ${fileName}.`);
+        setPreview(null);
+        setCsv(null);
+      } else {
+        // Someone may have created a conflicting billing since the dry run
+        setPreview(response.data || null);
+        setError(response.message || 'Nothing was imported');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to import billings');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const billingsWithErrors = new Set(preview?.errors.map(rowError => rowError.billingNumber).filter(Boolean));
+  const canImport = !!preview && preview.errors.length === 0 && preview.billings.length > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+        {/* Header */}
+        <div className="mb-8 mt-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Import Billings</h1>
+          <p className="text-gray-600 mt-2 text-lg">Bring historical billings from a spreadsheet into reports and analytics</p>
+        </div>
+
+        <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 space-y-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+              <FileUp className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900">CSV File</h2>
+          </div>
+
+          <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+            <li>One row per line item. Rows with the same billing number make up one billing; its details are read from its first row.</li>
+            <li>Required columns: billingNumber, billingDate, companyName, description, quantity, unitPrice.</li>
+            <li>Billings keep their original numbers and dates. No PDFs are generated, no emails are sent and payment reminders are paused.</li>
+            <li>Give amountPaid and paymentMethod for billings that were already paid, so they do not show as outstanding.</li>
+          </ul>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => handleFileSelected(e.target.files?.[0])}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} isLoading={isChecking}>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose CSV
+            </Button>
+            <Button variant="ghost" onClick={handleDownloadTemplate}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Template
+            </Button>
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          </div>
+        </Card>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {importMessage && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4 flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <p className="text-green-800">{importMessage}</p>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-6">
+            <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <p className="text-gray-700">
+                  {preview.rowCount} row(s), {preview.billings.length} billing(s)
+                  {preview.errors.length > 0 && (
+                    <span className="text-red-600 font-medium">, {preview.errors.length} error(s)</span>
+                  )}
+                </p>
+                <Button onClick={handleImport} isLoading={isImporting} disabled={!canImport}>
+                  Import {preview.billings.length} Billing(s)
+                </Button>
+              </div>
+              {preview.errors.length > 0 && (
+                <p className="text-sm text-gray-500 mt-2">Fix the rows below and choose the file again. Nothing is imported while errors remain.</p>
+              )}
+            </Card>
+
+            {preview.errors.length > 0 && (
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+                <div className="flex items-center gap-2 mb-4">
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                  <h2 className="text-lg font-bold text-gray-900">Row Errors</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4">Row</th>
+                        <th className="py-2 pr-4">Billing</th>
+                        <th className="py-2">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.errors.map((rowError, index) => (
+                        <tr key={index} className="border-b last:border-0">
+                          <td className="py-2 pr-4 font-mono">{rowError.row}</td>
+                          <td className="py-2 pr-4">{rowError.billingNumber || '—'}</td>
+                          <td className="py-2 text-red-700">{rowError.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            )}
+
+            {preview.billings.length > 0 && (
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Preview</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4">Billing Number</th>
+                        <th className="py-2 pr-4">Date</th>
+                        <th className="py-2 pr-4">Company</th>
+                        <th className="py-2 pr-4 text-right">Items</th>
+                        <th className="py-2 pr-4 text-right">Grand Total</th>
+                        <th className="py-2 pr-4 text-right">Paid</th>
+                        <th className="py-2">Rows</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.billings.map(billing => (
+                        <tr
+                          key={billing.billingNumber}
+                          className={`border-b last:border-0 ${billingsWithErrors.has(billing.billingNumber) ? 'bg-red-50' : ''}`}
+                        >
+                          <td className="py-2 pr-4 font-medium">{billing.billingNumber}</td>
+                          <td className="py-2 pr-4">{new Date(billing.billingDate).toLocaleDateString()}</td>
+                          <td className="py-2 pr-4">
+                            {billing.companyName}
+                            {!billing.clientMatched && <span className="ml-2 text-xs text-gray-400">(no client record)</span>}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{billing.itemCount}</td>
+                          <td className="py-2 pr-4 text-right">{formatCurrency(billing.grandTotal)}</td>
+                          <td className="py-2 pr-4 text-right">{formatCurrency(billing.amountPaid)}</td>
+                          <td className="py-2 text-gray-500">{billing.rows.join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 import { useEffect, useState } from 'react';
 import { useParams, useLocation, Link } from 'react-router-dom';
-import { CheckCircle, Download, ArrowLeft, Printer, Loader2, AlertCircle } from 'lucide-react';
+import { CheckCircle, Download, ArrowLeft, Printer, Loader2, AlertCircle, Ban } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent } from '../components/ui/Card';
 import { Navigation } from '../components/Navigation';
 import { BillingItem } from '../components/ItemizedTable';
+import { PaymentHistory } from '../components/PaymentHistory';
+import { CreditMemos } from '../components/CreditMemos';
+import { BillingHistory } from '../components/BillingHistory';
+import { EmailDelivery } from '../components/EmailDelivery';
+import { PaymentReminders } from '../components/PaymentReminders';
 import { formatCurrency } from '../lib/utils';
+import { useAuth } from '../context/AuthContext';
 import { BillingApiService } from '../services/billing.api.service';
+import { AuthService } from '../services/auth.service';
+import { SettingsApiService, CompanySettingsData } from '../services/settings.api.service';
+import { PaymentTerms, VatMode, WithholdingRate, TaxBreakdown, formatPaymentTerms, formatVatMode } from '../types/billing.types';
 
 interface BillingPreviewData {
   billingNumber: string;
@@ -16,12 +25,23 @@ interface BillingPreviewData {
   contactNumber: string;
   address: string;
   attentionPerson: string;
+  clientEmail?: string;
   items: BillingItem[];
   discount: number;
   subtotal: number;
   grandTotal: number;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
+  taxBreakdown?: TaxBreakdown;
+  paymentTerms?: PaymentTerms;
+  customTermDays?: number;
+  dueDate?: string;
+  balanceDue?: number;
+  revision?: number;
   status?: string;
   emailStatus?: string;
+  voidReason?: string;
+  voidedAt?: string;
 }
 
 export function BillingPreview() {
@@ -32,6 +52,39 @@ export function BillingPreview() {
   const [data, setData] = useState<BillingPreviewData | null>(stateData);
   const [isLoading, setIsLoading] = useState(!stateData);
   const [error, setError] = useState<string | null>(null);
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [ledgerKey, setLedgerKey] = useState(0);
+  const [company, setCompany] = useState<CompanySettingsData | null>(null);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const { isAdmin } = useAuth();
+
+  // Company details shown in the FROM block and footer, as on the PDF
+  useEffect(() => {
+    let objectUrl: string | null = null;
+
+    const fetchCompany = async () => {
+      try {
+        const response = await SettingsApiService.getCompanySettings();
+        if (response.success && response.data) {
+          setCompany(response.data);
+          if (response.data.hasLogo) {
+            const blob = await SettingsApiService.getCompanyLogo();
+            if (blob) {
+              objectUrl = URL.createObjectURL(blob);
+              setLogoUrl(objectUrl);
+            }
+          }
+        }
+      } catch (err) {
+        console.error('Error fetching company settings:', err);
+      }
+    };
+
+    fetchCompany();
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, []);
 
   // Fetch billing data if not passed via state
   useEffect(() => {
@@ -63,12 +116,52 @@ export function BillingPreview() {
     }
   }, [id, stateData]);
 
+  // Reload the billing after a credit memo so the balance and payment summary stay in sync
+  const refreshBilling = async () => {
+    if (!data) return;
+    try {
+      const response = await BillingApiService.getBillingById(data.billingNumber);
+      if (response.success && response.data) {
+        setData(response.data);
+      }
+    } catch (err) {
+      console.error('Error refreshing billing:', err);
+    }
+    setLedgerKey(key => key + 1);
+  };
+
+  const handleVoid = async () => {
+    if (!data) return;
+
+    const reason = prompt(`Void billing ${data.billingNumber}? The record is kept and its PDF is stamped "VOID".\n\nReason:`);
+    if (reason === null) return;
+    if (reason.trim() === '') {
+      alert('A reason is required to void a billing.');
+      return;
+    }
+
+    setIsVoiding(true);
+    try {
+      const response = await BillingApiService.voidBilling(data.billingNumber, reason.trim());
+      if (response.success && response.data) {
+        setData(response.data);
+        setLedgerKey(key => key + 1);
+      }
+    } catch (err: any) {
+      alert(err.message || 'Failed to void billing');
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
   const handleDownloadPDF = async () => {
     if (!data) return;
     
     try {
       const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${API_BASE_URL}/billings/${data.billingNumber}/download-pdf`);
+      const response = await fetch(`${API_BASE_URL}/billings/${data.billingNumber}/download-pdf`, {
+        headers: { ...AuthService.getAuthHeader() }
+      });
       
       if (!response.ok) {
         const error = await response.json();
@@ -101,7 +194,9 @@ export function BillingPreview() {
     
     try {
       const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-      const response = await fetch(`${API_BASE_URL}/billings/${data.billingNumber}/download-pdf`);
+      const response = await fetch(`${API_BASE_URL}/billings/${data.billingNumber}/download-pdf`, {
+        headers: { ...AuthService.getAuthHeader() }
+      });
       
       if (!response.ok) {
         const error = await response.json();
@@ -157,6 +252,9 @@ export function BillingPreview() {
       </div>;
   }
 
+  const hasReceiptLines = data.items.some(item => item.deliveryReceiptNumber);
+  const paymentTerms = (company?.paymentNotes || '').split('\n').map(term => term.trim()).filter(Boolean);
+
   return <div className="min-h-screen bg-gray-50 print:bg-white">
       <div className="print:hidden">
         <Navigation />
@@ -169,11 +267,24 @@ export function BillingPreview() {
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3 text-green-800 print:hidden">
               <CheckCircle className="h-5 w-5 text-green-600" />
               <span className="font-medium">
-                Billing successfully generated{data.emailStatus === 'Sent' ? ' and emailed to client' : ''}.
+                Billing successfully generated{data.emailStatus === 'Sent' ? ' and emailed to client' : data.emailStatus === 'Pending' ? '. The invoice email is being sent' : ''}.
               </span>
             </div>
           )}
 
+          {/* Void Banner - Hidden in print */}
+          {data.status === 'Void' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 text-red-800 print:hidden">
+              <Ban className="h-5 w-5 text-red-600 mt-0.5" />
+              <div>
+                <p className="font-medium">
+                  This billing was voided{data.voidedAt ? ` on ${new Date(data.voidedAt).toLocaleDateString()}` : ''}.
+                </p>
+                {data.voidReason && <p className="text-sm">Reason: {data.voidReason}</p>}
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons - Hidden in print */}
           <div className="flex justify-between items-center print:hidden">
             <Link to="/">
@@ -183,6 +294,12 @@ export function BillingPreview() {
               </Button>
             </Link>
             <div className="flex gap-3">
+              {isAdmin && data.status !== 'Void' && (
+                <Button variant="danger" onClick={handleVoid} isLoading={isVoiding}>
+                  <Ban className="mr-2 h-4 w-4" />
+                  Void
+                </Button>
+              )}
               <Button variant="secondary" onClick={handlePrint}>
                 <Printer className="mr-2 h-4 w-4" />
                 Print
@@ -199,16 +316,20 @@ export function BillingPreview() {
             <CardContent className="p-8 md:p-12 space-y-8 print:p-12">
               {/* Header */}
               <div className="flex justify-between items-start border-b-2 border-blue-600 pb-4">
-                <div>
-                  <h1 className="text-2xl font-bold text-gray-900 mb-1">
-                    BILLING STATEMENT
-                  </h1>
-                  <p className="text-xs text-gray-600">Sewcut Billing System</p>
+                <div className="flex items-start gap-3">
+                  {logoUrl && <img src={logoUrl} alt="" className="h-12 w-12 object-contain" />}
+                  <div>
+                    <h1 className="text-2xl font-bold text-gray-900 mb-1">
+                      BILLING STATEMENT
+                    </h1>
+                    <p className="text-xs text-gray-600">{company?.companyName}</p>
+                  </div>
                 </div>
                 <div className="text-right">
                   <div className="bg-blue-50 px-3 py-1.5 rounded inline-block">
                     <p className="text-[10px] text-gray-600 font-semibold">Billing No.</p>
                     <p className="text-base font-bold text-blue-600">{data.billingNumber}</p>
+                    {!!data.revision && <p className="text-[10px] text-gray-600">Revision {data.revision}</p>}
                   </div>
                 </div>
               </div>
@@ -221,10 +342,13 @@ export function BillingPreview() {
                     From
                   </h3>
                   <div className="space-y-0.5">
-                    <p className="text-xs font-bold text-gray-900">Sew Cut Wearing Apparel Manufacturing</p>
-                    <p className="text-[11px] text-gray-600">13 Delaware St. Barangay Banaba</p>
-                    <p className="text-[11px] text-gray-600">San Mateo, Rizal 1850</p>
-                    <p className="text-[11px] text-gray-600">sewcut.garmentsmanufacturing@gmail.com</p>
+                    <p className="text-xs font-bold text-gray-900">{company?.companyName}</p>
+                    {company?.address.split('\n').filter(line => line.trim()).map((line, index) => (
+                      <p key={index} className="text-[11px] text-gray-600">{line}</p>
+                    ))}
+                    {company?.phone && <p className="text-[11px] text-gray-600">Tel: {company.phone}</p>}
+                    {company?.email && <p className="text-[11px] text-gray-600">{company.email}</p>}
+                    {company?.tin && <p className="text-[11px] text-gray-600">TIN: {company.tin}</p>}
                   </div>
                 </div>
 
@@ -244,6 +368,26 @@ export function BillingPreview() {
                         })}
                       </span>
                     </div>
+                    {data.dueDate && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Terms:</span>
+                          <span className="font-bold text-gray-900">
+                            {formatPaymentTerms(data.paymentTerms || 'COD', data.customTermDays)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Due Date:</span>
+                          <span className="font-bold text-gray-900">
+                            {new Date(data.dueDate).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric'
+                            })}
+                          </span>
+                        </div>
+                      </>
+                    )}
                     {data.deliveryReceiptNumber && (
                       <div className="flex justify-between">
                         <span className="text-gray-600">DR No:</span>
@@ -285,6 +429,11 @@ export function BillingPreview() {
                         <th className="px-3 py-2 text-center font-bold text-gray-700 text-[11px] w-16">
                           QTY
                         </th>
+                        {hasReceiptLines && (
+                          <th className="px-3 py-2 text-left font-bold text-gray-700 text-[11px] w-32">
+                            DR NO.
+                          </th>
+                        )}
                         <th className="px-3 py-2 text-left font-bold text-gray-700 text-[11px]">
                           DESCRIPTION
                         </th>
@@ -300,6 +449,9 @@ export function BillingPreview() {
                       {data.items.filter(item => item.description.trim() !== '').map((item, index, filteredItems) => (
                         <tr key={item.id} className={index !== filteredItems.length - 1 ? 'border-b border-gray-200' : ''}>
                           <td className="px-3 py-2.5 text-center text-gray-900 text-[11px]">{item.quantity}</td>
+                          {hasReceiptLines && (
+                            <td className="px-3 py-2.5 text-left text-gray-600 text-[11px]">{item.deliveryReceiptNumber || '-'}</td>
+                          )}
                           <td className="px-3 py-2.5 text-left text-gray-900 text-[11px]">{item.description}</td>
                           <td className="px-3 py-2.5 text-right text-gray-900 text-[11px]">
                             {formatCurrency(item.unitPrice)}
@@ -334,6 +486,44 @@ export function BillingPreview() {
                     </div>
                   )}
                   
+                  {data.taxBreakdown && data.vatMode && data.vatMode !== 'None' && (
+                    <div className="border-t border-gray-200 pt-2 space-y-1.5">
+                      <div className="flex justify-between items-center text-[11px]">
+                        <span className="font-normal text-gray-600">VATable Sales:</span>
+                        <span className="text-gray-900">{formatCurrency(data.taxBreakdown.vatableSales)}</span>
+                      </div>
+                      {data.taxBreakdown.vatExemptSales > 0 && (
+                        <div className="flex justify-between items-center text-[11px]">
+                          <span className="font-normal text-gray-600">VAT-Exempt Sales:</span>
+                          <span className="text-gray-900">{formatCurrency(data.taxBreakdown.vatExemptSales)}</span>
+                        </div>
+                      )}
+                      {data.taxBreakdown.zeroRatedSales > 0 && (
+                        <div className="flex justify-between items-center text-[11px]">
+                          <span className="font-normal text-gray-600">Zero-Rated Sales:</span>
+                          <span className="text-gray-900">{formatCurrency(data.taxBreakdown.zeroRatedSales)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center text-[11px]">
+                        <span className="font-normal text-gray-600">VAT (12%, {formatVatMode(data.vatMode)}):</span>
+                        <span className="text-gray-900">{formatCurrency(data.taxBreakdown.vatAmount)}</span>
+                      </div>
+                      <div className="flex justify-between items-center text-[11px]">
+                        <span className="font-normal text-gray-600">Total Sales:</span>
+                        <span className="font-bold text-gray-900">{formatCurrency(data.taxBreakdown.totalSales)}</span>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {data.taxBreakdown && data.taxBreakdown.withholdingTax > 0 && (
+                    <div className="flex justify-between items-center text-[11px]">
+                      <span className="font-normal text-gray-600">Less Withholding Tax ({data.withholdingRate}%):</span>
+                      <span className="font-bold text-red-600">
+                        -{formatCurrency(data.taxBreakdown.withholdingTax)}
+                      </span>
+                    </div>
+                  )}
+                  
                   <div className="border-t border-gray-400 pt-2 flex justify-between items-center">
                     <span className="text-xs font-bold text-gray-900">Grand Total:</span>
                     <span className="text-base font-bold text-blue-600">
@@ -344,33 +534,71 @@ export function BillingPreview() {
               </div>
 
               {/* Footer / Notes */}
-              <div className="border-t border-gray-300 pt-5 mt-6 space-y-3.5">
-                <div className="space-y-1.5">
-                  <p className="text-xs font-bold text-gray-900">Terms:</p>
-                  <ol className="text-[10px] text-gray-700 space-y-0.5 list-none leading-relaxed">
-                    <li>1. 50% Down Payment upon confirmation of order (through bank deposit)</li>
-                    <li>2. 50% Full payment after 5 working days upon completion of orders (through bank deposit)</li>
-                  </ol>
-                </div>
-                
-                <div className="space-y-0.5">
-                  <p className="text-[11px] font-bold text-gray-900">*Deposit all payments to:</p>
-                  <p className="text-[11px]">
-                    <span className="text-red-600">BDO Account Name: </span>
-                    <span className="font-bold text-red-600">SEW-CUT WEARING APPAREL MANUFACTURING</span>
-                  </p>
-                  <p className="text-[11px]">
-                    <span className="text-red-600">Account Number: </span>
-                    <span className="font-bold text-red-600">012258002502</span>
-                  </p>
+              {company && (
+                <div className="border-t border-gray-300 pt-5 mt-6 space-y-3.5">
+                  {paymentTerms.length > 0 && (
+                    <div className="space-y-1.5">
+                      <p className="text-xs font-bold text-gray-900">Terms:</p>
+                      <ol className="text-[10px] text-gray-700 space-y-0.5 list-none leading-relaxed">
+                        {paymentTerms.map((term, index) => (
+                          <li key={index}>{index + 1}. {term}</li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+
+                  {(company.bankAccountName || company.bankAccountNumber) && (
+                    <div className="space-y-0.5">
+                      <p className="text-[11px] font-bold text-gray-900">*Deposit all payments to:</p>
+                      {company.bankAccountName && (
+                        <p className="text-[11px]">
+                          <span className="text-red-600">{company.bankName ? `${company.bankName} Account Name: ` : 'Account Name: '}</span>
+                          <span className="font-bold text-red-600">{company.bankAccountName}</span>
+                        </p>
+                      )}
+                      {company.bankAccountNumber && (
+                        <p className="text-[11px]">
+                          <span className="text-red-600">{!company.bankAccountName && company.bankName ? `${company.bankName} Account Number: ` : 'Account Number: '}</span>
+                          <span className="font-bold text-red-600">{company.bankAccountNumber}</span>
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {company.footerText && (
+                    <p className="text-[9px] text-gray-400 text-center italic pt-3">
+                      {company.footerText}
+                    </p>
+                  )}
                 </div>
-                
-                <p className="text-[9px] text-gray-400 text-center italic pt-3">
-                  This is a computer-generated document. No signature is required.
-                </p>
-              </div>
+              )}
             </CardContent>
           </Card>
+
+          {/* Email Delivery - Hidden in print */}
+          <EmailDelivery
+            billingId={data.billingNumber}
+            defaultRecipient={data.clientEmail}
+            isVoid={data.status === 'Void'}
+            onChange={refreshBilling}
+          />
+
+          {/* Payment Reminders - Hidden in print */}
+          <PaymentReminders key={ledgerKey} billingId={data.billingNumber} isAdmin={isAdmin} />
+
+          {/* Payment Ledger - Hidden in print */}
+          <PaymentHistory key={ledgerKey} billingId={data.billingNumber} />
+
+          {/* Credit Memos - Hidden in print */}
+          <CreditMemos
+            billingId={data.billingNumber}
+            balanceDue={data.balanceDue ?? data.grandTotal}
+            isVoid={data.status === 'Void'}
+            onChange={refreshBilling}
+          />
+
+          {/* Audit Trail - Hidden in print */}
+          <BillingHistory key={ledgerKey} billingId={data.billingNumber} />
         </div>
       </main>
     </div>;
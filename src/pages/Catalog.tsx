@@ -0,0 +1,259 @@
+/**
+ * Catalog Page
+ * Price list of products and services used when adding billing items
+ */
+
+import { useState, useEffect } from 'react';
+import { CatalogApiService, CatalogItemData } from '../services/catalog.api.service';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Navigation } from '../components/Navigation';
+import { useAuth } from '../context/AuthContext';
+import { formatCurrency } from '../lib/utils';
+import { Package, Plus, Pencil, Trash2, RefreshCw, X } from 'lucide-react';
+
+const EMPTY_FORM: CatalogItemData = {
+  code: '',
+  description: '',
+  unit: 'pc',
+  defaultPrice: 0,
+  isActive: true
+};
+
+export function Catalog() {
+  const { isAdmin } = useAuth();
+  const [items, setItems] = useState<CatalogItemData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<CatalogItemData>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadItems = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await CatalogApiService.getCatalogItems(isAdmin);
+      if (response.success && response.data) {
+        setItems(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load catalog');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const openCreateForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (item: CatalogItemData) => {
+    setForm(item);
+    setEditingId(item._id || null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        code: form.code,
+        description: form.description,
+        unit: form.unit,
+        defaultPrice: form.defaultPrice,
+        isActive: form.isActive
+      };
+      if (editingId) {
+        await CatalogApiService.updateCatalogItem(editingId, payload);
+      } else {
+        await CatalogApiService.createCatalogItem(payload);
+      }
+      setIsFormOpen(false);
+      await loadItems();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save catalog item');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (item: CatalogItemData) => {
+    try {
+      await CatalogApiService.updateCatalogItem(item._id!, { isActive: !item.isActive });
+      await loadItems();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update catalog item');
+    }
+  };
+
+  const handleDelete = async (item: CatalogItemData) => {
+    if (!confirm(`Delete catalog item "${item.code}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await CatalogApiService.deleteCatalogItem(item._id!);
+      await loadItems();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete catalog item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 mt-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Price Catalog</h1>
+            <p className="text-gray-600 mt-2 text-lg">Standard sewing and cutting rates for billing items</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={loadItems} disabled={isLoading} className="flex items-center gap-2">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button onClick={openCreateForm} className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg">
+                <Plus className="mr-2 h-4 w-4" />
+                New Item
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Create / Edit Form */}
+        {isAdmin && isFormOpen && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{editingId ? 'Edit Catalog Item' : 'New Catalog Item'}</h2>
+              <button onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Input label="Code *" value={form.code} onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })} placeholder="e.g. SEW-POLO" />
+              <div className="md:col-span-2">
+                <Input label="Description *" value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} placeholder="e.g. Polo shirt sewing" />
+              </div>
+              <Input label="Unit *" value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} placeholder="e.g. pc, dozen" />
+              <Input
+                label="Default Price *"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.defaultPrice}
+                onChange={e => setForm({ ...form, defaultPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-3 md:self-end md:pb-2">
+                <input type="checkbox" checked={form.isActive} onChange={e => setForm({ ...form, isActive: e.target.checked })} />
+                Active (available when creating billings)
+              </label>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleSave} isLoading={isSaving}>
+                {editingId ? 'Save Changes' : 'Create Item'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+              <Package className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900">Items</h2>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-8">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              <p className="mt-4 text-gray-600">Loading catalog...</p>
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+              <p className="text-red-800">{error}</p>
+              <Button onClick={loadItems} className="mt-2">
+                Try Again
+              </Button>
+            </div>
+          )}
+
+          {!isLoading && !error && items.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 bg-gradient-to-r from-gray-50 to-gray-100">
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Code</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Description</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Unit</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Default Price</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Status</th>
+                    {isAdmin && <th className="text-right py-4 px-4 font-bold text-gray-800">Actions</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => (
+                    <tr key={item._id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">{item.code}</td>
+                      <td className="py-3 px-4 text-gray-700">{item.description}</td>
+                      <td className="py-3 px-4 text-gray-600">{item.unit}</td>
+                      <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(item.defaultPrice)}</td>
+                      <td className="py-3 px-4">
+                        <span className={`text-xs px-2 py-0.5 rounded ${item.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                          {item.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      {isAdmin && (
+                        <td className="py-3 px-4 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditForm(item)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="secondary" size="sm" onClick={() => handleToggleActive(item)}>
+                              {item.isActive ? 'Deactivate' : 'Activate'}
+                            </Button>
+                            <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(item)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!isLoading && !error && items.length === 0 && (
+            <div className="text-center py-12">
+              <Package className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No catalog items yet</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Company Settings Page
+ * Admin editor for the company profile printed on PDFs and emails
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SettingsApiService, CompanySettingsData, CompanySettingsForm } from '../services/settings.api.service';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Navigation } from '../components/Navigation';
+import { useAuth } from '../context/AuthContext';
+import { Building2, Landmark, ImageIcon, Save, Trash2, Upload } from 'lucide-react';
+
+const textareaClassName = 'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const toForm = (settings: CompanySettingsData): CompanySettingsForm => ({
+  companyName: settings.companyName,
+  address: settings.address,
+  tin: settings.tin,
+  phone: settings.phone,
+  email: settings.email,
+  bankName: settings.bankName,
+  bankAccountName: settings.bankAccountName,
+  bankAccountNumber: settings.bankAccountNumber,
+  paymentNotes: settings.paymentNotes,
+  footerText: settings.footerText
+});
+
+export function CompanySettings() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<CompanySettingsForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  const loadLogo = async () => {
+    const blob = await SettingsApiService.getCompanyLogo();
+    setLogoUrl(blob ? URL.createObjectURL(blob) : null);
+  };
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await SettingsApiService.getCompanySettings();
+      if (response.success && response.data) {
+        setForm(toForm(response.data));
+        if (response.data.hasLogo) {
+          await loadLogo();
+        }
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load company settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Free the previous logo preview whenever it is replaced or the page closes
+  useEffect(() => () => {
+    if (logoUrl) URL.revokeObjectURL(logoUrl);
+  }, [logoUrl]);
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    setSaveMessage(null);
+    setError(null);
+    try {
+      const response = await SettingsApiService.updateCompanySettings(form);
+      if (response.success && response.data) {
+        setForm(toForm(response.data));
+        setSaveMessage('Saved. New PDFs and emails will use these details.');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save company settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setLogoError(null);
+    try {
+      if (!['image/png', 'image/jpeg'].includes(file.type)) {
+        throw new Error('Logo must be a PNG or JPEG image');
+      }
+      await SettingsApiService.uploadCompanyLogo(file);
+      await loadLogo();
+    } catch (err: any) {
+      setLogoError(err.message || 'Failed to upload company logo');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    if (!confirm('Remove the company logo from PDFs and emails?')) return;
+
+    setIsUploading(true);
+    setLogoError(null);
+    try {
+      await SettingsApiService.deleteCompanyLogo();
+      setLogoUrl(null);
+    } catch (err: any) {
+      setLogoError(err.message || 'Failed to remove company logo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<CompanySettingsForm>) => {
+    setForm(current => current && { ...current, ...changes });
+    setSaveMessage(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+        {/* Header */}
+        <div className="mb-8 mt-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Company Settings</h1>
+          <p className="text-gray-600 mt-2 text-lg">Your company details as printed on invoices, statements and emails</p>
+        </div>
+
+        {isLoading && !form && (
+          <div className="text-center py-8">
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-gray-600">Loading company settings...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+            {!form && (
+              <Button onClick={loadSettings} className="mt-2">
+                Try Again
+              </Button>
+            )}
+          </div>
+        )}
+
+        {form && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Company Profile */}
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+                    <Building2 className="w-6 h-6 text-white" />
+                  </div>
+                  <h2 className="text-xl font-bold text-gray-900">Company Profile</h2>
+                </div>
+
+                <Input
+                  label="Company Name"
+                  value={form.companyName}
+                  onChange={e => updateForm({ companyName: e.target.value })}
+                  maxLength={200}
+                />
+                <div>
+                  <label htmlFor="company-address" className="block text-sm font-medium text-gray-700 mb-1">
+                    Address (one line per printed line)
+                  </label>
+                  <textarea
+                    id="company-address"
+                    value={form.address}
+                    onChange={e => updateForm({ address: e.target.value })}
+                    rows={2}
+                    maxLength={500}
+                    className={textareaClassName}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Input
+                    label="TIN"
+                    value={form.tin}
+                    onChange={e => updateForm({ tin: e.target.value })}
+                    placeholder="000-000-000-000"
+                  />
+                  <Input
+                    label="Phone"
+                    value={form.phone}
+                    onChange={e => updateForm({ phone: e.target.value })}
+                  />
+                  <Input
+                    label="Email"
+                    type="email"
+                    value={form.email}
+                    onChange={e => updateForm({ email: e.target.value })}
+                  />
+                </div>
+              </Card>
+
+              {/* Payment Instructions */}
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-emerald-600 rounded-xl flex items-center justify-center">
+                    <Landmark className="w-6 h-6 text-white" />
+                  </div>
+                  <h2 className="text-xl font-bold text-gray-900">Payment Instructions</h2>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Input
+                    label="Bank"
+                    value={form.bankName}
+                    onChange={e => updateForm({ bankName: e.target.value })}
+                  />
+                  <Input
+                    label="Account Name"
+                    value={form.bankAccountName}
+                    onChange={e => updateForm({ bankAccountName: e.target.value })}
+                  />
+                  <Input
+                    label="Account Number"
+                    value={form.bankAccountNumber}
+                    onChange={e => updateForm({ bankAccountNumber: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="company-payment-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Payment terms (one per line, numbered on the PDF)
+                  </label>
+                  <textarea
+                    id="company-payment-notes"
+                    value={form.paymentNotes}
+                    onChange={e => updateForm({ paymentNotes: e.target.value })}
+                    rows={3}
+                    maxLength={1000}
+                    className={textareaClassName}
+                  />
+                </div>
+                <Input
+                  label="Footer text"
+                  value={form.footerText}
+                  onChange={e => updateForm({ footerText: e.target.value })}
+                  maxLength={300}
+                />
+                <p className="text-sm text-gray-500">Leave a field empty to leave it off the documents.</p>
+              </Card>
+
+              <div className="flex items-center justify-end gap-4">
+                {saveMessage && <p className="text-sm text-green-700">{saveMessage}</p>}
+                <Button onClick={handleSave} isLoading={isSaving}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Settings
+                </Button>
+              </div>
+            </div>
+
+            {/* Logo */}
+            <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 space-y-4 self-start">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-600 rounded-xl flex items-center justify-center">
+                  <ImageIcon className="w-6 h-6 text-white" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">Logo</h2>
+              </div>
+
+              <div className="h-32 rounded-lg border border-dashed border-gray-300 bg-white flex items-center justify-center">
+                {logoUrl
+                  ? <img src={logoUrl} alt="Company logo" className="max-h-28 max-w-full object-contain" />
+                  : <p className="text-sm text-gray-500">No logo uploaded</p>}
+              </div>
+
+              {logoError && <p className="text-sm text-red-600">{logoError}</p>}
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/jpeg"
+                className="hidden"
+                onChange={e => handleLogoSelected(e.target.files?.[0])}
+              />
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={() => fileInputRef.current?.click()} isLoading={isUploading}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {logoUrl ? 'Replace' : 'Upload'}
+                </Button>
+                {logoUrl && (
+                  <Button variant="ghost" onClick={handleRemoveLogo} disabled={isUploading}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-gray-500">PNG or JPEG. Shown at the top of PDFs and emails.</p>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
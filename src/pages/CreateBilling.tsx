@@ -4,11 +4,12 @@ import { Navigation } from '../components/Navigation';
 import { FormSection } from '../components/FormSection';
 import { ItemizedTable, BillingItem } from '../components/ItemizedTable';
 import { BillingTotals } from '../components/BillingTotals';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
 import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
 import { Textarea } from '../components/ui/Textarea';
 import { Button } from '../components/ui/Button';
 import { Save, Send, AlertCircle, Loader2 } from 'lucide-react';
-import { generateBillingNumber } from '../lib/utils';
 import {
   validateCompanyName,
   validateAddress,
@@ -16,24 +17,44 @@ import {
   validateAttentionPerson,
   validateBillingDate,
   validateBillingItems,
-  validateDiscount
+  validateDiscount,
+  validatePaymentTerms
 } from '../lib/validation';
+import {
+  PaymentTerms,
+  PAYMENT_TERMS,
+  VatMode,
+  VAT_MODES,
+  WithholdingRate,
+  WITHHOLDING_RATES,
+  calculateDueDate,
+  calculateTaxBreakdown,
+  calculateGrandTotal,
+  formatVatMode
+} from '../types/billing.types';
 import { BillingApiService } from '../services/billing.api.service';
 import { DraftApiService } from '../services/draft.api.service';
+import { ClientData } from '../services/client.api.service';
+import { CatalogApiService, CatalogItemData } from '../services/catalog.api.service';
+import { PurchaseOrderApiService, PurchaseOrderData, PurchaseOrderLineData } from '../services/purchase.order.api.service';
+import { DeliveryReceiptData } from '../services/delivery.receipt.api.service';
 export function CreateBilling() {
   const navigate = useNavigate();
   const location = useLocation();
   const draftData = (location.state as any)?.draft;
+  // Open delivery receipts selected on the Delivery Receipts page
+  const deliveryReceipts: DeliveryReceiptData[] = (location.state as any)?.deliveryReceipts || [];
   
-  // Generate unique billing number on mount
-  const [billingNumber, setBillingNumber] = useState<string>('');
   const [draftId, setDraftId] = useState<string | null>(null);
   const [billingDate, setBillingDate] = useState<string>(new Date().toISOString().split('T')[0]);
   
   // Form State - Billing Information
   const [deliveryReceiptNumber, setDeliveryReceiptNumber] = useState<string>('');
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTerms>('COD');
+  const [customTermDays, setCustomTermDays] = useState<number>(45);
   
   // Form State - Billed To
+  const [clientId, setClientId] = useState<string | null>(null);
   const [companyName, setCompanyName] = useState<string>('');
   const [contactNumber, setContactNumber] = useState<string>('');
   const [address, setAddress] = useState<string>('');
@@ -53,6 +74,10 @@ export function CreateBilling() {
     unitPrice: 0
   }]);
   const [discount, setDiscount] = useState<number>(0);
+  const [vatMode, setVatMode] = useState<VatMode>('None');
+  const [withholdingRate, setWithholdingRate] = useState<WithholdingRate>(0);
+  const [catalogItems, setCatalogItems] = useState<CatalogItemData[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderData[]>([]);
   
   // Validation Error States
   const [errors, setErrors] = useState<{
@@ -82,13 +107,16 @@ export function CreateBilling() {
   const [apiError, setApiError] = useState<string | null>(null);
   const [apiErrors, setApiErrors] = useState<string[]>([]);
   
-  // Generate unique billing number when component loads or load draft data
+  // Load draft data when editing a saved draft
   useEffect(() => {
     if (draftData) {
       // Load draft data
       setDraftId(draftData._id || null);
       setBillingDate(draftData.billingDate);
       setDeliveryReceiptNumber(draftData.deliveryReceiptNumber || '');
+      setPaymentTerms(draftData.paymentTerms || 'COD');
+      setCustomTermDays(draftData.customTermDays || 45);
+      setClientId(draftData.clientId || null);
       setCompanyName(draftData.companyName);
       setContactNumber(draftData.contactNumber);
       setAddress(draftData.address);
@@ -96,14 +124,52 @@ export function CreateBilling() {
       setClientEmail(draftData.clientEmail || '');
       setItems(draftData.items);
       setDiscount(draftData.discount);
+      setVatMode(draftData.vatMode || 'None');
+      setWithholdingRate(draftData.withholdingRate || 0);
+    } else if (deliveryReceipts.length > 0) {
+      // Bill the client on the receipts for what was actually delivered
+      const [first] = deliveryReceipts;
+      setDeliveryReceiptNumber(deliveryReceipts.map(receipt => receipt.drNumber).join(', '));
+      setClientId(first.clientId || null);
+      setCompanyName(first.companyName);
+      setContactNumber(first.contactNumber || '');
+      setAddress(first.address);
+      setAttentionPerson(first.attentionPerson || '');
+      setItems(deliveryReceipts.flatMap(receipt => receipt.items
+        .filter(item => item.deliveredQuantity > 0)
+        .map(item => ({
+          id: `${receipt.drNumber}-${item.id}`,
+          quantity: item.deliveredQuantity,
+          description: item.description,
+          unitPrice: item.unitPrice,
+          catalogItemId: item.catalogItemId,
+          deliveryReceiptNumber: receipt.drNumber
+        }))));
     }
-    
-    const generatedBillingNumber = generateBillingNumber();
-    setBillingNumber(generatedBillingNumber);
   }, []);
+  // Load the price list for the item picker
+  useEffect(() => {
+    CatalogApiService.getCatalogItems()
+      .then(response => setCatalogItems(response.data || []))
+      .catch(() => setCatalogItems([]));
+  }, []);
+  // Load the selected client's open purchase orders for the PO line picker
+  useEffect(() => {
+    if (!clientId) {
+      setPurchaseOrders([]);
+      return;
+    }
+    PurchaseOrderApiService.getPurchaseOrders({ clientId, status: 'Open' })
+      .then(response => setPurchaseOrders(response.data || []))
+      .catch(() => setPurchaseOrders([]));
+  }, [clientId]);
   // Calculate totals
   const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
-  const grandTotal = Math.max(0, subtotal - discount);
+  const grandTotal = calculateGrandTotal(calculateTaxBreakdown(items, discount, vatMode, withholdingRate));
+  const termsValidation = validatePaymentTerms(paymentTerms, customTermDays);
+  const dueDate = billingDate && termsValidation.isValid
+    ? calculateDueDate(billingDate, paymentTerms, customTermDays).toISOString().split('T')[0]
+    : '';
   
   // Real-time validation - runs whenever form values change
   useEffect(() => {
@@ -171,13 +237,55 @@ export function CreateBilling() {
     clientEmail.trim() !== '' &&
     /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(clientEmail) &&
     validateBillingItems(items).isValid &&
-    validateDiscount(discount, subtotal).isValid;
+    validateDiscount(discount, subtotal).isValid &&
+    termsValidation.isValid;
+  // Fill in the Billed To section from a client master record
+  const handleSelectClient = (client: ClientData) => {
+    setClientId(client._id || null);
+    setCompanyName(client.companyName);
+    setAddress(client.address);
+    setContactNumber(client.contactNumber || '');
+    setAttentionPerson(client.attentionPerson);
+    setClientEmail(client.clientEmail || '');
+  };
+  const handleCompanyNameChange = (value: string) => {
+    // Typing a different name unlinks the selected client
+    setCompanyName(value);
+    setClientId(null);
+  };
   const handleUpdateItem = (id: string, field: keyof BillingItem, value: any) => {
     setItems(prev => prev.map(item => item.id === id ? {
       ...item,
       [field]: value
     } : item));
   };
+  const handlePickCatalogItem = (id: string, catalogItem: CatalogItemData | null) => {
+    // Snapshot the catalog description and price; they stay editable on the line
+    setItems(prev => prev.map(item => item.id === id ? catalogItem ? {
+      ...item,
+      catalogItemId: catalogItem._id,
+      description: catalogItem.description,
+      unitPrice: catalogItem.defaultPrice
+    } : {
+      ...item,
+      catalogItemId: undefined
+    } : item));
+  };
+  const handlePickPurchaseOrderLine = (id: string, po: PurchaseOrderData | null, line: PurchaseOrderLineData | null) => {
+    // Bill at the agreed PO price; the description stays editable
+    setItems(prev => prev.map(item => item.id === id ? po && line ? {
+      ...item,
+      purchaseOrderId: po._id,
+      purchaseOrderLineId: line.id,
+      catalogItemId: line.catalogItemId || item.catalogItemId,
+      description: `${line.style} ${line.description} (PO ${po.poNumber})`,
+      unitPrice: line.unitPrice
+    } : {
+      ...item,
+      purchaseOrderId: undefined,
+      purchaseOrderLineId: undefined
+    } : item));
+  };
   const handleRemoveItem = (id: string) => {
     if (items.length > 1) {
       setItems(prev => prev.filter(item => item.id !== id));
@@ -223,6 +331,10 @@ export function CreateBilling() {
     const billingData = {
       billingDate,
       deliveryReceiptNumber: deliveryReceiptNumber || undefined,
+      deliveryReceiptIds: deliveryReceipts.length > 0 ? deliveryReceipts.map(receipt => receipt._id!) : undefined,
+      clientId: clientId || undefined,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? customTermDays : undefined,
       companyName,
       address,
       contactNumber,
@@ -234,6 +346,8 @@ export function CreateBilling() {
       })),
       subtotal,
       discount,
+      vatMode,
+      withholdingRate,
       grandTotal
     };
     
@@ -252,10 +366,10 @@ export function CreateBilling() {
           if (pdf === 'Generated') {
             pipelineMessage += ' PDF generated.';
           }
-          if (email === 'Sent') {
-            pipelineMessage += ' Email sent.';
+          if (email === 'Queued') {
+            pipelineMessage += ' Email queued.';
           } else if (email === 'Failed') {
-            pipelineMessage += ' (Email sending failed - you can resend later)';
+            pipelineMessage += ' (Email could not be queued - you can resend later)';
           }
           
           // Show success message
@@ -275,10 +389,17 @@ export function CreateBilling() {
             contactNumber: response.data.contactNumber,
             address: response.data.address,
             attentionPerson: response.data.attentionPerson,
+            clientEmail: response.data.clientEmail,
             items: response.data.items,
             discount: response.data.discount,
             subtotal: response.data.subtotal,
             grandTotal: response.data.grandTotal,
+            vatMode: response.data.vatMode,
+            withholdingRate: response.data.withholdingRate,
+            taxBreakdown: response.data.taxBreakdown,
+            paymentTerms: response.data.paymentTerms,
+            customTermDays: response.data.customTermDays,
+            dueDate: response.data.dueDate,
             status: response.data.status,
             emailStatus: response.data.emailStatus,
             pipelineStatus: response.pipeline
@@ -316,6 +437,9 @@ export function CreateBilling() {
       _id: draftId || undefined,
       billingDate,
       deliveryReceiptNumber,
+      clientId: clientId || undefined,
+      paymentTerms,
+      customTermDays: paymentTerms === 'Custom' ? customTermDays : undefined,
       companyName,
       contactNumber,
       address,
@@ -323,6 +447,8 @@ export function CreateBilling() {
       clientEmail,
       items: validItems.length > 0 ? validItems : items, // Save all items if none are filled
       discount,
+      vatMode,
+      withholdingRate,
       subtotal,
       grandTotal
     };
@@ -404,7 +530,8 @@ export function CreateBilling() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Input 
                 label="Billing Number" 
-                value={billingNumber} 
+                value=""
+                placeholder="Assigned automatically when generated"
                 disabled 
                 className="bg-gray-100 text-gray-500" 
               />
@@ -417,10 +544,37 @@ export function CreateBilling() {
                 error={touched.billingDate ? errors.billingDate : undefined}
               />
               <Input 
-                label="Delivery Receipt Number (Optional)" 
+                label={deliveryReceipts.length > 0 ? 'Delivery Receipts' : 'Delivery Receipt Number (Optional)'} 
                 placeholder="e.g. DR-12345"
                 value={deliveryReceiptNumber}
                 onChange={(e) => setDeliveryReceiptNumber(e.target.value)}
+                disabled={deliveryReceipts.length > 0}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <Select 
+                  label="Payment Terms" 
+                  value={paymentTerms}
+                  onChange={(e) => setPaymentTerms(e.target.value as PaymentTerms)}
+                  options={PAYMENT_TERMS.map(terms => ({ label: terms, value: terms }))}
+                />
+                {paymentTerms === 'Custom' && (
+                  <Input 
+                    type="number" 
+                    label="Days to Pay" 
+                    min="1"
+                    max="365"
+                    value={customTermDays}
+                    onChange={(e) => setCustomTermDays(parseInt(e.target.value, 10) || 0)}
+                    error={termsValidation.isValid ? undefined : termsValidation.error}
+                  />
+                )}
+              </div>
+              <Input 
+                type="date" 
+                label="Due Date" 
+                value={dueDate}
+                disabled 
+                className="bg-gray-100 text-gray-500" 
               />
             </div>
           </FormSection>
@@ -428,11 +582,12 @@ export function CreateBilling() {
           {/* Section 2: Billed To */}
           <FormSection title="Billed To">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <Input 
+              <ClientAutocomplete 
                 label="Company Name *" 
-                placeholder="Enter company name" 
+                placeholder="Search clients or enter company name" 
                 value={companyName} 
-                onChange={e => setCompanyName(e.target.value)}
+                onChange={handleCompanyNameChange}
+                onSelect={handleSelectClient}
                 onBlur={() => handleBlur('companyName')}
                 error={touched.companyName ? errors.companyName : undefined}
               />
@@ -478,7 +633,7 @@ export function CreateBilling() {
           {/* Section 3: Itemized Billing */}
           <FormSection title="Itemized Billing">
             <div className="space-y-2">
-              <ItemizedTable items={items} onUpdateItem={handleUpdateItem} onRemoveItem={handleRemoveItem} onAddItem={handleAddItem} />
+              <ItemizedTable items={items} catalogItems={catalogItems} showVatType={vatMode !== 'None'} onUpdateItem={handleUpdateItem} onPickCatalogItem={handlePickCatalogItem} purchaseOrders={purchaseOrders} onPickPurchaseOrderLine={handlePickPurchaseOrderLine} onRemoveItem={handleRemoveItem} onAddItem={handleAddItem} />
               {errors.items && (
                 <div className="flex items-start gap-2 text-sm text-red-700 bg-gradient-to-r from-red-50 to-pink-50 border-2 border-red-200 rounded-lg p-4 shadow-md">
                   <div className="w-5 h-5 bg-red-500 rounded-full flex items-center justify-center flex-shrink-0">
@@ -493,6 +648,20 @@ export function CreateBilling() {
           {/* Section 4: Totals */}
           <div className="flex justify-end">
             <div className="w-full md:w-1/2 lg:w-1/3 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <Select 
+                  label="VAT" 
+                  value={vatMode}
+                  onChange={(e) => setVatMode(e.target.value as VatMode)}
+                  options={VAT_MODES.map(mode => ({ label: formatVatMode(mode), value: mode }))}
+                />
+                <Select 
+                  label="Withholding Tax" 
+                  value={String(withholdingRate)}
+                  onChange={(e) => setWithholdingRate(Number(e.target.value) as WithholdingRate)}
+                  options={WITHHOLDING_RATES.map(rate => ({ label: rate === 0 ? 'None' : `${rate}%`, value: String(rate) }))}
+                />
+              </div>
               <div className="space-y-1">
                 <label className="text-sm font-medium text-gray-600">Discount (Optional):</label>
                 <Input 
@@ -507,7 +676,7 @@ export function CreateBilling() {
                   error={touched.discount ? errors.discount : undefined}
                 />
               </div>
-              <BillingTotals items={items} discount={discount} />
+              <BillingTotals items={items} discount={discount} vatMode={vatMode} withholdingRate={withholdingRate} />
             </div>
           </div>
         </div>
@@ -1,65 +1,132 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { FileText, Mail, TrendingUp, Loader2 } from 'lucide-react';
 import { Navigation } from '../components/Navigation';
 import { SummaryCard } from '../components/SummaryCard';
-import { BillingTable } from '../components/BillingTable';
+import { BillingTable, BillingTablePagination, BillingTableQuery } from '../components/BillingTable';
 import { Button } from '../components/ui/Button';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { BillingApiService } from '../services/billing.api.service';
 
+/**
+ * Table view used when the URL does not say otherwise
+ */
+const DEFAULT_QUERY: BillingTableQuery = {
+  search: '',
+  status: 'All',
+  sort: '-createdAt',
+  page: 1,
+  limit: 10
+};
+
+/**
+ * Read the table view from the URL query string
+ */
+const readQuery = (params: URLSearchParams): BillingTableQuery => ({
+  search: params.get('search') || DEFAULT_QUERY.search,
+  status: params.get('status') || DEFAULT_QUERY.status,
+  sort: params.get('sort') || DEFAULT_QUERY.sort,
+  page: Math.max(1, parseInt(params.get('page') || '', 10) || DEFAULT_QUERY.page),
+  limit: Math.min(100, Math.max(1, parseInt(params.get('limit') || '', 10) || DEFAULT_QUERY.limit))
+});
+
 export function Dashboard() {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [billings, setBillings] = useState<any[]>([]);
+  const [pagination, setPagination] = useState<BillingTablePagination | undefined>();
+  const [stats, setStats] = useState({ totalBillings: 0, billingsThisMonth: 0, emailsSent: 0 });
   const [isLoading, setIsLoading] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const queryString = searchParams.toString();
+  const query = useMemo(() => readQuery(new URLSearchParams(queryString)), [queryString]);
 
-  // Fetch billings from API
+  /**
+   * Change the table view; only values that differ from the defaults go in the URL
+   */
+  const handleQueryChange = useCallback((changes: Partial<BillingTableQuery>) => {
+    setSearchParams(current => {
+      const next = { ...readQuery(current), ...changes };
+      const params = new URLSearchParams();
+      (Object.keys(DEFAULT_QUERY) as (keyof BillingTableQuery)[]).forEach(key => {
+        if (next[key] !== DEFAULT_QUERY[key]) params.set(key, String(next[key]));
+      });
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Fetch the page of billings the table shows
   useEffect(() => {
+    let isCurrent = true;
+
     const fetchBillings = async () => {
       try {
-        setIsLoading(true);
-        const response = await BillingApiService.getAllBillings();
-        
+        setIsFetching(true);
+        const params: Record<string, string> = {
+          sort: query.sort,
+          page: String(query.page),
+          limit: String(query.limit)
+        };
+        if (query.search) params.search = query.search;
+        if (query.status !== 'All') params.status = query.status;
+
+        const response = await BillingApiService.getAllBillings(params);
+        if (!isCurrent) return;
+
         if (response.success && response.data) {
           setBillings(response.data);
+          setPagination(response.pagination);
+          setError(null);
         }
       } catch (err: any) {
+        if (!isCurrent) return;
         console.error('Error fetching billings:', err);
         setError(err.message || 'Failed to load billings');
       } finally {
-        setIsLoading(false);
+        if (isCurrent) {
+          setIsLoading(false);
+          setIsFetching(false);
+        }
       }
     };
 
     fetchBillings();
-  }, []);
-
-  // Calculate dashboard statistics from real data
-  const stats = useMemo(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1;
-    
-    // Total billings
-    const totalBillings = billings.length;
-    
-    // Billings this month
-    const billingsThisMonth = billings.filter(billing => {
-      const billingDate = new Date(billing.billingDate);
-      return billingDate.getFullYear() === currentYear && 
-             billingDate.getMonth() + 1 === currentMonth;
-    }).length;
-    
-    // Emails sent (billings with 'Sent' email status)
-    const emailsSent = billings.filter(
-      billing => billing.emailStatus === 'Sent'
-    ).length;
-    
-    return {
-      totalBillings,
-      billingsThisMonth,
-      emailsSent
+    return () => {
+      isCurrent = false;
+    };
+  }, [query, reloadKey]);
+
+  // Count billings on the server, as the table only holds one page
+  useEffect(() => {
+    const countBillings = async (params: Record<string, string> = {}) => {
+      const response = await BillingApiService.getAllBillings({ ...params, limit: '1' });
+      return response.pagination?.total ?? 0;
+    };
+
+    const fetchStats = async () => {
+      try {
+        const now = new Date();
+        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+        const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+        const toDateString = (date: Date) =>
+          `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+        const [totalBillings, billingsThisMonth, emailsSent] = await Promise.all([
+          countBillings(),
+          countBillings({ dateFrom: toDateString(monthStart), dateTo: toDateString(monthEnd) }),
+          // Billings with 'Sent' email status
+          countBillings({ emailStatus: 'Sent' })
+        ]);
+
+        setStats({ totalBillings, billingsThisMonth, emailsSent });
+      } catch (err: any) {
+        console.error('Error fetching billing stats:', err);
+      }
     };
-  }, [billings]);
+
+    fetchStats();
+  }, [reloadKey]);
 
   return <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
       <Navigation />
@@ -107,9 +174,16 @@ export function Dashboard() {
 
             <div className="space-y-4">
               <h2 className="text-lg font-semibold text-gray-900">
-                Recent Billings
+                Billings
               </h2>
-              <BillingTable billings={billings} />
+              <BillingTable
+                billings={billings}
+                pagination={pagination}
+                query={query}
+                onQueryChange={handleQueryChange}
+                isFetching={isFetching}
+                onBillingsChanged={() => setReloadKey(key => key + 1)}
+              />
             </div>
           </>
         )}
@@ -0,0 +1,525 @@
+/**
+ * Delivery Receipts Page
+ * Issue delivery receipts when goods ship and bill them later
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  DeliveryReceiptApiService,
+  DeliveryReceiptData,
+  DeliveryReceiptItemData
+} from '../services/delivery.receipt.api.service';
+import { ClientData } from '../services/client.api.service';
+import { BillingApiService } from '../services/billing.api.service';
+import { PaymentTerms, PAYMENT_TERMS } from '../types/billing.types';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Navigation } from '../components/Navigation';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
+import { Truck, Plus, Pencil, Download, RefreshCw, X, Trash2, FileText, Layers } from 'lucide-react';
+
+const newItem = (): DeliveryReceiptItemData => ({
+  id: Math.random().toString(36).substr(2, 9),
+  description: '',
+  unit: 'pc',
+  quantity: 1,
+  deliveredQuantity: 1,
+  unitPrice: 0
+});
+
+const emptyForm = (): DeliveryReceiptData => ({
+  deliveryDate: new Date().toISOString().split('T')[0],
+  companyName: '',
+  address: '',
+  contactNumber: '',
+  attentionPerson: '',
+  items: [newItem()],
+  receivedBy: '',
+  notes: ''
+});
+
+/**
+ * First and last day of the current month (YYYY-MM-DD)
+ */
+const currentMonth = () => {
+  const now = new Date();
+  const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return {
+    from: toDateString(new Date(now.getFullYear(), now.getMonth(), 1)),
+    to: toDateString(new Date(now.getFullYear(), now.getMonth() + 1, 0))
+  };
+};
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'All Statuses' },
+  { value: 'Open', label: 'Open' },
+  { value: 'Billed', label: 'Billed' }
+];
+
+/**
+ * Receipts are for the same client when they share a client record, or the company name if unlinked
+ */
+const clientKey = (receipt: DeliveryReceiptData) =>
+  receipt.clientId || receipt.companyName.trim().toLowerCase();
+
+export function DeliveryReceipts() {
+  const navigate = useNavigate();
+  const [receipts, setReceipts] = useState<DeliveryReceiptData[]>([]);
+  const [statusFilter, setStatusFilter] = useState('Open');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [form, setForm] = useState<DeliveryReceiptData>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isConsolidateOpen, setIsConsolidateOpen] = useState(false);
+  const [consolidation, setConsolidation] = useState({
+    clientId: '',
+    companyName: '',
+    ...currentMonth(),
+    paymentTerms: 'COD' as PaymentTerms
+  });
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [consolidateError, setConsolidateError] = useState<string | null>(null);
+
+  const loadReceipts = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await DeliveryReceiptApiService.getDeliveryReceipts({ status: statusFilter, search });
+      if (response.success && response.data) {
+        setReceipts(response.data);
+        setSelectedIds(ids => ids.filter(id => response.data!.some(receipt => receipt._id === id && receipt.status === 'Open')));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load delivery receipts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReceipts();
+  }, [statusFilter]);
+
+  const selectedReceipts = receipts.filter(receipt => selectedIds.includes(receipt._id!));
+  const sameClient = new Set(selectedReceipts.map(clientKey)).size <= 1;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(selectedId => selectedId !== id) : [...ids, id]);
+  };
+
+  const openCreateForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (receipt: DeliveryReceiptData) => {
+    setForm({
+      ...receipt,
+      deliveryDate: receipt.deliveryDate.split('T')[0],
+      contactNumber: receipt.contactNumber || '',
+      attentionPerson: receipt.attentionPerson || '',
+      receivedBy: receipt.receivedBy || '',
+      notes: receipt.notes || ''
+    });
+    setEditingId(receipt._id || null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleClientSelect = (client: ClientData) => {
+    setForm({
+      ...form,
+      clientId: client._id,
+      companyName: client.companyName,
+      address: client.address,
+      contactNumber: client.contactNumber,
+      attentionPerson: client.attentionPerson
+    });
+  };
+
+  const updateItem = (index: number, changes: Partial<DeliveryReceiptItemData>) => {
+    setForm({
+      ...form,
+      items: form.items.map((item, itemIndex) => itemIndex === index ? { ...item, ...changes } : item)
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const payload: DeliveryReceiptData = {
+        deliveryDate: form.deliveryDate,
+        clientId: form.clientId,
+        companyName: form.companyName,
+        address: form.address,
+        contactNumber: form.contactNumber,
+        attentionPerson: form.attentionPerson,
+        items: form.items,
+        receivedBy: form.receivedBy,
+        notes: form.notes
+      };
+      if (editingId) {
+        await DeliveryReceiptApiService.updateDeliveryReceipt(editingId, payload);
+      } else {
+        await DeliveryReceiptApiService.createDeliveryReceipt(payload);
+      }
+      setIsFormOpen(false);
+      await loadReceipts();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save delivery receipt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = async (receipt: DeliveryReceiptData) => {
+    try {
+      const blob = await DeliveryReceiptApiService.downloadDeliveryReceiptPdf(receipt._id!);
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${receipt.drNumber}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: any) {
+      alert(err.message || 'Failed to download delivery receipt');
+    }
+  };
+
+  const handleCreateBilling = () => {
+    navigate('/create', { state: { deliveryReceipts: selectedReceipts } });
+  };
+
+  const handleConsolidate = async () => {
+    setIsConsolidating(true);
+    setConsolidateError(null);
+    try {
+      const response = await BillingApiService.consolidateDeliveryReceipts({
+        clientId: consolidation.clientId,
+        from: consolidation.from,
+        to: consolidation.to,
+        paymentTerms: consolidation.paymentTerms
+      });
+      navigate(`/preview/${response.data.billingNumber}`, {
+        state: { ...response.data, pipelineStatus: response.pipeline }
+      });
+    } catch (err: any) {
+      setConsolidateError(err.message || 'Failed to consolidate delivery receipts');
+    } finally {
+      setIsConsolidating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 mt-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Delivery Receipts</h1>
+            <p className="text-gray-600 mt-2 text-lg">Record shipments now, bill them later</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={loadReceipts} disabled={isLoading} className="flex items-center gap-2">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button variant="secondary" onClick={() => setIsConsolidateOpen(!isConsolidateOpen)} className="flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Consolidate
+            </Button>
+            <Button onClick={openCreateForm} className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg">
+              <Plus className="mr-2 h-4 w-4" />
+              New DR
+            </Button>
+          </div>
+        </div>
+
+        {/* Month-end consolidation */}
+        {isConsolidateOpen && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-xl font-bold text-gray-900">Consolidated Billing</h2>
+              <button onClick={() => setIsConsolidateOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">Bill every open delivery receipt for a client in the period as one billing.</p>
+            {consolidateError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{consolidateError}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <ClientAutocomplete
+                label="Client *"
+                value={consolidation.companyName}
+                onChange={value => setConsolidation({ ...consolidation, companyName: value, clientId: '' })}
+                onSelect={client => setConsolidation({ ...consolidation, companyName: client.companyName, clientId: client._id || '' })}
+              />
+              <Input label="From *" type="date" value={consolidation.from} onChange={e => setConsolidation({ ...consolidation, from: e.target.value })} />
+              <Input label="To *" type="date" value={consolidation.to} onChange={e => setConsolidation({ ...consolidation, to: e.target.value })} />
+              <Select
+                label="Payment Terms"
+                value={consolidation.paymentTerms}
+                onChange={e => setConsolidation({ ...consolidation, paymentTerms: e.target.value as PaymentTerms })}
+                options={PAYMENT_TERMS.filter(terms => terms !== 'Custom').map(terms => ({ label: terms, value: terms }))}
+              />
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleConsolidate} isLoading={isConsolidating} disabled={!consolidation.clientId}>
+                Create Consolidated Billing
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Create / Edit Form */}
+        {isFormOpen && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{editingId ? `Edit ${form.drNumber}` : 'New Delivery Receipt'}</h2>
+              <button onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <ClientAutocomplete
+                label="Company Name *"
+                value={form.companyName}
+                onChange={value => setForm({ ...form, companyName: value, clientId: undefined })}
+                onSelect={handleClientSelect}
+              />
+              <Input label="Delivery Date *" type="date" value={form.deliveryDate} onChange={e => setForm({ ...form, deliveryDate: e.target.value })} />
+              <div className="md:col-span-2">
+                <Input label="Address *" value={form.address} onChange={e => setForm({ ...form, address: e.target.value })} />
+              </div>
+              <Input label="Contact Number" value={form.contactNumber} onChange={e => setForm({ ...form, contactNumber: e.target.value })} />
+              <Input label="Attention" value={form.attentionPerson} onChange={e => setForm({ ...form, attentionPerson: e.target.value })} />
+              <Input
+                label="Received By"
+                value={form.receivedBy}
+                onChange={e => setForm({ ...form, receivedBy: e.target.value })}
+                placeholder="Name of the person who signed"
+              />
+              <Input label="Notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 uppercase">
+                <span className="col-span-4">Description</span>
+                <span className="col-span-1">Unit</span>
+                <span className="col-span-2">Ordered</span>
+                <span className="col-span-2">Delivered</span>
+                <span className="col-span-2">Unit Price</span>
+              </div>
+              {form.items.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-4">
+                    <Input value={item.description} onChange={e => updateItem(index, { description: e.target.value })} placeholder="Item description" />
+                  </div>
+                  <div className="col-span-1">
+                    <Input value={item.unit} onChange={e => updateItem(index, { unit: e.target.value })} />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      value={item.quantity}
+                      onChange={e => {
+                        const quantity = Math.max(1, parseInt(e.target.value) || 1);
+                        // Keep a complete delivery complete when the ordered quantity changes
+                        const deliveredQuantity = item.deliveredQuantity === item.quantity ? quantity : Math.min(item.deliveredQuantity, quantity);
+                        updateItem(index, { quantity, deliveredQuantity });
+                      }}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={item.quantity}
+                      value={item.deliveredQuantity}
+                      onChange={e => updateItem(index, { deliveredQuantity: Math.min(item.quantity, Math.max(0, parseInt(e.target.value) || 0)) })}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.unitPrice}
+                      onChange={e => updateItem(index, { unitPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <div className="col-span-1 flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove line"
+                      disabled={form.items.length === 1}
+                      onClick={() => setForm({ ...form, items: form.items.filter((_, itemIndex) => itemIndex !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="secondary" size="sm" onClick={() => setForm({ ...form, items: [...form.items, newItem()] })}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add Line
+              </Button>
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleSave} isLoading={isSaving}>
+                {editingId ? 'Save Changes' : 'Issue DR'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+                <Truck className="w-6 h-6 text-white" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900">Receipts</h2>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <Input
+                placeholder="Search DR no. or company"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && loadReceipts()}
+              />
+              <Select options={STATUS_OPTIONS} value={statusFilter} onChange={e => setStatusFilter(e.target.value)} />
+              <Button
+                onClick={handleCreateBilling}
+                disabled={selectedReceipts.length === 0 || !sameClient}
+                title={sameClient ? undefined : 'Select receipts for a single client'}
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                Create Billing{selectedReceipts.length > 0 ? ` (${selectedReceipts.length})` : ''}
+              </Button>
+            </div>
+          </div>
+
+          {!sameClient && (
+            <p className="mb-4 text-sm text-amber-700">Selected receipts are for different clients; a billing can only cover one client.</p>
+          )}
+
+          {isLoading && (
+            <div className="text-center py-8">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              <p className="mt-4 text-gray-600">Loading delivery receipts...</p>
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+              <p className="text-red-800">{error}</p>
+              <Button onClick={loadReceipts} className="mt-2">
+                Try Again
+              </Button>
+            </div>
+          )}
+
+          {!isLoading && !error && receipts.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 bg-gradient-to-r from-gray-50 to-gray-100">
+                    <th className="py-4 px-4 w-10"></th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">DR No.</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Date</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Company</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Delivered</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Received By</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Status</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {receipts.map(receipt => (
+                    <tr key={receipt._id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        {receipt.status === 'Open' && (
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${receipt.drNumber}`}
+                            checked={selectedIds.includes(receipt._id!)}
+                            onChange={() => toggleSelected(receipt._id!)}
+                          />
+                        )}
+                      </td>
+                      <td className="py-3 px-4 font-medium text-gray-900">{receipt.drNumber}</td>
+                      <td className="py-3 px-4 text-gray-600">{new Date(receipt.deliveryDate).toLocaleDateString()}</td>
+                      <td className="py-3 px-4 text-gray-700">{receipt.companyName}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">
+                        {receipt.items.reduce((sum, item) => sum + item.deliveredQuantity, 0)}
+                        {' / '}
+                        {receipt.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">{receipt.receivedBy || '—'}</td>
+                      <td className="py-3 px-4">
+                        {receipt.status === 'Billed' ? (
+                          <button
+                            className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700 hover:underline"
+                            onClick={() => navigate(`/preview/${receipt.billingNumber}`)}
+                          >
+                            Billed · {receipt.billingNumber}
+                          </button>
+                        ) : (
+                          <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-700">Open</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {receipt.status === 'Open' && (
+                            <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditForm(receipt)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" title="Download PDF" onClick={() => handleDownload(receipt)}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!isLoading && !error && receipts.length === 0 && (
+            <div className="text-center py-12">
+              <Truck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No delivery receipts found</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
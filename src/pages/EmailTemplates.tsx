@@ -0,0 +1,343 @@
+/**
+ * Email Templates Page
+ * Admin editor for invoice, reminder and statement email templates
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  EmailTemplateApiService,
+  EmailTemplateCatalog,
+  EmailTemplateType,
+  EmailTemplatePreview,
+  EMAIL_TEMPLATE_TYPES
+} from '../services/email.template.api.service';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Navigation } from '../components/Navigation';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
+import { useAuth } from '../context/AuthContext';
+import { cn } from '../lib/utils';
+import { Mail, Eye, RotateCcw, Save, X } from 'lucide-react';
+
+interface TemplateScope {
+  /** null for the company-wide template */
+  clientId: string | null;
+  companyName: string;
+}
+
+const COMPANY_SCOPE: TemplateScope = { clientId: null, companyName: '' };
+
+export function EmailTemplates() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [catalog, setCatalog] = useState<EmailTemplateCatalog | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState<EmailTemplateType>('Invoice');
+  const [scope, setScope] = useState<TemplateScope>(COMPANY_SCOPE);
+  const [clientSearch, setClientSearch] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [previewBilling, setPreviewBilling] = useState('');
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  const loadTemplates = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await EmailTemplateApiService.getEmailTemplates();
+      if (response.success && response.data) {
+        setCatalog(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load email templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const findStored = (clientId: string | null) =>
+    catalog?.templates.find(template => template.type === type && (template.clientId || null) === clientId);
+
+  const storedTemplate = findStored(scope.clientId);
+  const companyTemplate = findStored(null);
+
+  // Load the template being edited; a new override starts from the template the client gets today
+  useEffect(() => {
+    if (!catalog) return;
+    const initial = storedTemplate || companyTemplate || catalog.defaults[type];
+    setSubject(initial.subject);
+    setBody(initial.body);
+    setFormError(null);
+    setPreview(null);
+  }, [catalog, type, scope.clientId]);
+
+  const overrides = catalog?.templates.filter(template => template.type === type && template.clientId) || [];
+
+  const insertPlaceholder = (name: string) => {
+    const tag = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody(current => current + tag);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(current => current.slice(0, selectionStart) + tag + current.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length);
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await EmailTemplateApiService.saveEmailTemplate(type, { subject, body }, scope.clientId);
+      await loadTemplates();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save email template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const message = scope.clientId
+      ? `Remove the ${type.toLowerCase()} template for ${scope.companyName}? The company template will apply again.`
+      : `Reset the ${type.toLowerCase()} template to the built-in default?`;
+    if (!confirm(message)) return;
+
+    try {
+      await EmailTemplateApiService.deleteEmailTemplate(type, scope.clientId);
+      await loadTemplates();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to reset email template');
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setFormError(null);
+    try {
+      const response = await EmailTemplateApiService.previewEmailTemplate(type, {
+        billingId: previewBilling.trim() || undefined,
+        clientId: scope.clientId,
+        subject,
+        body
+      });
+      setPreview(response.data || null);
+    } catch (err: any) {
+      setPreview(null);
+      setFormError(err.message || 'Failed to preview email template');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  const source = storedTemplate
+    ? (scope.clientId ? 'Client override' : 'Company template')
+    : (scope.clientId ? (companyTemplate ? 'Using the company template' : 'Using the built-in default') : 'Using the built-in default');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+        {/* Header */}
+        <div className="mb-8 mt-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Email Templates</h1>
+          <p className="text-gray-600 mt-2 text-lg">Subject and body of the emails sent to clients</p>
+        </div>
+
+        {isLoading && !catalog && (
+          <div className="text-center py-8">
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-gray-600">Loading email templates...</p>
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+            <Button onClick={loadTemplates} className="mt-2">
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {catalog && (
+          <>
+            {/* Template Type */}
+            <div className="flex gap-2 mb-6">
+              {EMAIL_TEMPLATE_TYPES.map(templateType => (
+                <button
+                  key={templateType}
+                  onClick={() => setType(templateType)}
+                  className={cn(
+                    'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+                    type === templateType ? 'bg-blue-600 text-white shadow' : 'bg-white/80 text-gray-700 hover:bg-white'
+                  )}
+                >
+                  {templateType}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Editor */}
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 lg:col-span-2">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+                    <Mail className="w-6 h-6 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">
+                      {type} email{scope.clientId ? ` for ${scope.companyName}` : ''}
+                    </h2>
+                    <p className="text-sm text-gray-500">{source}</p>
+                  </div>
+                </div>
+
+                {/* Scope */}
+                <div className="flex flex-wrap items-end gap-3 mb-4">
+                  <Button variant={scope.clientId ? 'secondary' : 'primary'} size="sm" onClick={() => setScope(COMPANY_SCOPE)}>
+                    Company-wide
+                  </Button>
+                  {overrides.map(template => (
+                    <Button
+                      key={template._id}
+                      variant={scope.clientId === template.clientId ? 'primary' : 'secondary'}
+                      size="sm"
+                      onClick={() => setScope({ clientId: template.clientId, companyName: template.clientName || 'Client' })}
+                    >
+                      {template.clientName || 'Client'}
+                    </Button>
+                  ))}
+                  <div className="flex-1 min-w-[220px]">
+                    <ClientAutocomplete
+                      placeholder="Override for a client..."
+                      value={clientSearch}
+                      onChange={setClientSearch}
+                      onSelect={client => {
+                        setScope({ clientId: client._id || null, companyName: client.companyName });
+                        setClientSearch('');
+                      }}
+                    />
+                  </div>
+                </div>
+
+                {formError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+                )}
+
+                <div className="space-y-4">
+                  <Input label="Subject" value={subject} onChange={e => setSubject(e.target.value)} />
+                  <div>
+                    <label htmlFor="template-body" className="block text-sm font-medium text-gray-700 mb-1">Body (HTML)</label>
+                    <textarea
+                      id="template-body"
+                      ref={bodyRef}
+                      value={body}
+                      onChange={e => setBody(e.target.value)}
+                      rows={20}
+                      spellCheck={false}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-between mt-4">
+                  <Button variant="secondary" onClick={handleReset} disabled={!storedTemplate}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    {scope.clientId ? 'Remove Override' : 'Reset to Default'}
+                  </Button>
+                  <Button onClick={handleSave} isLoading={isSaving}>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Template
+                  </Button>
+                </div>
+              </Card>
+
+              {/* Placeholders */}
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+                <h2 className="text-lg font-bold text-gray-900 mb-2">Placeholders</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  Click to insert into the body. Wrap text in {'{{#name}}...{{/name}}'} to show it only when the value is not empty.
+                </p>
+                <ul className="space-y-2">
+                  {catalog.placeholders[type].map(placeholder => (
+                    <li key={placeholder.name}>
+                      <button
+                        onClick={() => insertPlaceholder(placeholder.name)}
+                        className="font-mono text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 rounded px-2 py-0.5"
+                      >
+                        {`{{${placeholder.name}}}`}
+                      </button>
+                      <p className="text-xs text-gray-500 mt-0.5">{placeholder.description}</p>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            </div>
+
+            {/* Preview */}
+            <Card className="p-6 mt-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+              <div className="flex flex-wrap items-end gap-3 mb-4">
+                <div className="flex-1 min-w-[220px]">
+                  <Input
+                    label={type === 'Statement' ? 'Billing number (or pick a client above)' : 'Billing number'}
+                    value={previewBilling}
+                    onChange={e => setPreviewBilling(e.target.value)}
+                    placeholder="SEW-202601-001"
+                  />
+                </div>
+                <Button variant="secondary" onClick={handlePreview} isLoading={isPreviewing}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  Preview
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm"><span className="text-gray-500">Subject:</span> <span className="font-medium text-gray-900">{preview.subject}</span></p>
+                    <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600" aria-label="Close preview">
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                  {preview.errors.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      {preview.errors.join('; ')}
+                    </div>
+                  )}
+                  <iframe title="Email preview" srcDoc={preview.body} sandbox="" className="w-full h-[600px] border border-gray-200 rounded-lg bg-white" />
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
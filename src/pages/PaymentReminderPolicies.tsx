@@ -0,0 +1,313 @@
+/**
+ * Payment Reminder Policies Page
+ * Admin view of the company reminder policy and editor for client policies
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminService, PaymentReminderSettings } from '../services/admin.service';
+import { ClientApiService } from '../services/client.api.service';
+import { ReminderPolicy, formatReminderPolicy } from '../types/billing.types';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Navigation } from '../components/Navigation';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
+import { useAuth } from '../context/AuthContext';
+import { BellRing, RotateCcw, Save, Send } from 'lucide-react';
+
+interface SelectedClient {
+  clientId: string;
+  companyName: string;
+}
+
+/**
+ * Policy form fields; days before due are typed as a comma-separated list
+ */
+interface PolicyForm {
+  enabled: boolean;
+  daysBeforeDue: string;
+  onDueDate: boolean;
+  repeatEveryDays: string;
+  maxOverdueReminders: string;
+}
+
+const toForm = (policy: ReminderPolicy): PolicyForm => ({
+  enabled: policy.enabled,
+  daysBeforeDue: policy.daysBeforeDue.join(', '),
+  onDueDate: policy.onDueDate,
+  repeatEveryDays: String(policy.repeatEveryDays),
+  maxOverdueReminders: String(policy.maxOverdueReminders)
+});
+
+const toPolicy = (form: PolicyForm): ReminderPolicy => ({
+  enabled: form.enabled,
+  daysBeforeDue: form.daysBeforeDue
+    .split(',')
+    .map(days => days.trim())
+    .filter(days => days !== '')
+    .map(Number),
+  onDueDate: form.onDueDate,
+  repeatEveryDays: Number(form.repeatEveryDays || 0),
+  maxOverdueReminders: Number(form.maxOverdueReminders || 0)
+});
+
+export function PaymentReminderPolicies() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [settings, setSettings] = useState<PaymentReminderSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SelectedClient | null>(null);
+  const [clientSearch, setClientSearch] = useState('');
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [hasOwnPolicy, setHasOwnPolicy] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await AdminService.getPaymentReminderSettings();
+      if (response.success && response.data) {
+        setSettings(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load payment reminder settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Load the selected client's policy; a client without one starts from the company policy
+  useEffect(() => {
+    if (!selected) {
+      setForm(null);
+      return;
+    }
+
+    const loadPolicy = async () => {
+      setFormError(null);
+      try {
+        const response = await ClientApiService.getReminderPolicy(selected.clientId);
+        if (response.success && response.data) {
+          setForm(toForm(response.data.policy));
+          setHasOwnPolicy(response.data.source === 'Client');
+        }
+      } catch (err: any) {
+        setFormError(err.message || 'Failed to load reminder policy');
+      }
+    };
+
+    loadPolicy();
+  }, [selected]);
+
+  const handleSave = async (policy: ReminderPolicy | null) => {
+    if (!selected) return;
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const response = await ClientApiService.updateReminderPolicy(selected.clientId, policy);
+      if (response.success && response.data) {
+        setForm(toForm(response.data.policy));
+        setHasOwnPolicy(response.data.source === 'Client');
+      }
+      await loadSettings();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save reminder policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    setRunMessage(null);
+    try {
+      const response = await AdminService.runPaymentReminders();
+      setRunMessage(response.message || 'Reminders sent');
+    } catch (err: any) {
+      setRunMessage(err.message || 'Failed to run payment reminders');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<PolicyForm>) => setForm(current => current && { ...current, ...changes });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+        {/* Header */}
+        <div className="mb-8 mt-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Payment Reminders</h1>
+          <p className="text-gray-600 mt-2 text-lg">When clients are reminded about unpaid billings</p>
+        </div>
+
+        {isLoading && !settings && (
+          <div className="text-center py-8">
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-gray-600">Loading payment reminder settings...</p>
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+            <Button onClick={loadSettings} className="mt-2">
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {settings && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Company Policy */}
+            <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl flex items-center justify-center">
+                  <BellRing className="w-6 h-6 text-white" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">Company Policy</h2>
+              </div>
+              <p className="text-gray-900">{formatReminderPolicy(settings.companyPolicy)}</p>
+              <p className="text-sm text-gray-500">
+                Applies to every client without a policy of its own. Set with the REMINDER_* environment variables.
+              </p>
+              <div className="pt-2 border-t border-gray-200">
+                <Button variant="secondary" onClick={handleRunNow} isLoading={isRunning}>
+                  <Send className="mr-2 h-4 w-4" />
+                  Send Due Reminders Now
+                </Button>
+                {runMessage && <p className="mt-2 text-sm text-gray-600">{runMessage}</p>}
+              </div>
+            </Card>
+
+            {/* Client Policies */}
+            <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0 lg:col-span-2">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">
+                {selected ? `Policy for ${selected.companyName}` : 'Client Policies'}
+              </h2>
+
+              <div className="flex flex-wrap items-end gap-3 mb-4">
+                {settings.clients.map(client => (
+                  <Button
+                    key={client._id}
+                    variant={selected?.clientId === client._id ? 'primary' : 'secondary'}
+                    size="sm"
+                    onClick={() => setSelected({ clientId: client._id, companyName: client.companyName })}
+                  >
+                    {client.companyName}
+                  </Button>
+                ))}
+                <div className="flex-1 min-w-[220px]">
+                  <ClientAutocomplete
+                    placeholder="Set a policy for a client..."
+                    value={clientSearch}
+                    onChange={setClientSearch}
+                    onSelect={client => {
+                      if (client._id) setSelected({ clientId: client._id, companyName: client.companyName });
+                      setClientSearch('');
+                    }}
+                  />
+                </div>
+              </div>
+
+              {!selected && (
+                <p className="text-sm text-gray-500">
+                  {settings.clients.length > 0
+                    ? 'Pick a client to edit its policy.'
+                    : 'Every client uses the company policy. Pick a client to give it its own.'}
+                </p>
+              )}
+
+              {formError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+              )}
+
+              {selected && form && (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-500">
+                    {hasOwnPolicy ? 'This client has its own policy' : 'Using the company policy'}
+                  </p>
+
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={form.enabled} onChange={e => updateForm({ enabled: e.target.checked })} />
+                    Send payment reminders to this client
+                  </label>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <Input
+                      label="Days before due"
+                      value={form.daysBeforeDue}
+                      onChange={e => updateForm({ daysBeforeDue: e.target.value })}
+                      placeholder="e.g. 7, 3"
+                      disabled={!form.enabled}
+                    />
+                    <Input
+                      label="Then every (days overdue)"
+                      type="number"
+                      min={0}
+                      value={form.repeatEveryDays}
+                      onChange={e => updateForm({ repeatEveryDays: e.target.value })}
+                      disabled={!form.enabled}
+                    />
+                    <Input
+                      label="Max overdue reminders (0 = no limit)"
+                      type="number"
+                      min={0}
+                      value={form.maxOverdueReminders}
+                      onChange={e => updateForm({ maxOverdueReminders: e.target.value })}
+                      disabled={!form.enabled}
+                    />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.onDueDate}
+                      onChange={e => updateForm({ onDueDate: e.target.checked })}
+                      disabled={!form.enabled}
+                    />
+                    Remind on the due date
+                  </label>
+
+                  <p className="text-sm text-gray-900 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    {formatReminderPolicy(toPolicy(form))}
+                  </p>
+
+                  <div className="flex justify-between">
+                    <Button variant="secondary" onClick={() => handleSave(null)} disabled={!hasOwnPolicy || isSaving}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Use Company Policy
+                    </Button>
+                    <Button onClick={() => handleSave(toPolicy(form))} isLoading={isSaving}>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save Policy
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+/**
+ * Purchase Orders Page
+ * Record client POs and track how much of each style has been billed
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  PurchaseOrderApiService,
+  PurchaseOrderData,
+  PurchaseOrderLineData
+} from '../services/purchase.order.api.service';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Navigation } from '../components/Navigation';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
+import { useAuth } from '../context/AuthContext';
+import { formatCurrency } from '../lib/utils';
+import { ClipboardList, Plus, Pencil, RefreshCw, X, Trash2 } from 'lucide-react';
+
+const newLine = (): PurchaseOrderLineData => ({
+  id: Math.random().toString(36).substr(2, 9),
+  style: '',
+  description: '',
+  orderedQuantity: 1,
+  unitPrice: 0
+});
+
+const emptyForm = (): PurchaseOrderData => ({
+  poNumber: '',
+  clientId: '',
+  companyName: '',
+  poDate: new Date().toISOString().split('T')[0],
+  lines: [newLine()],
+  overbillingPolicy: 'Block',
+  notes: ''
+});
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'All Statuses' },
+  { value: 'Open', label: 'Open' },
+  { value: 'Closed', label: 'Closed' }
+];
+
+const POLICY_OPTIONS = [
+  { value: 'Block', label: 'Block over-billing' },
+  { value: 'Warn', label: 'Warn on over-billing' }
+];
+
+export function PurchaseOrders() {
+  const { isAdmin } = useAuth();
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderData[]>([]);
+  const [statusFilter, setStatusFilter] = useState('Open');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<PurchaseOrderData>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadPurchaseOrders = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await PurchaseOrderApiService.getPurchaseOrders({ status: statusFilter, search });
+      if (response.success && response.data) {
+        setPurchaseOrders(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load purchase orders');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPurchaseOrders();
+  }, [statusFilter]);
+
+  const openCreateForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (po: PurchaseOrderData) => {
+    setForm({
+      ...po,
+      poDate: po.poDate.split('T')[0],
+      notes: po.notes || ''
+    });
+    setEditingId(po._id || null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const updateLine = (index: number, updates: Partial<PurchaseOrderLineData>) => {
+    setForm({
+      ...form,
+      lines: form.lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...updates } : line))
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const payload: PurchaseOrderData = {
+        poNumber: form.poNumber,
+        clientId: form.clientId,
+        poDate: form.poDate,
+        lines: form.lines.map(({ id, style, description, orderedQuantity, unitPrice, catalogItemId }) => ({
+          id, style, description, orderedQuantity, unitPrice, catalogItemId
+        })),
+        overbillingPolicy: form.overbillingPolicy,
+        notes: form.notes
+      };
+      if (editingId) {
+        await PurchaseOrderApiService.updatePurchaseOrder(editingId, payload);
+      } else {
+        await PurchaseOrderApiService.createPurchaseOrder(payload);
+      }
+      setIsFormOpen(false);
+      await loadPurchaseOrders();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save purchase order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (po: PurchaseOrderData) => {
+    try {
+      await PurchaseOrderApiService.updatePurchaseOrder(po._id!, { status: po.status === 'Closed' ? 'Open' : 'Closed' });
+      await loadPurchaseOrders();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update purchase order');
+    }
+  };
+
+  const handleDelete = async (po: PurchaseOrderData) => {
+    if (!confirm(`Delete purchase order ${po.poNumber}? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await PurchaseOrderApiService.deletePurchaseOrder(po._id!);
+      await loadPurchaseOrders();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete purchase order');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 mt-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Purchase Orders</h1>
+            <p className="text-gray-600 mt-2 text-lg">Client POs and the quantities still left to bill</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={loadPurchaseOrders} disabled={isLoading} className="flex items-center gap-2">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={openCreateForm} className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg">
+              <Plus className="mr-2 h-4 w-4" />
+              New PO
+            </Button>
+          </div>
+        </div>
+
+        {/* Create / Edit Form */}
+        {isFormOpen && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{editingId ? `Edit ${form.poNumber}` : 'New Purchase Order'}</h2>
+              <button onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <ClientAutocomplete
+                  label="Client *"
+                  value={form.companyName || ''}
+                  onChange={value => setForm({ ...form, companyName: value, clientId: '' })}
+                  onSelect={client => setForm({ ...form, companyName: client.companyName, clientId: client._id || '' })}
+                />
+              </div>
+              <Input label="PO Number *" value={form.poNumber} onChange={e => setForm({ ...form, poNumber: e.target.value })} />
+              <Input label="PO Date *" type="date" value={form.poDate} onChange={e => setForm({ ...form, poDate: e.target.value })} />
+              <Select
+                label="Over-billing"
+                options={POLICY_OPTIONS}
+                value={form.overbillingPolicy}
+                onChange={e => setForm({ ...form, overbillingPolicy: e.target.value as PurchaseOrderData['overbillingPolicy'] })}
+              />
+              <div className="md:col-span-3">
+                <Input label="Notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 uppercase">
+                <span className="col-span-2">Style</span>
+                <span className="col-span-4">Description</span>
+                <span className="col-span-2">Ordered</span>
+                <span className="col-span-2">Agreed Price</span>
+                <span className="col-span-1">Billed</span>
+              </div>
+              {form.lines.map((line, index) => (
+                <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-2">
+                    <Input value={line.style} onChange={e => updateLine(index, { style: e.target.value.toUpperCase() })} placeholder="Style code" />
+                  </div>
+                  <div className="col-span-4">
+                    <Input value={line.description} onChange={e => updateLine(index, { description: e.target.value })} placeholder="Item description" />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min={Math.max(1, line.billedQuantity || 0)}
+                      value={line.orderedQuantity}
+                      onChange={e => updateLine(index, { orderedQuantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitPrice}
+                      onChange={e => updateLine(index, { unitPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <span className="col-span-1 text-sm text-gray-600">{line.billedQuantity || 0}</span>
+                  <div className="col-span-1 flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={line.billedQuantity ? 'Billed lines cannot be removed' : 'Remove line'}
+                      disabled={form.lines.length === 1 || !!line.billedQuantity}
+                      onClick={() => setForm({ ...form, lines: form.lines.filter((_, lineIndex) => lineIndex !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button variant="secondary" size="sm" onClick={() => setForm({ ...form, lines: [...form.lines, newLine()] })}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add Style
+              </Button>
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleSave} isLoading={isSaving}>
+                {editingId ? 'Save Changes' : 'Create PO'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+                <ClipboardList className="w-6 h-6 text-white" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900">Orders</h2>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <Input
+                placeholder="Search PO no. or company"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && loadPurchaseOrders()}
+              />
+              <Select options={STATUS_OPTIONS} value={statusFilter} onChange={e => setStatusFilter(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-8">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              <p className="mt-4 text-gray-600">Loading purchase orders...</p>
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+              <p className="text-red-800">{error}</p>
+              <Button onClick={loadPurchaseOrders} className="mt-2">
+                Try Again
+              </Button>
+            </div>
+          )}
+
+          {!isLoading && !error && purchaseOrders.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 bg-gradient-to-r from-gray-50 to-gray-100">
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">PO No.</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Company</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Date</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Ordered</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Remaining</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Amount</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Status</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {purchaseOrders.map(po => (
+                    <tr key={po._id} className="border-b border-gray-100 hover:bg-gray-50 align-top">
+                      <td className="py-3 px-4 font-medium text-gray-900">
+                        {po.poNumber}
+                        {po.overbillingPolicy === 'Warn' && (
+                          <span className="block text-xs text-gray-500">Warns on over-billing</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">
+                        {po.companyName}
+                        <ul className="mt-1 text-xs text-gray-500">
+                          {po.lines.map(line => (
+                            <li key={line.id} className={(line.remainingQuantity || 0) < 0 ? 'text-red-600' : undefined}>
+                              {line.style}: {line.billedQuantity}/{line.orderedQuantity} billed
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">{new Date(po.poDate).toLocaleDateString()}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">{po.orderedQuantity}</td>
+                      <td className="py-3 px-4 text-right font-semibold text-gray-900">{po.remainingQuantity}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(po.orderedAmount || 0)}</td>
+                      <td className="py-3 px-4">
+                        <span className={`text-xs px-2 py-0.5 rounded ${po.status === 'Open' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                          {po.status}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditForm(po)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => handleToggleStatus(po)}>
+                            {po.status === 'Closed' ? 'Reopen' : 'Close'}
+                          </Button>
+                          {isAdmin && !po.billedQuantity && (
+                            <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(po)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!isLoading && !error && purchaseOrders.length === 0 && (
+            <div className="text-center py-12">
+              <ClipboardList className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No purchase orders found</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
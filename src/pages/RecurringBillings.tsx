@@ -0,0 +1,476 @@
+/**
+ * Recurring Billings Page
+ * Monthly and quarterly billing schedules for fixed service and rental fees
+ */
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  RecurringBillingApiService,
+  RecurringBillingData,
+  RecurringBillingRunData
+} from '../services/recurring.billing.api.service';
+import { CatalogApiService, CatalogItemData } from '../services/catalog.api.service';
+import {
+  PaymentTerms,
+  PAYMENT_TERMS,
+  VatMode,
+  VAT_MODES,
+  WithholdingRate,
+  WITHHOLDING_RATES,
+  formatVatMode
+} from '../types/billing.types';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Navigation } from '../components/Navigation';
+import { ClientAutocomplete } from '../components/ClientAutocomplete';
+import { ItemizedTable, BillingItem } from '../components/ItemizedTable';
+import { BillingTotals } from '../components/BillingTotals';
+import { useAuth } from '../context/AuthContext';
+import { Repeat, Plus, Pencil, RefreshCw, X, Trash2, History, Play } from 'lucide-react';
+
+const newItem = (): BillingItem => ({
+  id: Math.random().toString(36).substr(2, 9),
+  quantity: 1,
+  description: '',
+  unitPrice: 0
+});
+
+const emptyForm = (): RecurringBillingData => ({
+  name: '',
+  clientId: '',
+  companyName: '',
+  items: [newItem()],
+  discount: 0,
+  vatMode: 'None',
+  withholdingRate: 0,
+  paymentTerms: 'Net 30',
+  frequency: 'Monthly',
+  startDate: new Date().toISOString().split('T')[0],
+  endDate: '',
+  autoSend: true
+});
+
+const FREQUENCY_OPTIONS = [
+  { value: 'Monthly', label: 'Monthly' },
+  { value: 'Quarterly', label: 'Quarterly' }
+];
+
+const RUN_STATUS_STYLES: Record<RecurringBillingRunData['status'], string> = {
+  Created: 'bg-green-100 text-green-700',
+  Failed: 'bg-red-100 text-red-700',
+  Running: 'bg-blue-100 text-blue-700'
+};
+
+export function RecurringBillings() {
+  const { isAdmin } = useAuth();
+  const [schedules, setSchedules] = useState<RecurringBillingData[]>([]);
+  const [catalogItems, setCatalogItems] = useState<CatalogItemData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RecurringBillingData>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<RecurringBillingData | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadSchedules = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await RecurringBillingApiService.getRecurringBillings();
+      if (response.success && response.data) {
+        setSchedules(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load recurring billings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+    CatalogApiService.getCatalogItems()
+      .then(response => setCatalogItems(response.data || []))
+      .catch(() => setCatalogItems([]));
+  }, []);
+
+  const openCreateForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (schedule: RecurringBillingData) => {
+    setForm({
+      ...schedule,
+      startDate: schedule.startDate.split('T')[0],
+      endDate: schedule.endDate ? schedule.endDate.split('T')[0] : ''
+    });
+    setEditingId(schedule._id || null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const updateItem = (id: string, field: keyof BillingItem, value: any) => {
+    setForm(prev => ({ ...prev, items: prev.items.map(item => item.id === id ? { ...item, [field]: value } : item) }));
+  };
+
+  const pickCatalogItem = (id: string, catalogItem: CatalogItemData | null) => {
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map(item => item.id === id ? catalogItem ? {
+        ...item,
+        catalogItemId: catalogItem._id,
+        description: catalogItem.description,
+        unitPrice: catalogItem.defaultPrice
+      } : { ...item, catalogItemId: undefined } : item)
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const payload: RecurringBillingData = {
+        name: form.name,
+        clientId: form.clientId,
+        items: form.items.filter(item => item.description.trim() !== ''),
+        discount: form.discount,
+        vatMode: form.vatMode,
+        withholdingRate: form.withholdingRate,
+        paymentTerms: form.paymentTerms,
+        customTermDays: form.paymentTerms === 'Custom' ? form.customTermDays : undefined,
+        frequency: form.frequency,
+        startDate: form.startDate,
+        endDate: form.endDate || undefined,
+        autoSend: form.autoSend
+      };
+      if (editingId) {
+        await RecurringBillingApiService.updateRecurringBilling(editingId, payload);
+      } else {
+        await RecurringBillingApiService.createRecurringBilling(payload);
+      }
+      setIsFormOpen(false);
+      await loadSchedules();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save recurring billing');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (schedule: RecurringBillingData) => {
+    try {
+      await RecurringBillingApiService.updateRecurringBilling(schedule._id!, { isActive: !schedule.isActive });
+      await loadSchedules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update recurring billing');
+    }
+  };
+
+  const handleDelete = async (schedule: RecurringBillingData) => {
+    if (!confirm(`Delete the "${schedule.name}" schedule? Billings it already created are kept.`)) {
+      return;
+    }
+
+    try {
+      await RecurringBillingApiService.deleteRecurringBilling(schedule._id!);
+      await loadSchedules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete recurring billing');
+    }
+  };
+
+  const handleShowHistory = async (schedule: RecurringBillingData) => {
+    try {
+      const response = await RecurringBillingApiService.getRecurringBilling(schedule._id!);
+      setHistoryFor(response.data || null);
+    } catch (err: any) {
+      alert(err.message || 'Failed to load run history');
+    }
+  };
+
+  const handleRunDue = async () => {
+    setIsRunning(true);
+    try {
+      const response = await RecurringBillingApiService.runDue();
+      alert(response.message || 'Recurring billings processed');
+      await loadSchedules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to run recurring billings');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const isEnded = (schedule: RecurringBillingData) =>
+    !!schedule.endDate && !!schedule.nextRunDate && new Date(schedule.nextRunDate) > new Date(schedule.endDate);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+        {/* Header */}
+        <div className="mb-8 mt-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Recurring Billings</h1>
+            <p className="text-gray-600 mt-2 text-lg">Fixed monthly or quarterly fees billed automatically</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={loadSchedules} disabled={isLoading} className="flex items-center gap-2">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button variant="secondary" onClick={handleRunDue} isLoading={isRunning} className="flex items-center gap-2">
+                <Play className="w-4 h-4" />
+                Run Due Now
+              </Button>
+            )}
+            <Button onClick={openCreateForm} className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg">
+              <Plus className="mr-2 h-4 w-4" />
+              New Schedule
+            </Button>
+          </div>
+        </div>
+
+        {/* Create / Edit Form */}
+        {isFormOpen && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{editingId ? `Edit ${form.name}` : 'New Recurring Billing'}</h2>
+              <button onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">{formError}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Input label="Name *" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="e.g. Machine rental" />
+              <div className="md:col-span-2">
+                <ClientAutocomplete
+                  label="Client *"
+                  value={form.companyName || ''}
+                  onChange={value => setForm({ ...form, companyName: value, clientId: '' })}
+                  onSelect={client => setForm({ ...form, companyName: client.companyName, clientId: client._id || '' })}
+                />
+              </div>
+              <Select
+                label="Frequency"
+                options={FREQUENCY_OPTIONS}
+                value={form.frequency}
+                onChange={e => setForm({ ...form, frequency: e.target.value as RecurringBillingData['frequency'] })}
+              />
+              <Input label="Start Date *" type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} />
+              <Input label="End Date" type="date" value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} />
+              <Select
+                label="Payment Terms"
+                value={form.paymentTerms}
+                onChange={e => setForm({ ...form, paymentTerms: e.target.value as PaymentTerms })}
+                options={PAYMENT_TERMS.map(terms => ({ label: terms, value: terms }))}
+              />
+              {form.paymentTerms === 'Custom' && (
+                <Input
+                  type="number"
+                  label="Days to Pay"
+                  min="1"
+                  max="365"
+                  value={form.customTermDays || ''}
+                  onChange={e => setForm({ ...form, customTermDays: parseInt(e.target.value, 10) || undefined })}
+                />
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-4">
+                <input type="checkbox" checked={form.autoSend} onChange={e => setForm({ ...form, autoSend: e.target.checked })} />
+                Email each billing to the client when it is created
+              </label>
+            </div>
+
+            <div className="mt-6">
+              <ItemizedTable
+                items={form.items}
+                catalogItems={catalogItems}
+                showVatType={form.vatMode !== 'None'}
+                onUpdateItem={updateItem}
+                onPickCatalogItem={pickCatalogItem}
+                onRemoveItem={id => form.items.length > 1 && setForm({ ...form, items: form.items.filter(item => item.id !== id) })}
+                onAddItem={() => setForm({ ...form, items: [...form.items, newItem()] })}
+              />
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <div className="w-full md:w-1/2 lg:w-1/3 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <Select
+                    label="VAT"
+                    value={form.vatMode}
+                    onChange={e => setForm({ ...form, vatMode: e.target.value as VatMode })}
+                    options={VAT_MODES.map(mode => ({ label: formatVatMode(mode), value: mode }))}
+                  />
+                  <Select
+                    label="Withholding Tax"
+                    value={String(form.withholdingRate)}
+                    onChange={e => setForm({ ...form, withholdingRate: Number(e.target.value) as WithholdingRate })}
+                    options={WITHHOLDING_RATES.map(rate => ({ label: rate === 0 ? 'None' : `${rate}%`, value: String(rate) }))}
+                  />
+                </div>
+                <Input
+                  label="Discount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.discount}
+                  onChange={e => setForm({ ...form, discount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="text-right"
+                />
+                <BillingTotals items={form.items} discount={form.discount} vatMode={form.vatMode} withholdingRate={form.withholdingRate} />
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleSave} isLoading={isSaving}>
+                {editingId ? 'Save Changes' : 'Create Schedule'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Run History */}
+        {historyFor && (
+          <Card className="p-6 mb-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">Run History: {historyFor.name}</h2>
+              <button onClick={() => setHistoryFor(null)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {historyFor.runs && historyFor.runs.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="text-left py-2 px-3">Period</th>
+                    <th className="text-left py-2 px-3">Status</th>
+                    <th className="text-left py-2 px-3">Billing</th>
+                    <th className="text-right py-2 px-3">Attempts</th>
+                    <th className="text-left py-2 px-3">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {historyFor.runs.map(run => (
+                    <tr key={run._id} className="border-b border-gray-100">
+                      <td className="py-2 px-3">{new Date(run.scheduledFor).toLocaleDateString()}</td>
+                      <td className="py-2 px-3">
+                        <span className={`text-xs px-2 py-0.5 rounded ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span>
+                      </td>
+                      <td className="py-2 px-3">
+                        {run.billingNumber ? (
+                          <Link to={`/preview/${run.billingNumber}`} className="text-blue-600 hover:underline">{run.billingNumber}</Link>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2 px-3 text-right">{run.attempts}</td>
+                      <td className="py-2 px-3 text-gray-600">{run.error || run.warnings?.join('; ') || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500">No billings have been created yet</p>
+            )}
+          </Card>
+        )}
+
+        <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl border-0">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+              <Repeat className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900">Schedules</h2>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-8">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              <p className="mt-4 text-gray-600">Loading recurring billings...</p>
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+              <p className="text-red-800">{error}</p>
+              <Button onClick={loadSchedules} className="mt-2">
+                Try Again
+              </Button>
+            </div>
+          )}
+
+          {!isLoading && !error && schedules.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 bg-gradient-to-r from-gray-50 to-gray-100">
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Name</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Client</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Frequency</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Next Billing</th>
+                    <th className="text-left py-4 px-4 font-bold text-gray-800">Status</th>
+                    <th className="text-right py-4 px-4 font-bold text-gray-800">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedules.map(schedule => (
+                    <tr key={schedule._id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">
+                        {schedule.name}
+                        {schedule.autoSend && <span className="block text-xs text-gray-500">Emailed automatically</span>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">{schedule.companyName}</td>
+                      <td className="py-3 px-4 text-gray-600">{schedule.frequency}</td>
+                      <td className="py-3 px-4 text-gray-600">
+                        {isEnded(schedule) ? '—' : schedule.nextRunDate && new Date(schedule.nextRunDate).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`text-xs px-2 py-0.5 rounded ${schedule.isActive && !isEnded(schedule) ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                          {isEnded(schedule) ? 'Ended' : schedule.isActive ? 'Active' : 'Paused'}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="ghost" size="icon" title="Run history" onClick={() => handleShowHistory(schedule)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditForm(schedule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => handleToggleActive(schedule)}>
+                            {schedule.isActive ? 'Pause' : 'Resume'}
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(schedule)}>
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!isLoading && !error && schedules.length === 0 && (
+            <div className="text-center py-12">
+              <Repeat className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No recurring billings yet</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,9 @@
  */
 
 import { useState, useEffect } from 'react';
-import { AnalyticsService, AnalyticsData } from '../services/analytics.service';
+import { AnalyticsService, AnalyticsData, AgingReport, AgingClient, PoFulfillmentReport } from '../services/analytics.service';
+import { ClientApiService } from '../services/client.api.service';
+import { BillingApiService } from '../services/billing.api.service';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Navigation } from '../components/Navigation';
@@ -15,7 +17,13 @@ import {
   Users, 
   Calendar,
   RefreshCw,
-  TrendingDown
+  TrendingDown,
+  Clock,
+  Download,
+  Mail,
+  Receipt,
+  ClipboardList,
+  FileSpreadsheet
 } from 'lucide-react';
 
 const MONTH_NAMES = [
@@ -23,21 +31,51 @@ const MONTH_NAMES = [
   'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
 ];
 
+/**
+ * Save a downloaded file through a temporary link
+ */
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
+
 export function Reports() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [aging, setAging] = useState<AgingReport | null>(null);
+  const [poFulfillment, setPoFulfillment] = useState<PoFulfillmentReport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
+  const [statementBusy, setStatementBusy] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<'report' | 'billings' | null>(null);
 
   const loadAnalytics = async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await AnalyticsService.getBillingAnalytics(dateFrom, dateTo);
+      // Aging and PO fulfillment are always current, independent of the date filter
+      const [response, agingResponse, poResponse] = await Promise.all([
+        AnalyticsService.getBillingAnalytics(dateFrom, dateTo),
+        AnalyticsService.getAgingReport(),
+        AnalyticsService.getPoFulfillmentReport({ status: 'Open' })
+      ]);
       if (response.success && response.data) {
         setAnalytics(response.data);
       }
+      if (agingResponse.success && agingResponse.data) {
+        setAging(agingResponse.data);
+      }
+      if (poResponse.success && poResponse.data) {
+        setPoFulfillment(poResponse.data);
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to load analytics');
       console.error('Error loading analytics:', err);
@@ -50,6 +88,62 @@ export function Reports() {
     loadAnalytics();
   }, []);
 
+  // Statements cover the billing dates selected in the filter above
+  const handleDownloadStatement = async (client: AgingClient) => {
+    if (!client.clientId) return;
+    setStatementBusy(client.clientId);
+    try {
+      const blob = await ClientApiService.downloadStatement(client.clientId, dateFrom, dateTo);
+      saveBlob(blob, `SOA-${client.companyName}.pdf`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to download statement');
+    } finally {
+      setStatementBusy(null);
+    }
+  };
+
+  const handleEmailStatement = async (client: AgingClient) => {
+    if (!client.clientId) return;
+    if (!window.confirm(`Email the statement of account to ${client.companyName}?`)) return;
+    setStatementBusy(client.clientId);
+    try {
+      const response = await ClientApiService.sendStatement(client.clientId, { from: dateFrom, to: dateTo });
+      alert(`Statement sent to ${response.data?.recipientEmail}`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to send statement');
+    } finally {
+      setStatementBusy(null);
+    }
+  };
+
+  // Exports cover the billing dates selected in the filter above
+  const handleExportReport = async () => {
+    setExporting('report');
+    try {
+      const blob = await AnalyticsService.exportBillingAnalytics(dateFrom, dateTo);
+      saveBlob(blob, `billing-report-${new Date().toISOString().slice(0, 10)}.xlsx`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to export report');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportBillings = async () => {
+    setExporting('billings');
+    try {
+      const params: Record<string, string> = {};
+      if (dateFrom) params.dateFrom = dateFrom;
+      if (dateTo) params.dateTo = dateTo;
+      const blob = await BillingApiService.exportBillings('xlsx', params, true);
+      saveBlob(blob, `billings-${new Date().toISOString().slice(0, 10)}.xlsx`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to export billings');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const handleFilter = () => {
     loadAnalytics();
   };
@@ -79,14 +173,36 @@ export function Reports() {
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">Reports & Analytics</h1>
                 <p className="text-gray-600 mt-2 text-lg">Comprehensive billing and sales insights</p>
               </div>
-              <Button
-                onClick={loadAnalytics}
-                disabled={isLoading}
-                className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
-              >
-                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
-                Refresh
-              </Button>
+              <div className="flex items-center gap-2 flex-wrap justify-end">
+                <Button
+                  onClick={handleExportBillings}
+                  variant="secondary"
+                  disabled={exporting !== null}
+                  className="flex items-center gap-2 shadow-lg"
+                  title="All billings in the date range, with a line item sheet"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  {exporting === 'billings' ? 'Exporting...' : 'Export Billings'}
+                </Button>
+                <Button
+                  onClick={handleExportReport}
+                  variant="secondary"
+                  disabled={exporting !== null || isLoading}
+                  className="flex items-center gap-2 shadow-lg"
+                  title="This report as an Excel workbook"
+                >
+                  <Download className="w-4 h-4" />
+                  {exporting === 'report' ? 'Exporting...' : 'Export Report'}
+                </Button>
+                <Button
+                  onClick={loadAnalytics}
+                  disabled={isLoading}
+                  className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
             </div>
 
             {/* Date Filter */}
@@ -203,6 +319,40 @@ export function Reports() {
                 </Card>
               </div>
 
+              {/* Sales & Tax */}
+              <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl hover:shadow-2xl transition-shadow border-0">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="w-12 h-12 bg-gradient-to-br from-teal-500 to-cyan-600 rounded-xl flex items-center justify-center">
+                    <Receipt className="w-6 h-6 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Sales &amp; Tax</h2>
+                    <p className="text-sm text-gray-500">Revenue split into net sales, output VAT and creditable withholding</p>
+                  </div>
+                </div>
+                <div className={`grid grid-cols-1 gap-4 ${analytics.summary.creditMemoCount > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+                    <p className="text-sm font-medium text-gray-600">Net Sales (net of VAT)</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(analytics.summary.netSales)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+                    <p className="text-sm font-medium text-gray-600">Output VAT</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(analytics.summary.outputVat)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+                    <p className="text-sm font-medium text-gray-600">Creditable Withholding Tax</p>
+                    <p className="text-2xl font-bold text-red-600 mt-1">{formatCurrency(analytics.summary.withholdingTax)}</p>
+                  </div>
+                  {analytics.summary.creditMemoCount > 0 && (
+                    <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+                      <p className="text-sm font-medium text-gray-600">Credit Memos</p>
+                      <p className="text-2xl font-bold text-purple-600 mt-1">-{formatCurrency(analytics.summary.totalCredits)}</p>
+                      <p className="text-xs text-gray-500 mt-1">{analytics.summary.creditMemoCount} issued, already deducted</p>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
               {/* Status Breakdown & Email Status */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl hover:shadow-2xl transition-shadow border-0">
@@ -291,6 +441,172 @@ export function Reports() {
                 </div>
               </Card>
 
+              {/* Accounts Receivable Aging */}
+              {aging && (
+                <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl hover:shadow-2xl transition-shadow border-0">
+                  <div className="flex items-center gap-3 mb-6">
+                    <div className="w-12 h-12 bg-gradient-to-br from-orange-500 to-red-500 rounded-xl flex items-center justify-center">
+                      <Clock className="w-6 h-6 text-white" />
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-gray-900">Accounts Receivable Aging</h2>
+                      <p className="text-sm text-gray-500">
+                        Outstanding balances as of {new Date(aging.asOf).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700">Company Name</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Current</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">1-30 Days</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">31-60 Days</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">61-90 Days</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">90+ Days</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Total</th>
+                          <th className="text-center py-3 px-4 font-semibold text-gray-700">Statement</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {aging.clients.map((client, idx) => (
+                          <tr key={idx} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-3 px-4 font-medium text-gray-900">
+                              {client.companyName}
+                              <span className="block text-xs text-gray-500">{client.billingCount} open billing(s)</span>
+                            </td>
+                            <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(client.current)}</td>
+                            <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(client.days1To30)}</td>
+                            <td className="py-3 px-4 text-right text-yellow-700">{formatCurrency(client.days31To60)}</td>
+                            <td className="py-3 px-4 text-right text-orange-700">{formatCurrency(client.days61To90)}</td>
+                            <td className="py-3 px-4 text-right text-red-700">{formatCurrency(client.over90)}</td>
+                            <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(client.total)}</td>
+                            <td className="py-3 px-4">
+                              {client.clientId && (
+                                <div className="flex justify-center gap-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Download statement of account"
+                                    disabled={statementBusy === client.clientId}
+                                    onClick={() => handleDownloadStatement(client)}
+                                  >
+                                    <Download className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Email statement of account"
+                                    disabled={statementBusy === client.clientId}
+                                    onClick={() => handleEmailStatement(client)}
+                                  >
+                                    <Mail className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      {aging.clients.length > 0 && (
+                        <tfoot>
+                          <tr className="border-t-2 border-gray-300 font-bold">
+                            <td className="py-3 px-4 text-gray-900">Total</td>
+                            <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(aging.totals.current)}</td>
+                            <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(aging.totals.days1To30)}</td>
+                            <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(aging.totals.days31To60)}</td>
+                            <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(aging.totals.days61To90)}</td>
+                            <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(aging.totals.over90)}</td>
+                            <td className="py-3 px-4 text-right text-blue-600">{formatCurrency(aging.totals.total)}</td>
+                            <td></td>
+                          </tr>
+                        </tfoot>
+                      )}
+                    </table>
+                    {aging.clients.length === 0 && (
+                      <p className="text-center py-8 text-gray-500">No outstanding balances</p>
+                    )}
+                  </div>
+                </Card>
+              )}
+
+              {/* Purchase Order Fulfillment */}
+              {poFulfillment && (
+                <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl hover:shadow-2xl transition-shadow border-0">
+                  <div className="flex items-center gap-3 mb-6">
+                    <div className="w-12 h-12 bg-gradient-to-br from-teal-500 to-cyan-500 rounded-xl flex items-center justify-center">
+                      <ClipboardList className="w-6 h-6 text-white" />
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-gray-900">Purchase Order Fulfillment</h2>
+                      <p className="text-sm text-gray-500">
+                        {poFulfillment.totals.purchaseOrderCount} open PO(s) &middot; {poFulfillment.totals.billedQuantity} of {poFulfillment.totals.orderedQuantity} units billed
+                        {poFulfillment.totals.overBilled > 0 && (
+                          <span className="text-red-600"> &middot; {poFulfillment.totals.overBilled} over-billed</span>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700">PO / Style</th>
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700">Company Name</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Ordered</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Billed</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Remaining</th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Billed Amount</th>
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700 w-40">Fulfilled</th>
+                        </tr>
+                      </thead>
+                      {poFulfillment.purchaseOrders.map(po => (
+                        <tbody key={po._id} className="border-b border-gray-200">
+                          <tr className="hover:bg-gray-50">
+                            <td className="py-3 px-4 font-medium text-gray-900">{po.poNumber}</td>
+                            <td className="py-3 px-4 text-gray-700">{po.companyName}</td>
+                            <td className="py-3 px-4 text-right text-gray-700">{po.orderedQuantity}</td>
+                            <td className="py-3 px-4 text-right text-gray-700">{po.billedQuantity}</td>
+                            <td className="py-3 px-4 text-right font-semibold text-gray-900">{po.remainingQuantity}</td>
+                            <td className="py-3 px-4 text-right text-gray-700">
+                              {formatCurrency(po.billedAmount || 0)}
+                              <span className="block text-xs text-gray-500">of {formatCurrency(po.orderedAmount || 0)}</span>
+                            </td>
+                            <td className="py-3 px-4">
+                              <div className="flex items-center gap-2">
+                                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                                  <div
+                                    className="bg-gradient-to-r from-teal-500 to-cyan-500 h-2 rounded-full"
+                                    style={{ width: `${po.percentFulfilled || 0}%` }}
+                                  />
+                                </div>
+                                <span className="text-sm text-gray-600">{po.percentFulfilled || 0}%</span>
+                              </div>
+                            </td>
+                          </tr>
+                          {po.lines.map(line => (
+                            <tr key={line.id} className="text-sm">
+                              <td className="py-1 px-4 pl-8 text-gray-600">{line.style}</td>
+                              <td className="py-1 px-4 text-gray-500">{line.description}</td>
+                              <td className="py-1 px-4 text-right text-gray-600">{line.orderedQuantity}</td>
+                              <td className="py-1 px-4 text-right text-gray-600">{line.billedQuantity}</td>
+                              <td className={`py-1 px-4 text-right ${(line.remainingQuantity || 0) < 0 ? 'text-red-600 font-semibold' : 'text-gray-600'}`}>
+                                {line.remainingQuantity}
+                              </td>
+                              <td colSpan={2}></td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      ))}
+                    </table>
+                    {poFulfillment.purchaseOrders.length === 0 && (
+                      <p className="text-center py-8 text-gray-500">No open purchase orders</p>
+                    )}
+                  </div>
+                </Card>
+              )}
+
               {/* Monthly Revenue Trend */}
               <Card className="p-6 bg-white/80 backdrop-blur-sm shadow-xl hover:shadow-2xl transition-shadow border-0">
                 <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center gap-2">
@@ -318,7 +634,9 @@ export function Reports() {
                             style={{ width: `${widthPercent}%` }}
                           />
                         </div>
-                        <p className="text-xs text-gray-500 mt-1">{month.count} billings</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {month.count} billings · Net sales {formatCurrency(month.netSales)} · VAT {formatCurrency(month.outputVat)}
+                        </p>
                       </div>
                     );
                   })}
@@ -358,6 +676,7 @@ export function Reports() {
                           <span className={`text-xs px-2 py-0.5 rounded ${
                             billing.emailStatus === 'Sent' ? 'bg-green-100 text-green-700' :
                             billing.emailStatus === 'Failed' ? 'bg-red-100 text-red-700' :
+                            billing.emailStatus === 'Pending' ? 'bg-yellow-100 text-yellow-700' :
                             'bg-gray-100 text-gray-700'
                           }`}>
                             {billing.emailStatus}
@@ -0,0 +1,196 @@
+/**
+ * Sessions Page
+ * Lists the devices the user is signed in on and lets them sign one out
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navigation } from '../components/Navigation';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Monitor, LogOut, Loader2, AlertCircle } from 'lucide-react';
+import { AuthService, Session } from '../services/auth.service';
+import { useAuth } from '../context/AuthContext';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Short "Browser on System" label for a user agent
+ */
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || userAgent;
+};
+
+export function Sessions() {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await AuthService.getSessions();
+
+      if (response.success && response.data) {
+        setSessions(response.data);
+      }
+    } catch (error: any) {
+      console.error('Error loading sessions:', error);
+      setError(error.message || 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    const prompt = session.current
+      ? 'Sign out of this device?'
+      : `Sign out ${describeDevice(session.userAgent)}?`;
+    if (!confirm(prompt)) {
+      return;
+    }
+
+    if (session.current) {
+      logout();
+      navigate('/login');
+      return;
+    }
+
+    try {
+      setRevokingId(session._id);
+      await AuthService.revokeSession(session._id);
+      setSessions(prev => prev.filter(s => s._id !== session._id));
+    } catch (error: any) {
+      console.error('Error revoking session:', error);
+      alert(error.message || 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Navigation />
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">My Sessions</h1>
+            <p className="text-gray-600 mt-2 text-lg">
+              Devices you are signed in on. Sign out any you don't recognize.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <Card className="bg-white/80 backdrop-blur-sm shadow-xl border-0">
+              <CardContent className="p-12 text-center">
+                <Loader2 className="h-12 w-12 text-gray-400 mx-auto mb-4 animate-spin" />
+                <p className="text-gray-600">Loading sessions...</p>
+              </CardContent>
+            </Card>
+          ) : error ? (
+            <Card className="bg-white/80 backdrop-blur-sm shadow-xl border-0">
+              <CardContent className="p-12 text-center">
+                <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Error loading sessions</h3>
+                <p className="text-gray-600 mb-6">{error}</p>
+                <Button onClick={loadSessions}>Try Again</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {sessions.map((session) => (
+                <Card key={session._id} className="bg-white/80 backdrop-blur-sm shadow-lg border-0">
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start gap-3 flex-1">
+                        <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center flex-shrink-0">
+                          <Monitor className="h-5 w-5 text-white" />
+                        </div>
+                        <div className="flex-1 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-gray-900 text-lg" title={session.userAgent}>
+                              {describeDevice(session.userAgent)}
+                            </h3>
+                            {session.current && (
+                              <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                                This device
+                              </span>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <p className="text-xs text-gray-500">IP Address</p>
+                              <p className="text-sm font-medium text-gray-900">{session.ipAddress || '—'}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500">Signed In</p>
+                              <p className="text-sm font-medium text-gray-900">{formatDate(session.createdAt)}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500">Last Active</p>
+                              <p className="text-sm font-medium text-gray-900">{formatDate(session.lastUsedAt)}</p>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => handleRevoke(session)}
+                        disabled={revokingId === session._id}
+                        className="ml-4 bg-gradient-to-r from-red-50 to-pink-50 hover:from-red-100 hover:to-pink-100 text-red-700 border-red-200"
+                      >
+                        <LogOut className="mr-1.5 h-4 w-4" />
+                        {session.current ? 'Sign Out' : 'Revoke'}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
  */
 
 import { AuthService } from './auth.service';
+import { ReminderPolicy } from '../types/billing.types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -16,6 +17,12 @@ export interface User {
   updatedAt: string;
 }
 
+export interface PaymentReminderSettings {
+  companyPolicy: ReminderPolicy;
+  /** Clients with their own policy */
+  clients: { _id: string; companyName: string; reminderPolicy: ReminderPolicy }[];
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
@@ -103,4 +110,79 @@ export class AdminService {
       throw error;
     }
   }
+
+  /**
+   * Sign a user out of every device (admin only)
+   */
+  static async forceLogoutUser(userId: string): Promise<ApiResponse<{ revoked: number }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/users/${userId}/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to sign out user');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error signing out user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the company reminder policy and the clients that override it (admin only)
+   */
+  static async getPaymentReminderSettings(): Promise<ApiResponse<PaymentReminderSettings>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/payment-reminders`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch payment reminder settings');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching payment reminder settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send every payment reminder that has come due now (admin only)
+   */
+  static async runPaymentReminders(): Promise<ApiResponse<{ sent: number }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/payment-reminders/run`, {
+        method: 'POST',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to run payment reminders');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error running payment reminders:', error);
+      throw error;
+    }
+  }
 }
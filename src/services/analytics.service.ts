@@ -4,6 +4,7 @@
  */
 
 import { AuthService } from './auth.service';
+import { PurchaseOrderData } from './purchase.order.api.service';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -12,6 +13,13 @@ export interface AnalyticsSummary {
   totalRevenue: number;
   totalSubtotal: number;
   totalDiscount: number;
+  /** Credit memos issued in the period (already subtracted from the revenue figures) */
+  totalCredits: number;
+  creditMemoCount: number;
+  /** Sales net of VAT */
+  netSales: number;
+  outputVat: number;
+  withholdingTax: number;
   averageBillingAmount: number;
 }
 
@@ -27,6 +35,7 @@ export interface EmailStatusBreakdown {
 }
 
 export interface TopClient {
+  clientId: string | null;
   companyName: string;
   totalRevenue: number;
   billingCount: number;
@@ -36,6 +45,8 @@ export interface MonthlyRevenue {
   year: number;
   month: number;
   revenue: number;
+  netSales: number;
+  outputVat: number;
   count: number;
 }
 
@@ -58,6 +69,43 @@ export interface AnalyticsData {
   recentBillings: RecentBilling[];
 }
 
+export interface AgingBuckets {
+  current: number;
+  days1To30: number;
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+  total: number;
+}
+
+export interface AgingClient extends AgingBuckets {
+  clientId: string | null;
+  companyName: string;
+  billingCount: number;
+}
+
+export interface AgingReport {
+  asOf: string;
+  totals: AgingBuckets;
+  clients: AgingClient[];
+}
+
+export interface PoFulfillmentTotals {
+  purchaseOrderCount: number;
+  orderedQuantity: number;
+  billedQuantity: number;
+  remainingQuantity: number;
+  orderedAmount: number;
+  billedAmount: number;
+  fullyBilled: number;
+  overBilled: number;
+}
+
+export interface PoFulfillmentReport {
+  totals: PoFulfillmentTotals;
+  purchaseOrders: PurchaseOrderData[];
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
@@ -101,4 +149,99 @@ export class AnalyticsService {
       throw error;
     }
   }
+
+  /**
+   * Download the billing analytics as an XLSX workbook (one sheet per report section)
+   */
+  static async exportBillingAnalytics(dateFrom?: string, dateTo?: string): Promise<Blob> {
+    try {
+      const params = new URLSearchParams();
+      if (dateFrom) params.append('dateFrom', dateFrom);
+      if (dateTo) params.append('dateTo', dateTo);
+      const queryString = params.toString();
+
+      const response = await fetch(`${API_BASE_URL}/analytics/billings/export${queryString ? '?' + queryString : ''}`, {
+        method: 'GET',
+        headers: {
+          ...AuthService.getAuthHeader()
+        },
+        cache: 'no-store'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to export analytics');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error exporting analytics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get accounts-receivable aging by client
+   */
+  static async getAgingReport(asOf?: string): Promise<ApiResponse<AgingReport>> {
+    try {
+      const params = new URLSearchParams();
+      if (asOf) params.append('asOf', asOf);
+      // Add timestamp to prevent caching
+      params.append('_t', Date.now().toString());
+
+      const response = await fetch(`${API_BASE_URL}/analytics/aging?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        cache: 'no-store'
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch aging report');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching aging report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get ordered, billed and remaining quantities per purchase order
+   */
+  static async getPoFulfillmentReport(filters: { clientId?: string; status?: string } = {}): Promise<ApiResponse<PoFulfillmentReport>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters.clientId) params.append('clientId', filters.clientId);
+      if (filters.status) params.append('status', filters.status);
+      // Add timestamp to prevent caching
+      params.append('_t', Date.now().toString());
+
+      const response = await fetch(`${API_BASE_URL}/analytics/po-fulfillment?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        cache: 'no-store'
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch PO fulfillment report');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching PO fulfillment report:', error);
+      throw error;
+    }
+  }
 }
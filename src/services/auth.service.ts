@@ -1,10 +1,21 @@
 /**
  * Authentication API Service
  * Handles all API calls related to authentication
+ * Access tokens are short-lived; installTokenRefresh() makes API calls that
+ * fail with 401 refresh the session and retry once.
  */
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+/**
+ * Event dispatched on window when the session has ended and the user has to
+ * sign in again
+ */
+export const SESSION_ENDED_EVENT = 'auth:session-ended';
+
+/** Auth calls whose 401 means bad credentials, not an expired access token */
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -29,14 +40,31 @@ export interface AuthResponse {
   message?: string;
   data?: {
     token: string;
+    refreshToken: string;
     user: User;
   };
   error?: string;
 }
 
+/**
+ * A device the user is signed in on
+ */
+export interface Session {
+  _id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  /** Whether this is the session of this browser */
+  current: boolean;
+}
+
 export class AuthService {
   private static TOKEN_KEY = 'auth_token';
+  private static REFRESH_TOKEN_KEY = 'refresh_token';
   private static USER_KEY = 'user_data';
+  private static refreshing: Promise<boolean> | null = null;
 
   /**
    * Login user
@@ -57,10 +85,9 @@ export class AuthService {
         throw new Error(data.message || 'Login failed');
       }
 
-      // Store token and user data
+      // Store tokens and user data
       if (data.data?.token) {
-        this.setToken(data.data.token);
-        this.setUser(data.data.user);
+        this.storeSession(data.data);
       }
 
       return data;
@@ -89,10 +116,9 @@ export class AuthService {
         throw new Error(data.message || 'Registration failed');
       }
 
-      // Store token and user data
+      // Store tokens and user data
       if (data.data?.token) {
-        this.setToken(data.data.token);
-        this.setUser(data.data.user);
+        this.storeSession(data.data);
       }
 
       return data;
@@ -133,10 +159,129 @@ export class AuthService {
 
   /**
    * Logout user
+   * Ends the session on the server as well; local sign-out happens even if
+   * that request fails.
    */
-  static logout(): void {
-    localStorage.removeItem(this.TOKEN_KEY);
-    localStorage.removeItem(this.USER_KEY);
+  static async logout(): Promise<void> {
+    const refreshToken = this.getRefreshToken();
+    this.clearSession();
+
+    if (!refreshToken) return;
+
+    try {
+      await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+    } catch (error: any) {
+      console.error('Logout error:', error);
+    }
+  }
+
+  /**
+   * Exchange the refresh token for new tokens
+   * Concurrent calls share one request, since a refresh token works only once.
+   * @returns Whether new tokens are available
+   */
+  static refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestNewTokens().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Make API calls that fail with 401 refresh the session and retry once
+   * Call once at startup. When the session cannot be refreshed the user is
+   * signed out and SESSION_ENDED_EVENT is dispatched.
+   */
+  static installTokenRefresh(): void {
+    const originalFetch = window.fetch.bind(window);
+
+    window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      // The first attempt consumes a Request body, so keep an unread copy for the retry
+      const retryInput = input instanceof Request ? input.clone() : input;
+      const response = await originalFetch(input, init);
+
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      if (
+        response.status !== 401 ||
+        !url.startsWith(API_BASE_URL) ||
+        NO_REFRESH_PATHS.some(path => url.startsWith(`${API_BASE_URL}${path}`))
+      ) {
+        return response;
+      }
+
+      const headers = new Headers(init?.headers ?? (retryInput instanceof Request ? retryInput.headers : undefined));
+      const sentToken = headers.get('Authorization')?.replace(/^Bearer /, '');
+      if (!sentToken) {
+        return response;
+      }
+
+      // Another request or tab may have refreshed the tokens already
+      const refreshed = this.getToken() !== sentToken || await this.refreshSession();
+      const token = this.getToken();
+      if (!refreshed || !token) {
+        return response;
+      }
+
+      headers.set('Authorization', `Bearer ${token}`);
+      return originalFetch(retryInput, { ...init, headers });
+    };
+  }
+
+  /**
+   * Get the sessions the current user is signed in with
+   */
+  static async getSessions(): Promise<{ success: boolean; data?: Session[]; count?: number; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/sessions`, {
+        headers: {
+          ...this.getAuthHeader(),
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch sessions');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Sessions fetch error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End one of the current user's sessions
+   */
+  static async revokeSession(sessionId: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: {
+          ...this.getAuthHeader(),
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to revoke session');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Session revoke error:', error);
+      throw error;
+    }
   }
 
   /**
@@ -153,6 +298,13 @@ export class AuthService {
     return localStorage.getItem(this.TOKEN_KEY);
   }
 
+  /**
+   * Get stored refresh token
+   */
+  static getRefreshToken(): string | null {
+    return localStorage.getItem(this.REFRESH_TOKEN_KEY);
+  }
+
   /**
    * Get stored user data
    */
@@ -169,6 +321,75 @@ export class AuthService {
     return user?.role === 'admin';
   }
 
+  /**
+   * Ask the server for new tokens with the stored refresh token
+   */
+  private static async requestNewTokens(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      this.endSession();
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (response.status === 401) {
+        // Another tab may have used the same refresh token a moment earlier
+        if (this.getRefreshToken() !== refreshToken) {
+          return !!this.getRefreshToken();
+        }
+        this.endSession();
+        return false;
+      }
+
+      const data = await response.json();
+
+      if (!response.ok || !data.data?.token) {
+        return false;
+      }
+
+      this.storeSession(data.data);
+      return true;
+    } catch (error: any) {
+      // Offline or server down: keep the session and let the call fail
+      console.error('Session refresh error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the tokens and user data of a session
+   */
+  private static storeSession(data: { token: string; refreshToken: string; user: User }): void {
+    this.setToken(data.token);
+    localStorage.setItem(this.REFRESH_TOKEN_KEY, data.refreshToken);
+    this.setUser(data.user);
+  }
+
+  /**
+   * Remove the tokens and user data from localStorage
+   */
+  private static clearSession(): void {
+    localStorage.removeItem(this.TOKEN_KEY);
+    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
+    localStorage.removeItem(this.USER_KEY);
+  }
+
+  /**
+   * Sign out locally after the server ended the session
+   */
+  private static endSession(): void {
+    this.clearSession();
+    window.dispatchEvent(new Event(SESSION_ENDED_EVENT));
+  }
+
   /**
    * Set token in localStorage
    */
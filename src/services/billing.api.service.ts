@@ -3,7 +3,7 @@
  * Handles all API calls to the backend
  */
 
-import { CreateBillingDTO } from '../types/billing.types';
+import { CreateBillingDTO, UpdateBillingDTO, ReminderPolicy } from '../types/billing.types';
 import { AuthService } from './auth.service';
 
 // API base URL - configured via environment variable
@@ -21,6 +21,97 @@ interface ApiResponse<T> {
   data?: T;
   errors?: string[];
   error?: string;
+  /** Present on paginated lists */
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * One entry of a billing's audit trail
+ */
+export interface BillingAuditEntry {
+  _id: string;
+  action: 'create' | 'update' | 'email' | 'download' | 'void' | 'reminder' | 'import' | 'payment' | 'payment-delete' | 'credit-memo';
+  actor?: { _id: string; name: string; email: string } | null;
+  timestamp: string;
+  changes: { field: string; before?: unknown; after?: unknown }[];
+}
+
+/**
+ * A queued invoice email and its delivery status
+ */
+export interface EmailJobData {
+  _id: string;
+  billingNumber: string;
+  recipientEmail: string;
+  status: 'Pending' | 'Sending' | 'Sent' | 'Failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Payment reminder policy, next reminder and log of a billing
+ */
+export interface BillingReminderStatusData {
+  policy: ReminderPolicy;
+  source: 'Client' | 'Company';
+  paused: boolean;
+  pausedAt?: string;
+  nextReminder: { offsetDays: number; date: string } | null;
+  /** Why the billing gets no reminders */
+  skipReason?: string;
+  reminders: {
+    offsetDays: number;
+    recipientEmail: string;
+    status: 'Sent' | 'Failed';
+    error?: string;
+    sentAt: string;
+  }[];
+}
+
+/**
+ * Outcome of a CSV billing import or dry run
+ */
+export interface BillingImportResult {
+  dryRun: boolean;
+  rowCount: number;
+  billings: {
+    billingNumber: string;
+    billingDate: string;
+    companyName: string;
+    clientMatched: boolean;
+    itemCount: number;
+    grandTotal: number;
+    amountPaid: number;
+    rows: number[];
+  }[];
+  /** Row 1 is the header */
+  errors: { row: number; billingNumber?: string; message: string }[];
+  importedCount: number;
+}
+
+/**
+ * Outcome of a bulk action for one selected billing
+ */
+export interface BulkBillingResult {
+  id: string;
+  billingNumber?: string;
+  success: boolean;
+  message: string;
+}
+
+export interface BulkActionData {
+  results: BulkBillingResult[];
+  succeeded: number;
+  failed: number;
 }
 
 /**
@@ -73,6 +164,37 @@ export class BillingApiService {
     }
   }
 
+  /**
+   * Bill every open delivery receipt for a client in a date range as one billing
+   * @param request - Client, date range and optional billing settings
+   * @returns Created billing data
+   */
+  static async consolidateDeliveryReceipts(
+    request: { clientId: string; from: string; to: string } & Partial<Omit<CreateBillingDTO, 'items' | 'deliveryReceiptIds'>>
+  ): Promise<ApiResponse<any>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/consolidate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(request),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.errors?.join(', ') || result.message || 'Failed to consolidate delivery receipts');
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('Error consolidating delivery receipts:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all billings with optional filters
    * @param params - Query parameters
@@ -116,6 +238,74 @@ export class BillingApiService {
     }
   }
 
+  /**
+   * Download billings as a spreadsheet
+   * @param format - 'csv' or 'xlsx'
+   * @param params - Same filters as getAllBillings (pagination is ignored)
+   * @param includeItems - Add line items (an extra XLSX sheet; a CSV lists line items instead)
+   * @returns The file
+   */
+  static async exportBillings(
+    format: 'csv' | 'xlsx',
+    params: Record<string, string> = {},
+    includeItems = false
+  ): Promise<Blob> {
+    try {
+      const query = new URLSearchParams({ ...params, format });
+      if (includeItems) query.append('items', 'true');
+
+      const response = await fetch(`${API_BASE_URL}/billings/export?${query.toString()}`, {
+        method: 'GET',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to export billings');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error exporting billings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import historical billings from a CSV file (admin only)
+   * @param csv - File contents, one row per line item
+   * @param dryRun - Only validate and preview
+   * @returns Preview and row errors; on a failed import the errors are in the response too
+   */
+  static async importBillings(csv: string, dryRun: boolean): Promise<ApiResponse<BillingImportResult>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/import${dryRun ? '?dryRun=true' : ''}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/csv',
+          ...AuthService.getAuthHeader()
+        },
+        body: csv,
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      // Row errors come back with the preview so they can be listed
+      if (!response.ok && !data.data) {
+        throw new Error(
+          data.error || data.message || (response.status === 413 ? 'CSV file is too large' : 'Failed to import billings')
+        );
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error importing billings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get a single billing by ID
    * @param id - Billing ID
@@ -160,11 +350,12 @@ export class BillingApiService {
 
   /**
    * Update a billing
+   * Emailed billings require `revise: true`, which creates a new revision.
    * @param id - Billing ID
    * @param updates - Fields to update
    * @returns Updated billing data
    */
-  static async updateBilling(id: string, updates: any): Promise<ApiResponse<any>> {
+  static async updateBilling(id: string, updates: UpdateBillingDTO): Promise<ApiResponse<any>> {
     try {
       const response = await fetch(`${API_BASE_URL}/billings/${id}`, {
         method: 'PUT',
@@ -202,14 +393,57 @@ export class BillingApiService {
   }
 
   /**
-   * Delete a billing
-   * @param id - Billing ID
-   * @returns Success response
+   * Void a billing (admin only). The record is kept and its PDF is stamped "VOID".
+   * @param id - Billing ID or billing number
+   * @param reason - Why the billing is being voided
+   * @returns Updated billing
    */
-  static async deleteBilling(id: string): Promise<ApiResponse<any>> {
+  static async voidBilling(id: string, reason: string): Promise<ApiResponse<any>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/billings/${id}`, {
-        method: 'DELETE',
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/void`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ reason }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error voiding billing:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the audit trail of a billing
+   * @param id - Billing ID or billing number
+   * @returns Audit entries, newest first
+   */
+  static async getBillingHistory(id: string): Promise<ApiResponse<BillingAuditEntry[]>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/history`, {
+        method: 'GET',
         headers: {
           'Content-Type': 'application/json',
           ...AuthService.getAuthHeader()
@@ -228,7 +462,7 @@ export class BillingApiService {
       return result;
 
     } catch (error: any) {
-      console.error('Error deleting billing:', error);
+      console.error('Error fetching billing history:', error);
       
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
         throw {
@@ -241,4 +475,314 @@ export class BillingApiService {
       throw error;
     }
   }
+
+  /**
+   * Get the payment reminder state and log of a billing
+   * @param id - Billing ID or billing number
+   * @returns Reminder state
+   */
+  static async getReminders(id: string): Promise<ApiResponse<BillingReminderStatusData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/reminders`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error fetching billing reminders:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Pause or resume payment reminders for a billing (admin only)
+   * @param id - Billing ID or billing number
+   * @param paused - Pause (true) or resume (false)
+   * @returns Updated reminder state
+   */
+  static async setRemindersPaused(id: string, paused: boolean): Promise<ApiResponse<BillingReminderStatusData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/reminders`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ paused }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error updating billing reminders:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Queue the invoice email of a billing
+   * @param id - Billing ID or billing number
+   * @param recipientEmail - Recipient email address
+   * @returns The queued job's ID
+   */
+  static async sendBillingEmail(id: string, recipientEmail: string): Promise<ApiResponse<{ jobId: string; emailStatus: string }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/send-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ recipientEmail }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error sending billing email:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the email jobs of a billing
+   * @param id - Billing ID or billing number
+   * @returns Email jobs, newest first
+   */
+  static async getEmailJobs(id: string): Promise<ApiResponse<EmailJobData[]>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/email-jobs`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error fetching email jobs:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the delivery status of an email job
+   * @param id - Billing ID or billing number
+   * @param jobId - Email job ID
+   * @returns Email job
+   */
+  static async getEmailJob(id: string, jobId: string): Promise<ApiResponse<EmailJobData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${id}/email-jobs/${jobId}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error('Error fetching email job:', error);
+      
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Download the PDFs of several billings as one ZIP
+   * @param ids - Billing IDs or numbers
+   * @returns The ZIP, and how many billings could not be included (listed in its errors.txt)
+   */
+  static async downloadBillingPdfs(ids: string[]): Promise<{ blob: Blob; failedCount: number }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/bulk/download`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ ids }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download PDFs');
+      }
+
+      return {
+        blob: await response.blob(),
+        failedCount: Number(response.headers.get('X-Bulk-Failed') || 0)
+      };
+    } catch (error: any) {
+      console.error('Error downloading billing PDFs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue the invoice email of each billing to its client email
+   * @param ids - Billing IDs or numbers
+   * @returns Result for each billing
+   */
+  static async bulkEmailBillings(ids: string[]): Promise<ApiResponse<BulkActionData>> {
+    return this.postBulkAction('email', { ids });
+  }
+
+  /**
+   * Void several billings with the same reason (admin only)
+   * @param ids - Billing IDs or numbers
+   * @param reason - Why the billings are void
+   * @returns Result for each billing
+   */
+  static async bulkVoidBillings(ids: string[], reason: string): Promise<ApiResponse<BulkActionData>> {
+    return this.postBulkAction('void', { ids, reason });
+  }
+
+  /**
+   * Record a payment for the full balance due of each billing
+   * @param ids - Billing IDs or numbers
+   * @param payment - Payment method, and optionally date and reference number
+   * @returns Result for each billing
+   */
+  static async bulkMarkBillingsPaid(
+    ids: string[],
+    payment: { method: string; paymentDate?: string; referenceNumber?: string }
+  ): Promise<ApiResponse<BulkActionData>> {
+    return this.postBulkAction('mark-paid', { ids, ...payment });
+  }
+
+  private static async postBulkAction(action: string, body: Record<string, unknown>): Promise<ApiResponse<BulkActionData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/bulk/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw {
+          status: response.status,
+          ...result
+        };
+      }
+
+      return result;
+
+    } catch (error: any) {
+      console.error(`Error in bulk ${action}:`, error);
+
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw {
+          success: false,
+          message: 'Unable to connect to the server.',
+          error: 'Network error'
+        };
+      }
+
+      throw error;
+    }
+  }
 }
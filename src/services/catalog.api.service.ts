@@ -0,0 +1,134 @@
+/**
+ * Catalog API Service
+ * Handles all API calls related to the product and service price list
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface CatalogItemData {
+  _id?: string;
+  code: string;
+  description: string;
+  unit: string;
+  defaultPrice: number;
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  count?: number;
+  errors?: string[];
+  error?: string;
+}
+
+export class CatalogApiService {
+  /**
+   * Get catalog items
+   */
+  static async getCatalogItems(includeInactive = false): Promise<ApiResponse<CatalogItemData[]>> {
+    try {
+      const query = includeInactive ? '?includeInactive=true' : '';
+      const response = await fetch(`${API_BASE_URL}/catalog${query}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch catalog items');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching catalog items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a catalog item (admin only)
+   */
+  static async createCatalogItem(item: CatalogItemData): Promise<ApiResponse<CatalogItemData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/catalog`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(item),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to create catalog item');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error creating catalog item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a catalog item (admin only)
+   */
+  static async updateCatalogItem(id: string, updates: Partial<CatalogItemData>): Promise<ApiResponse<CatalogItemData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/catalog/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to update catalog item');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error updating catalog item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a catalog item (admin only)
+   */
+  static async deleteCatalogItem(id: string): Promise<ApiResponse<null>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/catalog/${id}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete catalog item');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting catalog item:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Client API Service
+ * Handles all API calls related to client master records
+ */
+
+import { AuthService } from './auth.service';
+import { ReminderPolicy } from '../types/billing.types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * The reminder policy in effect for a client
+ */
+export interface ClientReminderPolicy {
+  policy: ReminderPolicy;
+  source: 'Client' | 'Company';
+  companyPolicy: ReminderPolicy;
+}
+
+export interface ClientData {
+  _id?: string;
+  companyName: string;
+  address: string;
+  contactNumber: string;
+  attentionPerson: string;
+  clientEmail?: string;
+  notes?: string;
+  reminderPolicy?: ReminderPolicy | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  count?: number;
+  errors?: string[];
+  error?: string;
+}
+
+export class ClientApiService {
+  /**
+   * Search clients by company name, attention person or email
+   */
+  static async searchClients(search = '', limit = 10): Promise<ApiResponse<ClientData[]>> {
+    try {
+      const params = new URLSearchParams({ search, limit: String(limit) });
+      const response = await fetch(`${API_BASE_URL}/clients?${params.toString()}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch clients');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching clients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single client by ID
+   */
+  static async getClientById(id: string): Promise<ApiResponse<ClientData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch client');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a client
+   */
+  static async createClient(clientData: ClientData): Promise<ApiResponse<ClientData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(clientData),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to create client');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error creating client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a client
+   */
+  static async updateClient(id: string, updates: Partial<ClientData>): Promise<ApiResponse<ClientData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update client');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error updating client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a client (admin only)
+   */
+  static async deleteClient(id: string): Promise<ApiResponse<null>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete client');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download a client's Statement of Account PDF
+   */
+  static async downloadStatement(id: string, from?: string, to?: string): Promise<Blob> {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.append('from', from);
+      if (to) params.append('to', to);
+      const queryString = params.toString();
+
+      const response = await fetch(`${API_BASE_URL}/clients/${id}/statement${queryString ? '?' + queryString : ''}`, {
+        method: 'GET',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download statement');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error downloading statement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Email a client's Statement of Account (defaults to the client's email)
+   */
+  static async sendStatement(
+    id: string,
+    options: { recipientEmail?: string; from?: string; to?: string } = {}
+  ): Promise<ApiResponse<{ recipientEmail: string; billingCount: number; balance: number }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}/statement/send-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(options)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to send statement');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error sending statement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reminder policy in effect for a client
+   */
+  static async getReminderPolicy(id: string): Promise<ApiResponse<ClientReminderPolicy>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}/reminder-policy`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch reminder policy');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching reminder policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a client's own reminder policy, or pass null to use the company policy (admin only)
+   */
+  static async updateReminderPolicy(id: string, reminderPolicy: ReminderPolicy | null): Promise<ApiResponse<ClientReminderPolicy>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/clients/${id}/reminder-policy`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ reminderPolicy })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to save reminder policy');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error saving reminder policy:', error);
+      throw error;
+    }
+  }
+}
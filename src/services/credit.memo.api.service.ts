@@ -0,0 +1,104 @@
+/**
+ * Credit Memo API Service
+ * Handles all API calls related to credit memos issued against a billing
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface CreditMemoData {
+  _id?: string;
+  creditMemoNumber?: string;
+  memoDate: string;
+  reason: string;
+  amount: number;
+  netSales?: number;
+  vatAmount?: number;
+  withholdingTax?: number;
+  createdAt?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class CreditMemoApiService {
+  /**
+   * Get the credit memos issued against a billing
+   */
+  static async getCreditMemos(billingId: string): Promise<ApiResponse<CreditMemoData[]>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/credit-memos`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch credit memos');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching credit memos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a credit memo against a billing
+   */
+  static async createCreditMemo(billingId: string, creditMemo: CreditMemoData): Promise<ApiResponse<{ creditMemo: CreditMemoData }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/credit-memos`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(creditMemo),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to issue credit memo');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error issuing credit memo:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the PDF of a credit memo
+   */
+  static async downloadCreditMemoPdf(billingId: string, memoId: string): Promise<Blob> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/credit-memos/${memoId}/download-pdf`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download credit memo');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error downloading credit memo:', error);
+      throw error;
+    }
+  }
+}
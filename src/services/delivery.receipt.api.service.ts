@@ -0,0 +1,152 @@
+/**
+ * Delivery Receipt API Service
+ * Handles all API calls related to delivery receipts
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface DeliveryReceiptItemData {
+  id: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  deliveredQuantity: number;
+  unitPrice: number;
+  catalogItemId?: string;
+}
+
+export interface DeliveryReceiptData {
+  _id?: string;
+  drNumber?: string;
+  deliveryDate: string;
+  clientId?: string;
+  companyName: string;
+  address: string;
+  contactNumber?: string;
+  attentionPerson?: string;
+  items: DeliveryReceiptItemData[];
+  receivedBy?: string;
+  notes?: string;
+  status?: 'Open' | 'Billed';
+  billingId?: string;
+  billingNumber?: string;
+  createdAt?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class DeliveryReceiptApiService {
+  /**
+   * Get delivery receipts
+   */
+  static async getDeliveryReceipts(filters: { status?: string; clientId?: string; search?: string } = {}): Promise<ApiResponse<DeliveryReceiptData[]>> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+
+      const response = await fetch(`${API_BASE_URL}/delivery-receipts?${params.toString()}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch delivery receipts');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching delivery receipts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a delivery receipt
+   */
+  static async createDeliveryReceipt(receipt: DeliveryReceiptData): Promise<ApiResponse<DeliveryReceiptData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/delivery-receipts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(receipt),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to create delivery receipt');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error creating delivery receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an open delivery receipt
+   */
+  static async updateDeliveryReceipt(id: string, updates: Partial<DeliveryReceiptData>): Promise<ApiResponse<DeliveryReceiptData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/delivery-receipts/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to update delivery receipt');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error updating delivery receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the printable delivery receipt
+   */
+  static async downloadDeliveryReceiptPdf(id: string): Promise<Blob> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/delivery-receipts/${id}/download-pdf`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download delivery receipt');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error downloading delivery receipt:', error);
+      throw error;
+    }
+  }
+}
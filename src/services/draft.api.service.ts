@@ -5,6 +5,7 @@
 
 import { BillingItem } from '../components/ItemizedTable';
 import { AuthService } from './auth.service';
+import { PaymentTerms, VatMode, WithholdingRate } from '../types/billing.types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -13,6 +14,7 @@ export interface DraftBillingData {
   savedAt?: string;
   billingDate: string;
   deliveryReceiptNumber?: string;
+  clientId?: string;
   companyName: string;
   contactNumber: string;
   address: string;
@@ -22,6 +24,10 @@ export interface DraftBillingData {
   discount: number;
   subtotal: number;
   grandTotal: number;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
+  paymentTerms?: PaymentTerms;
+  customTermDays?: number;
 }
 
 export interface ApiResponse<T> {
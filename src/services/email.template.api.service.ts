@@ -0,0 +1,162 @@
+/**
+ * Email Template API Service
+ * Handles all API calls related to email templates (admin only)
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export const EMAIL_TEMPLATE_TYPES = ['Invoice', 'Reminder', 'Statement'] as const;
+
+export type EmailTemplateType = typeof EMAIL_TEMPLATE_TYPES[number];
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplateData extends EmailTemplateContent {
+  _id: string;
+  type: EmailTemplateType;
+  clientId: string | null;
+  /** Company name of the client an override applies to */
+  clientName?: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplatePlaceholder {
+  name: string;
+  description: string;
+}
+
+export interface EmailTemplateCatalog {
+  templates: EmailTemplateData[];
+  defaults: Record<EmailTemplateType, EmailTemplateContent>;
+  placeholders: Record<EmailTemplateType, EmailTemplatePlaceholder[]>;
+}
+
+export interface EmailTemplatePreview extends EmailTemplateContent {
+  errors: string[];
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class EmailTemplateApiService {
+  /**
+   * Get stored templates with the defaults and placeholders of each type
+   */
+  static async getEmailTemplates(): Promise<ApiResponse<EmailTemplateCatalog>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/email-templates`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch email templates');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching email templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the company-wide template of a type, or a client's override
+   */
+  static async saveEmailTemplate(
+    type: EmailTemplateType,
+    content: EmailTemplateContent,
+    clientId?: string | null
+  ): Promise<ApiResponse<EmailTemplateData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/email-templates/${type}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify({ ...content, clientId: clientId || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to save email template');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error saving email template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a stored template so the company-wide or built-in one applies again
+   */
+  static async deleteEmailTemplate(type: EmailTemplateType, clientId?: string | null): Promise<ApiResponse<void>> {
+    try {
+      const query = clientId ? `?clientId=${clientId}` : '';
+      const response = await fetch(`${API_BASE_URL}/email-templates/${type}${query}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to delete email template');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting email template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render a template against a billing (or a client's statement)
+   */
+  static async previewEmailTemplate(
+    type: EmailTemplateType,
+    params: { billingId?: string; clientId?: string | null } & Partial<EmailTemplateContent>
+  ): Promise<ApiResponse<EmailTemplatePreview>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/email-templates/${type}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(params),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to preview email template');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error previewing email template:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Payment API Service
+ * Handles all API calls related to payments recorded against a billing
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export type PaymentMethod = 'Cash' | 'Check' | 'Bank Transfer' | 'GCash';
+
+export type PaymentStatus = 'Unpaid' | 'Partially Paid' | 'Paid';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'Check', 'Bank Transfer', 'GCash'];
+
+export interface PaymentData {
+  _id?: string;
+  paymentDate: string;
+  amount: number;
+  method: PaymentMethod;
+  referenceNumber?: string;
+  notes?: string;
+  createdAt?: string;
+}
+
+export interface PaymentSummary {
+  grandTotal: number;
+  amountPaid: number;
+  amountCredited: number;
+  balanceDue: number;
+  paymentStatus: PaymentStatus;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class PaymentApiService {
+  /**
+   * Get the payment history and balance of a billing
+   */
+  static async getPayments(billingId: string): Promise<ApiResponse<{ payments: PaymentData[]; summary: PaymentSummary }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/payments`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch payments');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment against a billing
+   */
+  static async recordPayment(billingId: string, payment: PaymentData): Promise<ApiResponse<{ payment: PaymentData; summary: PaymentSummary }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(payment),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to record payment');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a payment (admin only)
+   */
+  static async deletePayment(billingId: string, paymentId: string): Promise<ApiResponse<{ summary: PaymentSummary }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/billings/${billingId}/payments/${paymentId}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete payment');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting payment:', error);
+      throw error;
+    }
+  }
+}
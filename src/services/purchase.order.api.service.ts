@@ -0,0 +1,158 @@
+/**
+ * Purchase Order API Service
+ * Handles all API calls related to client purchase orders
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface PurchaseOrderLineData {
+  id: string;
+  style: string;
+  description: string;
+  orderedQuantity: number;
+  unitPrice: number;
+  catalogItemId?: string;
+  /** Returned by the API; not sent */
+  billedQuantity?: number;
+  remainingQuantity?: number;
+}
+
+export interface PurchaseOrderData {
+  _id?: string;
+  poNumber: string;
+  clientId: string;
+  companyName?: string;
+  poDate: string;
+  lines: PurchaseOrderLineData[];
+  overbillingPolicy: 'Block' | 'Warn';
+  status?: 'Open' | 'Closed';
+  notes?: string;
+  createdAt?: string;
+  /** Fulfillment totals returned by the API */
+  orderedQuantity?: number;
+  billedQuantity?: number;
+  remainingQuantity?: number;
+  orderedAmount?: number;
+  billedAmount?: number;
+  percentFulfilled?: number;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class PurchaseOrderApiService {
+  /**
+   * Get purchase orders with billed and remaining quantities
+   */
+  static async getPurchaseOrders(filters: { clientId?: string; status?: string; search?: string } = {}): Promise<ApiResponse<PurchaseOrderData[]>> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+
+      const response = await fetch(`${API_BASE_URL}/purchase-orders?${params.toString()}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch purchase orders');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching purchase orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a purchase order
+   */
+  static async createPurchaseOrder(po: PurchaseOrderData): Promise<ApiResponse<PurchaseOrderData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/purchase-orders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(po),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to create purchase order');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error creating purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a purchase order, or close/reopen it
+   */
+  static async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrderData>): Promise<ApiResponse<PurchaseOrderData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/purchase-orders/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to update purchase order');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error updating purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a purchase order that has not been billed (admin only)
+   */
+  static async deletePurchaseOrder(id: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/purchase-orders/${id}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to delete purchase order');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting purchase order:', error);
+      throw error;
+    }
+  }
+}
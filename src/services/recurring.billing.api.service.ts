@@ -0,0 +1,216 @@
+/**
+ * Recurring Billing API Service
+ * Handles all API calls related to recurring billing schedules
+ */
+
+import { AuthService } from './auth.service';
+import { PaymentTerms, VatMode, VatType, WithholdingRate } from '../types/billing.types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export type RecurringFrequency = 'Monthly' | 'Quarterly';
+
+export interface RecurringBillingItemData {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  catalogItemId?: string;
+  vatType?: VatType;
+}
+
+export interface RecurringBillingRunData {
+  _id: string;
+  scheduledFor: string;
+  status: 'Running' | 'Created' | 'Failed';
+  attempts: number;
+  billingId?: string;
+  billingNumber?: string;
+  error?: string;
+  warnings?: string[];
+  finishedAt?: string;
+}
+
+export interface RecurringBillingData {
+  _id?: string;
+  name: string;
+  clientId: string;
+  companyName?: string;
+  items: RecurringBillingItemData[];
+  discount: number;
+  vatMode: VatMode;
+  withholdingRate: WithholdingRate;
+  paymentTerms: PaymentTerms;
+  customTermDays?: number;
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string;
+  autoSend: boolean;
+  isActive?: boolean;
+  occurrence?: number;
+  nextRunDate?: string;
+  lastRunAt?: string;
+  runs?: RecurringBillingRunData[];
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class RecurringBillingApiService {
+  /**
+   * Get recurring billings
+   */
+  static async getRecurringBillings(): Promise<ApiResponse<RecurringBillingData[]>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch recurring billings');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching recurring billings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a recurring billing with its recent runs
+   */
+  static async getRecurringBilling(id: string): Promise<ApiResponse<RecurringBillingData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings/${id}`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch recurring billing');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching recurring billing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a recurring billing
+   */
+  static async createRecurringBilling(schedule: RecurringBillingData): Promise<ApiResponse<RecurringBillingData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(schedule),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to create recurring billing');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error creating recurring billing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a recurring billing, or pause/resume it
+   */
+  static async updateRecurringBilling(id: string, updates: Partial<RecurringBillingData>): Promise<ApiResponse<RecurringBillingData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to update recurring billing');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error updating recurring billing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a recurring billing (billings it created are kept)
+   */
+  static async deleteRecurringBilling(id: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings/${id}`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to delete recurring billing');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error deleting recurring billing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bill every due period now (admin only)
+   */
+  static async runDue(): Promise<ApiResponse<{ created: number }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/recurring-billings/run-due`, {
+        method: 'POST',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to run recurring billings');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error running recurring billings:', error);
+      throw error;
+    }
+  }
+}
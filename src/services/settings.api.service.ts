@@ -0,0 +1,174 @@
+/**
+ * Settings API Service
+ * Handles all API calls related to the company profile printed on PDFs and emails
+ */
+
+import { AuthService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Fields an admin can edit (the logo is uploaded separately)
+ */
+export interface CompanySettingsForm {
+  companyName: string;
+  /** One line per printed line */
+  address: string;
+  tin: string;
+  phone: string;
+  email: string;
+  bankName: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  /** Payment terms, one per line */
+  paymentNotes: string;
+  footerText: string;
+}
+
+export interface CompanySettingsData extends CompanySettingsForm {
+  hasLogo: boolean;
+  logoMimeType?: string;
+  updatedAt?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: string[];
+  error?: string;
+}
+
+export class SettingsApiService {
+  /**
+   * Get the company profile
+   */
+  static async getCompanySettings(): Promise<ApiResponse<CompanySettingsData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/company`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch company settings');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching company settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the company profile (admin only)
+   */
+  static async updateCompanySettings(settings: Partial<CompanySettingsForm>): Promise<ApiResponse<CompanySettingsData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/company`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...AuthService.getAuthHeader()
+        },
+        body: JSON.stringify(settings),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || data.message || 'Failed to save company settings');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error saving company settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the company logo as an image blob
+   * @returns The image, or null if no logo is uploaded
+   */
+  static async getCompanyLogo(): Promise<Blob | null> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/company/logo`, {
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch company logo');
+      }
+
+      return await response.blob();
+    } catch (error: any) {
+      console.error('Error fetching company logo:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload or replace the company logo (admin only)
+   * @param file - PNG or JPEG image
+   */
+  static async uploadCompanyLogo(file: File): Promise<ApiResponse<CompanySettingsData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/company/logo`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': file.type,
+          ...AuthService.getAuthHeader()
+        },
+        body: file,
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(
+          data.error || data.message || (response.status === 413 ? 'Logo file is too large' : 'Failed to upload company logo')
+        );
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error uploading company logo:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the company logo (admin only)
+   */
+  static async deleteCompanyLogo(): Promise<ApiResponse<CompanySettingsData>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/settings/company/logo`, {
+        method: 'DELETE',
+        headers: {
+          ...AuthService.getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to remove company logo');
+      }
+
+      return data;
+    } catch (error: any) {
+      console.error('Error removing company logo:', error);
+      throw error;
+    }
+  }
+}
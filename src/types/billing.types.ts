@@ -5,13 +5,113 @@
 /**
  * Billing Status Types
  */
-export type BillingStatus = 'Draft' | 'Generated' | 'Emailed';
+export type BillingStatus = 'Draft' | 'Generated' | 'Emailed' | 'Void';
 
 /**
  * Email Status Types
  */
 export type EmailStatus = 'Not Sent' | 'Sent' | 'Failed' | 'Pending';
 
+/**
+ * Payment Status Types
+ */
+export type PaymentStatus = 'Unpaid' | 'Partially Paid' | 'Paid';
+
+/**
+ * Payment Reminder Status Types
+ */
+export type ReminderStatus = 'Sent' | 'Failed';
+
+/**
+ * When payment reminders are emailed for a client's unpaid billings
+ * Days are counted from the billing's due date.
+ */
+export interface ReminderPolicy {
+  enabled: boolean;
+  /** Remind this many days before the due date, e.g. [3] */
+  daysBeforeDue: number[];
+  /** Remind on the due date itself */
+  onDueDate: boolean;
+  /** Once overdue, remind every this many days; 0 for no overdue reminders */
+  repeatEveryDays: number;
+  /** Most overdue reminders to send; 0 for no limit */
+  maxOverdueReminders: number;
+}
+
+/**
+ * A payment reminder emailed for a billing
+ */
+export interface BillingReminder {
+  /** Step of the reminder policy, in days from the due date (negative before it) */
+  offsetDays: number;
+  recipientEmail: string;
+  status: ReminderStatus;
+  /** Why the reminder could not be sent */
+  error?: string;
+  sentAt: Date;
+}
+
+/**
+ * Payment Terms Types
+ * COD is due on the billing date; Custom uses customTermDays
+ */
+export type PaymentTerms = 'COD' | 'Net 15' | 'Net 30' | 'Net 60' | 'Custom';
+
+export const PAYMENT_TERMS: PaymentTerms[] = ['COD', 'Net 15', 'Net 30', 'Net 60', 'Custom'];
+
+/**
+ * VAT Mode Types
+ * Inclusive extracts VAT from the price, Exclusive adds VAT on top,
+ * None bills without VAT
+ */
+export type VatMode = 'None' | 'Inclusive' | 'Exclusive';
+
+export const VAT_MODES: VatMode[] = ['None', 'Inclusive', 'Exclusive'];
+
+/**
+ * VAT treatment of a single line item
+ */
+export type VatType = 'Vatable' | 'Exempt' | 'Zero-Rated';
+
+export const VAT_TYPES: VatType[] = ['Vatable', 'Exempt', 'Zero-Rated'];
+
+/** Philippine VAT rate */
+export const VAT_RATE = 0.12;
+
+/**
+ * Creditable withholding tax rate in percent
+ * (1% for goods, 2% for services)
+ */
+export type WithholdingRate = 0 | 1 | 2;
+
+export const WITHHOLDING_RATES: WithholdingRate[] = [0, 1, 2];
+
+/**
+ * VAT and withholding breakdown of a billing (after discount)
+ */
+export interface TaxBreakdown {
+  /** Vatable sales, net of VAT */
+  vatableSales: number;
+  
+  /** VAT-exempt sales */
+  vatExemptSales: number;
+  
+  /** Zero-rated sales */
+  zeroRatedSales: number;
+  
+  /** Total sales net of VAT (also covers sales billed without VAT) */
+  netSales: number;
+  
+  /** Output VAT */
+  vatAmount: number;
+  
+  /** Total sales including VAT (netSales + vatAmount) */
+  totalSales: number;
+  
+  /** Creditable withholding tax deducted by the client */
+  withholdingTax: number;
+}
+
 /**
  * Billing Item Interface
  * Represents a single line item in the billing
@@ -31,6 +131,21 @@ export interface BillingItem {
   
   /** Calculated line total (quantity × unitPrice) */
   lineTotal: number;
+  
+  /** Catalog item the line was picked from (description and price are a snapshot) */
+  catalogItemId?: string;
+  
+  /** VAT treatment of the line (defaults to Vatable) */
+  vatType?: VatType;
+  
+  /** Delivery receipt the line was billed from */
+  deliveryReceiptNumber?: string;
+  
+  /** Client purchase order the line is billed against */
+  purchaseOrderId?: string;
+  
+  /** Line on the purchase order */
+  purchaseOrderLineId?: string;
 }
 
 /**
@@ -50,6 +165,12 @@ export interface Billing {
   /** Optional delivery receipt number */
   deliveryReceiptNumber?: string;
   
+  /** Delivery receipts billed on this billing */
+  deliveryReceiptIds?: string[];
+  
+  /** Linked client master record (company details below are a snapshot) */
+  clientId?: string;
+  
   /** Client company name */
   companyName: string;
   
@@ -74,14 +195,56 @@ export interface Billing {
   /** Discount amount applied */
   discount: number;
   
-  /** Final amount after discount (subtotal - discount) */
+  /** Whether VAT is included in, added to or left out of the prices */
+  vatMode: VatMode;
+  
+  /** Creditable withholding tax rate in percent */
+  withholdingRate: WithholdingRate;
+  
+  /** VAT and withholding breakdown */
+  taxBreakdown: TaxBreakdown;
+  
+  /** Amount due after discount, VAT and withholding */
   grandTotal: number;
   
+  /** Agreed payment terms */
+  paymentTerms: PaymentTerms;
+  
+  /** Number of days to pay when paymentTerms is 'Custom' */
+  customTermDays?: number;
+  
+  /** Date payment is due (billingDate + term days) */
+  dueDate: Date;
+  
   /** Current status of the billing */
   status: BillingStatus;
   
-  /** File path to the generated PDF (if generated) */
-  generatedFilePath?: string;
+  /** Sum of all recorded payments */
+  amountPaid: number;
+  
+  /** Sum of all credit memos issued against the billing */
+  amountCredited?: number;
+  
+  /** Amount still owed (grandTotal - amountPaid - amountCredited) */
+  balanceDue: number;
+  
+  /** Payment status derived from the amounts paid, credited and billed */
+  paymentStatus: PaymentStatus;
+  
+  /** Why the billing was voided */
+  voidReason?: string;
+  
+  /** User who voided the billing */
+  voidedBy?: string;
+  
+  /** Timestamp when the billing was voided */
+  voidedAt?: Date;
+  
+  /** Number of revisions made after the billing was emailed (0 = original) */
+  revision?: number;
+  
+  /** Key of the generated PDF in PDF storage (if generated) */
+  pdfStorageKey?: string;
   
   /** Email delivery status */
   emailStatus: EmailStatus;
@@ -92,6 +255,18 @@ export interface Billing {
   /** Timestamp when email was sent */
   emailSentAt?: Date;
   
+  /** Payment reminders emailed for the billing, oldest first */
+  reminders?: BillingReminder[];
+  
+  /** Whether an admin has paused payment reminders */
+  remindersPaused?: boolean;
+  
+  /** Admin who paused payment reminders */
+  remindersPausedBy?: string;
+  
+  /** Timestamp when payment reminders were paused */
+  remindersPausedAt?: Date;
+  
   /** Timestamp when the document was created */
   createdAt: Date;
   
@@ -112,6 +287,9 @@ export interface Billing {
 export interface CreateBillingDTO {
   billingDate: string;
   deliveryReceiptNumber?: string;
+  /** Bill these delivery receipts; their lines and client details fill in anything omitted */
+  deliveryReceiptIds?: string[];
+  clientId?: string;
   companyName: string;
   address: string;
   contactNumber: string;
@@ -119,6 +297,10 @@ export interface CreateBillingDTO {
   clientEmail?: string;
   items: BillingItem[];
   discount: number;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
+  paymentTerms?: PaymentTerms;
+  customTermDays?: number;
 }
 
 /**
@@ -128,6 +310,7 @@ export interface CreateBillingDTO {
 export interface UpdateBillingDTO {
   billingDate?: string;
   deliveryReceiptNumber?: string;
+  clientId?: string;
   companyName?: string;
   address?: string;
   contactNumber?: string;
@@ -135,9 +318,12 @@ export interface UpdateBillingDTO {
   clientEmail?: string;
   items?: BillingItem[];
   discount?: number;
-  status?: BillingStatus;
-  emailStatus?: EmailStatus;
-  generatedFilePath?: string;
+  vatMode?: VatMode;
+  withholdingRate?: WithholdingRate;
+  paymentTerms?: PaymentTerms;
+  customTermDays?: number;
+  /** Required to edit a billing that has already been emailed */
+  revise?: boolean;
 }
 
 /**
@@ -205,6 +391,7 @@ export const BillingSchema = {
   billingNumber: { type: String, required: true, unique: true, index: true },
   billingDate: { type: Date, required: true, index: true },
   deliveryReceiptNumber: { type: String, default: null },
+  deliveryReceiptIds: { type: [String], default: null },
   companyName: { type: String, required: true, index: true },
   address: { type: String, required: true },
   contactNumber: { type: String, required: true },
@@ -221,11 +408,12 @@ export const BillingSchema = {
   grandTotal: { type: Number, required: true, min: 0 },
   status: { 
     type: String, 
-    enum: ['Draft', 'Generated', 'Emailed'], 
+    enum: ['Draft', 'Generated', 'Emailed', 'Void'], 
     default: 'Draft',
     index: true
   },
-  generatedFilePath: { type: String, default: null },
+  revision: { type: Number, default: 0, min: 0 },
+  pdfStorageKey: { type: String, default: null },
   emailStatus: { 
     type: String, 
     enum: ['Not Sent', 'Sent', 'Failed', 'Pending'], 
@@ -256,13 +444,166 @@ export function calculateSubtotal(items: BillingItem[]): number {
 }
 
 /**
- * Helper function to calculate grand total
+ * Helper function to calculate the VAT and withholding breakdown
+ * The discount is spread over the lines in proportion to their amounts.
+ * Withholding is computed on sales net of VAT.
+ */
+export function calculateTaxBreakdown(
+  items: Array<Pick<BillingItem, 'quantity' | 'unitPrice' | 'vatType'>>,
+  discount: number,
+  vatMode: VatMode,
+  withholdingRate: WithholdingRate
+): TaxBreakdown {
+  const round = (amount: number) => Number(amount.toFixed(2));
+
+  const gross = { Vatable: 0, Exempt: 0, 'Zero-Rated': 0 } as Record<VatType, number>;
+  items.forEach(item => {
+    gross[item.vatType || 'Vatable'] += calculateLineTotal(item.quantity, item.unitPrice);
+  });
+
+  const subtotal = gross.Vatable + gross.Exempt + gross['Zero-Rated'];
+  const factor = subtotal > 0 ? Math.max(0, subtotal - discount) / subtotal : 0;
+
+  let vatableSales = 0;
+  let vatExemptSales = 0;
+  let zeroRatedSales = 0;
+  let netSales: number;
+  let vatAmount = 0;
+
+  if (vatMode === 'None') {
+    netSales = round(subtotal * factor);
+  } else {
+    const vatableAmount = round(gross.Vatable * factor);
+    vatExemptSales = round(gross.Exempt * factor);
+    zeroRatedSales = round(gross['Zero-Rated'] * factor);
+
+    if (vatMode === 'Inclusive') {
+      vatableSales = round(vatableAmount / (1 + VAT_RATE));
+      vatAmount = round(vatableAmount - vatableSales);
+    } else {
+      vatableSales = vatableAmount;
+      vatAmount = round(vatableAmount * VAT_RATE);
+    }
+
+    netSales = round(vatableSales + vatExemptSales + zeroRatedSales);
+  }
+
+  return {
+    vatableSales,
+    vatExemptSales,
+    zeroRatedSales,
+    netSales,
+    vatAmount,
+    totalSales: round(netSales + vatAmount),
+    withholdingTax: round(netSales * withholdingRate / 100)
+  };
+}
+
+/**
+ * Helper function to calculate grand total (amount due after VAT and withholding)
  */
-export function calculateGrandTotal(subtotal: number, discount: number): number {
-  const total = Math.max(0, subtotal - discount);
+export function calculateGrandTotal(taxBreakdown: TaxBreakdown): number {
+  const total = Math.max(0, taxBreakdown.totalSales - taxBreakdown.withholdingTax);
   return Number(total.toFixed(2));
 }
 
+/**
+ * Helper function to describe the VAT mode for display
+ */
+export function formatVatMode(vatMode: VatMode): string {
+  switch (vatMode) {
+    case 'Inclusive':
+      return 'VAT Inclusive';
+    case 'Exclusive':
+      return 'VAT Exclusive';
+    default:
+      return 'Non-VAT';
+  }
+}
+
+/**
+ * Helper function to get the number of days allowed by payment terms
+ */
+export function getPaymentTermDays(paymentTerms: PaymentTerms, customTermDays?: number): number {
+  switch (paymentTerms) {
+    case 'Net 15':
+      return 15;
+    case 'Net 30':
+      return 30;
+    case 'Net 60':
+      return 60;
+    case 'Custom':
+      return customTermDays || 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Helper function to calculate the due date from the billing date and terms
+ */
+export function calculateDueDate(billingDate: Date | string, paymentTerms: PaymentTerms, customTermDays?: number): Date {
+  const dueDate = new Date(billingDate);
+  dueDate.setDate(dueDate.getDate() + getPaymentTermDays(paymentTerms, customTermDays));
+  return dueDate;
+}
+
+/**
+ * Helper function to describe payment terms for display (e.g. "Net 45")
+ */
+export function formatPaymentTerms(paymentTerms: PaymentTerms, customTermDays?: number): string {
+  if (paymentTerms === 'Custom') {
+    return customTermDays ? `Net ${customTermDays}` : 'COD';
+  }
+  return paymentTerms;
+}
+
+/**
+ * Helper function to describe a reminder's place relative to the due date
+ * (e.g. "3 days before due", "On the due date", "7 days overdue")
+ */
+export function formatReminderOffset(offsetDays: number): string {
+  if (offsetDays === 0) return 'On the due date';
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before due' : 'overdue'}`;
+}
+
+/**
+ * Helper function to summarize a reminder policy
+ * (e.g. "3 days before due, on the due date, then every 7 days overdue")
+ */
+export function formatReminderPolicy(policy: ReminderPolicy): string {
+  if (!policy.enabled) return 'Off';
+
+  const parts = [...policy.daysBeforeDue]
+    .sort((a, b) => b - a)
+    .map(days => `${days} day${days === 1 ? '' : 's'} before due`);
+  if (policy.onDueDate) parts.push('on the due date');
+  if (policy.repeatEveryDays > 0) {
+    parts.push(`then every ${policy.repeatEveryDays} day${policy.repeatEveryDays === 1 ? '' : 's'} overdue` +
+      (policy.maxOverdueReminders ? ` (up to ${policy.maxOverdueReminders} times)` : ''));
+  }
+
+  return parts.length > 0 ? parts.join(', ') : 'No reminders scheduled';
+}
+
+/**
+ * Helper function to derive the payment status of a billing
+ * @param grandTotal - Amount billed
+ * @param amountPaid - Sum of payments
+ * @param amountCredited - Sum of credit memos (settles the balance like a payment)
+ */
+export function calculatePaymentStatus(grandTotal: number, amountPaid: number, amountCredited = 0): PaymentStatus {
+  const amountDue = grandTotal - amountCredited;
+  if (amountDue <= 0) {
+    return 'Paid';
+  }
+  if (amountPaid <= 0) {
+    return 'Unpaid';
+  }
+  return amountPaid >= amountDue ? 'Paid' : 'Partially Paid';
+}
+
 /**
  * Helper function to create a billing item
  */